@@ -11,16 +11,45 @@ import {
 } from "../../helper/query-builder";
 import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
 import { groupDataByField } from "../../helper/dataGrouping";
-import { buildErrorResponse, formatZodErrors } from "../../helper/error-handler";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
 import { CreateCartItemSchema, UpdateCartItemSchema } from "../../zod/cartItem.zod";
 import { logActivity } from "../../utils/activityLogger";
 import { logAudit } from "../../utils/auditLogger";
 import { config } from "../../config/constant";
 import { redisClient } from "../../config/redis";
 import { invalidateCache } from "../../middleware/cache";
-import { generateInstallments } from "../../helper/installmentService";
+import {
+	currentScheduleAnchor,
+	startInstallmentScheduleIfDue,
+} from "../../helper/installmentScheduleService";
 import { createTransactionForOrder } from "../../helper/transactionService";
 import { createApprovalChain } from "../../helper/approvalService";
+import { queueBackorders, reserveStockOrBackorder } from "../../helper/backorderService";
+import { nextDocumentNumber } from "../../helper/numberingService";
+import { assertCreditCapacity } from "../../helper/creditService";
+import { resolveEmployeePayrollCalendar } from "../../helper/payrollCalendarService";
+import { financingOrderFields, quoteFinancing } from "../../helper/financingService";
+import { computeOrderTax } from "../../helper/taxService";
+import {
+	AppliedPromotion,
+	evaluatePromotion,
+	redeemPromotion,
+} from "../../helper/promotionService";
+import { redeemPoints } from "../../helper/pointsService";
+import {
+	buildPaymentSplit,
+	countSplitLedgers,
+	createSplitPaymentLedgers,
+	OrderTender,
+} from "../../helper/paymentSplitService";
+import { TendersSchema } from "../../zod/order.zod";
+import {
+	getEmployeeUnitPrice,
+	isOrderable,
+	reviewCart,
+	reviewCartLine,
+	summarizeCartReview,
+} from "../../helper/cartPricingService";
 import { z } from "zod";
 
 const logger = getLogger();
@@ -87,7 +116,27 @@ export const controller = (prisma: PrismaClient) => {
 		}
 
 		try {
-			const cartItem = await prisma.cartItem.create({ data: validation.data as any });
+			const product = await prisma.product.findUnique({
+				where: { id: validation.data.productId },
+			});
+
+			if (!product) {
+				cartItemLogger.error(
+					`${config.ERROR.PRODUCTS.NOT_FOUND}: ${validation.data.productId}`,
+				);
+				const errorResponse = buildErrorResponse(config.ERROR.PRODUCTS.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			// Snapshot the price the employee saw so later changes can be surfaced
+			const cartItem = await prisma.cartItem.create({
+				data: {
+					...validation.data,
+					unitPriceSnapshot: getEmployeeUnitPrice(product),
+					priceSnapshotAt: new Date(),
+				} as any,
+			});
 			cartItemLogger.info(`CartItem created successfully: ${cartItem.id}`);
 
 			logActivity(req, {
@@ -198,8 +247,37 @@ export const controller = (prisma: PrismaClient) => {
 			]);
 
 			cartItemLogger.info(`Retrieved ${cartItems.length} cartItems`);
+
+			// Attach live price and availability to each item so the client can show drift
+			let pricedCartItems: any[] = cartItems;
+			const reviewable = (cartItems as any[]).filter(
+				(item) => item.id && item.productId && item.quantity !== undefined,
+			);
+			if (reviewable.length > 0) {
+				const review = await reviewCart(prisma, reviewable);
+				const reviewById = new Map(review.lines.map((line) => [line.cartItemId, line]));
+				pricedCartItems = (cartItems as any[]).map((item) => {
+					const line = reviewById.get(item.id);
+					return line
+						? {
+								...item,
+								pricing: {
+									currentUnitPrice: line.currentUnitPrice,
+									snapshotUnitPrice: line.snapshotUnitPrice,
+									priceChanged: line.priceChanged,
+									priceDelta: line.priceDelta,
+									availability: line.availability,
+									availableQuantity: line.availableQuantity,
+								},
+							}
+						: item;
+				});
+			}
+
 			const processedData =
-				groupBy && document ? groupDataByField(cartItems, groupBy as string) : cartItems;
+				groupBy && document
+					? groupDataByField(pricedCartItems, groupBy as string)
+					: pricedCartItems;
 
 			const responseData: Record<string, any> = {
 				...(document && { cartItems: processedData }),
@@ -364,7 +442,26 @@ export const controller = (prisma: PrismaClient) => {
 				return;
 			}
 
-			const prismaData = { ...validatedData };
+			const prismaData: Prisma.CartItemUpdateInput = { ...validatedData };
+
+			// Switching product re-snapshots the price
+			if (validatedData.productId && validatedData.productId !== existingCartItem.productId) {
+				const product = await prisma.product.findUnique({
+					where: { id: validatedData.productId },
+				});
+
+				if (!product) {
+					cartItemLogger.error(
+						`${config.ERROR.PRODUCTS.NOT_FOUND}: ${validatedData.productId}`,
+					);
+					const errorResponse = buildErrorResponse(config.ERROR.PRODUCTS.NOT_FOUND, 404);
+					res.status(404).json(errorResponse);
+					return;
+				}
+
+				prismaData.unitPriceSnapshot = getEmployeeUnitPrice(product);
+				prismaData.priceSnapshotAt = new Date();
+			}
 
 			const updatedCartItem = await prisma.cartItem.update({
 				where: { id },
@@ -486,10 +583,15 @@ export const controller = (prisma: PrismaClient) => {
 					"OTHER",
 				])
 				.default("PAYROLL_DEDUCTION"),
-			discount: z.number().min(0).default(0),
-			tax: z.number().min(0).default(0),
+			// Discounts only come from a valid coupon, worked out server-side
+			couponCode: z.string().trim().min(1).optional().nullable(),
 			pointsUsed: z.number().min(0).optional().nullable(),
+			// Required for MIXED: how the amount due is split across points, cash and
+			// installments
+			tenders: TendersSchema.optional(),
 			notes: z.string().optional().nullable(),
+			// Subtotal the client accepted after being told prices or availability changed
+			confirmedSubtotal: z.number().min(0).optional(),
 		});
 
 		const validation = CheckoutSchema.safeParse(requestData);
@@ -506,10 +608,11 @@ export const controller = (prisma: PrismaClient) => {
 			paymentType,
 			installmentMonths,
 			paymentMethod,
-			discount,
-			tax,
+			couponCode,
 			pointsUsed,
+			tenders,
 			notes,
+			confirmedSubtotal,
 		} = validation.data;
 
 		// Validate installment months if payment type is INSTALLMENT
@@ -524,6 +627,20 @@ export const controller = (prisma: PrismaClient) => {
 			return;
 		}
 
+		// MIXED payments are described by their tenders; points go in a POINTS tender
+		if ((paymentType === "MIXED") !== Boolean(tenders) || (tenders && pointsUsed)) {
+			cartItemLogger.error(`Invalid tenders for ${paymentType} payment type`);
+			const errorResponse = buildErrorResponse(
+				paymentType === "MIXED"
+					? "tenders is required when paymentType is MIXED, and replaces pointsUsed"
+					: "tenders is only accepted when paymentType is MIXED",
+				400,
+				[{ field: "tenders", message: "Tenders must be given for MIXED payments only" }],
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
 		try {
 			// Get all cart items for the employee (without product relation to avoid null errors)
 			const allCartItems = await prisma.cartItem.findMany({
@@ -606,30 +723,27 @@ export const controller = (prisma: PrismaClient) => {
 				return;
 			}
 
-			// Calculate order totals
-			let subtotal = 0;
+			// Compare the cart against live prices, availability and stock
+			const cartReview = summarizeCartReview(
+				validCartItems.map(({ cartItem, product }) => reviewCartLine(cartItem, product)),
+			);
+
 			const orderItemsData: any[] = [];
 
-			for (const { cartItem, product } of validCartItems) {
-				// Check if product is available and approved
-				if (product.status !== "APPROVED" || !product.isAvailable || !product.isActive) {
+			for (const line of cartReview.lines) {
+				if (!isOrderable(line)) {
 					cartItemLogger.warn(
-						`Product ${product.id} is not available for checkout (status: ${product.status}, isAvailable: ${product.isAvailable}, isActive: ${product.isActive})`,
+						`Cart item ${line.cartItemId} (product ${line.productId}) is not available for checkout: ${line.availability}`,
 					);
 					continue;
 				}
 
-				// Use employeePrice if available, otherwise retailPrice
-				const unitPrice = product.employeePrice || product.retailPrice;
-				const itemSubtotal = unitPrice * cartItem.quantity;
-				subtotal += itemSubtotal;
-
 				orderItemsData.push({
-					productId: product.id,
-					quantity: cartItem.quantity,
-					unitPrice: unitPrice,
+					productId: line.productId,
+					quantity: line.quantity,
+					unitPrice: line.currentUnitPrice,
 					discount: 0,
-					subtotal: itemSubtotal,
+					subtotal: line.currentUnitPrice * line.quantity,
 				});
 			}
 
@@ -647,13 +761,65 @@ export const controller = (prisma: PrismaClient) => {
 							message: "No available products in cart for checkout",
 						},
 					],
+					{ cartReview },
 				);
 				res.status(400).json(errorResponse);
 				return;
 			}
 
+			// Prices moved or items dropped out since they were added: the client has to
+			// confirm the new subtotal before the order is placed
+			const hasCartDrift = cartReview.hasPriceChanges || cartReview.hasUnavailableItems;
+			if (
+				hasCartDrift &&
+				(confirmedSubtotal === undefined ||
+					Math.abs(confirmedSubtotal - cartReview.currentSubtotal) > 0.005)
+			) {
+				cartItemLogger.warn(
+					`Checkout for employee ${employeeId} needs confirmation: subtotal ${cartReview.snapshotSubtotal} → ${cartReview.currentSubtotal}`,
+				);
+				const errorResponse = buildErrorResponse(
+					"Cart prices or availability changed. Review the cart and confirm the new subtotal to continue.",
+					409,
+					cartReview.lines
+						.filter((line) => !isOrderable(line) || line.priceChanged)
+						.map((line) => ({
+							field: `cart.${line.cartItemId}`,
+							message: !isOrderable(line)
+								? `${line.productName || line.productId} is ${line.availability.toLowerCase().replace(/_/g, " ")}`
+								: `${line.productName || line.productId} price changed from ${line.snapshotUnitPrice} to ${line.currentUnitPrice}`,
+						})),
+					{ cartReview },
+				);
+				res.status(409).json(errorResponse);
+				return;
+			}
+
+			// The coupon's discount is spread over the lines it applies to
+			let appliedPromotion: AppliedPromotion | null = null;
+			if (couponCode) {
+				appliedPromotion = await evaluatePromotion(prisma, {
+					code: couponCode,
+					employeeId,
+					lines: orderItemsData,
+				});
+				appliedPromotion.lineDiscounts.forEach((lineDiscount, index) => {
+					orderItemsData[index].discount = lineDiscount;
+				});
+			}
+
+			// Tax is always computed here from the products' tax classes
+			const orderTax = await computeOrderTax(prisma, orderItemsData);
+			const { subtotal, tax, taxBreakdown, pricesIncludeTax } = orderTax;
+
 			// No shipping cost for company internal delivery
-			const total = subtotal - discount + tax - (pointsUsed || 0);
+			// A MIXED payment names every part of the amount due; points reduce what is owed
+			const paymentSplit =
+				paymentType === "MIXED" && tenders
+					? buildPaymentSplit(tenders, orderTax.total)
+					: null;
+			const pointsToRedeem = paymentSplit ? paymentSplit.points : pointsUsed || 0;
+			const total = Number((orderTax.total - pointsToRedeem).toFixed(2));
 
 			if (total <= 0) {
 				cartItemLogger.error(`Invalid order total: ${total}`);
@@ -664,86 +830,188 @@ export const controller = (prisma: PrismaClient) => {
 				return;
 			}
 
-			// Generate order number
-			const orderNumber = `ORDER-${Date.now()}-${Math.random().toString(36).substring(2, 9).toUpperCase()}`;
-
-			// Create order (no shipping for company internal delivery)
-			const order = await prisma.order.create({
-				data: {
-					orderNumber,
-					employeeId,
-					subtotal,
-					discount,
-					tax,
-					total,
-					paymentType,
-					installmentMonths: paymentType === "INSTALLMENT" ? installmentMonths : null,
-					paymentMethod,
-					pointsUsed: pointsUsed || null,
-					notes: notes || null,
-					orderDate: new Date(),
-					items: {
-						create: orderItemsData,
-					},
-				} as any,
-			});
-
-			cartItemLogger.info(`Order created successfully from cart: ${order.id}`);
-
-			// Create transaction ledger for the order
-			let transaction = null;
-			try {
-				transaction = await createTransactionForOrder(
-					prisma,
-					order.id,
-					order.employeeId,
-					order.total,
-					order.paymentType,
-					order.paymentMethod,
-				);
-				cartItemLogger.info(`Transaction ledger created for order ${order.id}`);
-			} catch (transactionError) {
-				cartItemLogger.error(
-					`Failed to create transaction for order ${order.id}:`,
-					transactionError,
-				);
+			// Issue document numbers up front so the checkout transaction does not contend
+			// on the shared counters
+			const orderNumber = await nextDocumentNumber(prisma, "ORDER");
+			const transactionNumbers: string[] = [];
+			const ledgerCount = paymentSplit ? countSplitLedgers(paymentSplit) : 1;
+			for (let i = 0; i < ledgerCount; i++) {
+				transactionNumbers.push(await nextDocumentNumber(prisma, "TRANSACTION"));
 			}
-
-			// Automatically generate installments if payment type is INSTALLMENT
-			let generatedInstallments = null;
-			if (order.paymentType === "INSTALLMENT" && order.installmentMonths) {
-				try {
-					cartItemLogger.info(
-						`Generating installments for order ${order.id}: ${order.installmentMonths} months`,
+			const orderDate = new Date();
+
+			// Lines that could not be ordered stay in the cart
+			const cartItemIdsToDelete = cartReview.lines
+				.filter(isOrderable)
+				.map((line) => line.cartItemId);
+
+			// Reserve stock, create the order, ledger and installments and clear the cart as
+			// one unit: if any step fails everything is rolled back, including stock.
+			const {
+				order,
+				transaction,
+				generatedInstallments,
+				tenders: orderTenders,
+				backorders,
+				financing,
+			} = await prisma.$transaction(
+				async (tx) => {
+					// Deductions follow the payroll calendar of the employee's organization
+					const payrollCalendar = await resolveEmployeePayrollCalendar(tx, employeeId);
+
+					// The financing tier for the term fixes the interest on the financed part
+					const financedMonths = paymentSplit
+						? paymentSplit.installmentMonths
+						: paymentType === "INSTALLMENT"
+							? installmentMonths
+							: null;
+					const financedPrincipal = paymentSplit ? paymentSplit.financed : total;
+					const financing =
+						financedMonths && financedPrincipal > 0
+							? await quoteFinancing(tx, {
+									installmentMonths: financedMonths,
+									principal: financedPrincipal,
+									productIds: orderItemsData.map((item) => item.productId),
+									calendar: payrollCalendar,
+								})
+							: null;
+					const financeCharge = financing?.financeCharge || 0;
+
+					// Checked inside the unit of work so it sees the employee's latest orders
+					await assertCreditCapacity(
+						tx,
+						{ employeeId },
+						{
+							total: Number((total + financeCharge).toFixed(2)),
+							paymentType,
+							installmentMonths: financedMonths,
+							financedAmount: financedPrincipal,
+							startDate: orderDate,
+							payrollCalendarId: payrollCalendar.id,
+							financing: financeCharge > 0 ? financing : null,
+						},
 					);
 
-					generatedInstallments = await generateInstallments(
-						prisma,
-						order.id,
-						order.installmentMonths,
-						order.total,
-						order.orderDate || new Date(),
+					// Lines of backorderable products that stock cannot cover wait in the queue
+					const backorders = await reserveStockOrBackorder(
+						tx,
+						orderItemsData.map((item) => ({
+							productId: item.productId,
+							quantity: item.quantity,
+						})),
 					);
 
-					// Update order with installment details
-					await prisma.order.update({
-						where: { id: order.id },
+					// Create order (no shipping for company internal delivery)
+					const order = await tx.order.create({
 						data: {
-							installmentCount: generatedInstallments.length,
-							installmentAmount: generatedInstallments[0]?.amount || 0,
-						},
+							orderNumber,
+							employeeId,
+							subtotal,
+							discount: orderTax.discount,
+							tax,
+							taxBreakdown,
+							pricesIncludeTax,
+							couponCode: appliedPromotion?.code || null,
+							promotionId: appliedPromotion?.promotionId || null,
+							total,
+							paymentType,
+							installmentMonths:
+								paymentType === "INSTALLMENT"
+									? installmentMonths
+									: paymentSplit?.installmentMonths || null,
+							paymentMethod: paymentSplit ? "MIXED" : paymentMethod,
+							pointsUsed: pointsToRedeem || null,
+							notes: notes || null,
+							orderDate,
+							awaitingStock: backorders.length > 0,
+							scheduleAnchor: currentScheduleAnchor(),
+							payrollCalendarId: payrollCalendar.id,
+							...financingOrderFields(financing),
+							items: {
+								create: orderTax.lines,
+							},
+						} as any,
 					});
+					await queueBackorders(tx, order, backorders);
 
-					cartItemLogger.info(
-						`Successfully generated ${generatedInstallments.length} installments for order ${order.id}`,
-					);
-				} catch (installmentError) {
-					cartItemLogger.error(
-						`Failed to generate installments for order ${order.id}:`,
-						installmentError,
-					);
-				}
-			}
+					if (appliedPromotion) {
+						await redeemPromotion(tx, appliedPromotion, {
+							orderId: order.id,
+							employeeId,
+						});
+					}
+
+					// Points are debited in the same unit of work, so a short wallet rolls
+					// the whole order back
+					let transaction: Awaited<ReturnType<typeof createTransactionForOrder>>;
+					let paymentTenders: OrderTender[] | null = null;
+
+					if (paymentSplit) {
+						const split = await createSplitPaymentLedgers(
+							tx,
+							order,
+							paymentSplit,
+							transactionNumbers,
+						);
+						transaction = split.primaryLedger!;
+						paymentTenders = split.tenders;
+					} else {
+						transaction = await createTransactionForOrder(
+							tx,
+							order.id,
+							order.employeeId,
+							order.total,
+							order.paymentType,
+							order.paymentMethod,
+							transactionNumbers[0],
+							financeCharge,
+						);
+
+						if (pointsUsed && pointsUsed > 0) {
+							const redemption = await redeemPoints(tx, {
+								employeeId,
+								points: pointsUsed,
+								orderId: order.id,
+							});
+							transaction = await tx.transaction.update({
+								where: { id: transaction.id },
+								data: { pointsUsed, pointsTransactionId: redemption.id },
+							});
+						}
+					}
+
+					// Installments start now only when anchored on the order date and nothing is
+					// backordered; otherwise approval, stock allocation or delivery starts them
+					const generatedInstallments = await startInstallmentScheduleIfDue(tx, order.id);
+
+					if (cartItemIdsToDelete.length > 0) {
+						await tx.cartItem.deleteMany({
+							where: {
+								id: { in: cartItemIdsToDelete },
+							},
+						});
+					}
+
+					return {
+						order,
+						transaction,
+						generatedInstallments,
+						tenders: paymentTenders,
+						backorders,
+						financing,
+					};
+				},
+				{
+					maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+					timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+				},
+			);
+
+			cartItemLogger.info(
+				`Order ${order.id} created from cart with transaction ${transaction.transactionNumber}, ` +
+					`${generatedInstallments?.length || 0} installments, ` +
+					`${cartItemIdsToDelete.length} cart items cleared`,
+			);
 
 			// Automatically create approval chain for the order
 			let approvalChain = null;
@@ -782,35 +1050,11 @@ export const controller = (prisma: PrismaClient) => {
 				);
 			}
 
-			// Clear cart items after successful order creation (only valid ones that were used)
-			try {
-				const productIdsUsed = new Set(orderItemsData.map((item) => item.productId));
-				const cartItemIdsToDelete = validCartItems
-					.filter(({ product }) => productIdsUsed.has(product.id))
-					.map(({ cartItem }) => cartItem.id);
-
-				if (cartItemIdsToDelete.length > 0) {
-					await prisma.cartItem.deleteMany({
-						where: {
-							id: { in: cartItemIdsToDelete },
-						},
-					});
-					cartItemLogger.info(
-						`Cleared ${cartItemIdsToDelete.length} cart items for employee ${employeeId}`,
-					);
-				}
-			} catch (clearCartError) {
-				cartItemLogger.error(
-					`Failed to clear cart items for employee ${employeeId}:`,
-					clearCartError,
-				);
-				// Don't fail the checkout if cart clearing fails
-			}
-
 			// Invalidate caches
 			try {
 				await invalidateCache.byPattern("cache:cartItem:list:*");
 				await invalidateCache.byPattern("cache:order:list:*");
+				await invalidateCache.byPattern("cache:products:*");
 				cartItemLogger.info("Cache invalidated after checkout");
 			} catch (cacheError) {
 				cartItemLogger.warn("Failed to invalidate cache after checkout:", cacheError);
@@ -873,7 +1117,7 @@ export const controller = (prisma: PrismaClient) => {
 			const totalProducts = orderItemsData.length;
 
 			// Prepare product summary
-			const productsSummary = orderItemsData.map((item) => {
+			const productsSummary = orderTax.lines.map((item) => {
 				const product = validCartItems.find(
 					({ product: p }) => p.id === item.productId,
 				)?.product;
@@ -883,7 +1127,10 @@ export const controller = (prisma: PrismaClient) => {
 					productSku: product?.sku || "N/A",
 					quantity: item.quantity,
 					unitPrice: item.unitPrice,
+					discount: item.discount,
 					subtotal: item.subtotal,
+					taxClassCode: item.taxClassCode,
+					taxAmount: item.taxAmount,
 				};
 			});
 
@@ -895,8 +1142,34 @@ export const controller = (prisma: PrismaClient) => {
 						totalProducts: totalProducts,
 						totalQuantity: totalQuantity,
 						products: productsSummary,
-						cartItemsProcessed: validCartItems.length,
+						cartItemsProcessed: cartItemIdsToDelete.length,
 						cartItemsRemoved: invalidCartItemIds.length,
+						cartItemsSkipped: validCartItems.length - cartItemIdsToDelete.length,
+						taxBreakdown,
+						pricesIncludeTax,
+						tenders: orderTenders,
+						backorders,
+						// Total cost of credit on the financed part
+						financing: financing
+							? {
+									tierName: financing.tierName,
+									method: financing.method,
+									annualRate: financing.annualRate,
+									installmentMonths: financing.installmentMonths,
+									installmentCount: financing.installmentCount,
+									principal: financing.principal,
+									financeCharge: financing.financeCharge,
+									totalRepayable: financing.totalRepayable,
+									installmentAmount: financing.installmentAmount,
+								}
+							: null,
+						promotion: appliedPromotion
+							? {
+									code: appliedPromotion.code,
+									name: appliedPromotion.name,
+									discountAmount: appliedPromotion.discountAmount,
+								}
+							: null,
 					},
 					transaction: transaction
 						? {
@@ -935,7 +1208,29 @@ export const controller = (prisma: PrismaClient) => {
 				201,
 			);
 			res.status(201).json(successResponse);
-		} catch (error) {
+		} catch (error: any) {
+			if (error instanceof ServiceError) {
+				cartItemLogger.warn(
+					`Checkout rejected for employee ${employeeId}: ${error.message}`,
+				);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+				);
+				return;
+			}
+
+			// Write conflict with a concurrent checkout on the same products
+			if (error?.code === "P2034") {
+				cartItemLogger.warn(`Checkout write conflict for employee ${employeeId}: ${error}`);
+				res.status(409).json(
+					buildErrorResponse(
+						"Checkout conflicted with another order for the same items. Please try again.",
+						409,
+					),
+				);
+				return;
+			}
+
 			cartItemLogger.error(`Checkout failed: ${error}`);
 			const errorResponse = buildErrorResponse(
 				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
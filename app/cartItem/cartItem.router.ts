@@ -1,4 +1,5 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
 import { cache, cacheShort, cacheMedium, cacheUser } from "../../middleware/cache";
 
 interface IController {
@@ -181,7 +182,10 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                           type: array
 	 *                           items:
 	 *                             $ref: '#/components/schemas/CartItem'
-	 *                           description: Present when document="true" and no groupBy
+	 *                           description: |
+	 *                             Present when document="true" and no groupBy. Each item carries a pricing object
+	 *                             (currentUnitPrice, snapshotUnitPrice, priceChanged, priceDelta, availability, availableQuantity)
+	 *                             comparing the price captured when it was added with the live product.
 	 *                         groups:
 	 *                           type: object
 	 *                           additionalProperties:
@@ -408,8 +412,16 @@ export const router = (route: Router, controller: IController): Router => {
 	 * /api/cartItem/checkout:
 	 *   post:
 	 *     summary: Checkout cart items to create an order
-	 *     description: Convert all cart items for an employee into an order with optional installment payment. Calculates totals, creates order items, generates installments if payment type is INSTALLMENT, and clears the cart.
+	 *     description: Convert all cart items for an employee into an order with optional installment payment. Calculates totals, reserves and decrements stock, creates order items, the transaction ledger and installments (if payment type is INSTALLMENT), and clears the cart in a single database transaction. If any step fails nothing is persisted and stock is left untouched.
 	 *     tags: [CartItem]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
 	 *     requestBody:
 	 *       required: true
 	 *       content:
@@ -440,27 +452,52 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                 default: PAYROLL_DEDUCTION
 	 *                 description: Payment method
 	 *                 example: "PAYROLL_DEDUCTION"
-	 *               discount:
-	 *                 type: number
-	 *                 minimum: 0
-	 *                 default: 0
-	 *                 description: Discount amount
-	 *                 example: 0
-	 *               tax:
-	 *                 type: number
-	 *                 minimum: 0
-	 *                 default: 0
-	 *                 description: Tax amount
-	 *                 example: 0
+	 *               couponCode:
+	 *                 type: string
+	 *                 description: Promotion coupon code. The discount is validated and calculated server-side and spread over the eligible items.
+	 *                 example: "PAYDAY10"
 	 *               pointsUsed:
 	 *                 type: number
 	 *                 minimum: 0
-	 *                 description: Points used for payment
+	 *                 description: Points to pay with (1 point = 1.00). Debited from the employee's points wallet with the order and refunded if it is cancelled.
 	 *                 example: 0
+	 *               tenders:
+	 *                 type: array
+	 *                 minItems: 2
+	 *                 description: Required when paymentType is MIXED, and replaces pointsUsed. The amounts must add up to the order total after tax and coupon; each tender gets its own ledger.
+	 *                 items:
+	 *                   type: object
+	 *                   required:
+	 *                     - type
+	 *                     - amount
+	 *                   properties:
+	 *                     type:
+	 *                       type: string
+	 *                       enum: [POINTS, CASH, INSTALLMENT]
+	 *                     amount:
+	 *                       type: number
+	 *                       minimum: 0.01
+	 *                     paymentMethod:
+	 *                       type: string
+	 *                       enum: [CASH, CREDIT_CARD, DEBIT_CARD, BANK_TRANSFER, OTHER]
+	 *                       description: How the CASH part is paid
+	 *                     installmentMonths:
+	 *                       type: integer
+	 *                       minimum: 1
+	 *                       description: Required for the INSTALLMENT tender
+	 *                 example:
+	 *                   - { type: POINTS, amount: 200 }
+	 *                   - { type: CASH, amount: 300, paymentMethod: DEBIT_CARD }
+	 *                   - { type: INSTALLMENT, amount: 1000, installmentMonths: 6 }
 	 *               notes:
 	 *                 type: string
 	 *                 description: Additional notes for the order
 	 *                 example: "Please deliver during business hours"
+	 *               confirmedSubtotal:
+	 *                 type: number
+	 *                 minimum: 0
+	 *                 description: Subtotal accepted by the client after a price or availability change. Required once checkout has responded with a cart review.
+	 *                 example: 1499.5
 	 *     responses:
 	 *       201:
 	 *         description: Order created successfully from cart
@@ -483,19 +520,31 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                           type: array
 	 *                           items:
 	 *                             $ref: '#/components/schemas/Installment'
-	 *                           description: Present when paymentType is INSTALLMENT
+	 *                           description: Present when the installment schedule starts at checkout (anchored on the order date and nothing backordered)
 	 *                         installmentSummary:
 	 *                           type: object
-	 *                           description: Summary of installments (present when paymentType is INSTALLMENT)
+	 *                           description: Summary of installments (present with installments)
+	 *                         checkoutSummary:
+	 *                           type: object
+	 *                           description: Totals for the order; tenders lists each part of a MIXED payment with its ledger, backorders lists the lines queued for stock
 	 *                         approvalWorkflow:
 	 *                           type: object
 	 *                           description: Approval workflow information
 	 *       400:
-	 *         $ref: '#/components/responses/BadRequest'
+	 *         description: Validation failed, tenders were sent without a MIXED paymentType (or missing for MIXED), or the tenders do not add up to the order total
+	 *       404:
+	 *         description: The coupon code does not exist or is inactive
+	 *       409:
+	 *         description: |
+	 *           Prices or availability changed since the items were added (data.cartReview lists every line with its snapshot and current price, availability and stock; resend with confirmedSubtotal set to data.cartReview.currentSubtotal),
+	 *           insufficient stock for one or more items, a backorder limit was reached, the coupon reached its usage limit, or a concurrent checkout conflicted on the same products.
+	 *           Out-of-stock products that take backorders or pre-orders show availability BACKORDER and are queued instead of failing.
+	 *       422:
+	 *         description: The order would exceed the employee's credit policy (data.creditCapacity has the details), the points wallet does not cover pointsUsed, or the coupon is outside its validity window, below its minimum spend or does not apply to any item
 	 *       500:
 	 *         $ref: '#/components/responses/InternalServerError'
 	 */
-	routes.post("/checkout", controller.checkout);
+	routes.post("/checkout", idempotency(), controller.checkout);
 
 	route.use(path, routes);
 
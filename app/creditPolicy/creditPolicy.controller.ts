@@ -0,0 +1,419 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import { CreateCreditPolicySchema, UpdateCreditPolicySchema } from "../../zod/creditPolicy.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import { getCreditCapacity } from "../../helper/creditService";
+
+const logger = getLogger();
+const creditPolicyLogger = logger.child({ module: "creditPolicy" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateCreditPolicyCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:creditPolicy:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:creditPolicy:list:*");
+		} catch (cacheError) {
+			creditPolicyLogger.warn("Failed to invalidate creditPolicy cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			creditPolicyLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// Unique index on (scope, scopeValue)
+		if (error?.code === "P2002") {
+			creditPolicyLogger.warn(`${fallbackMessage}: ${error}`);
+			res.status(409).json(
+				buildErrorResponse(config.ERROR.CREDITPOLICY.DUPLICATE_SCOPE, 409),
+			);
+			return;
+		}
+
+		creditPolicyLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateCreditPolicySchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			creditPolicyLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.CREDITPOLICY.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const data = validation.data;
+			const creditPolicy = await prisma.creditPolicy.create({
+				data: {
+					...data,
+					scopeValue: data.scope === "DEFAULT" ? null : data.scopeValue,
+				} as any,
+			});
+			creditPolicyLogger.info(`Credit policy created: ${creditPolicy.id}`);
+
+			logActivity(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: "CREATE_CREDIT_POLICY",
+				description: `Credit policy created: ${creditPolicy.name}`,
+				page: {
+					url: req.originalUrl,
+					title: "Credit Policy Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.CREDITPOLICY,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.CREDITPOLICY,
+				entityId: creditPolicy.id,
+				changesBefore: null,
+				changesAfter: creditPolicy,
+				description: `${config.AUDIT_LOG.CREDITPOLICY.DESCRIPTIONS.CREDITPOLICY_CREATED}: ${creditPolicy.name}`,
+			});
+
+			await invalidateCreditPolicyCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.CREDITPOLICY.CREATED, { creditPolicy }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, creditPolicyLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		creditPolicyLogger.info(
+			`Getting credit policies, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.CreditPolicyWhereInput = {};
+
+			const searchFields = ["name", "description", "scopeValue"];
+			if (query) {
+				const searchConditions = buildSearchConditions("CreditPolicy", query, searchFields);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("CreditPolicy", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [creditPolicies, total] = await Promise.all([
+				document ? prisma.creditPolicy.findMany(findManyQuery) : [],
+				count ? prisma.creditPolicy.count({ where: whereClause }) : 0,
+			]);
+
+			creditPolicyLogger.info(`Retrieved ${creditPolicies.length} credit policies`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(creditPolicies, groupBy as string)
+					: creditPolicies;
+
+			const responseData: Record<string, any> = {
+				...(document && { creditPolicies: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.CREDITPOLICY.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				creditPolicyLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				creditPolicyLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			creditPolicyLogger.info(`Getting credit policy by ID: ${id}`);
+
+			const cacheKey = `cache:creditPolicy:byId:${id}:${fields || "full"}`;
+			let creditPolicy = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					creditPolicy = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				creditPolicyLogger.warn(
+					`Redis cache retrieval failed for credit policy ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!creditPolicy) {
+				const query: Prisma.CreditPolicyFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				creditPolicy = await prisma.creditPolicy.findFirst(query);
+
+				if (creditPolicy && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, creditPolicy, 3600);
+					} catch (cacheError) {
+						creditPolicyLogger.warn(
+							`Failed to store credit policy ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!creditPolicy) {
+				creditPolicyLogger.error(`${config.ERROR.CREDITPOLICY.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.CREDITPOLICY.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.CREDITPOLICY.RETRIEVED, creditPolicy, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.GET_FAILED);
+		}
+	};
+
+	const update = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				creditPolicyLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const requestData = req.body || {};
+
+			const validation = UpdateCreditPolicySchema.safeParse(requestData);
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				creditPolicyLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.CREDITPOLICY.VALIDATION_FAILED,
+					400,
+					formattedErrors,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			if (Object.keys(requestData).length === 0) {
+				creditPolicyLogger.error(config.ERROR.COMMON.NO_UPDATE_FIELDS);
+				const errorResponse = buildErrorResponse(config.ERROR.COMMON.NO_UPDATE_FIELDS, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const existingCreditPolicy = await prisma.creditPolicy.findFirst({
+				where: { id },
+			});
+
+			if (!existingCreditPolicy) {
+				creditPolicyLogger.error(`${config.ERROR.CREDITPOLICY.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.CREDITPOLICY.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const prismaData: Prisma.CreditPolicyUpdateInput = { ...validation.data };
+			if (validation.data.scope === "DEFAULT") {
+				prismaData.scopeValue = null;
+			}
+
+			const creditPolicy = await prisma.creditPolicy.update({
+				where: { id },
+				data: prismaData,
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.CREDITPOLICY,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.CREDITPOLICY,
+				entityId: id,
+				changesBefore: existingCreditPolicy,
+				changesAfter: creditPolicy,
+				description: `${config.AUDIT_LOG.CREDITPOLICY.DESCRIPTIONS.CREDITPOLICY_UPDATED}: ${creditPolicy.name}`,
+			});
+
+			await invalidateCreditPolicyCache(id);
+
+			creditPolicyLogger.info(`Credit policy updated: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.CREDITPOLICY.UPDATED, { creditPolicy }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.UPDATE_FAILED);
+		}
+	};
+
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				creditPolicyLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const existingCreditPolicy = await prisma.creditPolicy.findFirst({
+				where: { id },
+			});
+
+			if (!existingCreditPolicy) {
+				creditPolicyLogger.error(`${config.ERROR.CREDITPOLICY.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.CREDITPOLICY.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			await prisma.creditPolicy.delete({
+				where: { id },
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.CREDITPOLICY,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.CREDITPOLICY,
+				entityId: id,
+				changesBefore: existingCreditPolicy,
+				changesAfter: null,
+				description: `${config.AUDIT_LOG.CREDITPOLICY.DESCRIPTIONS.CREDITPOLICY_DELETED}: ${existingCreditPolicy.name}`,
+			});
+
+			await invalidateCreditPolicyCache(id);
+
+			creditPolicyLogger.info(`Credit policy deleted: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.CREDITPOLICY.DELETED, {}, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.DELETE_FAILED);
+		}
+	};
+
+	/**
+	 * Remaining credit and per-cutoff deduction capacity for an employee
+	 * GET /api/creditPolicy/capacity/:employeeId
+	 */
+	const getCapacity = async (req: Request, res: Response, _next: NextFunction) => {
+		const { employeeId: rawEmployeeId } = req.params;
+		const employeeId = Array.isArray(rawEmployeeId) ? rawEmployeeId[0] : rawEmployeeId;
+
+		try {
+			const creditCapacity = await getCreditCapacity(prisma, { employeeId });
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.CREDITPOLICY.CAPACITY_RETRIEVED,
+					{ creditCapacity },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.CREDITPOLICY.CAPACITY_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, update, remove, getCapacity };
+};
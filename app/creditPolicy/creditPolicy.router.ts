@@ -0,0 +1,230 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	update(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getCapacity(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/creditPolicy";
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy/capacity/{employeeId}:
+	 *   get:
+	 *     summary: Get an employee's remaining credit capacity
+	 *     description: |
+	 *       Outstanding balance across open order ledgers and upcoming payroll deductions per cutoff,
+	 *       measured against the most specific active credit policy (EMPLOYEE, then GRADE, then
+	 *       ORGANIZATION, then DEFAULT, then the configured defaults). Grade and organization are
+	 *       read from the employee's Person record.
+	 *     tags: [CreditPolicy]
+	 *     parameters:
+	 *       - in: path
+	 *         name: employeeId
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Credit capacity retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get("/capacity/:employeeId", controller.getCapacity);
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy/{id}:
+	 *   get:
+	 *     summary: Get credit policy by ID
+	 *     description: Retrieve a specific credit policy by its unique identifier
+	 *     tags: [CreditPolicy]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Credit policy ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Credit policy retrieved successfully
+	 *       404:
+	 *         description: Credit policy not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:creditPolicy:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy:
+	 *   get:
+	 *     summary: Get all credit policies
+	 *     description: Retrieve credit policies with filtering, pagination, and sorting
+	 *     tags: [CreditPolicy]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Credit policies retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:creditPolicy:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy:
+	 *   post:
+	 *     summary: Create credit policy
+	 *     description: Create credit limits for an employee, grade, organization or as the default
+	 *     tags: [CreditPolicy]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - name
+	 *               - scope
+	 *             properties:
+	 *               name:
+	 *                 type: string
+	 *               description:
+	 *                 type: string
+	 *               isActive:
+	 *                 type: boolean
+	 *               scope:
+	 *                 type: string
+	 *                 enum: [EMPLOYEE, GRADE, ORGANIZATION, DEFAULT]
+	 *               scopeValue:
+	 *                 type: string
+	 *                 description: Employee ID, grade code or organization ID (required unless scope is DEFAULT)
+	 *               maxOutstandingBalance:
+	 *                 type: number
+	 *                 description: Maximum sum of balances across open order ledgers (null = no limit)
+	 *               maxDeductionPerCutoff:
+	 *                 type: number
+	 *                 description: Maximum pending installment total on a single payroll cutoff (null = no limit)
+	 *     responses:
+	 *       201:
+	 *         description: Credit policy created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: A policy already exists for this scope
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", controller.create);
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy/{id}:
+	 *   patch:
+	 *     summary: Update credit policy
+	 *     description: Update a credit policy's scope or limits
+	 *     tags: [CreditPolicy]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *     responses:
+	 *       200:
+	 *         description: Credit policy updated successfully
+	 *       404:
+	 *         description: Credit policy not found
+	 *       409:
+	 *         description: A policy already exists for this scope
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.patch("/:id", controller.update);
+
+	/**
+	 * @openapi
+	 * /api/creditPolicy/{id}:
+	 *   delete:
+	 *     summary: Delete credit policy
+	 *     description: Delete a credit policy
+	 *     tags: [CreditPolicy]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Credit policy deleted successfully
+	 *       404:
+	 *         description: Credit policy not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
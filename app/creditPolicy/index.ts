@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./creditPolicy.controller";
+import { router } from "./creditPolicy.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const creditPolicyModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = creditPolicyModule;
@@ -0,0 +1,295 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import { CreateEmployeeSeparationSchema } from "../../zod/employeeSeparation.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import { separateEmployee } from "../../helper/separationService";
+
+const logger = getLogger();
+const employeeSeparationLogger = logger.child({ module: "employeeSeparation" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateEmployeeSeparationCache = async () => {
+		try {
+			await invalidateCache.byPattern("cache:employeeSeparation:list:*");
+			await invalidateCache.byPattern("cache:order:*");
+			await invalidateCache.byPattern("cache:installment:*");
+			await invalidateCache.byPattern("cache:transaction:*");
+		} catch (cacheError) {
+			employeeSeparationLogger.warn(
+				"Failed to invalidate employeeSeparation cache:",
+				cacheError,
+			);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			employeeSeparationLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// A separation for the same employee was processed concurrently
+		if (error?.code === "P2002") {
+			res.status(409).json(
+				buildErrorResponse(config.ERROR.EMPLOYEESEPARATION.ALREADY_SEPARATED, 409),
+			);
+			return;
+		}
+
+		employeeSeparationLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	/**
+	 * Separate an employee: settle open balances from final pay and block new orders
+	 * POST /api/employeeSeparation
+	 */
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateEmployeeSeparationSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			employeeSeparationLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.EMPLOYEESEPARATION.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const data = validation.data;
+			const actor = (req as any).user?.id || data.processedBy || "unknown";
+
+			const separation = await separateEmployee(prisma, { ...data, processedBy: actor });
+
+			logActivity(req, {
+				userId: actor,
+				action: "CREATE_EMPLOYEE_SEPARATION",
+				description: `Separation ${separation.separationNumber} processed for employee: ${separation.employeeId}`,
+				page: {
+					url: req.originalUrl,
+					title: "Employee Separation",
+				},
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.EMPLOYEESEPARATION,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.EMPLOYEESEPARATION,
+				entityId: separation.id,
+				changesBefore: null,
+				changesAfter: {
+					separationNumber: separation.separationNumber,
+					employeeId: separation.employeeId,
+					lastWorkingDay: separation.lastWorkingDay,
+					totalOutstanding: separation.totalOutstanding,
+					finalPayDeduction: separation.finalPayDeduction,
+					receivableAmount: separation.receivableAmount,
+					clearanceStatus: separation.clearanceStatus,
+				},
+				description: `${config.AUDIT_LOG.EMPLOYEESEPARATION.DESCRIPTIONS.EMPLOYEESEPARATION_CREATED}: ${separation.separationNumber}`,
+			});
+
+			await invalidateEmployeeSeparationCache();
+
+			res.status(201).json(
+				buildSuccessResponse(
+					config.SUCCESS.EMPLOYEESEPARATION.CREATED,
+					{ separation },
+					201,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.EMPLOYEESEPARATION.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, employeeSeparationLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		employeeSeparationLogger.info(
+			`Getting employee separations, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.EmployeeSeparationWhereInput = {};
+
+			const searchFields = ["separationNumber", "clearanceStatus", "reason"];
+			if (query) {
+				const searchConditions = buildSearchConditions(
+					"EmployeeSeparation",
+					query,
+					searchFields,
+				);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("EmployeeSeparation", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [separations, total] = await Promise.all([
+				document ? prisma.employeeSeparation.findMany(findManyQuery) : [],
+				count ? prisma.employeeSeparation.count({ where: whereClause }) : 0,
+			]);
+
+			employeeSeparationLogger.info(`Retrieved ${separations.length} employee separations`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(separations, groupBy as string)
+					: separations;
+
+			const responseData: Record<string, any> = {
+				...(document && { separations: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.EMPLOYEESEPARATION.RETRIEVED_ALL,
+					responseData,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.EMPLOYEESEPARATION.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				employeeSeparationLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				employeeSeparationLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			employeeSeparationLogger.info(`Getting employee separation by ID: ${id}`);
+
+			// Separations never change once processed, so a cached statement stays valid
+			const cacheKey = `cache:employeeSeparation:byId:${id}:${fields || "full"}`;
+			let separation = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					separation = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				employeeSeparationLogger.warn(
+					`Redis cache retrieval failed for employee separation ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!separation) {
+				const query: Prisma.EmployeeSeparationFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				separation = await prisma.employeeSeparation.findFirst(query);
+
+				if (separation && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, separation, 3600);
+					} catch (cacheError) {
+						employeeSeparationLogger.warn(
+							`Failed to store employee separation ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!separation) {
+				employeeSeparationLogger.error(
+					`${config.ERROR.EMPLOYEESEPARATION.NOT_FOUND}: ${id}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.EMPLOYEESEPARATION.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.EMPLOYEESEPARATION.RETRIEVED, separation, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.EMPLOYEESEPARATION.GET_FAILED);
+		}
+	};
+
+	return { create, getAll, getById };
+};
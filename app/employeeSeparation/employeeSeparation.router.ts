@@ -0,0 +1,163 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/employeeSeparation";
+
+	/**
+	 * @openapi
+	 * /api/employeeSeparation/{id}:
+	 *   get:
+	 *     summary: Get employee separation by ID
+	 *     description: |
+	 *       The clearance statement: the employee's open balances at separation and, per ledger,
+	 *       what is left to payroll, deducted from final pay and owed as a receivable
+	 *     tags: [EmployeeSeparation]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Employee separation retrieved successfully
+	 *       404:
+	 *         description: Employee separation not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:employeeSeparation:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/employeeSeparation:
+	 *   get:
+	 *     summary: Get all employee separations
+	 *     description: Retrieve employee separations with filtering, pagination, and sorting
+	 *     tags: [EmployeeSeparation]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Employee separations retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:employeeSeparation:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/employeeSeparation:
+	 *   post:
+	 *     summary: Separate an employee
+	 *     description: |
+	 *       Settle everything the employee owes when they leave. Installments already SCHEDULED
+	 *       in a payroll batch are left to payroll; PENDING installments are CANCELLED and the
+	 *       rest of each open balance becomes one PENDING final pay installment per order, cut
+	 *       off on the last working day. Final pay is applied to the oldest orders first; what
+	 *       it does not cover is recorded as a PENDING RECEIVABLE adjustment on the order's
+	 *       ledger. New checkouts and orders for the employee are refused afterwards.
+	 *     tags: [EmployeeSeparation]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - employeeId
+	 *               - lastWorkingDay
+	 *               - finalPayAmount
+	 *             properties:
+	 *               employeeId:
+	 *                 type: string
+	 *               lastWorkingDay:
+	 *                 type: string
+	 *                 format: date
+	 *               finalPayAmount:
+	 *                 type: number
+	 *                 minimum: 0
+	 *                 description: Final pay available for deductions
+	 *               reason:
+	 *                 type: string
+	 *               processedBy:
+	 *                 type: string
+	 *                 description: Defaults to the authenticated user
+	 *     responses:
+	 *       201:
+	 *         description: Employee separated; the clearance statement
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: |
+	 *           The employee was already separated, has orders awaiting approval, or installments
+	 *           were scheduled for payroll meanwhile
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", idempotency(), controller.create);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./employeeSeparation.controller";
+import { router } from "./employeeSeparation.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const employeeSeparationModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = employeeSeparationModule;
@@ -0,0 +1,408 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import { CreateFinancingTierSchema, UpdateFinancingTierSchema } from "../../zod/financingTier.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+
+const logger = getLogger();
+const financingTierLogger = logger.child({ module: "financingTier" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateFinancingTierCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:financingTier:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:financingTier:list:*");
+		} catch (cacheError) {
+			financingTierLogger.warn("Failed to invalidate financingTier cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			financingTierLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// Unique index on name
+		if (error?.code === "P2002") {
+			financingTierLogger.warn(`${fallbackMessage}: ${error}`);
+			res.status(409).json(
+				buildErrorResponse(config.ERROR.FINANCINGTIER.DUPLICATE_NAME, 409),
+			);
+			return;
+		}
+
+		financingTierLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateFinancingTierSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			financingTierLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.FINANCINGTIER.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const financingTier = await prisma.financingTier.create({
+				data: validation.data as any,
+			});
+			financingTierLogger.info(`Financing tier created: ${financingTier.id}`);
+
+			logActivity(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: "CREATE_FINANCING_TIER",
+				description: `Financing tier created: ${financingTier.name}`,
+				page: {
+					url: req.originalUrl,
+					title: "Financing Tier Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.FINANCINGTIER,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.FINANCINGTIER,
+				entityId: financingTier.id,
+				changesBefore: null,
+				changesAfter: financingTier,
+				description: `${config.AUDIT_LOG.FINANCINGTIER.DESCRIPTIONS.FINANCINGTIER_CREATED}: ${financingTier.name}`,
+			});
+
+			await invalidateFinancingTierCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.FINANCINGTIER.CREATED, { financingTier }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.FINANCINGTIER.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, financingTierLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		financingTierLogger.info(
+			`Getting financing tiers, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.FinancingTierWhereInput = {};
+
+			const searchFields = ["name", "description"];
+			if (query) {
+				const searchConditions = buildSearchConditions(
+					"FinancingTier",
+					query,
+					searchFields,
+				);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("FinancingTier", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [financingTiers, total] = await Promise.all([
+				document ? prisma.financingTier.findMany(findManyQuery) : [],
+				count ? prisma.financingTier.count({ where: whereClause }) : 0,
+			]);
+
+			financingTierLogger.info(`Retrieved ${financingTiers.length} financing tiers`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(financingTiers, groupBy as string)
+					: financingTiers;
+
+			const responseData: Record<string, any> = {
+				...(document && { financingTiers: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.FINANCINGTIER.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.FINANCINGTIER.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				financingTierLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				financingTierLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			financingTierLogger.info(`Getting financing tier by ID: ${id}`);
+
+			const cacheKey = `cache:financingTier:byId:${id}:${fields || "full"}`;
+			let financingTier = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					financingTier = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				financingTierLogger.warn(
+					`Redis cache retrieval failed for financing tier ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!financingTier) {
+				const query: Prisma.FinancingTierFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				financingTier = await prisma.financingTier.findFirst(query);
+
+				if (financingTier && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, financingTier, 3600);
+					} catch (cacheError) {
+						financingTierLogger.warn(
+							`Failed to store financing tier ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!financingTier) {
+				financingTierLogger.error(`${config.ERROR.FINANCINGTIER.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.FINANCINGTIER.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.FINANCINGTIER.RETRIEVED, financingTier, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.FINANCINGTIER.GET_FAILED);
+		}
+	};
+
+	const update = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				financingTierLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const requestData = req.body || {};
+
+			const validation = UpdateFinancingTierSchema.safeParse(requestData);
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				financingTierLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.FINANCINGTIER.VALIDATION_FAILED,
+					400,
+					formattedErrors,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			if (Object.keys(requestData).length === 0) {
+				financingTierLogger.error(config.ERROR.COMMON.NO_UPDATE_FIELDS);
+				const errorResponse = buildErrorResponse(config.ERROR.COMMON.NO_UPDATE_FIELDS, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const existingFinancingTier = await prisma.financingTier.findFirst({
+				where: { id },
+			});
+
+			if (!existingFinancingTier) {
+				financingTierLogger.error(`${config.ERROR.FINANCINGTIER.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.FINANCINGTIER.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			// A partial update must still leave a valid term range
+			const minMonths = validation.data.minMonths ?? existingFinancingTier.minMonths;
+			const maxMonths =
+				validation.data.maxMonths !== undefined
+					? validation.data.maxMonths
+					: existingFinancingTier.maxMonths;
+			if (maxMonths != null && maxMonths < minMonths) {
+				const errorResponse = buildErrorResponse(
+					config.ERROR.FINANCINGTIER.VALIDATION_FAILED,
+					400,
+					[{ field: "maxMonths", message: "maxMonths cannot be less than minMonths" }],
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const prismaData: Prisma.FinancingTierUpdateInput = { ...validation.data };
+
+			const financingTier = await prisma.financingTier.update({
+				where: { id },
+				data: prismaData,
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.FINANCINGTIER,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.FINANCINGTIER,
+				entityId: id,
+				changesBefore: existingFinancingTier,
+				changesAfter: financingTier,
+				description: `${config.AUDIT_LOG.FINANCINGTIER.DESCRIPTIONS.FINANCINGTIER_UPDATED}: ${financingTier.name}`,
+			});
+
+			await invalidateFinancingTierCache(id);
+
+			financingTierLogger.info(`Financing tier updated: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.FINANCINGTIER.UPDATED, { financingTier }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.FINANCINGTIER.UPDATE_FAILED);
+		}
+	};
+
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				financingTierLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const existingFinancingTier = await prisma.financingTier.findFirst({
+				where: { id },
+			});
+
+			if (!existingFinancingTier) {
+				financingTierLogger.error(`${config.ERROR.FINANCINGTIER.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.FINANCINGTIER.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			await prisma.financingTier.delete({
+				where: { id },
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.FINANCINGTIER,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.FINANCINGTIER,
+				entityId: id,
+				changesBefore: existingFinancingTier,
+				changesAfter: null,
+				description: `${config.AUDIT_LOG.FINANCINGTIER.DESCRIPTIONS.FINANCINGTIER_DELETED}: ${existingFinancingTier.name}`,
+			});
+
+			await invalidateFinancingTierCache(id);
+
+			financingTierLogger.info(`Financing tier deleted: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.FINANCINGTIER.DELETED, {}, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.FINANCINGTIER.DELETE_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, update, remove };
+};
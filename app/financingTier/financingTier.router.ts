@@ -0,0 +1,217 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	update(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/financingTier";
+
+	/**
+	 * @openapi
+	 * /api/financingTier/{id}:
+	 *   get:
+	 *     summary: Get financing tier by ID
+	 *     description: Retrieve a specific financing tier by its unique identifier
+	 *     tags: [FinancingTier]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Financing tier ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Financing tier retrieved successfully
+	 *       404:
+	 *         description: Financing tier not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:financingTier:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/financingTier:
+	 *   get:
+	 *     summary: Get all financing tiers
+	 *     description: Retrieve financing tiers with filtering, pagination, and sorting
+	 *     tags: [FinancingTier]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Financing tiers retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:financingTier:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/financingTier:
+	 *   post:
+	 *     summary: Create financing tier
+	 *     description: |
+	 *       Create the interest charged on installment terms from minMonths to maxMonths. At
+	 *       checkout the active tier with the highest minMonths covering the term applies; a tier
+	 *       for a category wins when every item is in that category. Terms without a tier are
+	 *       interest-free.
+	 *     tags: [FinancingTier]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - name
+	 *               - minMonths
+	 *               - annualRate
+	 *             properties:
+	 *               name:
+	 *                 type: string
+	 *               description:
+	 *                 type: string
+	 *               isActive:
+	 *                 type: boolean
+	 *               minMonths:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *               maxMonths:
+	 *                 type: integer
+	 *                 description: Longest term the tier covers (null = no upper bound)
+	 *               categoryId:
+	 *                 type: string
+	 *                 description: Only orders whose items are all in this category (null = any)
+	 *               annualRate:
+	 *                 type: number
+	 *                 description: Annual rate as a fraction, e.g. 0.12 for 12%
+	 *               method:
+	 *                 type: string
+	 *                 enum: [FLAT, DIMINISHING]
+	 *                 default: DIMINISHING
+	 *     responses:
+	 *       201:
+	 *         description: Financing tier created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: A tier with this name already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", controller.create);
+
+	/**
+	 * @openapi
+	 * /api/financingTier/{id}:
+	 *   patch:
+	 *     summary: Update financing tier
+	 *     description: |
+	 *       Update a financing tier's terms or rate. Orders keep the rate they were checked
+	 *       out at.
+	 *     tags: [FinancingTier]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *     responses:
+	 *       200:
+	 *         description: Financing tier updated successfully
+	 *       400:
+	 *         description: Validation error, or maxMonths below minMonths
+	 *       404:
+	 *         description: Financing tier not found
+	 *       409:
+	 *         description: A tier with this name already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.patch("/:id", controller.update);
+
+	/**
+	 * @openapi
+	 * /api/financingTier/{id}:
+	 *   delete:
+	 *     summary: Delete financing tier
+	 *     description: Delete a financing tier
+	 *     tags: [FinancingTier]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Financing tier deleted successfully
+	 *       404:
+	 *         description: Financing tier not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./financingTier.controller";
+import { router } from "./financingTier.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const financingTierModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = financingTierModule;
@@ -11,8 +11,13 @@ import {
 } from "../../helper/query-builder";
 import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
 import { groupDataByField } from "../../helper/dataGrouping";
-import { buildErrorResponse, formatZodErrors } from "../../helper/error-handler";
-import { CreateInstallmentSchema, UpdateInstallmentSchema } from "../../zod/installment.zod";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CarryForwardArrearsSchema,
+	CreateInstallmentSchema,
+	InstallmentQuoteSchema,
+	UpdateInstallmentSchema,
+} from "../../zod/installment.zod";
 import { logActivity } from "../../utils/activityLogger";
 import { logAudit } from "../../utils/auditLogger";
 import { config } from "../../config/constant";
@@ -23,6 +28,9 @@ import {
 	getPendingInstallmentsForPayroll,
 	getOrderInstallmentSummary,
 } from "../../helper/installmentService";
+import { carryForwardArrears } from "../../helper/arrearsService";
+import { quoteInstallments } from "../../helper/installmentQuoteService";
+import { previewDeductions } from "../../helper/payrollBatchService";
 
 const logger = getLogger();
 const installmentLogger = logger.child({ module: "installment" });
@@ -500,6 +508,14 @@ export const controller = (prisma: PrismaClient) => {
 			);
 			res.status(200).json(successResponse);
 		} catch (error) {
+			if (error instanceof ServiceError) {
+				installmentLogger.warn(`Deduction rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
+
 			installmentLogger.error(`Failed to mark installment as deducted: ${error}`);
 			const errorResponse = buildErrorResponse(
 				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
@@ -509,6 +525,73 @@ export const controller = (prisma: PrismaClient) => {
 		}
 	};
 
+	/**
+	 * Carry the unpaid part of a FAILED or PARTIAL installment to later installments
+	 * POST /api/installments/:id/carry-forward
+	 */
+	const carryForward = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				installmentLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const validation = CarryForwardArrearsSchema.safeParse(req.body || {});
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				installmentLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			installmentLogger.info(`Carrying forward arrears of installment ${id}`);
+
+			const arrears = await carryForwardArrears(prisma, id, validation.data.policy);
+
+			try {
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+				installmentLogger.info(
+					`Cache invalidated after carrying forward installment ${id}`,
+				);
+			} catch (cacheError) {
+				installmentLogger.warn(
+					"Failed to invalidate cache after carrying forward arrears:",
+					cacheError,
+				);
+			}
+
+			const successResponse = buildSuccessResponse(
+				arrears ? "Arrears carried forward" : "Installment has no unpaid amount",
+				{ arrears },
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				installmentLogger.warn(`Carry forward rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
+
+			installmentLogger.error(`Failed to carry forward arrears: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
 	/**
 	 * Get pending installments for payroll processing
 	 * GET /api/installments/pending-payroll?cutoffDate=YYYY-MM-DD
@@ -532,10 +615,20 @@ export const controller = (prisma: PrismaClient) => {
 
 			const pendingInstallments = await getPendingInstallmentsForPayroll(prisma, cutoffDateObj);
 
+			// One deduction per employee, capped the way a payroll batch created now would be
+			const deductions = await previewDeductions(prisma, pendingInstallments);
+
 			const summary = {
 				cutoffDate: cutoffDateObj,
 				totalPending: pendingInstallments.length,
 				totalAmount: pendingInstallments.reduce((sum, inst) => sum + inst.amount, 0),
+				deductionCap: config.PAYROLL.MAX_DEDUCTION_PER_CUTOFF,
+				deferredAmount: Number(
+					deductions
+						.reduce((sum, deduction) => sum + deduction.deferredAmount, 0)
+						.toFixed(2),
+				),
+				deductions,
 				installments: pendingInstallments,
 			};
 
@@ -603,6 +696,47 @@ export const controller = (prisma: PrismaClient) => {
 		}
 	};
 
+	/**
+	 * Quote installment terms for a cart or a list of products without ordering anything
+	 * POST /api/installment/quote
+	 */
+	const quote = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = InstallmentQuoteSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			installmentLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const installmentQuote = await quoteInstallments(prisma, validation.data);
+
+			const successResponse = buildSuccessResponse(
+				"Installment quote calculated successfully",
+				installmentQuote,
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				installmentLogger.warn(`Installment quote rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
+
+			installmentLogger.error(`Failed to quote installments: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
 	return { 
 		create, 
 		getAll, 
@@ -610,7 +744,9 @@ export const controller = (prisma: PrismaClient) => {
 		update, 
 		remove,
 		markAsDeducted,
+		carryForward,
 		getPendingForPayroll,
 		getOrderSummary,
+		quote,
 	};
 };
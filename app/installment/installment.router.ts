@@ -8,8 +8,10 @@ interface IController {
 	update(req: Request, res: Response, next: NextFunction): Promise<void>;
 	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
 	markAsDeducted(req: Request, res: Response, next: NextFunction): Promise<void>;
+	carryForward(req: Request, res: Response, next: NextFunction): Promise<void>;
 	getPendingForPayroll(req: Request, res: Response, next: NextFunction): Promise<void>;
 	getOrderSummary(req: Request, res: Response, next: NextFunction): Promise<void>;
+	quote(req: Request, res: Response, next: NextFunction): Promise<void>;
 }
 
 export const router = (route: Router, controller: IController): Router => {
@@ -410,7 +412,9 @@ export const router = (route: Router, controller: IController): Router => {
 	 * /api/installment/{id}/deduct:
 	 *   post:
 	 *     summary: Mark installment as deducted
-	 *     description: Mark an installment as deducted from payroll with optional batch and reference tracking
+	 *     description: |
+	 *       Mark an installment as deducted from payroll with optional batch and reference tracking.
+	 *       To post a whole payroll results file, use POST /api/payrollBatch/{id}/results.
 	 *     tags: [Installment]
 	 *     parameters:
 	 *       - in: path
@@ -443,17 +447,73 @@ export const router = (route: Router, controller: IController): Router => {
 	 *         $ref: '#/components/responses/BadRequest'
 	 *       404:
 	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: The installment is already deducted, partially deducted, cancelled or refunded
 	 *       500:
 	 *         $ref: '#/components/responses/InternalServerError'
 	 */
 	routes.post("/:id/deduct", controller.markAsDeducted);
 
+	/**
+	 * @openapi
+	 * /api/installment/{id}/carry-forward:
+	 *   post:
+	 *     summary: Carry forward installment arrears
+	 *     description: |
+	 *       Move the unpaid part of a FAILED or PARTIAL installment, plus the configured late fee,
+	 *       onto the order's later PENDING installments: the next one (CARRY_FORWARD) or all of
+	 *       them (SPREAD). Without a pending installment, one is added on the next payroll cutoff.
+	 *       The move is recorded as an ADJUSTMENT on the order's ledger and the late fee is added
+	 *       to the ledger balance.
+	 *
+	 *       Payroll results apply the configured policy automatically; use this to retry after an
+	 *       error or for installments that failed before the policy existed.
+	 *     tags: [Installment]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Installment ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               policy:
+	 *                 type: string
+	 *                 enum: [CARRY_FORWARD, SPREAD]
+	 *                 description: Defaults to the configured arrears policy
+	 *     responses:
+	 *       200:
+	 *         description: Amounts carried, late fee, receiving installments and the ledger adjustment
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: The installment is not FAILED or PARTIAL, or was already carried forward
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/carry-forward", controller.carryForward);
+
 	/**
 	 * @openapi
 	 * /api/installment/pending-payroll:
 	 *   get:
 	 *     summary: Get pending installments for payroll
-	 *     description: Retrieve all pending installments that are due for deduction based on cutoff date
+	 *     description: |
+	 *       Retrieve all pending installments that are due for deduction based on cutoff date,
+	 *       with one consolidated deduction per employee. Deductions are capped at
+	 *       PAYROLL.MAX_DEDUCTION_PER_CUTOFF, or the employee's credit policy
+	 *       maxDeductionPerCutoff when smaller, the way a payroll batch created now would be; the
+	 *       installments over the cap would be deferred to the next cutoff.
 	 *     tags: [Installment]
 	 *     parameters:
 	 *       - in: query
@@ -479,6 +539,34 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                   type: integer
 	 *                 totalAmount:
 	 *                   type: number
+	 *                 deductionCap:
+	 *                   type: number
+	 *                   nullable: true
+	 *                 deferredAmount:
+	 *                   type: number
+	 *                 deductions:
+	 *                   type: array
+	 *                   items:
+	 *                     type: object
+	 *                     properties:
+	 *                       employeeId:
+	 *                         type: string
+	 *                       installmentCount:
+	 *                         type: integer
+	 *                       amount:
+	 *                         type: number
+	 *                       orderNumbers:
+	 *                         type: array
+	 *                         items:
+	 *                           type: string
+	 *                       deductionCap:
+	 *                         type: number
+	 *                         nullable: true
+	 *                         description: This employee's cap after their credit policy
+	 *                       deferredInstallmentCount:
+	 *                         type: integer
+	 *                       deferredAmount:
+	 *                         type: number
 	 *                 installments:
 	 *                   type: array
 	 *                   items:
@@ -528,6 +616,13 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                   type: number
 	 *                 remainingAmount:
 	 *                   type: number
+	 *                 carriedForwardAmount:
+	 *                   type: number
+	 *                   description: Unpaid amounts moved to later installments
+	 *                 lateFeeAmount:
+	 *                   type: number
+	 *                 consecutiveFailedDeductions:
+	 *                   type: integer
 	 *                 installments:
 	 *                   type: array
 	 *                   items:
@@ -539,6 +634,73 @@ export const router = (route: Router, controller: IController): Router => {
 	 */
 	routes.get("/order/:orderId/summary", controller.getOrderSummary);
 
+	/**
+	 * @openapi
+	 * /api/installment/quote:
+	 *   post:
+	 *     summary: Quote installment terms
+	 *     description: |
+	 *       Price a cart (employeeId) or a list of products (items) the way checkout would and
+	 *       return the schedule for each requested term: cutoff and pay dates, amounts, the
+	 *       rounding taken by the last installment and any financing charge. Nothing is written,
+	 *       so several terms can be compared side by side.
+	 *
+	 *       Dates assume the schedule starts today; under a later schedule anchor the cutoffs
+	 *       move with it. Items that cannot be ordered are listed in unavailableItems and left out.
+	 *     tags: [Installment]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - installmentMonths
+	 *             properties:
+	 *               employeeId:
+	 *                 type: string
+	 *                 description: Quote this employee's cart when items are not given
+	 *               items:
+	 *                 type: array
+	 *                 items:
+	 *                   type: object
+	 *                   required: [productId, quantity]
+	 *                   properties:
+	 *                     productId:
+	 *                       type: string
+	 *                     quantity:
+	 *                       type: integer
+	 *                       minimum: 1
+	 *               installmentMonths:
+	 *                 oneOf:
+	 *                   - type: integer
+	 *                   - type: array
+	 *                     items:
+	 *                       type: integer
+	 *                     maxItems: 12
+	 *                 example: [3, 6, 12]
+	 *               couponCode:
+	 *                 type: string
+	 *                 description: Applied only with employeeId
+	 *               pointsUsed:
+	 *                 type: number
+	 *               organizationId:
+	 *                 type: string
+	 *                 description: Organization whose payroll calendar the schedule follows; with employeeId, the employee's own organization is used instead
+	 *     responses:
+	 *       200:
+	 *         description: Order total with one schedule per term
+	 *       400:
+	 *         description: Validation error or empty cart
+	 *       404:
+	 *         description: Coupon code not valid
+	 *       422:
+	 *         description: None of the items can be ordered, or points cover the whole total
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/quote", controller.quote);
+
 	route.use(path, routes);
 
 	return route;
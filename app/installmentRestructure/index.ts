@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./installmentRestructure.controller";
+import { router } from "./installmentRestructure.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const installmentRestructureModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = installmentRestructureModule;
@@ -0,0 +1,450 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	ApproveInstallmentRestructureSchema,
+	CreateInstallmentRestructureSchema,
+	PreviewInstallmentRestructureSchema,
+	RejectInstallmentRestructureSchema,
+} from "../../zod/installmentRestructure.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import {
+	decideRestructure,
+	previewRestructure,
+	requestRestructure,
+} from "../../helper/restructureService";
+
+const logger = getLogger();
+const installmentRestructureLogger = logger.child({ module: "installmentRestructure" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateInstallmentRestructureCache = async (id?: string, applied = false) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:installmentRestructure:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:installmentRestructure:list:*");
+			if (applied) {
+				await invalidateCache.byPattern("cache:order:*");
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+			}
+		} catch (cacheError) {
+			installmentRestructureLogger.warn(
+				"Failed to invalidate installmentRestructure cache:",
+				cacheError,
+			);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			installmentRestructureLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		installmentRestructureLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const sendValidationError = (res: Response, error: any) => {
+		const formattedErrors = formatZodErrors(error.format());
+		installmentRestructureLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+		const errorResponse = buildErrorResponse(
+			config.ERROR.INSTALLMENTRESTRUCTURE.VALIDATION_FAILED,
+			400,
+			formattedErrors,
+		);
+		res.status(400).json(errorResponse);
+	};
+
+	/**
+	 * Show the schedule a restructure would produce, without requesting it
+	 * POST /api/installmentRestructure/preview
+	 */
+	const preview = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = PreviewInstallmentRestructureSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		try {
+			const { orderId, installmentMonths, pauseCutoffs } = validation.data;
+			const preview = await previewRestructure(prisma, orderId, {
+				installmentMonths,
+				pauseCutoffs,
+			});
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.INSTALLMENTRESTRUCTURE.PREVIEWED, preview, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.PREVIEW_FAILED);
+		}
+	};
+
+	/**
+	 * Request a restructure of an order's remaining installments
+	 * POST /api/installmentRestructure
+	 */
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateInstallmentRestructureSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		try {
+			const data = validation.data;
+			const actor = (req as any).user?.id || data.requestedBy || "unknown";
+
+			const { restructure, applied } = await requestRestructure(prisma, {
+				...data,
+				requestedBy: actor,
+			});
+
+			logActivity(req, {
+				userId: actor,
+				action: "CREATE_INSTALLMENT_RESTRUCTURE",
+				description: `Restructure ${restructure.restructureNumber} requested for order: ${restructure.orderNumber}`,
+				page: {
+					url: req.originalUrl,
+					title: "Installment Restructure Request",
+				},
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.INSTALLMENTRESTRUCTURE,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.INSTALLMENTRESTRUCTURE,
+				entityId: restructure.id,
+				changesBefore: null,
+				changesAfter: {
+					restructureNumber: restructure.restructureNumber,
+					orderId: restructure.orderId,
+					installmentMonths: restructure.installmentMonths,
+					pauseCutoffs: restructure.pauseCutoffs,
+					balance: restructure.balance,
+					status: restructure.status,
+				},
+				description: `${config.AUDIT_LOG.INSTALLMENTRESTRUCTURE.DESCRIPTIONS.INSTALLMENTRESTRUCTURE_REQUESTED}: ${restructure.restructureNumber}`,
+			});
+
+			await invalidateInstallmentRestructureCache(undefined, applied);
+
+			res.status(201).json(
+				buildSuccessResponse(
+					applied
+						? config.SUCCESS.INSTALLMENTRESTRUCTURE.APPLIED
+						: config.SUCCESS.INSTALLMENTRESTRUCTURE.CREATED,
+					{ restructure },
+					201,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, installmentRestructureLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		installmentRestructureLogger.info(
+			`Getting installment restructures, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.InstallmentRestructureWhereInput = {};
+
+			const searchFields = ["restructureNumber", "orderNumber", "status", "reason"];
+			if (query) {
+				const searchConditions = buildSearchConditions(
+					"InstallmentRestructure",
+					query,
+					searchFields,
+				);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("InstallmentRestructure", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [restructures, total] = await Promise.all([
+				document ? prisma.installmentRestructure.findMany(findManyQuery) : [],
+				count ? prisma.installmentRestructure.count({ where: whereClause }) : 0,
+			]);
+
+			installmentRestructureLogger.info(
+				`Retrieved ${restructures.length} installment restructures`,
+			);
+			const processedData =
+				groupBy && document
+					? groupDataByField(restructures, groupBy as string)
+					: restructures;
+
+			const responseData: Record<string, any> = {
+				...(document && { restructures: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.INSTALLMENTRESTRUCTURE.RETRIEVED_ALL,
+					responseData,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				installmentRestructureLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				installmentRestructureLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			installmentRestructureLogger.info(`Getting installment restructure by ID: ${id}`);
+
+			const cacheKey = `cache:installmentRestructure:byId:${id}:${fields || "full"}`;
+			let restructure = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					restructure = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				installmentRestructureLogger.warn(
+					`Redis cache retrieval failed for installment restructure ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!restructure) {
+				const query: Prisma.InstallmentRestructureFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				restructure = await prisma.installmentRestructure.findFirst(query);
+
+				if (restructure && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, restructure, 3600);
+					} catch (cacheError) {
+						installmentRestructureLogger.warn(
+							`Failed to store installment restructure ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!restructure) {
+				installmentRestructureLogger.error(
+					`${config.ERROR.INSTALLMENTRESTRUCTURE.NOT_FOUND}: ${id}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.INSTALLMENTRESTRUCTURE.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.INSTALLMENTRESTRUCTURE.RETRIEVED,
+					restructure,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.GET_FAILED);
+		}
+	};
+
+	/**
+	 * Approve a restructure at its current level; the last level applies it
+	 * POST /api/installmentRestructure/:id/approve
+	 */
+	const approve = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = ApproveInstallmentRestructureSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || validation.data.decidedBy || "unknown";
+			const { restructure, applied } = await decideRestructure(prisma, id, "APPROVED", {
+				decidedBy: actor,
+				comments: validation.data.comments,
+			});
+			const descriptions = config.AUDIT_LOG.INSTALLMENTRESTRUCTURE.DESCRIPTIONS;
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.INSTALLMENTRESTRUCTURE,
+				severity: applied
+					? config.AUDIT_LOG.SEVERITY.HIGH
+					: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.INSTALLMENTRESTRUCTURE,
+				entityId: id,
+				changesBefore: { status: "PENDING_APPROVAL" },
+				changesAfter: {
+					status: restructure.status,
+					currentApprovalLevel: restructure.currentApprovalLevel,
+					...(applied && {
+						installments: restructure.proposedPlan.map(
+							(line: any) => line.installmentId,
+						),
+					}),
+				},
+				description: `${applied ? descriptions.INSTALLMENTRESTRUCTURE_APPLIED : descriptions.INSTALLMENTRESTRUCTURE_APPROVED}: ${restructure.restructureNumber}`,
+			});
+
+			await invalidateInstallmentRestructureCache(id, applied);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					applied
+						? config.SUCCESS.INSTALLMENTRESTRUCTURE.APPLIED
+						: config.SUCCESS.INSTALLMENTRESTRUCTURE.APPROVED,
+					{ restructure },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.DECISION_FAILED);
+		}
+	};
+
+	/**
+	 * Reject a restructure; the order keeps its current schedule
+	 * POST /api/installmentRestructure/:id/reject
+	 */
+	const reject = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = RejectInstallmentRestructureSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || validation.data.decidedBy || "unknown";
+			const { restructure } = await decideRestructure(prisma, id, "REJECTED", {
+				decidedBy: actor,
+				comments: validation.data.comments,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.INSTALLMENTRESTRUCTURE,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.INSTALLMENTRESTRUCTURE,
+				entityId: id,
+				changesBefore: { status: "PENDING_APPROVAL" },
+				changesAfter: {
+					status: restructure.status,
+					rejectionReason: restructure.rejectionReason,
+				},
+				description: `${config.AUDIT_LOG.INSTALLMENTRESTRUCTURE.DESCRIPTIONS.INSTALLMENTRESTRUCTURE_REJECTED}: ${restructure.restructureNumber}`,
+			});
+
+			await invalidateInstallmentRestructureCache(id);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.INSTALLMENTRESTRUCTURE.REJECTED,
+					{ restructure },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.INSTALLMENTRESTRUCTURE.DECISION_FAILED);
+		}
+	};
+
+	return { preview, create, getAll, getById, approve, reject };
+};
@@ -0,0 +1,298 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	preview(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	approve(req: Request, res: Response, next: NextFunction): Promise<void>;
+	reject(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/installmentRestructure";
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure/preview:
+	 *   post:
+	 *     summary: Preview an installment restructure
+	 *     description: |
+	 *       Show the schedule that would replace an order's PENDING installments, without
+	 *       requesting anything. The remaining balance is the sum of the PENDING installments;
+	 *       installments already paid or SCHEDULED in a payroll batch are kept.
+	 *
+	 *       installmentMonths is the new total term, counted from the plan's first installment;
+	 *       the balance is spread over the cutoffs left until then. pauseCutoffs skips that many
+	 *       cutoffs before deductions resume. Without installmentMonths the same number of
+	 *       installments is kept.
+	 *     tags: [InstallmentRestructure]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - orderId
+	 *             properties:
+	 *               orderId:
+	 *                 type: string
+	 *               installmentMonths:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *                 maximum: 36
+	 *               pauseCutoffs:
+	 *                 type: integer
+	 *                 minimum: 0
+	 *                 maximum: 4
+	 *     responses:
+	 *       200:
+	 *         description: Remaining balance with the original and the proposed plan
+	 *       400:
+	 *         description: Validation error
+	 *       404:
+	 *         description: Order not found
+	 *       409:
+	 *         description: The order is closed or has no pending installments
+	 *       422:
+	 *         description: The term leaves no cutoffs, or the schedule would not change
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/preview", controller.preview);
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure/{id}:
+	 *   get:
+	 *     summary: Get installment restructure by ID
+	 *     description: The request with its original plan, proposed plan and approval levels
+	 *     tags: [InstallmentRestructure]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Installment restructure retrieved successfully
+	 *       404:
+	 *         description: Installment restructure not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:installmentRestructure:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure:
+	 *   get:
+	 *     summary: Get all installment restructures
+	 *     description: Retrieve installment restructures with filtering, pagination, and sorting
+	 *     tags: [InstallmentRestructure]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Installment restructures retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:installmentRestructure:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure:
+	 *   post:
+	 *     summary: Request an installment restructure
+	 *     description: |
+	 *       Request a new schedule for an order's remaining balance, as shown by the preview. The
+	 *       request goes through the levels of the active "Installment Restructuring" approval
+	 *       workflow (INSTALLMENTS.RESTRUCTURE.APPROVAL_ROLES when there is none) and the first
+	 *       approver is emailed. Only one request per order can await approval.
+	 *     tags: [InstallmentRestructure]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - orderId
+	 *               - reason
+	 *             properties:
+	 *               orderId:
+	 *                 type: string
+	 *               installmentMonths:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *                 maximum: 36
+	 *               pauseCutoffs:
+	 *                 type: integer
+	 *                 minimum: 0
+	 *                 maximum: 4
+	 *               reason:
+	 *                 type: string
+	 *               requestedBy:
+	 *                 type: string
+	 *                 description: Defaults to the authenticated user
+	 *     responses:
+	 *       201:
+	 *         description: Installment restructure requested and sent for approval
+	 *       400:
+	 *         description: Validation error
+	 *       404:
+	 *         description: Order not found
+	 *       409:
+	 *         description: |
+	 *           The order is closed, has no pending installments, or already has a restructure
+	 *           awaiting approval
+	 *       422:
+	 *         description: The term leaves no cutoffs, or the schedule would not change
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", idempotency(), controller.create);
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure/{id}/approve:
+	 *   post:
+	 *     summary: Approve an installment restructure
+	 *     description: |
+	 *       Approve the request at its current level and notify the next approver. Approval at
+	 *       the last level applies it: the PENDING installments it replaces are CANCELLED, the
+	 *       proposed schedule is created with restructureId set, and the order's ledger records
+	 *       both. The request keeps the original plan.
+	 *     tags: [InstallmentRestructure]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               decidedBy:
+	 *                 type: string
+	 *               comments:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: Approved at this level, or approved and applied
+	 *       404:
+	 *         description: Installment restructure not found
+	 *       409:
+	 *         description: |
+	 *           The request was already decided, or the order's installments changed since it
+	 *           was made
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/approve", controller.approve);
+
+	/**
+	 * @openapi
+	 * /api/installmentRestructure/{id}/reject:
+	 *   post:
+	 *     summary: Reject an installment restructure
+	 *     description: Reject the request; the order keeps its current schedule
+	 *     tags: [InstallmentRestructure]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - comments
+	 *             properties:
+	 *               decidedBy:
+	 *                 type: string
+	 *               comments:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: Installment restructure rejected
+	 *       400:
+	 *         description: Rejection reason required
+	 *       404:
+	 *         description: Installment restructure not found
+	 *       409:
+	 *         description: The request was already decided
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/reject", controller.reject);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -11,16 +11,43 @@ import {
 } from "../../helper/query-builder";
 import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
 import { groupDataByField } from "../../helper/dataGrouping";
-import { buildErrorResponse, formatZodErrors } from "../../helper/error-handler";
-import { CreateOrderSchema, UpdateOrderSchema } from "../../zod/order.zod";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreateOrderSchema,
+	UpdateOrderSchema,
+	OrderTransitionSchema,
+	AmendOrderSchema,
+	PrepayOrderSchema,
+	OrderStatus,
+} from "../../zod/order.zod";
 import { logActivity } from "../../utils/activityLogger";
 import { logAudit } from "../../utils/auditLogger";
 import { config } from "../../config/constant";
 import { redisClient } from "../../config/redis";
 import { invalidateCache } from "../../middleware/cache";
-import { generateInstallments } from "../../helper/installmentService";
+import { AuthRequest } from "../../middleware/verifyToken";
+import {
+	currentScheduleAnchor,
+	startInstallmentScheduleIfDue,
+} from "../../helper/installmentScheduleService";
 import { createTransactionForOrder } from "../../helper/transactionService";
 import { createApprovalChain } from "../../helper/approvalService";
+import {
+	transitionOrderStatus,
+	initialStatusHistory,
+	LIFECYCLE_MANAGED_FIELDS,
+} from "../../helper/orderLifecycleService";
+import { cancelOrder } from "../../helper/orderCancellationService";
+import { amendOrder } from "../../helper/orderAmendmentService";
+import { prepayOrder } from "../../helper/prepaymentService";
+import { nextDocumentNumber } from "../../helper/numberingService";
+import { assertCreditCapacity } from "../../helper/creditService";
+import { resolveEmployeePayrollCalendar } from "../../helper/payrollCalendarService";
+import { financingOrderFields, quoteFinancing } from "../../helper/financingService";
+import { computeOrderTax } from "../../helper/taxService";
+import { getEmployeeUnitPrice } from "../../helper/cartPricingService";
+import { queueBackorders, reserveStockOrBackorder } from "../../helper/backorderService";
+import { earnOrderPoints, redeemPoints } from "../../helper/pointsService";
 
 const logger = getLogger();
 const orderLogger = logger.child({ module: "order" });
@@ -86,63 +113,158 @@ export const controller = (prisma: PrismaClient) => {
 		}
 
 		try {
-			// Create the order first
-			const order = await prisma.order.create({ data: validation.data as any });
-			orderLogger.info(`Order created successfully: ${order.id}`);
+			const { items, ...orderInput } = validation.data;
 
-			// Create transaction ledger for the order
-			let transaction = null;
-			try {
-				transaction = await createTransactionForOrder(
-					prisma,
-					order.id,
-					order.employeeId,
-					order.total,
-					order.paymentType,
-					order.paymentMethod
+			// Price and tax the lines server-side; client-supplied amounts are never used
+			const products = await prisma.product.findMany({
+				where: { id: { in: items.map((item) => item.productId) } },
+			});
+			const productMap = new Map<string, Parameters<typeof getEmployeeUnitPrice>[0]>(
+				products.map((p) => [p.id, p]),
+			);
+
+			const missing = items.filter((item) => !productMap.has(item.productId));
+			if (missing.length > 0) {
+				throw new ServiceError(
+					config.ERROR.PRODUCTS.NOT_FOUND,
+					404,
+					missing.map((item) => ({
+						field: `items.${item.productId}`,
+						message: `Product ${item.productId} not found`,
+					})),
 				);
-				orderLogger.info(`Transaction ledger created for order ${order.id}`);
-			} catch (transactionError) {
-				orderLogger.error(`Failed to create transaction for order ${order.id}:`, transactionError);
 			}
 
-			// Automatically generate installments if payment type is INSTALLMENT
-			let generatedInstallments = null;
-			if (order.paymentType === "INSTALLMENT" && order.installmentMonths) {
-				try {
-					orderLogger.info(
-						`Generating installments for order ${order.id}: ${order.installmentMonths} months`
+			const orderTax = await computeOrderTax(
+				prisma,
+				items.map((item) => ({
+					productId: item.productId,
+					quantity: item.quantity,
+					unitPrice: getEmployeeUnitPrice(productMap.get(item.productId)!),
+					discount: item.discount || 0,
+				})),
+				{ orderDiscount: orderInput.discount },
+			);
+			const total = Number((orderTax.total - (orderInput.pointsUsed || 0)).toFixed(2));
+
+			// Issue document numbers up front so the transaction does not contend on the shared
+			// counters; the order number comes from the numbering service unless the caller
+			// supplies one (e.g. migrated orders)
+			const orderNumber =
+				orderInput.orderNumber || (await nextDocumentNumber(prisma, "ORDER"));
+			const transactionNumber = await nextDocumentNumber(prisma, "TRANSACTION");
+			const orderDate = orderInput.orderDate || new Date();
+
+			// Check credit, reserve stock and create the order, its ledger and installments as
+			// one unit: if any step fails everything is rolled back, including stock and points.
+			const { order, transaction, generatedInstallments } = await prisma.$transaction(
+				async (tx) => {
+					// Deductions follow the payroll calendar of the employee's organization
+					const payrollCalendar = await resolveEmployeePayrollCalendar(
+						tx,
+						orderInput.employeeId,
 					);
-					
-					generatedInstallments = await generateInstallments(
-						prisma,
-						order.id,
-						order.installmentMonths,
-						order.total,
-						order.orderDate || new Date()
+
+					// The financing tier for the term fixes the interest on installment orders
+					const financing =
+						(orderInput.paymentType || "INSTALLMENT") === "INSTALLMENT" &&
+						orderInput.installmentMonths
+							? await quoteFinancing(tx, {
+									installmentMonths: orderInput.installmentMonths,
+									principal: total,
+									productIds: orderTax.lines.map((line) => line.productId),
+									calendar: payrollCalendar,
+								})
+							: null;
+					const financeCharge = financing?.financeCharge || 0;
+
+					// Checked inside the unit of work so it sees the employee's latest orders
+					await assertCreditCapacity(
+						tx,
+						{ employeeId: orderInput.employeeId },
+						{
+							total: Number((total + financeCharge).toFixed(2)),
+							paymentType: orderInput.paymentType || "INSTALLMENT",
+							installmentMonths: orderInput.installmentMonths,
+							financedAmount: total,
+							startDate: orderDate,
+							payrollCalendarId: payrollCalendar.id,
+							financing: financeCharge > 0 ? financing : null,
+						},
 					);
-					
-					// Update order with installment details
-					await prisma.order.update({
-						where: { id: order.id },
+
+					// Lines of backorderable products that stock cannot cover wait in the queue
+					const backorders = await reserveStockOrBackorder(
+						tx,
+						orderTax.lines.map((line) => ({
+							productId: line.productId,
+							quantity: line.quantity,
+						})),
+					);
+					const order = await tx.order.create({
 						data: {
-							installmentCount: generatedInstallments.length,
-							installmentAmount: generatedInstallments[0]?.amount || 0,
-						},
+							...orderInput,
+							orderNumber,
+							orderDate,
+							status: "PENDING_APPROVAL",
+							statusHistory: initialStatusHistory(orderInput.employeeId),
+							subtotal: orderTax.subtotal,
+							discount: orderTax.discount,
+							tax: orderTax.tax,
+							total,
+							taxBreakdown: orderTax.taxBreakdown,
+							pricesIncludeTax: orderTax.pricesIncludeTax,
+							awaitingStock: backorders.length > 0,
+							scheduleAnchor: currentScheduleAnchor(),
+							payrollCalendarId: payrollCalendar.id,
+							...financingOrderFields(financing),
+							items: { create: orderTax.lines },
+						} as any,
 					});
-					
-					orderLogger.info(
-						`Successfully generated ${generatedInstallments.length} installments for order ${order.id}`
-					);
-				} catch (installmentError) {
-					orderLogger.error(
-						`Failed to generate installments for order ${order.id}:`,
-						installmentError
+					await queueBackorders(tx, order, backorders);
+
+					// Points are debited in the same unit of work, so a short wallet rolls the
+					// whole order back
+					let transaction = await createTransactionForOrder(
+						tx,
+						order.id,
+						order.employeeId,
+						order.total,
+						order.paymentType,
+						order.paymentMethod,
+						transactionNumber,
+						financeCharge,
 					);
-					// Note: Order is still created even if installment generation fails
-					// This allows manual intervention if needed
-				}
-			}
+					if (order.pointsUsed && order.pointsUsed > 0) {
+						const redemption = await redeemPoints(tx, {
+							employeeId: order.employeeId,
+							points: order.pointsUsed,
+							orderId: order.id,
+						});
+						transaction = await tx.transaction.update({
+							where: { id: transaction.id },
+							data: {
+								pointsUsed: order.pointsUsed,
+								pointsTransactionId: redemption.id,
+							},
+						});
+					}
+
+					// Installments start now only when anchored on the order date and nothing is
+					// backordered; otherwise approval, stock allocation or delivery starts them
+					const generatedInstallments = await startInstallmentScheduleIfDue(tx, order.id);
+
+					return { order, transaction, generatedInstallments };
+				},
+				{
+					maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+					timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+				},
+			);
+			orderLogger.info(
+				`Order created successfully: ${order.id} with transaction ${transaction.transactionNumber}, ` +
+					`${generatedInstallments?.length || 0} installments`,
+			);
 
 			// Automatically create approval chain for the order
 			let approvalChain = null;
@@ -229,13 +351,13 @@ export const controller = (prisma: PrismaClient) => {
 				config.SUCCESS.ORDER.CREATED,
 				{
 					order,
-					transaction: transaction ? {
+					transaction: {
 						transactionNumber: transaction.transactionNumber,
 						totalAmount: transaction.totalAmount,
 						paidAmount: transaction.paidAmount,
 						balance: transaction.balance,
 						status: transaction.status,
-					} : null,
+					},
 					...(generatedInstallments && { 
 						installments: generatedInstallments,
 						installmentSummary: {
@@ -263,6 +385,14 @@ export const controller = (prisma: PrismaClient) => {
 			);
 			res.status(201).json(successResponse);
 		} catch (error) {
+			if (error instanceof ServiceError) {
+				orderLogger.warn(`${config.ERROR.ORDER.CREATE_FAILED}: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+				);
+				return;
+			}
+
 			orderLogger.error(`${config.ERROR.ORDER.CREATE_FAILED}: ${error}`);
 			const errorResponse = buildErrorResponse(
 				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
@@ -476,6 +606,23 @@ export const controller = (prisma: PrismaClient) => {
 				return;
 			}
 
+			const lifecycleFields = LIFECYCLE_MANAGED_FIELDS.filter(
+				(field) => field in requestData,
+			);
+			if (lifecycleFields.length > 0) {
+				orderLogger.error(`Rejected lifecycle fields in order update: ${lifecycleFields}`);
+				const errorResponse = buildErrorResponse(
+					"Order status can only be changed through the transition endpoints",
+					400,
+					lifecycleFields.map((field) => ({
+						field,
+						message: `Use POST /api/order/${id}/process, /ship, /deliver or /cancel instead`,
+					})),
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
 			const validatedData = validationResult.data;
 
 			orderLogger.info(`Updating order: ${id}`);
@@ -581,5 +728,439 @@ export const controller = (prisma: PrismaClient) => {
 		}
 	};
 
-	return { create, getAll, getById, update, remove };
+	/**
+	 * Build a handler that moves an order to the given status
+	 * POST /api/order/:id/{process|ship|deliver}
+	 */
+	const transitionTo = (toStatus: OrderStatus) => {
+		return async (req: Request, res: Response, _next: NextFunction) => {
+			const { id: rawId } = req.params;
+
+			try {
+				if (!rawId) {
+					orderLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+					const errorResponse = buildErrorResponse(
+						config.ERROR.QUERY_PARAMS.MISSING_ID,
+						400,
+					);
+					res.status(400).json(errorResponse);
+					return;
+				}
+
+				const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+				const validation = OrderTransitionSchema.safeParse(req.body || {});
+				if (!validation.success) {
+					const formattedErrors = formatZodErrors(validation.error.format());
+					orderLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+					const errorResponse = buildErrorResponse(
+						"Validation failed",
+						400,
+						formattedErrors,
+					);
+					res.status(400).json(errorResponse);
+					return;
+				}
+
+				const { reason, trackingNumber } = validation.data;
+				const actor = (req as AuthRequest).userId || "unknown";
+
+				orderLogger.info(`Transitioning order ${id} to ${toStatus} by ${actor}`);
+
+				const existingOrder = await prisma.order.findFirst({
+					where: { id },
+				});
+
+				if (!existingOrder) {
+					orderLogger.error(`${config.ERROR.ORDER.NOT_FOUND}: ${id}`);
+					const errorResponse = buildErrorResponse(config.ERROR.ORDER.NOT_FOUND, 404);
+					res.status(404).json(errorResponse);
+					return;
+				}
+
+				// Delivered orders earn points in the same unit of work as the status change
+				const updatedOrder = await prisma.$transaction(async (tx) => {
+					const transitioned = await transitionOrderStatus(tx, id, toStatus, {
+						changedBy: actor,
+						reason,
+						data:
+							toStatus === "SHIPPED" && trackingNumber
+								? { trackingNumber }
+								: undefined,
+					});
+					if (toStatus === "DELIVERED") {
+						await earnOrderPoints(tx, transitioned);
+						// Orders anchored on delivery start paying from today
+						await startInstallmentScheduleIfDue(tx, id);
+					}
+					return transitioned;
+				});
+
+				logAudit(req, {
+					userId: actor,
+					action: config.AUDIT_LOG.ACTIONS.UPDATE,
+					resource: config.AUDIT_LOG.RESOURCES.ORDER,
+					severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+					entityType: config.AUDIT_LOG.ENTITY_TYPES.ORDER,
+					entityId: id,
+					changesBefore: { status: existingOrder.status },
+					changesAfter: { status: updatedOrder.status },
+					description: `${config.AUDIT_LOG.ORDER.DESCRIPTIONS.ORDER_STATUS_CHANGED}: ${existingOrder.orderNumber} ${existingOrder.status} → ${toStatus}`,
+				});
+
+				try {
+					await invalidateCache.byPattern(`cache:order:byId:${id}:*`);
+					await invalidateCache.byPattern("cache:order:list:*");
+					orderLogger.info(`Cache invalidated after order ${id} status change`);
+				} catch (cacheError) {
+					orderLogger.warn(
+						"Failed to invalidate cache after order status change:",
+						cacheError,
+					);
+				}
+
+				const successResponse = buildSuccessResponse(
+					`${config.SUCCESS.ORDER.STATUS_CHANGED}: ${toStatus}`,
+					{ order: updatedOrder },
+					200,
+				);
+				res.status(200).json(successResponse);
+			} catch (error) {
+				if (error instanceof ServiceError) {
+					orderLogger.warn(`Order transition to ${toStatus} rejected: ${error.message}`);
+					res.status(error.statusCode).json(
+						buildErrorResponse(error.message, error.statusCode, error.errors),
+					);
+					return;
+				}
+
+				orderLogger.error(`${config.ERROR.ORDER.ERROR_UPDATING}: ${error}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+					500,
+				);
+				res.status(500).json(errorResponse);
+			}
+		};
+	};
+
+	const markProcessing = transitionTo("PROCESSING");
+	const ship = transitionTo("SHIPPED");
+	const deliver = transitionTo("DELIVERED");
+
+	/**
+	 * Cancel an order within its cancellation window and unwind installments,
+	 * the transaction ledger and reserved stock
+	 * POST /api/order/:id/cancel
+	 */
+	const cancel = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				orderLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const validation = OrderTransitionSchema.safeParse(req.body || {});
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				orderLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const { reason } = validation.data;
+			const actor = (req as AuthRequest).userId || "unknown";
+
+			orderLogger.info(`Cancelling order ${id} by ${actor}`);
+
+			const existingOrder = await prisma.order.findFirst({
+				where: { id },
+			});
+
+			if (!existingOrder) {
+				orderLogger.error(`${config.ERROR.ORDER.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.ORDER.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const { order: cancelledOrder, unwind } = await cancelOrder(prisma, id, {
+				changedBy: actor,
+				reason,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.ORDER,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.ORDER,
+				entityId: id,
+				changesBefore: { status: existingOrder.status },
+				changesAfter: { status: cancelledOrder.status, ...unwind },
+				description: `${config.AUDIT_LOG.ORDER.DESCRIPTIONS.ORDER_CANCELLED}: ${existingOrder.orderNumber}`,
+			});
+
+			try {
+				await invalidateCache.byPattern(`cache:order:byId:${id}:*`);
+				await invalidateCache.byPattern("cache:order:list:*");
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+				await invalidateCache.byPattern("cache:products:*");
+				orderLogger.info(`Cache invalidated after order ${id} cancellation`);
+			} catch (cacheError) {
+				orderLogger.warn(
+					"Failed to invalidate cache after order cancellation:",
+					cacheError,
+				);
+			}
+
+			const successResponse = buildSuccessResponse(
+				config.SUCCESS.ORDER.CANCELLED,
+				{ order: cancelledOrder, unwind },
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				orderLogger.warn(`Order cancellation rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
+
+			orderLogger.error(`${config.ERROR.ORDER.ERROR_UPDATING}: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
+	/**
+	 * Change item quantities on an order pending approval and reprice it
+	 * POST /api/order/:id/amend
+	 */
+	const amend = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				orderLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const validation = AmendOrderSchema.safeParse(req.body || {});
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				orderLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const { items, reason } = validation.data;
+			const actor = (req as AuthRequest).userId || "unknown";
+
+			orderLogger.info(`Amending order ${id} by ${actor}`);
+
+			const existingOrder = await prisma.order.findFirst({
+				where: { id },
+				include: { items: true },
+			});
+
+			if (!existingOrder) {
+				orderLogger.error(`${config.ERROR.ORDER.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.ORDER.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const amendment = await amendOrder(prisma, id, items, {
+				changedBy: actor,
+				reason,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.ORDER,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.ORDER,
+				entityId: id,
+				changesBefore: {
+					total: existingOrder.total,
+					items: existingOrder.items.map((item) => ({
+						productId: item.productId,
+						quantity: item.quantity,
+					})),
+				},
+				changesAfter: {
+					total: amendment.order.total,
+					amendedLines: amendment.amendedLines,
+					approvalRestarted: amendment.approvalRestarted,
+					...(reason && { reason }),
+				},
+				description: `${config.AUDIT_LOG.ORDER.DESCRIPTIONS.ORDER_AMENDED}: ${existingOrder.orderNumber}`,
+			});
+
+			try {
+				await invalidateCache.byPattern(`cache:order:byId:${id}:*`);
+				await invalidateCache.byPattern("cache:order:list:*");
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+				await invalidateCache.byPattern("cache:products:*");
+				orderLogger.info(`Cache invalidated after order ${id} amendment`);
+			} catch (cacheError) {
+				orderLogger.warn("Failed to invalidate cache after order amendment:", cacheError);
+			}
+
+			const successResponse = buildSuccessResponse(
+				config.SUCCESS.ORDER.AMENDED,
+				{
+					order: amendment.order,
+					previousTotal: amendment.previousTotal,
+					amendedLines: amendment.amendedLines,
+					...(amendment.installments && { installments: amendment.installments }),
+					...(amendment.coupon && { coupon: amendment.coupon }),
+					approvalRestarted: amendment.approvalRestarted,
+					...(amendment.approvalChain && {
+						approvalWorkflow: {
+							name: amendment.approvalChain.workflow.name,
+							totalLevels: amendment.approvalChain.approvals.length,
+							currentLevel: 1,
+						},
+					}),
+				},
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				orderLogger.warn(`Order amendment rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+				);
+				return;
+			}
+
+			orderLogger.error(`${config.ERROR.ORDER.ERROR_UPDATING}: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
+	const prepay = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				orderLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const validation = PrepayOrderSchema.safeParse(req.body || {});
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				orderLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const input = validation.data;
+			const actor = (req as AuthRequest).userId || "unknown";
+
+			orderLogger.info(`Applying ${input.applyTo} prepayment to order ${id} by ${actor}`);
+
+			const prepayment = await prepayOrder(prisma, id, input, { changedBy: actor });
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.ORDER,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.ORDER,
+				entityId: id,
+				changesBefore: { balance: prepayment.previousBalance },
+				changesAfter: {
+					applyTo: prepayment.applyTo,
+					amount: prepayment.amount,
+					paymentMethod: input.paymentMethod,
+					...(input.reference && { reference: input.reference }),
+					prepaidInstallments: prepayment.prepaidInstallments.map((i: any) => i.id),
+					regeneratedInstallments: prepayment.regeneratedInstallments.length,
+					balance: prepayment.ledger.balance,
+					fullyPaid: prepayment.fullyPaid,
+				},
+				description: `${config.AUDIT_LOG.ORDER.DESCRIPTIONS.ORDER_PREPAID}: ${prepayment.order?.orderNumber}`,
+			});
+
+			try {
+				await invalidateCache.byPattern(`cache:order:byId:${id}:*`);
+				await invalidateCache.byPattern("cache:order:list:*");
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+				orderLogger.info(`Cache invalidated after order ${id} prepayment`);
+			} catch (cacheError) {
+				orderLogger.warn("Failed to invalidate cache after order prepayment:", cacheError);
+			}
+
+			const successResponse = buildSuccessResponse(
+				config.SUCCESS.ORDER.PREPAID,
+				prepayment,
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				orderLogger.warn(`Order prepayment rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+				);
+				return;
+			}
+
+			orderLogger.error(`${config.ERROR.ORDER.ERROR_UPDATING}: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
+	return {
+		create,
+		getAll,
+		getById,
+		update,
+		remove,
+		markProcessing,
+		ship,
+		deliver,
+		cancel,
+		amend,
+		prepay,
+	};
 };
@@ -1,4 +1,6 @@
 import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
+import verifyToken from "../../middleware/verifyToken";
 import { cache, cacheShort, cacheMedium, cacheUser } from "../../middleware/cache";
 
 interface IController {
@@ -7,6 +9,12 @@ interface IController {
 	create(req: Request, res: Response, next: NextFunction): Promise<void>;
 	update(req: Request, res: Response, next: NextFunction): Promise<void>;
 	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	markProcessing(req: Request, res: Response, next: NextFunction): Promise<void>;
+	ship(req: Request, res: Response, next: NextFunction): Promise<void>;
+	deliver(req: Request, res: Response, next: NextFunction): Promise<void>;
+	cancel(req: Request, res: Response, next: NextFunction): Promise<void>;
+	amend(req: Request, res: Response, next: NextFunction): Promise<void>;
+	prepay(req: Request, res: Response, next: NextFunction): Promise<void>;
 }
 
 export const router = (route: Router, controller: IController): Router => {
@@ -217,8 +225,20 @@ export const router = (route: Router, controller: IController): Router => {
 	 * /api/order:
 	 *   post:
 	 *     summary: Create new order
-	 *     description: Create a new order with the provided data
+	 *     description: |
+	 *       Create a new order from its items ([{ productId, quantity, discount? }]), which are required.
+	 *       Lines are priced from the products and subtotal, tax (per tax class) and total are computed
+	 *       server-side; client-supplied amounts are ignored. The credit check, stock, ledger and any
+	 *       installment schedule are committed together with the order.
 	 *     tags: [Order]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
 	 *     requestBody:
 	 *       required: true
 	 *       content:
@@ -293,10 +313,18 @@ export const router = (route: Router, controller: IController): Router => {
 	 *                           $ref: '#/components/schemas/Order'
 	 *       400:
 	 *         $ref: '#/components/responses/BadRequest'
+	 *       404:
+	 *         description: A product in items does not exist
+	 *       422:
+	 *         description: |
+	 *           The order would exceed the employee's credit policy. data.creditCapacity shows the
+	 *           applicable policy, outstanding balance and upcoming deductions per cutoff. GRADE
+	 *           and ORGANIZATION policies match the employee's Person record.
+	 *           Also returned when the employee's points wallet does not cover pointsUsed.
 	 *       500:
 	 *         $ref: '#/components/responses/InternalServerError'
 	 */
-	routes.post("/", controller.create);
+	routes.post("/", idempotency(), controller.create);
 
 	/**
 	 * @openapi
@@ -402,6 +430,361 @@ export const router = (route: Router, controller: IController): Router => {
 	 */
 	routes.delete("/:id", controller.remove);
 
+	/**
+	 * @openapi
+	 * /api/order/{id}/process:
+	 *   post:
+	 *     summary: Start processing an order
+	 *     description: Move an APPROVED order to PROCESSING
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               reason:
+	 *                 type: string
+	 *                 description: Optional reason recorded in the status history
+	 *     responses:
+	 *       200:
+	 *         description: Order status changed successfully
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: Transition not allowed from the order's current status, or the order still has backordered items waiting for stock
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/process", verifyToken, controller.markProcessing);
+
+	/**
+	 * @openapi
+	 * /api/order/{id}/ship:
+	 *   post:
+	 *     summary: Mark order as shipped
+	 *     description: Move a PROCESSING order to SHIPPED and stamp shippedDate
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               reason:
+	 *                 type: string
+	 *                 description: Optional reason recorded in the status history
+	 *               trackingNumber:
+	 *                 type: string
+	 *                 description: Delivery tracking number
+	 *                 example: "TRK-000123"
+	 *     responses:
+	 *       200:
+	 *         description: Order status changed successfully
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: Transition not allowed from the order's current status
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/ship", verifyToken, controller.ship);
+
+	/**
+	 * @openapi
+	 * /api/order/{id}/deliver:
+	 *   post:
+	 *     summary: Mark order as delivered
+	 *     description: Move a SHIPPED order to DELIVERED and stamp deliveredDate
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               reason:
+	 *                 type: string
+	 *                 description: Optional reason recorded in the status history
+	 *     responses:
+	 *       200:
+	 *         description: Order status changed successfully
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: Transition not allowed from the order's current status
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/deliver", verifyToken, controller.deliver);
+
+	/**
+	 * @openapi
+	 * /api/order/{id}/cancel:
+	 *   post:
+	 *     summary: Cancel an order
+	 *     description: |
+	 *       Cancel an order that has not shipped yet. Remaining installments are cancelled,
+	 *       already-deducted installments are refunded through a REFUND transaction, the
+	 *       order ledger is closed and the items are returned to stock, all in one transaction.
+	 *       APPROVED and PROCESSING orders can only be cancelled within the window configured
+	 *       in ORDER_CANCELLATION.WINDOW_HOURS.
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               reason:
+	 *                 type: string
+	 *                 description: Optional reason recorded in the status history
+	 *     responses:
+	 *       200:
+	 *         description: Order cancelled; data.unwind summarises reversed installments, refund and restocked lines
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: Transition not allowed from the order's current status or cancellation window closed
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/cancel", verifyToken, idempotency(), controller.cancel);
+
+	/**
+	 * @openapi
+	 * /api/order/{id}/amend:
+	 *   post:
+	 *     summary: Amend the items of an order pending approval
+	 *     description: |
+	 *       Change item quantities or drop items while the order is PENDING_APPROVAL. Lines keep
+	 *       the unit price they were ordered at. Subtotal, tax, total, any coupon discount, the
+	 *       ledger totalAmount and the installment schedule are recomputed and stock is reserved
+	 *       or released for the difference, all in one transaction. If the new total matches a
+	 *       different approval workflow, the previous approvals are marked SUPERSEDED and a new
+	 *       approval chain is started as the next approval round.
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - items
+	 *             properties:
+	 *               items:
+	 *                 type: array
+	 *                 minItems: 1
+	 *                 description: New quantity for each line to change; lines not listed are kept as they are
+	 *                 items:
+	 *                   type: object
+	 *                   required:
+	 *                     - productId
+	 *                     - quantity
+	 *                   properties:
+	 *                     productId:
+	 *                       type: string
+	 *                       example: "507f1f77bcf86cd799439012"
+	 *                     quantity:
+	 *                       type: integer
+	 *                       minimum: 0
+	 *                       description: 0 removes the item from the order
+	 *                       example: 1
+	 *               reason:
+	 *                 type: string
+	 *                 description: Optional reason recorded in the audit log
+	 *     responses:
+	 *       200:
+	 *         description: Order amended; data.amendedLines lists the changes and data.approvalRestarted tells whether a new approval chain was started
+	 *       400:
+	 *         description: Validation failed, a product is not on the order, nothing changes or every item would be removed
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: The order is no longer pending approval, was paid with MIXED tenders, already has payments or processed installments, or there is not enough stock for an increase
+	 *       422:
+	 *         description: The larger total would exceed the employee's credit policy, the coupon's minimum spend is no longer met, or the points used would cover the whole order
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/amend", verifyToken, idempotency(), controller.amend);
+
+	/**
+	 * @openapi
+	 * /api/order/{id}/prepay:
+	 *   post:
+	 *     summary: Prepay an installment order
+	 *     description: |
+	 *       Apply a cash or bank payment to an order ahead of payroll, all in one transaction.
+	 *
+	 *       NEXT_INSTALLMENTS pays the next installmentCount PENDING installments in full; they
+	 *       become PREPAID. REMAINING_BALANCE pays towards every PENDING installment and the
+	 *       arrears of FAILED or PARTIAL deductions not carried forward yet: the whole balance (the
+	 *       default amount) marks them PREPAID, while a smaller amount is booked as one PREPAID
+	 *       installment and the PENDING ones are cancelled and regenerated on the same cutoffs for
+	 *       what is left, on fewer of them when each would get less than 0.01. Installments already
+	 *       SCHEDULED in a payroll batch are left to payroll.
+	 *
+	 *       The payment is added to the ledger's payment history, and the order's paymentStatus
+	 *       becomes COMPLETED once its ledger balance reaches zero.
+	 *     tags: [Order]
+	 *     security:
+	 *       - bearerAuth: []
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Order ID (MongoDB ObjectId format)
+	 *         example: "507f1f77bcf86cd799439011"
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - applyTo
+	 *               - paymentMethod
+	 *             properties:
+	 *               applyTo:
+	 *                 type: string
+	 *                 enum: [REMAINING_BALANCE, NEXT_INSTALLMENTS]
+	 *               amount:
+	 *                 type: number
+	 *                 description: Defaults to the whole remaining balance, or the sum of the installments covered
+	 *                 example: 1500
+	 *               installmentCount:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *                 description: Required for NEXT_INSTALLMENTS
+	 *               paymentMethod:
+	 *                 type: string
+	 *                 enum: [CASH, BANK_TRANSFER]
+	 *               reference:
+	 *                 type: string
+	 *                 description: Receipt or bank transfer reference
+	 *               notes:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: Prepayment applied; data lists the prepaid and regenerated installments, the ledger and whether the order is fully paid
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       401:
+	 *         $ref: '#/components/responses/Unauthorized'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       409:
+	 *         description: The order is closed, has no pending installments, or an installment was scheduled for payroll meanwhile
+	 *       422:
+	 *         description: The amount exceeds the remaining balance or does not match the installments covered, or fewer installments are pending
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/prepay", verifyToken, idempotency(), controller.prepay);
+
 	route.use(path, routes);
 
 	return route;
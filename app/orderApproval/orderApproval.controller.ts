@@ -11,7 +11,7 @@ import {
 } from "../../helper/query-builder";
 import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
 import { groupDataByField } from "../../helper/dataGrouping";
-import { buildErrorResponse, formatZodErrors } from "../../helper/error-handler";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
 import { CreateOrderApprovalSchema, UpdateOrderApprovalSchema } from "../../zod/orderApproval.zod";
 import { logActivity } from "../../utils/activityLogger";
 import { logAudit } from "../../utils/auditLogger";
@@ -445,6 +445,12 @@ export const controller = (prisma: PrismaClient) => {
 			res.status(200).json(successResponse);
 		} catch (error: any) {
 			orderApprovalLogger.error(`Failed to approve order approval: ${error}`);
+			if (error instanceof ServiceError) {
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
 			const errorResponse = buildErrorResponse(
 				error.message || config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
 				500,
@@ -499,6 +505,12 @@ export const controller = (prisma: PrismaClient) => {
 			res.status(200).json(successResponse);
 		} catch (error: any) {
 			orderApprovalLogger.error(`Failed to reject order approval: ${error}`);
+			if (error instanceof ServiceError) {
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
 			const errorResponse = buildErrorResponse(
 				error.message || config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
 				500,
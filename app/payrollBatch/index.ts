@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./payrollBatch.controller";
+import { router } from "./payrollBatch.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const payrollBatchModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = payrollBatchModule;
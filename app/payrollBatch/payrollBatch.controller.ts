@@ -0,0 +1,455 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import { CreatePayrollBatchSchema, ExportPayrollBatchSchema } from "../../zod/payrollBatch.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import {
+	createPayrollBatch,
+	deletePayrollBatch,
+	exportPayrollBatch,
+	importPayrollResults,
+	summarizeDeductions,
+} from "../../helper/payrollBatchService";
+
+const logger = getLogger();
+const payrollBatchLogger = logger.child({ module: "payrollBatch" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidatePayrollBatchCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:payrollBatch:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:payrollBatch:list:*");
+			await invalidateCache.byPattern("cache:installment:*");
+			await invalidateCache.byPattern("cache:transaction:*");
+		} catch (cacheError) {
+			payrollBatchLogger.warn("Failed to invalidate payrollBatch cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			payrollBatchLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		payrollBatchLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	/**
+	 * Snapshot the installments due by a cutoff into a new batch
+	 * POST /api/payrollBatch
+	 */
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreatePayrollBatchSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			payrollBatchLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PAYROLLBATCH.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const data = validation.data;
+			const actor = (req as any).user?.id || data.createdBy || "unknown";
+
+			const payrollBatch = await createPayrollBatch(prisma, { ...data, createdBy: actor });
+
+			logActivity(req, {
+				userId: actor,
+				action: "CREATE_PAYROLL_BATCH",
+				description: `Payroll batch created: ${payrollBatch.batchNumber}`,
+				page: {
+					url: req.originalUrl,
+					title: "Payroll Batch Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLBATCH,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLBATCH,
+				entityId: payrollBatch.id,
+				changesBefore: null,
+				changesAfter: {
+					batchNumber: payrollBatch.batchNumber,
+					cutOffDate: payrollBatch.cutOffDate,
+					payrollCalendarId: payrollBatch.payrollCalendarId,
+					employeeCount: payrollBatch.employeeCount,
+					installmentCount: payrollBatch.installmentCount,
+					totalAmount: payrollBatch.totalAmount,
+					deductionCap: payrollBatch.deductionCap,
+					deferredInstallmentCount: payrollBatch.deferredInstallmentCount,
+					deferredAmount: payrollBatch.deferredAmount,
+				},
+				description: `${config.AUDIT_LOG.PAYROLLBATCH.DESCRIPTIONS.PAYROLLBATCH_CREATED}: ${payrollBatch.batchNumber}`,
+			});
+
+			await invalidatePayrollBatchCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.PAYROLLBATCH.CREATED, { payrollBatch }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, payrollBatchLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		payrollBatchLogger.info(
+			`Getting payroll batches, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.PayrollBatchWhereInput = {};
+
+			const searchFields = ["batchNumber", "status", "payrollCalendarId", "notes"];
+			if (query) {
+				const searchConditions = buildSearchConditions("PayrollBatch", query, searchFields);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("PayrollBatch", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [payrollBatches, total] = await Promise.all([
+				document ? prisma.payrollBatch.findMany(findManyQuery) : [],
+				count ? prisma.payrollBatch.count({ where: whereClause }) : 0,
+			]);
+
+			payrollBatchLogger.info(`Retrieved ${payrollBatches.length} payroll batches`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(payrollBatches, groupBy as string)
+					: payrollBatches;
+
+			const responseData: Record<string, any> = {
+				...(document && { payrollBatches: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PAYROLLBATCH.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				payrollBatchLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				payrollBatchLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			payrollBatchLogger.info(`Getting payroll batch by ID: ${id}`);
+
+			const cacheKey = `cache:payrollBatch:byId:${id}:${fields || "full"}`;
+			let payrollBatch: any = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					payrollBatch = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				payrollBatchLogger.warn(
+					`Redis cache retrieval failed for payroll batch ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!payrollBatch) {
+				const query: Prisma.PayrollBatchFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				payrollBatch = await prisma.payrollBatch.findFirst(query);
+
+				if (payrollBatch && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, payrollBatch, 3600);
+					} catch (cacheError) {
+						payrollBatchLogger.warn(
+							`Failed to store payroll batch ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!payrollBatch) {
+				payrollBatchLogger.error(`${config.ERROR.PAYROLLBATCH.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.PAYROLLBATCH.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			// Per-employee deductions as they appear in the export
+			const responseData = payrollBatch.lines
+				? { ...payrollBatch, deductions: summarizeDeductions(payrollBatch.lines) }
+				: payrollBatch;
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PAYROLLBATCH.RETRIEVED, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.GET_FAILED);
+		}
+	};
+
+	/**
+	 * Delete a batch that has not been exported, releasing its installments
+	 * DELETE /api/payrollBatch/:id
+	 */
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				payrollBatchLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const actor = (req as any).user?.id || "unknown";
+
+			const { batch, releasedInstallments, restoredDeferredInstallments } =
+				await deletePayrollBatch(prisma, id);
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLBATCH,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLBATCH,
+				entityId: id,
+				changesBefore: {
+					batchNumber: batch.batchNumber,
+					status: batch.status,
+					installmentCount: batch.installmentCount,
+					totalAmount: batch.totalAmount,
+				},
+				changesAfter: { releasedInstallments, restoredDeferredInstallments },
+				description: `${config.AUDIT_LOG.PAYROLLBATCH.DESCRIPTIONS.PAYROLLBATCH_DELETED}: ${batch.batchNumber}`,
+			});
+
+			await invalidatePayrollBatchCache(id);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLBATCH.DELETED,
+					{ releasedInstallments, restoredDeferredInstallments },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.DELETE_FAILED);
+		}
+	};
+
+	/**
+	 * Download the deduction file of a batch; the first export locks the batch
+	 * POST /api/payrollBatch/:id/export?format=CSV|XLSX|FIXED_WIDTH
+	 */
+	const exportBatch = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = ExportPayrollBatchSchema.safeParse({
+			...(req.query || {}),
+			...(req.body || {}),
+		});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			payrollBatchLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PAYROLLBATCH.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const { format, exportedBy } = validation.data;
+			const actor = (req as any).user?.id || exportedBy || "unknown";
+
+			const { batch, file, firstExport } = await exportPayrollBatch(
+				prisma,
+				id,
+				format,
+				actor,
+			);
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLBATCH,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLBATCH,
+				entityId: id,
+				changesBefore: firstExport ? { status: "DRAFT" } : null,
+				changesAfter: {
+					status: batch.status,
+					format,
+					exportCount: batch.exportCount,
+				},
+				description: `${config.AUDIT_LOG.PAYROLLBATCH.DESCRIPTIONS.PAYROLLBATCH_EXPORTED}: ${batch.batchNumber}`,
+			});
+
+			await invalidatePayrollBatchCache(id);
+
+			res.setHeader("Content-Type", file.contentType);
+			res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+			res.status(200).send(file.content);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.EXPORT_FAILED);
+		}
+	};
+
+	/**
+	 * Post the results file payroll sends back for a batch
+	 * POST /api/payrollBatch/:id/results (multipart, field "file")
+	 */
+	const importResults = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		if (!req.file) {
+			payrollBatchLogger.error("No payroll results file uploaded");
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PAYROLLBATCH.RESULTS_FILE_REQUIRED,
+				400,
+				[{ field: "file", message: "Please upload a CSV file" }],
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || req.body?.importedBy || "unknown";
+
+			const summary = await importPayrollResults(prisma, id, req.file, actor);
+
+			if (!summary.duplicate) {
+				logAudit(req, {
+					userId: actor,
+					action: config.AUDIT_LOG.ACTIONS.UPDATE,
+					resource: config.AUDIT_LOG.RESOURCES.PAYROLLBATCH,
+					severity: config.AUDIT_LOG.SEVERITY.HIGH,
+					entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLBATCH,
+					entityId: id,
+					changesBefore: null,
+					changesAfter: {
+						fileName: summary.fileName,
+						fileHash: summary.fileHash,
+						rows: summary.rows,
+						installments: summary.installments,
+						amounts: summary.amounts,
+						batchStatus: summary.batchStatus,
+					},
+					description: `${config.AUDIT_LOG.PAYROLLBATCH.DESCRIPTIONS.PAYROLLBATCH_RESULTS_IMPORTED}: ${summary.batchNumber}`,
+				});
+
+				await invalidatePayrollBatchCache(id);
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(
+					summary.duplicate
+						? config.SUCCESS.PAYROLLBATCH.RESULTS_ALREADY_IMPORTED
+						: config.SUCCESS.PAYROLLBATCH.RESULTS_IMPORTED,
+					summary,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLBATCH.IMPORT_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, remove, exportBatch, importResults };
+};
@@ -0,0 +1,297 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+import { idempotency } from "../../middleware/idempotency";
+import { uploadCSV } from "../../middleware/upload";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	exportBatch(req: Request, res: Response, next: NextFunction): Promise<void>;
+	importResults(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/payrollBatch";
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch/{id}/export:
+	 *   post:
+	 *     summary: Export payroll batch deduction file
+	 *     description: |
+	 *       Download the batch as a deduction file with one line per employee, followed by the
+	 *       totals and control counts (employees, installments and amount). The first export marks
+	 *       the batch EXPORTED; from then on it cannot be deleted, and every later export returns
+	 *       the same content.
+	 *
+	 *       The fixed-width layout has an H header record, one D record per employee and a T
+	 *       trailer. Amounts are in cents and dates are YYYYMMDD.
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: format
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           enum: [CSV, XLSX, FIXED_WIDTH]
+	 *           default: CSV
+	 *     responses:
+	 *       200:
+	 *         description: Deduction file
+	 *         content:
+	 *           text/csv:
+	 *             schema:
+	 *               type: string
+	 *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+	 *             schema:
+	 *               type: string
+	 *               format: binary
+	 *           text/plain:
+	 *             schema:
+	 *               type: string
+	 *       400:
+	 *         description: Validation error
+	 *       404:
+	 *         description: Payroll batch not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/export", controller.exportBatch);
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch/{id}/results:
+	 *   post:
+	 *     summary: Import payroll deduction results
+	 *     description: |
+	 *       Post the results file payroll returns for an exported batch. The CSV has one row per
+	 *       employee with the columns Batch Number, Employee ID, Status (DEDUCTED, PARTIAL or
+	 *       FAILED), Deducted Amount, Reference and Reason.
+	 *
+	 *       Each row must name this batch and an employee in it, and its amount must match the
+	 *       employee's deduction (DEDUCTED) or fall below it (PARTIAL). Valid rows are posted over
+	 *       the employee's installments, oldest first: covered installments are marked DEDUCTED and
+	 *       recorded in the ledger, a partly covered one becomes PARTIAL and the rest FAILED. Rows
+	 *       with errors are listed and left unposted.
+	 *
+	 *       Re-uploading is safe: the same file returns its first summary without posting, and a
+	 *       corrected file only posts installments that are still SCHEDULED. The batch becomes
+	 *       RECONCILED once every installment has a result.
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         multipart/form-data:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - file
+	 *             properties:
+	 *               file:
+	 *                 type: string
+	 *                 format: binary
+	 *     responses:
+	 *       200:
+	 *         description: |
+	 *           Reconciliation summary: row counts, installments posted by result, expected,
+	 *           deducted and unpaid amounts, employees still without a result, per-line outcomes
+	 *           and per-line errors
+	 *       400:
+	 *         description: Missing or unreadable file
+	 *       404:
+	 *         description: Payroll batch not found
+	 *       409:
+	 *         description: The batch has not been exported yet
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/results", uploadCSV, controller.importResults);
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch/{id}:
+	 *   get:
+	 *     summary: Get payroll batch by ID
+	 *     description: The batch snapshot with its installment lines and the per-employee deductions
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Payroll batch retrieved successfully
+	 *       404:
+	 *         description: Payroll batch not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:payrollBatch:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch:
+	 *   get:
+	 *     summary: Get all payroll batches
+	 *     description: Retrieve payroll batches with filtering, pagination, and sorting
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Payroll batches retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:payrollBatch:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch:
+	 *   post:
+	 *     summary: Create payroll batch
+	 *     description: |
+	 *       Snapshot every PENDING installment with a cutoff on or before cutOffDate into a new
+	 *       DRAFT batch. The installments move to SCHEDULED with payrollBatchId set, so they no
+	 *       longer appear in pending-payroll or in another batch.
+	 *
+	 *       Each employee's installments are taken oldest first up to deductionCap, or the
+	 *       maxDeductionPerCutoff of the employee's credit policy when smaller. The rest stay
+	 *       PENDING and move to the next cutoff on their order's payroll calendar; each move is
+	 *       added to the installment's deferrals. An employee's first installment and final pay
+	 *       deductions are always taken.
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - cutOffDate
+	 *             properties:
+	 *               cutOffDate:
+	 *                 type: string
+	 *                 format: date
+	 *                 example: "2026-01-15"
+	 *               payrollCalendarId:
+	 *                 type: string
+	 *                 description: Only orders on this payroll calendar (defaults to every calendar)
+	 *               deductionCap:
+	 *                 type: number
+	 *                 nullable: true
+	 *                 description: |
+	 *                   Largest deduction per employee (defaults to PAYROLL.MAX_DEDUCTION_PER_CUTOFF;
+	 *                   null = no cap)
+	 *               notes:
+	 *                 type: string
+	 *     responses:
+	 *       201:
+	 *         description: Payroll batch created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: Some installments were taken by a concurrent batch
+	 *       422:
+	 *         description: No installments are due by the cutoff
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", idempotency(), controller.create);
+
+	/**
+	 * @openapi
+	 * /api/payrollBatch/{id}:
+	 *   delete:
+	 *     summary: Delete payroll batch
+	 *     description: |
+	 *       Delete a DRAFT batch and put its installments back to PENDING. Installments it
+	 *       deferred go back to their cutoff unless a later batch deferred them again.
+	 *     tags: [PayrollBatch]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Payroll batch deleted successfully
+	 *       404:
+	 *         description: Payroll batch not found
+	 *       409:
+	 *         description: The batch has been exported
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
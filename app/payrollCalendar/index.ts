@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./payrollCalendar.controller";
+import { router } from "./payrollCalendar.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const payrollCalendarModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = payrollCalendarModule;
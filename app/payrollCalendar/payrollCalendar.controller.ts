@@ -0,0 +1,483 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreatePayrollCalendarSchema,
+	PayrollCalendarPreviewSchema,
+	UpdatePayrollCalendarSchema,
+} from "../../zod/payrollCalendar.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import {
+	calculatePayrollDates,
+	countPayrollPeriods,
+	toPayrollCalendarRules,
+} from "../../helper/payrollCalendarService";
+
+const logger = getLogger();
+const payrollCalendarLogger = logger.child({ module: "payrollCalendar" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidatePayrollCalendarCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:payrollCalendar:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:payrollCalendar:list:*");
+		} catch (cacheError) {
+			payrollCalendarLogger.warn("Failed to invalidate payrollCalendar cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			payrollCalendarLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// Unique indexes on name and organizationId
+		if (error?.code === "P2002") {
+			payrollCalendarLogger.warn(`${fallbackMessage}: ${error}`);
+			res.status(409).json(buildErrorResponse(config.ERROR.PAYROLLCALENDAR.DUPLICATE, 409));
+			return;
+		}
+
+		payrollCalendarLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreatePayrollCalendarSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			payrollCalendarLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PAYROLLCALENDAR.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const data = validation.data;
+			const payrollCalendar = await prisma.payrollCalendar.create({
+				data: data as any,
+			});
+			payrollCalendarLogger.info(`Payroll calendar created: ${payrollCalendar.id}`);
+
+			logActivity(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: "CREATE_PAYROLL_CALENDAR",
+				description: `Payroll calendar created: ${payrollCalendar.name}`,
+				page: {
+					url: req.originalUrl,
+					title: "Payroll Calendar Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLCALENDAR,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLCALENDAR,
+				entityId: payrollCalendar.id,
+				changesBefore: null,
+				changesAfter: payrollCalendar,
+				description: `${config.AUDIT_LOG.PAYROLLCALENDAR.DESCRIPTIONS.PAYROLLCALENDAR_CREATED}: ${payrollCalendar.name}`,
+			});
+
+			await invalidatePayrollCalendarCache();
+
+			res.status(201).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLCALENDAR.CREATED,
+					{ payrollCalendar },
+					201,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, payrollCalendarLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		payrollCalendarLogger.info(
+			`Getting payroll calendars, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.PayrollCalendarWhereInput = {};
+
+			const searchFields = ["name", "description", "organizationId"];
+			if (query) {
+				const searchConditions = buildSearchConditions(
+					"PayrollCalendar",
+					query,
+					searchFields,
+				);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("PayrollCalendar", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [payrollCalendars, total] = await Promise.all([
+				document ? prisma.payrollCalendar.findMany(findManyQuery) : [],
+				count ? prisma.payrollCalendar.count({ where: whereClause }) : 0,
+			]);
+
+			payrollCalendarLogger.info(`Retrieved ${payrollCalendars.length} payroll calendars`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(payrollCalendars, groupBy as string)
+					: payrollCalendars;
+
+			const responseData: Record<string, any> = {
+				...(document && { payrollCalendars: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLCALENDAR.RETRIEVED_ALL,
+					responseData,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				payrollCalendarLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				payrollCalendarLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			payrollCalendarLogger.info(`Getting payroll calendar by ID: ${id}`);
+
+			const cacheKey = `cache:payrollCalendar:byId:${id}:${fields || "full"}`;
+			let payrollCalendar = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					payrollCalendar = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				payrollCalendarLogger.warn(
+					`Redis cache retrieval failed for payroll calendar ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!payrollCalendar) {
+				const query: Prisma.PayrollCalendarFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				payrollCalendar = await prisma.payrollCalendar.findFirst(query);
+
+				if (payrollCalendar && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, payrollCalendar, 3600);
+					} catch (cacheError) {
+						payrollCalendarLogger.warn(
+							`Failed to store payroll calendar ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!payrollCalendar) {
+				payrollCalendarLogger.error(`${config.ERROR.PAYROLLCALENDAR.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PAYROLLCALENDAR.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLCALENDAR.RETRIEVED,
+					payrollCalendar,
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.GET_FAILED);
+		}
+	};
+
+	const update = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				payrollCalendarLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const requestData = req.body || {};
+
+			const validation = UpdatePayrollCalendarSchema.safeParse(requestData);
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				payrollCalendarLogger.error(
+					`Validation failed: ${JSON.stringify(formattedErrors)}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PAYROLLCALENDAR.VALIDATION_FAILED,
+					400,
+					formattedErrors,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			if (Object.keys(requestData).length === 0) {
+				payrollCalendarLogger.error(config.ERROR.COMMON.NO_UPDATE_FIELDS);
+				const errorResponse = buildErrorResponse(config.ERROR.COMMON.NO_UPDATE_FIELDS, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const existingPayrollCalendar = await prisma.payrollCalendar.findFirst({
+				where: { id },
+			});
+
+			if (!existingPayrollCalendar) {
+				payrollCalendarLogger.error(`${config.ERROR.PAYROLLCALENDAR.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PAYROLLCALENDAR.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const prismaData: Prisma.PayrollCalendarUpdateInput = { ...validation.data };
+
+			const payrollCalendar = await prisma.payrollCalendar.update({
+				where: { id },
+				data: prismaData,
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLCALENDAR,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLCALENDAR,
+				entityId: id,
+				changesBefore: existingPayrollCalendar,
+				changesAfter: payrollCalendar,
+				description: `${config.AUDIT_LOG.PAYROLLCALENDAR.DESCRIPTIONS.PAYROLLCALENDAR_UPDATED}: ${payrollCalendar.name}`,
+			});
+
+			await invalidatePayrollCalendarCache(id);
+
+			payrollCalendarLogger.info(`Payroll calendar updated: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLCALENDAR.UPDATED,
+					{ payrollCalendar },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.UPDATE_FAILED);
+		}
+	};
+
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				payrollCalendarLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const existingPayrollCalendar = await prisma.payrollCalendar.findFirst({
+				where: { id },
+			});
+
+			if (!existingPayrollCalendar) {
+				payrollCalendarLogger.error(`${config.ERROR.PAYROLLCALENDAR.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PAYROLLCALENDAR.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			await prisma.payrollCalendar.delete({
+				where: { id },
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.PAYROLLCALENDAR,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PAYROLLCALENDAR,
+				entityId: id,
+				changesBefore: existingPayrollCalendar,
+				changesAfter: null,
+				description: `${config.AUDIT_LOG.PAYROLLCALENDAR.DESCRIPTIONS.PAYROLLCALENDAR_DELETED}: ${existingPayrollCalendar.name}`,
+			});
+
+			await invalidatePayrollCalendarCache(id);
+
+			payrollCalendarLogger.info(`Payroll calendar deleted: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PAYROLLCALENDAR.DELETED, {}, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.DELETE_FAILED);
+		}
+	};
+
+	/**
+	 * Upcoming cutoffs and pay dates of a calendar, with holidays and non-working days applied
+	 * GET /api/payrollCalendar/:id/preview
+	 */
+	const preview = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = PayrollCalendarPreviewSchema.safeParse(req.query || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			payrollCalendarLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PAYROLLCALENDAR.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const existingPayrollCalendar = await prisma.payrollCalendar.findFirst({
+				where: { id },
+			});
+
+			if (!existingPayrollCalendar) {
+				payrollCalendarLogger.error(`${config.ERROR.PAYROLLCALENDAR.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PAYROLLCALENDAR.NOT_FOUND,
+					404,
+				);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const { startDate = new Date(), months } = validation.data;
+			const calendar = toPayrollCalendarRules(existingPayrollCalendar);
+			const payrollDates = calculatePayrollDates(
+				calendar,
+				startDate,
+				countPayrollPeriods(calendar, months),
+			);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PAYROLLCALENDAR.PREVIEW_RETRIEVED,
+					{ calendar, startDate, months, payrollDates },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PAYROLLCALENDAR.PREVIEW_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, update, remove, preview };
+};
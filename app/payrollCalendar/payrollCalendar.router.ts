@@ -0,0 +1,280 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	update(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	preview(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/payrollCalendar";
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar/{id}/preview:
+	 *   get:
+	 *     summary: Preview a payroll calendar
+	 *     description: |
+	 *       Upcoming cutoffs and pay dates of the calendar for an installment plan of the given length,
+	 *       with holidays and non-working days applied to the pay dates.
+	 *     tags: [PayrollCalendar]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: startDate
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           format: date
+	 *         description: First cutoff on or after this date (defaults to today)
+	 *       - in: query
+	 *         name: months
+	 *         required: false
+	 *         schema:
+	 *           type: integer
+	 *           minimum: 1
+	 *           maximum: 60
+	 *           default: 3
+	 *     responses:
+	 *       200:
+	 *         description: Payroll dates retrieved successfully
+	 *       400:
+	 *         description: Validation error
+	 *       404:
+	 *         description: Payroll calendar not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get("/:id/preview", controller.preview);
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar/{id}:
+	 *   get:
+	 *     summary: Get payroll calendar by ID
+	 *     description: Retrieve a specific payroll calendar by its unique identifier
+	 *     tags: [PayrollCalendar]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Payroll calendar ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Payroll calendar retrieved successfully
+	 *       404:
+	 *         description: Payroll calendar not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:payrollCalendar:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar:
+	 *   get:
+	 *     summary: Get all payroll calendars
+	 *     description: Retrieve payroll calendars with filtering, pagination, and sorting
+	 *     tags: [PayrollCalendar]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Payroll calendars retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:payrollCalendar:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar:
+	 *   post:
+	 *     summary: Create payroll calendar
+	 *     description: |
+	 *       Create the payroll calendar for an organization, or the default calendar when
+	 *       organizationId is left out. Installment cutoffs and pay dates of new orders follow the
+	 *       calendar of the employee's organization.
+	 *     tags: [PayrollCalendar]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - name
+	 *               - frequency
+	 *             properties:
+	 *               name:
+	 *                 type: string
+	 *               description:
+	 *                 type: string
+	 *               isActive:
+	 *                 type: boolean
+	 *               organizationId:
+	 *                 type: string
+	 *                 description: Organization paid on this calendar (empty for the default calendar)
+	 *               frequency:
+	 *                 type: string
+	 *                 enum: [WEEKLY, BI_WEEKLY, SEMI_MONTHLY, MONTHLY]
+	 *               cutoffWeekday:
+	 *                 type: integer
+	 *                 minimum: 0
+	 *                 maximum: 6
+	 *                 description: WEEKLY cutoff day, 0 = Sunday (defaults to Friday)
+	 *               anchorDate:
+	 *                 type: string
+	 *                 example: "2026-01-09"
+	 *                 description: Any BI_WEEKLY cutoff (YYYY-MM-DD) the fortnights are counted from; required for BI_WEEKLY
+	 *               firstCutoffDay:
+	 *                 type: integer
+	 *                 description: SEMI_MONTHLY first cutoff day (defaults to 15)
+	 *               secondCutoffDay:
+	 *                 type: integer
+	 *                 description: SEMI_MONTHLY second cutoff day (defaults to the last day of the month)
+	 *               monthlyCutoffDay:
+	 *                 type: integer
+	 *                 description: MONTHLY cutoff day (defaults to the last day of the month)
+	 *               payDateOffsetDays:
+	 *                 type: integer
+	 *                 default: 5
+	 *                 description: Days from cutoff to pay date
+	 *               nonWorkingWeekdays:
+	 *                 type: array
+	 *                 items:
+	 *                   type: integer
+	 *                 example: [0, 6]
+	 *               holidays:
+	 *                 type: array
+	 *                 items:
+	 *                   type: string
+	 *                 example: ["2026-12-25", "2026-12-30"]
+	 *               holidayShift:
+	 *                 type: string
+	 *                 enum: [PREVIOUS_WORKING_DAY, NEXT_WORKING_DAY]
+	 *                 description: Which way a pay date on a holiday or non-working day moves
+	 *     responses:
+	 *       201:
+	 *         description: Payroll calendar created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: A calendar already exists with this name or organization
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", controller.create);
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar/{id}:
+	 *   patch:
+	 *     summary: Update payroll calendar
+	 *     description: Update a payroll calendar. Schedules already generated keep their dates.
+	 *     tags: [PayrollCalendar]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *     responses:
+	 *       200:
+	 *         description: Payroll calendar updated successfully
+	 *       404:
+	 *         description: Payroll calendar not found
+	 *       409:
+	 *         description: A calendar already exists with this name or organization
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.patch("/:id", controller.update);
+
+	/**
+	 * @openapi
+	 * /api/payrollCalendar/{id}:
+	 *   delete:
+	 *     summary: Delete payroll calendar
+	 *     description: Delete a payroll calendar. Orders on it fall back to the default calendar.
+	 *     tags: [PayrollCalendar]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Payroll calendar deleted successfully
+	 *       404:
+	 *         description: Payroll calendar not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
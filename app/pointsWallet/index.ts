@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./pointsWallet.controller";
+import { router } from "./pointsWallet.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const pointsWalletModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = pointsWalletModule;
@@ -0,0 +1,276 @@
+import { randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import { buildFilterConditions, buildFindManyQuery } from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	BulkPointsGrantSchema,
+	ExpirePointsSchema,
+	ReversePointsEntrySchema,
+} from "../../zod/pointsWallet.zod";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { bulkGrantPoints, expirePoints, reversePointsEntry } from "../../helper/pointsService";
+
+const logger = getLogger();
+const pointsWalletLogger = logger.child({ module: "pointsWallet" });
+
+export const controller = (prisma: PrismaClient) => {
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			pointsWalletLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		pointsWalletLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const sendValidationError = (res: Response, error: any) => {
+		const formattedErrors = formatZodErrors(error.format());
+		pointsWalletLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+		res.status(400).json(
+			buildErrorResponse(config.ERROR.POINTSWALLET.VALIDATION_FAILED, 400, formattedErrors),
+		);
+	};
+
+	/**
+	 * Wallet balance and running totals for an employee
+	 * GET /api/pointsWallet/employee/:employeeId
+	 */
+	const getWallet = async (req: Request, res: Response, _next: NextFunction) => {
+		const { employeeId: rawEmployeeId } = req.params;
+		const employeeId = Array.isArray(rawEmployeeId) ? rawEmployeeId[0] : rawEmployeeId;
+
+		try {
+			const wallet = await prisma.pointsWallet.findUnique({ where: { employeeId } });
+
+			// Employees without a wallet simply have no points yet
+			const pointsWallet = wallet || {
+				employeeId,
+				balance: 0,
+				lifetimeEarned: 0,
+				lifetimeRedeemed: 0,
+				lifetimeExpired: 0,
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.POINTSWALLET.RETRIEVED, { pointsWallet }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.POINTSWALLET.GET_FAILED);
+		}
+	};
+
+	/**
+	 * Ledger entries for an employee, newest first unless sorted otherwise
+	 * GET /api/pointsWallet/employee/:employeeId/ledger
+	 */
+	const getLedger = async (req: Request, res: Response, _next: NextFunction) => {
+		const { employeeId: rawEmployeeId } = req.params;
+		const employeeId = Array.isArray(rawEmployeeId) ? rawEmployeeId[0] : rawEmployeeId;
+
+		const validationResult = validateQueryParams(req, pointsWalletLogger);
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const { page, limit, order, fields, sort, skip, pagination, filter } =
+			validationResult.validatedParams!;
+
+		try {
+			const whereClause: Prisma.PointsLedgerEntryWhereInput = { employeeId };
+			if (filter) {
+				const filterConditions = buildFilterConditions("PointsLedgerEntry", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(
+				whereClause,
+				skip,
+				limit,
+				order,
+				sort || "createdAt",
+				fields,
+			);
+
+			const [entries, total] = await Promise.all([
+				prisma.pointsLedgerEntry.findMany(findManyQuery),
+				prisma.pointsLedgerEntry.count({ where: whereClause }),
+			]);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.POINTSWALLET.LEDGER_RETRIEVED,
+					{
+						entries,
+						count: total,
+						...(pagination && { pagination: buildPagination(total, page, limit) }),
+					},
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.POINTSWALLET.LEDGER_FAILED);
+		}
+	};
+
+	/**
+	 * Grant points to many employees at once
+	 * POST /api/pointsWallet/grant
+	 */
+	const grant = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = BulkPointsGrantSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		const { grants, reason, expiresAt, grantedBy } = validation.data;
+		if (grants.length > config.POINTS.MAX_GRANT_BATCH_SIZE) {
+			res.status(400).json(
+				buildErrorResponse(config.ERROR.POINTSWALLET.VALIDATION_FAILED, 400, [
+					{
+						field: "grants",
+						message: `At most ${config.POINTS.MAX_GRANT_BATCH_SIZE} grants per request`,
+					},
+				]),
+			);
+			return;
+		}
+
+		const actor = (req as any).user?.id || grantedBy || "unknown";
+
+		try {
+			const result = await bulkGrantPoints(
+				prisma,
+				grants.map((row) => ({
+					...row,
+					reason: row.reason || reason,
+					expiresAt: row.expiresAt !== undefined ? row.expiresAt : expiresAt,
+				})),
+				{ grantBatchId: randomUUID(), grantedBy: actor },
+			);
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.POINTSWALLET,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.POINTSWALLET,
+				entityId: result.grantBatchId,
+				changesBefore: null,
+				changesAfter: {
+					grantBatchId: result.grantBatchId,
+					grantedCount: result.grantedCount,
+					failedCount: result.failedCount,
+					totalPoints: result.totalPoints,
+				},
+				description: `${config.AUDIT_LOG.POINTSWALLET.DESCRIPTIONS.POINTS_GRANTED}: ${result.totalPoints} to ${result.grantedCount} employee(s) (${reason})`,
+			});
+
+			// 207 when only some rows went through
+			const statusCode = result.failedCount === 0 ? 201 : result.grantedCount > 0 ? 207 : 400;
+			res.status(statusCode).json(
+				buildSuccessResponse(
+					`${config.SUCCESS.POINTSWALLET.GRANTED}: ${result.grantedCount} of ${grants.length}`,
+					result,
+					statusCode,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.POINTSWALLET.GRANT_FAILED);
+		}
+	};
+
+	/**
+	 * Undo a ledger entry
+	 * POST /api/pointsWallet/ledger/:entryId/reverse
+	 */
+	const reverse = async (req: Request, res: Response, _next: NextFunction) => {
+		const { entryId: rawEntryId } = req.params;
+		const entryId = Array.isArray(rawEntryId) ? rawEntryId[0] : rawEntryId;
+
+		const validation = ReversePointsEntrySchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		const actor = (req as any).user?.id || validation.data.reversedBy || "unknown";
+
+		try {
+			const reversal = await prisma.$transaction((tx) =>
+				reversePointsEntry(tx, entryId, {
+					reason: validation.data.reason,
+					reversedBy: actor,
+				}),
+			);
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.POINTSWALLET,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.POINTSWALLET,
+				entityId: reversal.id,
+				changesBefore: null,
+				changesAfter: reversal,
+				description: `${config.AUDIT_LOG.POINTSWALLET.DESCRIPTIONS.POINTS_REVERSED}: ${entryId} (${reversal.points})`,
+			});
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.POINTSWALLET.REVERSED, { reversal }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.POINTSWALLET.REVERSE_FAILED);
+		}
+	};
+
+	/**
+	 * Expire lapsed points across all wallets
+	 * POST /api/pointsWallet/expire
+	 */
+	const expire = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = ExpirePointsSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			sendValidationError(res, validation.error);
+			return;
+		}
+
+		try {
+			const result = await expirePoints(prisma, validation.data.asOf);
+
+			if (result.pointsExpired > 0) {
+				logAudit(req, {
+					userId: (req as any).user?.id || "system",
+					action: config.AUDIT_LOG.ACTIONS.UPDATE,
+					resource: config.AUDIT_LOG.RESOURCES.POINTSWALLET,
+					severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+					entityType: config.AUDIT_LOG.ENTITY_TYPES.POINTSWALLET,
+					entityId: "expiry",
+					changesBefore: null,
+					changesAfter: result,
+					description: `${config.AUDIT_LOG.POINTSWALLET.DESCRIPTIONS.POINTS_EXPIRED}: ${result.pointsExpired} from ${result.walletsExpired} wallet(s)`,
+				});
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.POINTSWALLET.EXPIRED, { expiry: result }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.POINTSWALLET.EXPIRE_FAILED);
+		}
+	};
+
+	return { getWallet, getLedger, grant, reverse, expire };
+};
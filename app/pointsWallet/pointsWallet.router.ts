@@ -0,0 +1,217 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
+
+interface IController {
+	getWallet(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getLedger(req: Request, res: Response, next: NextFunction): Promise<void>;
+	grant(req: Request, res: Response, next: NextFunction): Promise<void>;
+	reverse(req: Request, res: Response, next: NextFunction): Promise<void>;
+	expire(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/pointsWallet";
+
+	/**
+	 * @openapi
+	 * /api/pointsWallet/employee/{employeeId}:
+	 *   get:
+	 *     summary: Get an employee's points wallet
+	 *     description: Current balance and lifetime earned, redeemed and expired points. Employees without a wallet have a zero balance.
+	 *     tags: [PointsWallet]
+	 *     parameters:
+	 *       - in: path
+	 *         name: employeeId
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Points wallet retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get("/employee/:employeeId", controller.getWallet);
+
+	/**
+	 * @openapi
+	 * /api/pointsWallet/employee/{employeeId}/ledger:
+	 *   get:
+	 *     summary: Get an employee's points ledger
+	 *     description: Every grant, earning, redemption, expiry and reversal on the wallet, newest first by default
+	 *     tags: [PointsWallet]
+	 *     parameters:
+	 *       - in: path
+	 *         name: employeeId
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *         description: e.g. type:REDEEM
+	 *     responses:
+	 *       200:
+	 *         description: Points ledger retrieved successfully
+	 *       400:
+	 *         description: Invalid query parameters
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get("/employee/:employeeId/ledger", controller.getLedger);
+
+	/**
+	 * @openapi
+	 * /api/pointsWallet/grant:
+	 *   post:
+	 *     summary: Grant points to employees
+	 *     description: |
+	 *       HR bulk grant. Each row is committed on its own and the response lists the rows that
+	 *       failed; all rows share a grantBatchId. Points expire after the configured number of
+	 *       months unless expiresAt is given (null = never).
+	 *     tags: [PointsWallet]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - grants
+	 *               - reason
+	 *             properties:
+	 *               grants:
+	 *                 type: array
+	 *                 items:
+	 *                   type: object
+	 *                   required:
+	 *                     - employeeId
+	 *                     - points
+	 *                   properties:
+	 *                     employeeId:
+	 *                       type: string
+	 *                     points:
+	 *                       type: number
+	 *                     reason:
+	 *                       type: string
+	 *                     expiresAt:
+	 *                       type: string
+	 *                       format: date-time
+	 *                       nullable: true
+	 *               reason:
+	 *                 type: string
+	 *                 example: "Q3 service award"
+	 *               expiresAt:
+	 *                 type: string
+	 *                 format: date-time
+	 *                 nullable: true
+	 *               grantedBy:
+	 *                 type: string
+	 *     responses:
+	 *       201:
+	 *         description: All grants applied
+	 *       207:
+	 *         description: Some grants failed (data.failed lists them)
+	 *       400:
+	 *         description: Validation error, too many rows, or every grant failed
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/grant", idempotency(), controller.grant);
+
+	/**
+	 * @openapi
+	 * /api/pointsWallet/ledger/{entryId}/reverse:
+	 *   post:
+	 *     summary: Reverse a points ledger entry
+	 *     description: |
+	 *       Adds an opposite REVERSAL entry; ledger entries are never edited. Reversing a grant or
+	 *       earning only takes back what is still in the wallet.
+	 *     tags: [PointsWallet]
+	 *     parameters:
+	 *       - in: path
+	 *         name: entryId
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - reason
+	 *             properties:
+	 *               reason:
+	 *                 type: string
+	 *               reversedBy:
+	 *                 type: string
+	 *     responses:
+	 *       201:
+	 *         description: Points entry reversed successfully
+	 *       400:
+	 *         description: Validation error
+	 *       404:
+	 *         description: Points ledger entry not found
+	 *       409:
+	 *         description: The entry is a reversal, was already reversed, or the wallet has no points left to take back
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/ledger/:entryId/reverse", controller.reverse);
+
+	/**
+	 * @openapi
+	 * /api/pointsWallet/expire:
+	 *   post:
+	 *     summary: Expire lapsed points
+	 *     description: |
+	 *       Writes EXPIRE entries for granted and earned points past their expiry that have not been
+	 *       spent. Spending is assumed to use the points closest to expiry first. Meant to be run
+	 *       daily by a scheduler; safe to run repeatedly.
+	 *     tags: [PointsWallet]
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               asOf:
+	 *                 type: string
+	 *                 format: date-time
+	 *                 description: Defaults to now
+	 *     responses:
+	 *       200:
+	 *         description: Points expiry completed
+	 *       400:
+	 *         description: Validation error
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/expire", controller.expire);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -11,13 +11,23 @@ import {
 } from "../../helper/query-builder";
 import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
 import { groupDataByField } from "../../helper/dataGrouping";
-import { buildErrorResponse, formatZodErrors } from "../../helper/error-handler";
-import { CreateProductSchema, UpdateProductSchema, ProductImageType } from "../../zod/products.zod";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreateProductSchema,
+	UpdateProductSchema,
+	ProductImageType,
+	ReceiveStockSchema,
+} from "../../zod/products.zod";
 import { logActivity } from "../../utils/activityLogger";
 import { logAudit } from "../../utils/auditLogger";
 import { config } from "../../config/constant";
 import { redisClient } from "../../config/redis";
 import { invalidateCache } from "../../middleware/cache";
+import {
+	allocateBackorders,
+	getBackorderQueue,
+	receiveStock as receiveProductStock,
+} from "../../helper/backorderService";
 import {
 	uploadMultipleToCloudinary,
 	deleteMultipleFromCloudinary,
@@ -258,8 +268,8 @@ export const controller = (prisma: PrismaClient) => {
 			// Base where clause
 			const whereClause: Prisma.ProductWhereInput = {};
 
-			// search fields for products (name, description, category, brand)
-			const searchFields = ["name", "description", "category", "brand"];
+			// search fields for products (name, description, sku)
+			const searchFields = ["name", "description", "sku"];
 			if (query) {
 				const searchConditions = buildSearchConditions("Product", query, searchFields);
 				if (searchConditions.length > 0) {
@@ -556,9 +566,26 @@ export const controller = (prisma: PrismaClient) => {
 				data: prismaData as any,
 			});
 
+			// A stock correction can fill orders waiting in the backorder queue
+			if (
+				validatedData.stockQuantity !== undefined &&
+				validatedData.stockQuantity > existingProduct.stockQuantity
+			) {
+				try {
+					await allocateBackorders(prisma, id);
+				} catch (allocationError) {
+					productsLogger.error(
+						`Failed to allocate backorders after product ${id} update:`,
+						allocationError,
+					);
+				}
+			}
+
 			try {
 				await invalidateCache.byPattern(`cache:products:byId:${id}:*`);
 				await invalidateCache.byPattern("cache:products:list:*");
+				// Cart listings show price drift against the live product
+				await invalidateCache.byPattern("cache:cartItem:list:*");
 				productsLogger.info(`Cache invalidated after product ${id} update`);
 			} catch (cacheError) {
 				productsLogger.warn("Failed to invalidate cache after product update:", cacheError);
@@ -615,6 +642,8 @@ export const controller = (prisma: PrismaClient) => {
 			try {
 				await invalidateCache.byPattern(`cache:products:byId:${id}:*`);
 				await invalidateCache.byPattern("cache:products:list:*");
+				// Cart listings show price drift against the live product
+				await invalidateCache.byPattern("cache:cartItem:list:*");
 				productsLogger.info(`Cache invalidated after products ${id} deletion`);
 			} catch (cacheError) {
 				productsLogger.warn(
@@ -963,5 +992,166 @@ export const controller = (prisma: PrismaClient) => {
 		}
 	};
 
-	return { create, getAll, getById, update, remove, importFromCSV };
+	/**
+	 * Record incoming stock and allocate it to the backorder queue first come first served
+	 * POST /api/products/:id/receive-stock
+	 */
+	const receiveStock = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				productsLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const validation = ReceiveStockSchema.safeParse(req.body || {});
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				productsLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse("Validation failed", 400, formattedErrors);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const { quantity, reference, receivedBy } = validation.data;
+			const actor = (req as any).user?.id || receivedBy || "unknown";
+
+			const allocation = await receiveProductStock(prisma, id, quantity, {
+				receivedBy: actor,
+				reference,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.PRODUCTS,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PRODUCTS,
+				entityId: id,
+				changesBefore: null,
+				changesAfter: {
+					receivedQuantity: quantity,
+					reference,
+					stockQuantity: allocation.stockQuantity,
+					allocatedBackorders: allocation.allocated.length,
+					releasedOrders: allocation.releasedOrders,
+				},
+				description: `${config.AUDIT_LOG.PRODUCTS.DESCRIPTIONS.PRODUCTS_STOCK_RECEIVED}: ${id}`,
+			});
+
+			try {
+				await invalidateCache.byPattern(`cache:products:byId:${id}:*`);
+				await invalidateCache.byPattern("cache:products:list:*");
+				await invalidateCache.byPattern("cache:cartItem:list:*");
+				if (allocation.releasedOrders.length > 0) {
+					await invalidateCache.byPattern("cache:order:*");
+					await invalidateCache.byPattern("cache:installment:*");
+				}
+				productsLogger.info(`Cache invalidated after product ${id} stock receipt`);
+			} catch (cacheError) {
+				productsLogger.warn("Failed to invalidate cache after stock receipt:", cacheError);
+			}
+
+			const successResponse = buildSuccessResponse(
+				config.SUCCESS.PRODUCTS.STOCK_RECEIVED,
+				{ allocation },
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			if (error instanceof ServiceError) {
+				productsLogger.warn(`Stock receipt rejected: ${error.message}`);
+				res.status(error.statusCode).json(
+					buildErrorResponse(error.message, error.statusCode, error.errors),
+				);
+				return;
+			}
+
+			productsLogger.error(`${config.ERROR.PRODUCTS.ERROR_UPDATING}: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
+	/**
+	 * Orders waiting for a product, in allocation order
+	 * GET /api/products/:id/backorders
+	 */
+	const getBackorders = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { status } = req.query;
+
+		try {
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (
+				status !== undefined &&
+				!["QUEUED", "ALLOCATED", "CANCELLED"].includes(String(status))
+			) {
+				const errorResponse = buildErrorResponse("Validation failed", 400, [
+					{ field: "status", message: "status must be QUEUED, ALLOCATED or CANCELLED" },
+				]);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const product = await prisma.product.findFirst({
+				where: { id },
+				select: {
+					id: true,
+					name: true,
+					stockQuantity: true,
+					backorderMode: true,
+					maxBackorderQuantity: true,
+					availableFrom: true,
+				},
+			});
+
+			if (!product) {
+				productsLogger.error(`${config.ERROR.PRODUCTS.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.PRODUCTS.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const queue = await getBackorderQueue(
+				prisma,
+				id,
+				(status as "QUEUED" | "ALLOCATED" | "CANCELLED" | undefined) || "QUEUED",
+			);
+
+			const successResponse = buildSuccessResponse(
+				config.SUCCESS.PRODUCTS.BACKORDERS_RETRIEVED,
+				{ product, queue },
+				200,
+			);
+			res.status(200).json(successResponse);
+		} catch (error) {
+			productsLogger.error(`${config.ERROR.PRODUCTS.ERROR_GETTING}: ${error}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.COMMON.INTERNAL_SERVER_ERROR,
+				500,
+			);
+			res.status(500).json(errorResponse);
+		}
+	};
+
+	return {
+		create,
+		getAll,
+		getById,
+		update,
+		remove,
+		importFromCSV,
+		receiveStock,
+		getBackorders,
+	};
 };
@@ -1,6 +1,7 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { cache, cacheShort, cacheMedium, cacheUser } from "../../middleware/cache";
 import { uploadProductImages, uploadCSV } from "../../middleware/upload";
+import { idempotency } from "../../middleware/idempotency";
 
 interface IController {
 	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
@@ -9,6 +10,8 @@ interface IController {
 	update(req: Request, res: Response, next: NextFunction): Promise<void>;
 	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
 	importFromCSV(req: Request, res: Response, next: NextFunction): Promise<void>;
+	receiveStock(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getBackorders(req: Request, res: Response, next: NextFunction): Promise<void>;
 }
 
 export const router = (route: Router, controller: IController): Router => {
@@ -459,6 +462,98 @@ export const router = (route: Router, controller: IController): Router => {
 	 */
 	routes.delete("/:id", controller.remove);
 
+	/**
+	 * @openapi
+	 * /api/products/{id}/receive-stock:
+	 *   post:
+	 *     summary: Receive stock for a product
+	 *     description: |
+	 *       Add delivered units to the product's stock and allocate them to its backorder queue,
+	 *       first come first served. Queue entries are filled whole and in order; allocation stops
+	 *       at the first entry the stock cannot cover. Orders with nothing left waiting start their
+	 *       installment schedule and employees are emailed when their item is allocated.
+	 *     tags: [Products]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Product ID (MongoDB ObjectId format)
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - quantity
+	 *             properties:
+	 *               quantity:
+	 *                 type: integer
+	 *                 minimum: 1
+	 *                 example: 25
+	 *               reference:
+	 *                 type: string
+	 *                 description: Delivery note or purchase order number
+	 *                 example: "PO-2026-0142"
+	 *               receivedBy:
+	 *                 type: string
+	 *                 description: Who received the stock (defaults to the authenticated user)
+	 *     responses:
+	 *       200:
+	 *         description: Stock received; data.allocation lists the allocated queue entries, the orders released for processing and what is still queued
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.post("/:id/receive-stock", idempotency(), controller.receiveStock);
+
+	/**
+	 * @openapi
+	 * /api/products/{id}/backorders:
+	 *   get:
+	 *     summary: Get a product's backorder queue
+	 *     description: Orders waiting for the product, in the order stock will be allocated to them
+	 *     tags: [Products]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           pattern: '^[0-9a-fA-F]{24}$'
+	 *         description: Product ID (MongoDB ObjectId format)
+	 *       - in: query
+	 *         name: status
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           enum: [QUEUED, ALLOCATED, CANCELLED]
+	 *           default: QUEUED
+	 *     responses:
+	 *       200:
+	 *         description: Backorder queue retrieved successfully
+	 *       400:
+	 *         $ref: '#/components/responses/BadRequest'
+	 *       404:
+	 *         $ref: '#/components/responses/NotFound'
+	 *       500:
+	 *         $ref: '#/components/responses/InternalServerError'
+	 */
+	routes.get("/:id/backorders", controller.getBackorders);
+
 	route.use(path, routes);
 
 	return route;
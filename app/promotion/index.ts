@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./promotion.controller";
+import { router } from "./promotion.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const promotionModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = promotionModule;
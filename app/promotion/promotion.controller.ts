@@ -0,0 +1,459 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreatePromotionSchema,
+	UpdatePromotionSchema,
+	ValidateCouponSchema,
+} from "../../zod/promotion.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import { evaluatePromotion } from "../../helper/promotionService";
+import { isOrderable, reviewCart } from "../../helper/cartPricingService";
+
+const logger = getLogger();
+const promotionLogger = logger.child({ module: "promotion" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidatePromotionCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:promotion:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:promotion:list:*");
+		} catch (cacheError) {
+			promotionLogger.warn("Failed to invalidate promotion cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			promotionLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// Unique index on code
+		if (error?.code === "P2002") {
+			promotionLogger.warn(`${fallbackMessage}: ${error}`);
+			res.status(409).json(buildErrorResponse(config.ERROR.PROMOTION.DUPLICATE_CODE, 409));
+			return;
+		}
+
+		promotionLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreatePromotionSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			promotionLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PROMOTION.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const promotion = await prisma.promotion.create({ data: validation.data as any });
+			promotionLogger.info(`Promotion created: ${promotion.id}`);
+
+			logActivity(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: "CREATE_PROMOTION",
+				description: `Promotion created: ${promotion.name}`,
+				page: {
+					url: req.originalUrl,
+					title: "Promotion Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.PROMOTION,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PROMOTION,
+				entityId: promotion.id,
+				changesBefore: null,
+				changesAfter: promotion,
+				description: `${config.AUDIT_LOG.PROMOTION.DESCRIPTIONS.PROMOTION_CREATED}: ${promotion.name}`,
+			});
+
+			await invalidatePromotionCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.PROMOTION.CREATED, { promotion }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, promotionLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		promotionLogger.info(
+			`Getting promotions, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.PromotionWhereInput = {};
+
+			const searchFields = ["code", "name", "description"];
+			if (query) {
+				const searchConditions = buildSearchConditions("Promotion", query, searchFields);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("Promotion", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [promotions, total] = await Promise.all([
+				document ? prisma.promotion.findMany(findManyQuery) : [],
+				count ? prisma.promotion.count({ where: whereClause }) : 0,
+			]);
+
+			promotionLogger.info(`Retrieved ${promotions.length} promotions`);
+			const processedData =
+				groupBy && document ? groupDataByField(promotions, groupBy as string) : promotions;
+
+			const responseData: Record<string, any> = {
+				...(document && { promotions: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PROMOTION.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				promotionLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				promotionLogger.error(`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			promotionLogger.info(`Getting promotion by ID: ${id}`);
+
+			const cacheKey = `cache:promotion:byId:${id}:${fields || "full"}`;
+			let promotion = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					promotion = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				promotionLogger.warn(
+					`Redis cache retrieval failed for promotion ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!promotion) {
+				const query: Prisma.PromotionFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				promotion = await prisma.promotion.findFirst(query);
+
+				if (promotion && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, promotion, 3600);
+					} catch (cacheError) {
+						promotionLogger.warn(
+							`Failed to store promotion ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!promotion) {
+				promotionLogger.error(`${config.ERROR.PROMOTION.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.PROMOTION.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PROMOTION.RETRIEVED, promotion, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.GET_FAILED);
+		}
+	};
+
+	const update = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				promotionLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const requestData = req.body || {};
+
+			const validation = UpdatePromotionSchema.safeParse(requestData);
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				promotionLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.PROMOTION.VALIDATION_FAILED,
+					400,
+					formattedErrors,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			if (Object.keys(requestData).length === 0) {
+				promotionLogger.error(config.ERROR.COMMON.NO_UPDATE_FIELDS);
+				const errorResponse = buildErrorResponse(config.ERROR.COMMON.NO_UPDATE_FIELDS, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const existingPromotion = await prisma.promotion.findFirst({
+				where: { id },
+			});
+
+			if (!existingPromotion) {
+				promotionLogger.error(`${config.ERROR.PROMOTION.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.PROMOTION.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const prismaData: Prisma.PromotionUpdateInput = { ...validation.data };
+
+			const promotion = await prisma.promotion.update({
+				where: { id },
+				data: prismaData,
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.PROMOTION,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PROMOTION,
+				entityId: id,
+				changesBefore: existingPromotion,
+				changesAfter: promotion,
+				description: `${config.AUDIT_LOG.PROMOTION.DESCRIPTIONS.PROMOTION_UPDATED}: ${promotion.name}`,
+			});
+
+			await invalidatePromotionCache(id);
+
+			promotionLogger.info(`Promotion updated: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.PROMOTION.UPDATED, { promotion }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.UPDATE_FAILED);
+		}
+	};
+
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				promotionLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const existingPromotion = await prisma.promotion.findFirst({
+				where: { id },
+			});
+
+			if (!existingPromotion) {
+				promotionLogger.error(`${config.ERROR.PROMOTION.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.PROMOTION.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			// Redemptions keep the history of discounted orders
+			const redemptionCount = await prisma.promotionRedemption.count({
+				where: { promotionId: id },
+			});
+			if (redemptionCount > 0) {
+				throw new ServiceError(config.ERROR.PROMOTION.HAS_REDEMPTIONS, 409);
+			}
+
+			await prisma.promotion.delete({
+				where: { id },
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.PROMOTION,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.PROMOTION,
+				entityId: id,
+				changesBefore: existingPromotion,
+				changesAfter: null,
+				description: `${config.AUDIT_LOG.PROMOTION.DESCRIPTIONS.PROMOTION_DELETED}: ${existingPromotion.name}`,
+			});
+
+			await invalidatePromotionCache(id);
+
+			promotionLogger.info(`Promotion deleted: ${id}`);
+			res.status(200).json(buildSuccessResponse(config.SUCCESS.PROMOTION.DELETED, {}, 200));
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.DELETE_FAILED);
+		}
+	};
+
+	/**
+	 * Preview a coupon against the employee's cart without redeeming it
+	 * POST /api/promotion/validate
+	 */
+	const validate = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = ValidateCouponSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			promotionLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.PROMOTION.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		const { code, employeeId } = validation.data;
+
+		try {
+			const cartItems = await prisma.cartItem.findMany({ where: { employeeId } });
+			const cartReview = await reviewCart(prisma, cartItems);
+			const lines = cartReview.lines.filter(isOrderable).map((line) => ({
+				productId: line.productId,
+				quantity: line.quantity,
+				unitPrice: line.currentUnitPrice,
+			}));
+
+			if (lines.length === 0) {
+				const errorResponse = buildErrorResponse(
+					"Cart has no items that can be checked out",
+					400,
+					[{ field: "cart", message: "No available products in cart" }],
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const applied = await evaluatePromotion(prisma, { code, employeeId, lines });
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.PROMOTION.COUPON_VALID,
+					{
+						promotion: {
+							promotionId: applied.promotionId,
+							code: applied.code,
+							name: applied.name,
+							discountType: applied.discountType,
+							scope: applied.scope,
+							eligibleSubtotal: applied.eligibleSubtotal,
+							discountAmount: applied.discountAmount,
+							lines: lines.map((line, index) => ({
+								...line,
+								discount: applied.lineDiscounts[index],
+							})),
+						},
+					},
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.PROMOTION.VALIDATE_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, update, remove, validate };
+};
@@ -0,0 +1,276 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	update(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	validate(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/promotion";
+
+	/**
+	 * @openapi
+	 * /api/promotion/validate:
+	 *   post:
+	 *     summary: Validate a coupon code
+	 *     description: |
+	 *       Check a coupon code against the items in an employee's cart that can be checked out and
+	 *       preview the discount per line. Nothing is redeemed; checkout validates the code again.
+	 *     tags: [Promotion]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - code
+	 *               - employeeId
+	 *             properties:
+	 *               code:
+	 *                 type: string
+	 *                 example: "PAYDAY10"
+	 *               employeeId:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: The coupon applies; data.promotion has the discount and its allocation
+	 *       400:
+	 *         description: Validation error or the cart has no items that can be checked out
+	 *       404:
+	 *         description: The coupon code does not exist or is inactive
+	 *       409:
+	 *         description: The coupon reached its total or per-employee usage limit
+	 *       422:
+	 *         description: The coupon is outside its validity window, below its minimum spend or does not apply to any item
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/validate", controller.validate);
+
+	/**
+	 * @openapi
+	 * /api/promotion/{id}:
+	 *   get:
+	 *     summary: Get promotion by ID
+	 *     description: Retrieve a specific promotion by its unique identifier
+	 *     tags: [Promotion]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Promotion ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Promotion retrieved successfully
+	 *       404:
+	 *         description: Promotion not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:promotion:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/promotion:
+	 *   get:
+	 *     summary: Get all promotions
+	 *     description: Retrieve promotions with filtering, pagination, and sorting
+	 *     tags: [Promotion]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Promotions retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:promotion:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/promotion:
+	 *   post:
+	 *     summary: Create promotion
+	 *     description: Create a coupon code employees can apply at checkout
+	 *     tags: [Promotion]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - code
+	 *               - name
+	 *               - discountType
+	 *               - discountValue
+	 *             properties:
+	 *               code:
+	 *                 type: string
+	 *                 description: Stored uppercase; matched case-insensitively at checkout
+	 *                 example: "PAYDAY10"
+	 *               name:
+	 *                 type: string
+	 *                 example: "Payday 10% off"
+	 *               description:
+	 *                 type: string
+	 *               isActive:
+	 *                 type: boolean
+	 *               discountType:
+	 *                 type: string
+	 *                 enum: [PERCENTAGE, FIXED]
+	 *               discountValue:
+	 *                 type: number
+	 *                 description: Fraction for PERCENTAGE (0.1 = 10%), amount for FIXED
+	 *                 example: 0.1
+	 *               maxDiscountAmount:
+	 *                 type: number
+	 *                 description: Cap on a PERCENTAGE discount
+	 *               scope:
+	 *                 type: string
+	 *                 enum: [ORDER, CATEGORY, VENDOR, PRODUCT]
+	 *                 default: ORDER
+	 *               scopeIds:
+	 *                 type: array
+	 *                 items:
+	 *                   type: string
+	 *                 description: Category, vendor or product IDs the discount applies to (required unless scope is ORDER)
+	 *               minSpend:
+	 *                 type: number
+	 *                 description: Minimum subtotal of the eligible items
+	 *               usageLimit:
+	 *                 type: integer
+	 *                 description: Total redemptions allowed
+	 *               usageLimitPerEmployee:
+	 *                 type: integer
+	 *                 description: Redemptions allowed per employee
+	 *               startsAt:
+	 *                 type: string
+	 *                 format: date-time
+	 *               endsAt:
+	 *                 type: string
+	 *                 format: date-time
+	 *     responses:
+	 *       201:
+	 *         description: Promotion created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: A promotion with this code already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", controller.create);
+
+	/**
+	 * @openapi
+	 * /api/promotion/{id}:
+	 *   patch:
+	 *     summary: Update promotion
+	 *     description: Update a promotion. Orders already placed keep the discount they were given.
+	 *     tags: [Promotion]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *     responses:
+	 *       200:
+	 *         description: Promotion updated successfully
+	 *       404:
+	 *         description: Promotion not found
+	 *       409:
+	 *         description: A promotion with this code already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.patch("/:id", controller.update);
+
+	/**
+	 * @openapi
+	 * /api/promotion/{id}:
+	 *   delete:
+	 *     summary: Delete promotion
+	 *     description: Delete a promotion that has never been redeemed. Deactivate redeemed promotions instead.
+	 *     tags: [Promotion]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Promotion deleted successfully
+	 *       404:
+	 *         description: Promotion not found
+	 *       409:
+	 *         description: The promotion has been redeemed
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
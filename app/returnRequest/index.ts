@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./returnRequest.controller";
+import { router } from "./returnRequest.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const returnRequestModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = returnRequestModule;
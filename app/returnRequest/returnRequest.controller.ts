@@ -0,0 +1,439 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreateReturnRequestSchema,
+	ProcessReturnRequestSchema,
+	RejectReturnRequestSchema,
+} from "../../zod/returnRequest.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import {
+	requestReturn,
+	approveReturn,
+	rejectReturn,
+	receiveReturn,
+} from "../../helper/returnService";
+
+const logger = getLogger();
+const returnRequestLogger = logger.child({ module: "returnRequest" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateReturnCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:returnRequest:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:returnRequest:list:*");
+		} catch (cacheError) {
+			returnRequestLogger.warn("Failed to invalidate returnRequest cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			returnRequestLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors),
+			);
+			return;
+		}
+
+		returnRequestLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	/**
+	 * Employee requests a return for some or all items of a delivered order
+	 * POST /api/returnRequest
+	 */
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateReturnRequestSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			returnRequestLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.RETURNREQUEST.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const { orderId, items, reason, requestedBy, notes } = validation.data;
+			const actor = (req as any).user?.id || requestedBy || "unknown";
+
+			const returnRequest = await requestReturn(prisma, {
+				orderId,
+				items,
+				reason,
+				requestedBy: actor,
+				notes,
+			});
+
+			logActivity(req, {
+				userId: actor,
+				action: "CREATE_RETURN_REQUEST",
+				description: `Return ${returnRequest.returnNumber} requested for order: ${orderId}`,
+				page: {
+					url: req.originalUrl,
+					title: "Return Request",
+				},
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.RETURNREQUEST,
+				severity: config.AUDIT_LOG.SEVERITY.LOW,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.RETURNREQUEST,
+				entityId: returnRequest.id,
+				changesBefore: null,
+				changesAfter: returnRequest,
+				description: `${config.AUDIT_LOG.RETURNREQUEST.DESCRIPTIONS.RETURNREQUEST_CREATED}: ${returnRequest.returnNumber}`,
+			});
+
+			await invalidateReturnCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.CREATED, { returnRequest }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, returnRequestLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		returnRequestLogger.info(
+			`Getting return requests, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.ReturnRequestWhereInput = {};
+
+			const searchFields = ["returnNumber", "orderId", "employeeId", "reason", "status"];
+			if (query) {
+				const searchConditions = buildSearchConditions(
+					"ReturnRequest",
+					query,
+					searchFields,
+				);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("ReturnRequest", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [returnRequests, total] = await Promise.all([
+				document ? prisma.returnRequest.findMany(findManyQuery) : [],
+				count ? prisma.returnRequest.count({ where: whereClause }) : 0,
+			]);
+
+			returnRequestLogger.info(`Retrieved ${returnRequests.length} return requests`);
+			const processedData =
+				groupBy && document
+					? groupDataByField(returnRequests, groupBy as string)
+					: returnRequests;
+
+			const responseData: Record<string, any> = {
+				...(document && { returnRequests: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				returnRequestLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				returnRequestLogger.error(
+					`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`,
+				);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			returnRequestLogger.info(`Getting return request by ID: ${id}`);
+
+			const cacheKey = `cache:returnRequest:byId:${id}:${fields || "full"}`;
+			let returnRequest = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					returnRequest = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				returnRequestLogger.warn(
+					`Redis cache retrieval failed for return ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!returnRequest) {
+				const query: Prisma.ReturnRequestFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				returnRequest = await prisma.returnRequest.findFirst(query);
+
+				if (returnRequest && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, returnRequest, 3600);
+					} catch (cacheError) {
+						returnRequestLogger.warn(
+							`Failed to store return ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!returnRequest) {
+				returnRequestLogger.error(`${config.ERROR.RETURNREQUEST.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.RETURNREQUEST.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.RETRIEVED, returnRequest, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.GET_FAILED);
+		}
+	};
+
+	/**
+	 * Admin approves a requested return
+	 * POST /api/returnRequest/:id/approve
+	 */
+	const approve = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = ProcessReturnRequestSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			const errorResponse = buildErrorResponse(
+				config.ERROR.RETURNREQUEST.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || validation.data.processedBy || "unknown";
+			const returnRequest = await approveReturn(prisma, id, {
+				approvedBy: actor,
+				notes: validation.data.notes,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.RETURNREQUEST,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.RETURNREQUEST,
+				entityId: id,
+				changesBefore: { status: "REQUESTED" },
+				changesAfter: { status: returnRequest.status },
+				description: `${config.AUDIT_LOG.RETURNREQUEST.DESCRIPTIONS.RETURNREQUEST_APPROVED}: ${returnRequest.returnNumber}`,
+			});
+
+			await invalidateReturnCache(id);
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.APPROVED, { returnRequest }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.UPDATE_FAILED);
+		}
+	};
+
+	/**
+	 * Admin rejects a return that has not been received
+	 * POST /api/returnRequest/:id/reject
+	 */
+	const reject = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = RejectReturnRequestSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			const errorResponse = buildErrorResponse(
+				config.ERROR.RETURNREQUEST.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || validation.data.processedBy || "unknown";
+			const returnRequest = await rejectReturn(prisma, id, {
+				rejectedBy: actor,
+				reason: validation.data.reason,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.RETURNREQUEST,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.RETURNREQUEST,
+				entityId: id,
+				changesBefore: null,
+				changesAfter: { status: returnRequest.status, reason: validation.data.reason },
+				description: `${config.AUDIT_LOG.RETURNREQUEST.DESCRIPTIONS.RETURNREQUEST_REJECTED}: ${returnRequest.returnNumber}`,
+			});
+
+			await invalidateReturnCache(id);
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.REJECTED, { returnRequest }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.UPDATE_FAILED);
+		}
+	};
+
+	/**
+	 * Admin confirms the goods arrived; restocks and processes the refund
+	 * POST /api/returnRequest/:id/receive
+	 */
+	const receive = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+		const validation = ProcessReturnRequestSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			const errorResponse = buildErrorResponse(
+				config.ERROR.RETURNREQUEST.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const actor = (req as any).user?.id || validation.data.processedBy || "unknown";
+			const result = await receiveReturn(prisma, id, {
+				receivedBy: actor,
+				notes: validation.data.notes,
+			});
+
+			logAudit(req, {
+				userId: actor,
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.RETURNREQUEST,
+				severity: config.AUDIT_LOG.SEVERITY.HIGH,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.RETURNREQUEST,
+				entityId: id,
+				changesBefore: { status: "APPROVED" },
+				changesAfter: {
+					status: result.returnRequest.status,
+					...result.refund,
+					pointsRefunded: result.pointsRefunded,
+				},
+				description: `${config.AUDIT_LOG.RETURNREQUEST.DESCRIPTIONS.RETURNREQUEST_RECEIVED}: ${result.returnRequest.returnNumber}`,
+			});
+
+			await invalidateReturnCache(id);
+			try {
+				await invalidateCache.byPattern("cache:order:*");
+				await invalidateCache.byPattern("cache:installment:*");
+				await invalidateCache.byPattern("cache:transaction:*");
+				await invalidateCache.byPattern("cache:products:*");
+			} catch (cacheError) {
+				returnRequestLogger.warn(
+					"Failed to invalidate cache after return receipt:",
+					cacheError,
+				);
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.RETURNREQUEST.RECEIVED, result, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.RETURNREQUEST.UPDATE_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, approve, reject, receive };
+};
@@ -0,0 +1,296 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { idempotency } from "../../middleware/idempotency";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	approve(req: Request, res: Response, next: NextFunction): Promise<void>;
+	reject(req: Request, res: Response, next: NextFunction): Promise<void>;
+	receive(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/returnRequest";
+
+	/**
+	 * @openapi
+	 * /api/returnRequest/{id}:
+	 *   get:
+	 *     summary: Get return request by ID
+	 *     description: Retrieve a specific return request (RMA) by its unique identifier
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Return request ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Return request retrieved successfully
+	 *       404:
+	 *         description: Return request not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:returnRequest:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/returnRequest:
+	 *   get:
+	 *     summary: Get all return requests
+	 *     description: Retrieve return requests with filtering, pagination, and sorting
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Return requests retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:returnRequest:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/returnRequest:
+	 *   post:
+	 *     summary: Request a return
+	 *     description: |
+	 *       Request a return for some or all items of a DELIVERED order within the return
+	 *       window (RETURNS.WINDOW_DAYS). Quantities already returned or held by other open
+	 *       requests cannot be requested again.
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - orderId
+	 *               - items
+	 *               - reason
+	 *             properties:
+	 *               orderId:
+	 *                 type: string
+	 *               items:
+	 *                 type: array
+	 *                 items:
+	 *                   type: object
+	 *                   required: [orderItemId, quantity]
+	 *                   properties:
+	 *                     orderItemId:
+	 *                       type: string
+	 *                     quantity:
+	 *                       type: integer
+	 *                       minimum: 1
+	 *               reason:
+	 *                 type: string
+	 *               requestedBy:
+	 *                 type: string
+	 *                 description: Defaults to the authenticated user
+	 *               notes:
+	 *                 type: string
+	 *     responses:
+	 *       201:
+	 *         description: Return request created successfully
+	 *       400:
+	 *         description: Validation error or items that cannot be returned
+	 *       404:
+	 *         description: Order not found
+	 *       409:
+	 *         description: Order is not delivered or the return window has closed
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", idempotency(), controller.create);
+
+	/**
+	 * @openapi
+	 * /api/returnRequest/{id}/approve:
+	 *   post:
+	 *     summary: Approve a return request
+	 *     description: Approve a REQUESTED return so the employee can send the goods back
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               processedBy:
+	 *                 type: string
+	 *               notes:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: Return request approved
+	 *       404:
+	 *         description: Return request not found
+	 *       409:
+	 *         description: Return request is not REQUESTED
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/approve", controller.approve);
+
+	/**
+	 * @openapi
+	 * /api/returnRequest/{id}/reject:
+	 *   post:
+	 *     summary: Reject a return request
+	 *     description: Reject a return that has not been received yet
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - reason
+	 *             properties:
+	 *               processedBy:
+	 *                 type: string
+	 *               reason:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: Return request rejected
+	 *       400:
+	 *         description: Rejection reason required
+	 *       404:
+	 *         description: Return request not found
+	 *       409:
+	 *         description: Return request was already received or rejected
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/reject", controller.reject);
+
+	/**
+	 * @openapi
+	 * /api/returnRequest/{id}/receive:
+	 *   post:
+	 *     summary: Receive returned goods
+	 *     description: |
+	 *       Confirm the goods of an APPROVED return arrived. Returned quantities go back into
+	 *       stock and the refund is computed from the item subtotals (order discount and tax
+	 *       spread proportionally). The refund first reduces future installments from the end
+	 *       of the schedule; anything beyond what is still owed is booked as a REFUND
+	 *       transaction. The returned lines' share of the points redeemed on the order goes back
+	 *       to the employee's wallet. The order moves to RETURNED once every item has been
+	 *       returned.
+	 *     tags: [ReturnRequest]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *       - in: header
+	 *         name: Idempotency-Key
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           maxLength: 255
+	 *         description: Client-generated key; retries with the same key and body replay the first response
+	 *     requestBody:
+	 *       required: false
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             properties:
+	 *               processedBy:
+	 *                 type: string
+	 *               notes:
+	 *                 type: string
+	 *     responses:
+	 *       200:
+	 *         description: |
+	 *           Return received; data.refund describes how the refund was applied and
+	 *           data.pointsRefunded the points given back
+	 *       404:
+	 *         description: Return request not found
+	 *       409:
+	 *         description: Return request is not APPROVED
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/:id/receive", idempotency(), controller.receive);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -0,0 +1,11 @@
+import express, { Router } from "express";
+import { controller } from "./taxClass.controller";
+import { router } from "./taxClass.router";
+import { PrismaClient } from "../../generated/prisma";
+
+export const taxClassModule = (prisma: PrismaClient): Router => {
+	return router(express.Router(), controller(prisma));
+};
+
+// For backward compatibility
+module.exports = taxClassModule;
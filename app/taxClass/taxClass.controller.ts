@@ -0,0 +1,416 @@
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../../generated/prisma";
+import { getLogger } from "../../helper/logger";
+import { validateQueryParams } from "../../helper/validation-helper";
+import {
+	buildFilterConditions,
+	buildFindManyQuery,
+	buildSearchConditions,
+	getNestedFields,
+} from "../../helper/query-builder";
+import { buildSuccessResponse, buildPagination } from "../../helper/success-handler";
+import { groupDataByField } from "../../helper/dataGrouping";
+import { buildErrorResponse, formatZodErrors, ServiceError } from "../../helper/error-handler";
+import {
+	CreateTaxClassSchema,
+	TaxSummaryQuerySchema,
+	UpdateTaxClassSchema,
+} from "../../zod/taxClass.zod";
+import { logActivity } from "../../utils/activityLogger";
+import { logAudit } from "../../utils/auditLogger";
+import { config } from "../../config/constant";
+import { redisClient } from "../../config/redis";
+import { invalidateCache } from "../../middleware/cache";
+import { getTaxSummary } from "../../helper/taxService";
+
+const logger = getLogger();
+const taxClassLogger = logger.child({ module: "taxClass" });
+
+export const controller = (prisma: PrismaClient) => {
+	const invalidateTaxClassCache = async (id?: string) => {
+		try {
+			if (id) {
+				await invalidateCache.byPattern(`cache:taxClass:byId:${id}:*`);
+			}
+			await invalidateCache.byPattern("cache:taxClass:list:*");
+		} catch (cacheError) {
+			taxClassLogger.warn("Failed to invalidate taxClass cache:", cacheError);
+		}
+	};
+
+	const handleError = (res: Response, error: any, fallbackMessage: string) => {
+		if (error instanceof ServiceError) {
+			taxClassLogger.warn(`${fallbackMessage}: ${error.message}`);
+			res.status(error.statusCode).json(
+				buildErrorResponse(error.message, error.statusCode, error.errors, error.data),
+			);
+			return;
+		}
+
+		// Unique index on code
+		if (error?.code === "P2002") {
+			taxClassLogger.warn(`${fallbackMessage}: ${error}`);
+			res.status(409).json(buildErrorResponse(config.ERROR.TAXCLASS.DUPLICATE_CODE, 409));
+			return;
+		}
+
+		taxClassLogger.error(`${fallbackMessage}: ${error}`);
+		res.status(500).json(buildErrorResponse(config.ERROR.COMMON.INTERNAL_SERVER_ERROR, 500));
+	};
+
+	const create = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = CreateTaxClassSchema.safeParse(req.body || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			taxClassLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.TAXCLASS.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const taxClass = await prisma.taxClass.create({ data: validation.data as any });
+			taxClassLogger.info(`Tax class created: ${taxClass.id}`);
+
+			logActivity(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: "CREATE_TAX_CLASS",
+				description: `Tax class created: ${taxClass.name}`,
+				page: {
+					url: req.originalUrl,
+					title: "Tax Class Creation",
+				},
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.CREATE,
+				resource: config.AUDIT_LOG.RESOURCES.TAXCLASS,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.TAXCLASS,
+				entityId: taxClass.id,
+				changesBefore: null,
+				changesAfter: taxClass,
+				description: `${config.AUDIT_LOG.TAXCLASS.DESCRIPTIONS.TAXCLASS_CREATED}: ${taxClass.name}`,
+			});
+
+			await invalidateTaxClassCache();
+
+			res.status(201).json(
+				buildSuccessResponse(config.SUCCESS.TAXCLASS.CREATED, { taxClass }, 201),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.CREATE_FAILED);
+		}
+	};
+
+	const getAll = async (req: Request, res: Response, _next: NextFunction) => {
+		const validationResult = validateQueryParams(req, taxClassLogger);
+
+		if (!validationResult.isValid) {
+			res.status(400).json(validationResult.errorResponse);
+			return;
+		}
+
+		const {
+			page,
+			limit,
+			order,
+			fields,
+			sort,
+			skip,
+			query,
+			document,
+			pagination,
+			count,
+			filter,
+			groupBy,
+		} = validationResult.validatedParams!;
+
+		taxClassLogger.info(
+			`Getting tax classes, page: ${page}, limit: ${limit}, query: ${query}, order: ${order}, groupBy: ${groupBy}`,
+		);
+
+		try {
+			const whereClause: Prisma.TaxClassWhereInput = {};
+
+			const searchFields = ["code", "name", "description"];
+			if (query) {
+				const searchConditions = buildSearchConditions("TaxClass", query, searchFields);
+				if (searchConditions.length > 0) {
+					whereClause.OR = searchConditions;
+				}
+			}
+
+			if (filter) {
+				const filterConditions = buildFilterConditions("TaxClass", filter);
+				if (filterConditions.length > 0) {
+					whereClause.AND = filterConditions;
+				}
+			}
+
+			const findManyQuery = buildFindManyQuery(whereClause, skip, limit, order, sort, fields);
+
+			const [taxClasses, total] = await Promise.all([
+				document ? prisma.taxClass.findMany(findManyQuery) : [],
+				count ? prisma.taxClass.count({ where: whereClause }) : 0,
+			]);
+
+			taxClassLogger.info(`Retrieved ${taxClasses.length} tax classes`);
+			const processedData =
+				groupBy && document ? groupDataByField(taxClasses, groupBy as string) : taxClasses;
+
+			const responseData: Record<string, any> = {
+				...(document && { taxClasses: processedData }),
+				...(count && { count: total }),
+				...(pagination && { pagination: buildPagination(total, page, limit) }),
+				...(groupBy && { groupedBy: groupBy }),
+			};
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.TAXCLASS.RETRIEVED_ALL, responseData, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.GET_ALL_FAILED);
+		}
+	};
+
+	const getById = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+		const { fields } = req.query;
+
+		try {
+			if (!rawId) {
+				taxClassLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			if (fields && typeof fields !== "string") {
+				taxClassLogger.error(`${config.ERROR.QUERY_PARAMS.INVALID_POPULATE}: ${fields}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.QUERY_PARAMS.POPULATE_MUST_BE_STRING,
+					400,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			taxClassLogger.info(`Getting tax class by ID: ${id}`);
+
+			const cacheKey = `cache:taxClass:byId:${id}:${fields || "full"}`;
+			let taxClass = null;
+
+			try {
+				if (redisClient.isClientConnected()) {
+					taxClass = await redisClient.getJSON(cacheKey);
+				}
+			} catch (cacheError) {
+				taxClassLogger.warn(
+					`Redis cache retrieval failed for tax class ${id}:`,
+					cacheError,
+				);
+			}
+
+			if (!taxClass) {
+				const query: Prisma.TaxClassFindFirstArgs = {
+					where: { id },
+				};
+
+				query.select = getNestedFields(fields);
+
+				taxClass = await prisma.taxClass.findFirst(query);
+
+				if (taxClass && redisClient.isClientConnected()) {
+					try {
+						await redisClient.setJSON(cacheKey, taxClass, 3600);
+					} catch (cacheError) {
+						taxClassLogger.warn(
+							`Failed to store tax class ${id} in cache:`,
+							cacheError,
+						);
+					}
+				}
+			}
+
+			if (!taxClass) {
+				taxClassLogger.error(`${config.ERROR.TAXCLASS.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.TAXCLASS.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.TAXCLASS.RETRIEVED, taxClass, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.GET_FAILED);
+		}
+	};
+
+	const update = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				taxClassLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+			const requestData = req.body || {};
+
+			const validation = UpdateTaxClassSchema.safeParse(requestData);
+			if (!validation.success) {
+				const formattedErrors = formatZodErrors(validation.error.format());
+				taxClassLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+				const errorResponse = buildErrorResponse(
+					config.ERROR.TAXCLASS.VALIDATION_FAILED,
+					400,
+					formattedErrors,
+				);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			if (Object.keys(requestData).length === 0) {
+				taxClassLogger.error(config.ERROR.COMMON.NO_UPDATE_FIELDS);
+				const errorResponse = buildErrorResponse(config.ERROR.COMMON.NO_UPDATE_FIELDS, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const existingTaxClass = await prisma.taxClass.findFirst({
+				where: { id },
+			});
+
+			if (!existingTaxClass) {
+				taxClassLogger.error(`${config.ERROR.TAXCLASS.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.TAXCLASS.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			const prismaData: Prisma.TaxClassUpdateInput = { ...validation.data };
+
+			const taxClass = await prisma.taxClass.update({
+				where: { id },
+				data: prismaData,
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.UPDATE,
+				resource: config.AUDIT_LOG.RESOURCES.TAXCLASS,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.TAXCLASS,
+				entityId: id,
+				changesBefore: existingTaxClass,
+				changesAfter: taxClass,
+				description: `${config.AUDIT_LOG.TAXCLASS.DESCRIPTIONS.TAXCLASS_UPDATED}: ${taxClass.name}`,
+			});
+
+			await invalidateTaxClassCache(id);
+
+			taxClassLogger.info(`Tax class updated: ${id}`);
+			res.status(200).json(
+				buildSuccessResponse(config.SUCCESS.TAXCLASS.UPDATED, { taxClass }, 200),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.UPDATE_FAILED);
+		}
+	};
+
+	const remove = async (req: Request, res: Response, _next: NextFunction) => {
+		const { id: rawId } = req.params;
+
+		try {
+			if (!rawId) {
+				taxClassLogger.error(config.ERROR.QUERY_PARAMS.MISSING_ID);
+				const errorResponse = buildErrorResponse(config.ERROR.QUERY_PARAMS.MISSING_ID, 400);
+				res.status(400).json(errorResponse);
+				return;
+			}
+
+			const id = Array.isArray(rawId) ? rawId[0] : rawId;
+
+			const existingTaxClass = await prisma.taxClass.findFirst({
+				where: { id },
+			});
+
+			if (!existingTaxClass) {
+				taxClassLogger.error(`${config.ERROR.TAXCLASS.NOT_FOUND}: ${id}`);
+				const errorResponse = buildErrorResponse(config.ERROR.TAXCLASS.NOT_FOUND, 404);
+				res.status(404).json(errorResponse);
+				return;
+			}
+
+			await prisma.taxClass.delete({
+				where: { id },
+			});
+
+			logAudit(req, {
+				userId: (req as any).user?.id || "unknown",
+				action: config.AUDIT_LOG.ACTIONS.DELETE,
+				resource: config.AUDIT_LOG.RESOURCES.TAXCLASS,
+				severity: config.AUDIT_LOG.SEVERITY.MEDIUM,
+				entityType: config.AUDIT_LOG.ENTITY_TYPES.TAXCLASS,
+				entityId: id,
+				changesBefore: existingTaxClass,
+				changesAfter: null,
+				description: `${config.AUDIT_LOG.TAXCLASS.DESCRIPTIONS.TAXCLASS_DELETED}: ${existingTaxClass.name}`,
+			});
+
+			await invalidateTaxClassCache(id);
+
+			taxClassLogger.info(`Tax class deleted: ${id}`);
+			res.status(200).json(buildSuccessResponse(config.SUCCESS.TAXCLASS.DELETED, {}, 200));
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.DELETE_FAILED);
+		}
+	};
+
+	/**
+	 * Tax collected per period and tax class
+	 * GET /api/taxClass/report/summary?from=2026-01-01&to=2026-12-31&period=MONTH
+	 */
+	const getSummary = async (req: Request, res: Response, _next: NextFunction) => {
+		const validation = TaxSummaryQuerySchema.safeParse(req.query || {});
+		if (!validation.success) {
+			const formattedErrors = formatZodErrors(validation.error.format());
+			taxClassLogger.error(`Validation failed: ${JSON.stringify(formattedErrors)}`);
+			const errorResponse = buildErrorResponse(
+				config.ERROR.TAXCLASS.VALIDATION_FAILED,
+				400,
+				formattedErrors,
+			);
+			res.status(400).json(errorResponse);
+			return;
+		}
+
+		try {
+			const taxSummary = await getTaxSummary(prisma, validation.data);
+
+			res.status(200).json(
+				buildSuccessResponse(
+					config.SUCCESS.TAXCLASS.SUMMARY_RETRIEVED,
+					{ taxSummary },
+					200,
+				),
+			);
+		} catch (error) {
+			handleError(res, error, config.ERROR.TAXCLASS.SUMMARY_FAILED);
+		}
+	};
+
+	return { create, getAll, getById, update, remove, getSummary };
+};
@@ -0,0 +1,246 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { cache } from "../../middleware/cache";
+
+interface IController {
+	getById(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getAll(req: Request, res: Response, next: NextFunction): Promise<void>;
+	create(req: Request, res: Response, next: NextFunction): Promise<void>;
+	update(req: Request, res: Response, next: NextFunction): Promise<void>;
+	remove(req: Request, res: Response, next: NextFunction): Promise<void>;
+	getSummary(req: Request, res: Response, next: NextFunction): Promise<void>;
+}
+
+export const router = (route: Router, controller: IController): Router => {
+	const routes = Router();
+	const path = "/taxClass";
+
+	/**
+	 * @openapi
+	 * /api/taxClass/report/summary:
+	 *   get:
+	 *     summary: Tax summary report
+	 *     description: |
+	 *       Orders, gross sales and tax per period, broken down by tax class, from the taxable
+	 *       amount and tax stored on each order line. Gross sales are taxable amount plus tax,
+	 *       before points. Returned quantities are left out, and cancelled, rejected and returned
+	 *       orders are excluded.
+	 *     tags: [TaxClass]
+	 *     parameters:
+	 *       - in: query
+	 *         name: from
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: date
+	 *       - in: query
+	 *         name: to
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *           format: date
+	 *       - in: query
+	 *         name: period
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *           enum: [DAY, MONTH, YEAR]
+	 *           default: MONTH
+	 *     responses:
+	 *       200:
+	 *         description: Tax summary retrieved successfully
+	 *       400:
+	 *         description: Validation error
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get("/report/summary", controller.getSummary);
+
+	/**
+	 * @openapi
+	 * /api/taxClass/{id}:
+	 *   get:
+	 *     summary: Get tax class by ID
+	 *     description: Retrieve a specific tax class by its unique identifier
+	 *     tags: [TaxClass]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *         description: Tax class ID
+	 *       - in: query
+	 *         name: fields
+	 *         required: false
+	 *         schema:
+	 *           type: string
+	 *         description: Comma-separated list of fields to include
+	 *     responses:
+	 *       200:
+	 *         description: Tax class retrieved successfully
+	 *       404:
+	 *         description: Tax class not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/:id",
+		cache({
+			ttl: 90,
+			keyGenerator: (req: Request) => {
+				const fields = (req.query as any).fields || "full";
+				return `cache:taxClass:byId:${req.params.id}:${fields}`;
+			},
+		}),
+		controller.getById,
+	);
+
+	/**
+	 * @openapi
+	 * /api/taxClass:
+	 *   get:
+	 *     summary: Get all tax classes
+	 *     description: Retrieve tax classes with filtering, pagination, and sorting
+	 *     tags: [TaxClass]
+	 *     parameters:
+	 *       - in: query
+	 *         name: page
+	 *         schema:
+	 *           type: integer
+	 *           default: 1
+	 *       - in: query
+	 *         name: limit
+	 *         schema:
+	 *           type: integer
+	 *           default: 10
+	 *       - in: query
+	 *         name: query
+	 *         schema:
+	 *           type: string
+	 *       - in: query
+	 *         name: filter
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Tax classes retrieved successfully
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.get(
+		"/",
+		cache({
+			ttl: 60,
+			keyGenerator: (req: Request) => {
+				const queryKey = Buffer.from(JSON.stringify(req.query || {})).toString("base64");
+				return `cache:taxClass:list:${queryKey}`;
+			},
+		}),
+		controller.getAll,
+	);
+
+	/**
+	 * @openapi
+	 * /api/taxClass:
+	 *   post:
+	 *     summary: Create tax class
+	 *     description: Create a VAT class that products or categories can be assigned to
+	 *     tags: [TaxClass]
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *             required:
+	 *               - code
+	 *               - name
+	 *               - rate
+	 *             properties:
+	 *               code:
+	 *                 type: string
+	 *                 example: "VAT12"
+	 *               name:
+	 *                 type: string
+	 *                 example: "VAT 12%"
+	 *               description:
+	 *                 type: string
+	 *               rate:
+	 *                 type: number
+	 *                 description: Fraction between 0 and 1
+	 *                 example: 0.12
+	 *               isExempt:
+	 *                 type: boolean
+	 *                 description: Exempt supplies carry no tax regardless of rate
+	 *               isActive:
+	 *                 type: boolean
+	 *     responses:
+	 *       201:
+	 *         description: Tax class created successfully
+	 *       400:
+	 *         description: Validation error
+	 *       409:
+	 *         description: A tax class with this code already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.post("/", controller.create);
+
+	/**
+	 * @openapi
+	 * /api/taxClass/{id}:
+	 *   patch:
+	 *     summary: Update tax class
+	 *     description: Update a tax class's rate or exemption. Existing orders keep the tax they were charged.
+	 *     tags: [TaxClass]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     requestBody:
+	 *       required: true
+	 *       content:
+	 *         application/json:
+	 *           schema:
+	 *             type: object
+	 *     responses:
+	 *       200:
+	 *         description: Tax class updated successfully
+	 *       404:
+	 *         description: Tax class not found
+	 *       409:
+	 *         description: A tax class with this code already exists
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.patch("/:id", controller.update);
+
+	/**
+	 * @openapi
+	 * /api/taxClass/{id}:
+	 *   delete:
+	 *     summary: Delete tax class
+	 *     description: Delete a tax class
+	 *     tags: [TaxClass]
+	 *     parameters:
+	 *       - in: path
+	 *         name: id
+	 *         required: true
+	 *         schema:
+	 *           type: string
+	 *     responses:
+	 *       200:
+	 *         description: Tax class deleted successfully
+	 *       404:
+	 *         description: Tax class not found
+	 *       500:
+	 *         description: Internal server error
+	 */
+	routes.delete("/:id", controller.remove);
+
+	route.use(path, routes);
+
+	return route;
+};
@@ -179,6 +179,111 @@ export const config = {
 			ERROR_UPDATING: "Error updating installment",
 			ORDER_MUST_BE_ASC_OR_DESC: "Order must be asc or desc",
 		},
+		RETURNREQUEST: {
+			VALIDATION_FAILED: "Return request validation failed",
+			NOT_FOUND: "Return request not found",
+			CREATE_FAILED: "Error creating return request",
+			UPDATE_FAILED: "Error updating return request",
+			GET_FAILED: "Error getting return request",
+			GET_ALL_FAILED: "Error getting return requests",
+		},
+		CREDITPOLICY: {
+			VALIDATION_FAILED: "Credit policy validation failed",
+			NOT_FOUND: "Credit policy not found",
+			DUPLICATE_SCOPE: "A credit policy already exists for this scope",
+			CREATE_FAILED: "Error creating credit policy",
+			UPDATE_FAILED: "Error updating credit policy",
+			DELETE_FAILED: "Error deleting credit policy",
+			GET_FAILED: "Error getting credit policy",
+			GET_ALL_FAILED: "Error getting credit policies",
+			CAPACITY_FAILED: "Error getting credit capacity",
+		},
+		FINANCINGTIER: {
+			VALIDATION_FAILED: "Financing tier validation failed",
+			NOT_FOUND: "Financing tier not found",
+			DUPLICATE_NAME: "A financing tier with this name already exists",
+			CREATE_FAILED: "Error creating financing tier",
+			UPDATE_FAILED: "Error updating financing tier",
+			DELETE_FAILED: "Error deleting financing tier",
+			GET_FAILED: "Error getting financing tier",
+			GET_ALL_FAILED: "Error getting financing tiers",
+		},
+		PAYROLLCALENDAR: {
+			VALIDATION_FAILED: "Payroll calendar validation failed",
+			NOT_FOUND: "Payroll calendar not found",
+			DUPLICATE: "A payroll calendar already exists with this name or organization",
+			CREATE_FAILED: "Error creating payroll calendar",
+			UPDATE_FAILED: "Error updating payroll calendar",
+			DELETE_FAILED: "Error deleting payroll calendar",
+			GET_FAILED: "Error getting payroll calendar",
+			GET_ALL_FAILED: "Error getting payroll calendars",
+			PREVIEW_FAILED: "Error previewing payroll calendar",
+		},
+		PAYROLLBATCH: {
+			VALIDATION_FAILED: "Payroll batch validation failed",
+			NOT_FOUND: "Payroll batch not found",
+			NOTHING_DUE: "No installments are due for deduction by this cutoff",
+			INSTALLMENTS_TAKEN: "Some installments were added to another payroll batch; try again",
+			ALREADY_EXPORTED: "Payroll batch has been exported and can no longer be changed",
+			CREATE_FAILED: "Error creating payroll batch",
+			DELETE_FAILED: "Error deleting payroll batch",
+			GET_FAILED: "Error getting payroll batch",
+			GET_ALL_FAILED: "Error getting payroll batches",
+			EXPORT_FAILED: "Error exporting payroll batch",
+			NOT_EXPORTED: "Payroll batch must be exported before results can be imported",
+			RESULTS_FILE_REQUIRED: "A payroll results CSV file is required",
+			RESULTS_PARSE_FAILED: "Failed to parse payroll results file",
+			IMPORT_FAILED: "Error importing payroll results",
+		},
+		INSTALLMENTRESTRUCTURE: {
+			VALIDATION_FAILED: "Installment restructure validation failed",
+			NOT_FOUND: "Installment restructure not found",
+			PREVIEW_FAILED: "Error previewing installment restructure",
+			CREATE_FAILED: "Error requesting installment restructure",
+			GET_FAILED: "Error getting installment restructure",
+			GET_ALL_FAILED: "Error getting installment restructures",
+			DECISION_FAILED: "Error recording installment restructure decision",
+		},
+		EMPLOYEESEPARATION: {
+			VALIDATION_FAILED: "Employee separation validation failed",
+			NOT_FOUND: "Employee separation not found",
+			ALREADY_SEPARATED: "This employee has already been separated",
+			CREATE_FAILED: "Error processing employee separation",
+			GET_FAILED: "Error getting employee separation",
+			GET_ALL_FAILED: "Error getting employee separations",
+		},
+		TAXCLASS: {
+			VALIDATION_FAILED: "Tax class validation failed",
+			NOT_FOUND: "Tax class not found",
+			DUPLICATE_CODE: "A tax class with this code already exists",
+			CREATE_FAILED: "Error creating tax class",
+			UPDATE_FAILED: "Error updating tax class",
+			DELETE_FAILED: "Error deleting tax class",
+			GET_FAILED: "Error getting tax class",
+			GET_ALL_FAILED: "Error getting tax classes",
+			SUMMARY_FAILED: "Error building tax summary",
+		},
+		PROMOTION: {
+			VALIDATION_FAILED: "Promotion validation failed",
+			NOT_FOUND: "Promotion not found",
+			DUPLICATE_CODE: "A promotion with this code already exists",
+			HAS_REDEMPTIONS: "Promotion has been redeemed and cannot be deleted; deactivate it instead",
+			CREATE_FAILED: "Error creating promotion",
+			UPDATE_FAILED: "Error updating promotion",
+			DELETE_FAILED: "Error deleting promotion",
+			GET_FAILED: "Error getting promotion",
+			GET_ALL_FAILED: "Error getting promotions",
+			VALIDATE_FAILED: "Error validating coupon code",
+		},
+		POINTSWALLET: {
+			VALIDATION_FAILED: "Points request validation failed",
+			ENTRY_NOT_FOUND: "Points ledger entry not found",
+			GET_FAILED: "Error getting points wallet",
+			LEDGER_FAILED: "Error getting points ledger",
+			GRANT_FAILED: "Error granting points",
+			REVERSE_FAILED: "Error reversing points entry",
+			EXPIRE_FAILED: "Error expiring points",
+		},
 	},
 
 	SUCCESS: {
@@ -209,6 +314,8 @@ export const config = {
 			RETRIEVED: "Products retrieved successfully",
 			RETRIEVED_ALL: "Productss retrieved successfully",
 			GETTING_BY_ID: "Getting products by ID",
+			STOCK_RECEIVED: "Stock received and allocated to backorders",
+			BACKORDERS_RETRIEVED: "Backorder queue retrieved successfully",
 		},
 		PURCHASE: {
 			CREATED: "Purchase created successfully",
@@ -249,6 +356,10 @@ export const config = {
 			RETRIEVED: "Order retrieved successfully",
 			RETRIEVED_ALL: "Orders retrieved successfully",
 			GETTING_BY_ID: "Getting order by ID",
+			STATUS_CHANGED: "Order status changed",
+			CANCELLED: "Order cancelled",
+			AMENDED: "Order amended",
+			PREPAID: "Prepayment applied",
 		},
 		ORDERITEM: {
 			CREATED: "OrderItem created successfully",
@@ -274,6 +385,82 @@ export const config = {
 			RETRIEVED_ALL: "Installments retrieved successfully",
 			GETTING_BY_ID: "Getting installment by ID",
 		},
+		RETURNREQUEST: {
+			CREATED: "Return request created successfully",
+			APPROVED: "Return request approved",
+			REJECTED: "Return request rejected",
+			RECEIVED: "Return received and refund processed",
+			RETRIEVED: "Return request retrieved successfully",
+			RETRIEVED_ALL: "Return requests retrieved successfully",
+		},
+		CREDITPOLICY: {
+			CREATED: "Credit policy created successfully",
+			UPDATED: "Credit policy updated successfully",
+			DELETED: "Credit policy deleted successfully",
+			RETRIEVED: "Credit policy retrieved successfully",
+			RETRIEVED_ALL: "Credit policies retrieved successfully",
+			CAPACITY_RETRIEVED: "Credit capacity retrieved successfully",
+		},
+		FINANCINGTIER: {
+			CREATED: "Financing tier created successfully",
+			UPDATED: "Financing tier updated successfully",
+			DELETED: "Financing tier deleted successfully",
+			RETRIEVED: "Financing tier retrieved successfully",
+			RETRIEVED_ALL: "Financing tiers retrieved successfully",
+		},
+		PAYROLLCALENDAR: {
+			CREATED: "Payroll calendar created successfully",
+			UPDATED: "Payroll calendar updated successfully",
+			DELETED: "Payroll calendar deleted successfully",
+			RETRIEVED: "Payroll calendar retrieved successfully",
+			RETRIEVED_ALL: "Payroll calendars retrieved successfully",
+			PREVIEW_RETRIEVED: "Payroll calendar preview retrieved successfully",
+		},
+		PAYROLLBATCH: {
+			CREATED: "Payroll batch created successfully",
+			DELETED: "Payroll batch deleted and its installments released",
+			RETRIEVED: "Payroll batch retrieved successfully",
+			RETRIEVED_ALL: "Payroll batches retrieved successfully",
+			RESULTS_IMPORTED: "Payroll results imported",
+			RESULTS_ALREADY_IMPORTED: "Payroll results file was already imported; nothing was posted",
+		},
+		INSTALLMENTRESTRUCTURE: {
+			PREVIEWED: "Installment restructure preview retrieved successfully",
+			CREATED: "Installment restructure requested and sent for approval",
+			RETRIEVED: "Installment restructure retrieved successfully",
+			RETRIEVED_ALL: "Installment restructures retrieved successfully",
+			APPROVED: "Installment restructure approved at this level",
+			APPLIED: "Installment restructure approved and the new schedule applied",
+			REJECTED: "Installment restructure rejected",
+		},
+		EMPLOYEESEPARATION: {
+			CREATED: "Employee separated and outstanding balances moved to final pay",
+			RETRIEVED: "Employee separation retrieved successfully",
+			RETRIEVED_ALL: "Employee separations retrieved successfully",
+		},
+		TAXCLASS: {
+			CREATED: "Tax class created successfully",
+			UPDATED: "Tax class updated successfully",
+			DELETED: "Tax class deleted successfully",
+			RETRIEVED: "Tax class retrieved successfully",
+			RETRIEVED_ALL: "Tax classes retrieved successfully",
+			SUMMARY_RETRIEVED: "Tax summary retrieved successfully",
+		},
+		PROMOTION: {
+			CREATED: "Promotion created successfully",
+			UPDATED: "Promotion updated successfully",
+			DELETED: "Promotion deleted successfully",
+			RETRIEVED: "Promotion retrieved successfully",
+			RETRIEVED_ALL: "Promotions retrieved successfully",
+			COUPON_VALID: "Coupon code is valid",
+		},
+		POINTSWALLET: {
+			RETRIEVED: "Points wallet retrieved successfully",
+			LEDGER_RETRIEVED: "Points ledger retrieved successfully",
+			GRANTED: "Points granted",
+			REVERSED: "Points entry reversed successfully",
+			EXPIRED: "Points expiry completed",
+		},
 	},
 
 	ACTIVITY_LOG: {
@@ -544,6 +731,16 @@ export const config = {
 			ORDERITEM: "orderitem",
 			VENDOR: "vendor",
 			INSTALLMENT: "installment",
+			RETURNREQUEST: "returnrequest",
+			CREDITPOLICY: "creditpolicy",
+			FINANCINGTIER: "financingtier",
+			PAYROLLCALENDAR: "payrollcalendar",
+			PAYROLLBATCH: "payrollbatch",
+			INSTALLMENTRESTRUCTURE: "installmentrestructure",
+			EMPLOYEESEPARATION: "employeeseparation",
+			TAXCLASS: "taxclass",
+			PROMOTION: "promotion",
+			POINTSWALLET: "pointswallet",
 		},
 		SEVERITY: {
 			LOW: "LOW" as const,
@@ -564,12 +761,23 @@ export const config = {
 			ORDERITEM: "orderitem",
 			VENDOR: "vendor",
 			INSTALLMENT: "installment",
+			RETURNREQUEST: "returnrequest",
+			CREDITPOLICY: "creditpolicy",
+			FINANCINGTIER: "financingtier",
+			PAYROLLCALENDAR: "payrollcalendar",
+			PAYROLLBATCH: "payrollbatch",
+			INSTALLMENTRESTRUCTURE: "installmentrestructure",
+			EMPLOYEESEPARATION: "employeeseparation",
+			TAXCLASS: "taxclass",
+			PROMOTION: "promotion",
+			POINTSWALLET: "pointswallet",
 		},
 		PRODUCTS: {
 			DESCRIPTIONS: {
 				PRODUCTS_CREATED: "Created new products",
 				PRODUCTS_UPDATED: "Updated products",
 				PRODUCTS_DELETED: "Deleted products",
+				PRODUCTS_STOCK_RECEIVED: "Received stock and allocated it to backorders",
 			},
 		},
 		PURCHASE: {
@@ -605,6 +813,81 @@ export const config = {
 				ORDER_CREATED: "Created new order",
 				ORDER_UPDATED: "Updated order",
 				ORDER_DELETED: "Deleted order",
+				ORDER_STATUS_CHANGED: "Changed order status",
+				ORDER_CANCELLED: "Cancelled order and reversed installments, ledger and stock",
+				ORDER_AMENDED: "Amended order items and repriced installments and ledger",
+				ORDER_PREPAID: "Applied prepayment to installments and ledger",
+			},
+		},
+		RETURNREQUEST: {
+			DESCRIPTIONS: {
+				RETURNREQUEST_CREATED: "Requested order return",
+				RETURNREQUEST_APPROVED: "Approved return request",
+				RETURNREQUEST_REJECTED: "Rejected return request",
+				RETURNREQUEST_RECEIVED: "Received returned items and processed refund",
+			},
+		},
+		CREDITPOLICY: {
+			DESCRIPTIONS: {
+				CREDITPOLICY_CREATED: "Created credit policy",
+				CREDITPOLICY_UPDATED: "Updated credit policy",
+				CREDITPOLICY_DELETED: "Deleted credit policy",
+			},
+		},
+		FINANCINGTIER: {
+			DESCRIPTIONS: {
+				FINANCINGTIER_CREATED: "Created financing tier",
+				FINANCINGTIER_UPDATED: "Updated financing tier",
+				FINANCINGTIER_DELETED: "Deleted financing tier",
+			},
+		},
+		PAYROLLCALENDAR: {
+			DESCRIPTIONS: {
+				PAYROLLCALENDAR_CREATED: "Created payroll calendar",
+				PAYROLLCALENDAR_UPDATED: "Updated payroll calendar",
+				PAYROLLCALENDAR_DELETED: "Deleted payroll calendar",
+			},
+		},
+		PAYROLLBATCH: {
+			DESCRIPTIONS: {
+				PAYROLLBATCH_CREATED: "Created payroll batch",
+				PAYROLLBATCH_EXPORTED: "Exported payroll batch",
+				PAYROLLBATCH_DELETED: "Deleted payroll batch",
+				PAYROLLBATCH_RESULTS_IMPORTED: "Imported payroll results",
+			},
+		},
+		INSTALLMENTRESTRUCTURE: {
+			DESCRIPTIONS: {
+				INSTALLMENTRESTRUCTURE_REQUESTED: "Requested installment restructure",
+				INSTALLMENTRESTRUCTURE_APPROVED: "Approved installment restructure level",
+				INSTALLMENTRESTRUCTURE_APPLIED: "Applied installment restructure schedule",
+				INSTALLMENTRESTRUCTURE_REJECTED: "Rejected installment restructure",
+			},
+		},
+		EMPLOYEESEPARATION: {
+			DESCRIPTIONS: {
+				EMPLOYEESEPARATION_CREATED: "Separated employee and settled outstanding balances",
+			},
+		},
+		TAXCLASS: {
+			DESCRIPTIONS: {
+				TAXCLASS_CREATED: "Created tax class",
+				TAXCLASS_UPDATED: "Updated tax class",
+				TAXCLASS_DELETED: "Deleted tax class",
+			},
+		},
+		PROMOTION: {
+			DESCRIPTIONS: {
+				PROMOTION_CREATED: "Created promotion",
+				PROMOTION_UPDATED: "Updated promotion",
+				PROMOTION_DELETED: "Deleted promotion",
+			},
+		},
+		POINTSWALLET: {
+			DESCRIPTIONS: {
+				POINTS_GRANTED: "Granted points",
+				POINTS_REVERSED: "Reversed points entry",
+				POINTS_EXPIRED: "Expired unspent points",
 			},
 		},
 		ORDERITEM: {
@@ -650,4 +933,158 @@ export const config = {
 			},
 		},
 	},
+
+	CHECKOUT: {
+		// Interactive transaction limits for the order/ledger/installment unit of work
+		TRANSACTION_MAX_WAIT_MS: 5000,
+		TRANSACTION_TIMEOUT_MS: 20000,
+	},
+
+	ORDER_CANCELLATION: {
+		// Hours after entering a status during which the order may still be cancelled.
+		// null = no limit. Statuses not listed cannot be cancelled by the lifecycle anyway.
+		WINDOW_HOURS: {
+			PENDING_APPROVAL: null,
+			APPROVED: 48,
+			PROCESSING: 24,
+		},
+	},
+
+	INSTALLMENTS: {
+		// Event the installment schedule starts from: ORDER_DATE, APPROVAL or DELIVERY.
+		// Orders keep the anchor in force when they were placed.
+		SCHEDULE_ANCHOR: "ORDER_DATE" as "ORDER_DATE" | "APPROVAL" | "DELIVERY",
+		// What happens to the unpaid part of a FAILED or PARTIAL deduction
+		ARREARS: {
+			// CARRY_FORWARD adds it to the next pending installment, SPREAD divides it over all of
+			// them. Without a pending installment, one is added on the next cutoff.
+			POLICY: "CARRY_FORWARD" as "CARRY_FORWARD" | "SPREAD",
+			// Late fee charged with each carried amount: a FIXED amount or a PERCENT of the unpaid
+			// amount. 0 = no late fee.
+			LATE_FEE_TYPE: "FIXED" as "FIXED" | "PERCENT",
+			LATE_FEE_VALUE: 0,
+			// The employee and HR are emailed when an order reaches this many failed deductions
+			// in a row
+			NOTIFY_AFTER_CONSECUTIVE_FAILURES: 2,
+		},
+		// Restructuring an order's remaining installments (longer term or paused deductions)
+		RESTRUCTURE: {
+			// Active approval workflow whose levels approve a restructure; without one the
+			// APPROVAL_ROLES below approve in order
+			WORKFLOW_NAME: "Installment Restructuring",
+			APPROVAL_ROLES: ["HR"] as ("MANAGER" | "HR" | "FINANCE" | "DEPARTMENT_HEAD" | "ADMIN")[],
+			MAX_INSTALLMENT_MONTHS: 36,
+			MAX_PAUSE_CUTOFFS: 4,
+		},
+	},
+
+	PAYROLL: {
+		// Calendar used when neither the employee's organization nor the default PayrollCalendar
+		// is set up: semi-monthly cutoffs on the 15th and the last day of the month, paid 5 days later
+		DEFAULT_CALENDAR: {
+			NAME: "Semi-monthly (15th and end of month)",
+			FREQUENCY: "SEMI_MONTHLY" as "WEEKLY" | "BI_WEEKLY" | "SEMI_MONTHLY" | "MONTHLY",
+			FIRST_CUTOFF_DAY: 15,
+			SECOND_CUTOFF_DAY: null as number | null, // null = last day of the month
+			PAY_DATE_OFFSET_DAYS: 5,
+			NON_WORKING_WEEKDAYS: [] as number[], // 0 (Sunday) to 6 (Saturday)
+		},
+		// Largest deduction taken from one employee on a cutoff. A payroll batch takes the
+		// employee's installments oldest first up to it and defers the rest to the next cutoff;
+		// final pay deductions are never deferred. null = no cap.
+		MAX_DEDUCTION_PER_CUTOFF: 5000 as number | null,
+		// Deduction file layouts of a PayrollBatch export
+		EXPORT: {
+			CSV_DELIMITER: ",",
+			XLSX_SHEET_NAME: "Deductions",
+			// Fixed-width records: H header, D one per employee, T trailer with control counts.
+			// Text is left aligned and space padded, numbers right aligned and zero padded,
+			// amounts in cents and dates as YYYYMMDD. Values longer than a field are truncated.
+			FIXED_WIDTH: {
+				HEADER: [
+					{ FIELD: "recordType", WIDTH: 1 },
+					{ FIELD: "batchNumber", WIDTH: 20 },
+					{ FIELD: "cutOffDate", WIDTH: 8 },
+					{ FIELD: "createdAt", WIDTH: 8 },
+				],
+				DETAIL: [
+					{ FIELD: "recordType", WIDTH: 1 },
+					{ FIELD: "employeeId", WIDTH: 24 },
+					{ FIELD: "employeeName", WIDTH: 40 },
+					{ FIELD: "installmentCount", WIDTH: 4 },
+					{ FIELD: "amount", WIDTH: 15 },
+				],
+				TRAILER: [
+					{ FIELD: "recordType", WIDTH: 1 },
+					{ FIELD: "employeeCount", WIDTH: 8 },
+					{ FIELD: "installmentCount", WIDTH: 8 },
+					{ FIELD: "amount", WIDTH: 15 },
+				],
+			},
+		},
+		// Results file payroll sends back for a PayrollBatch: one CSV row per employee
+		RESULTS: {
+			COLUMNS: {
+				BATCH_NUMBER: "Batch Number",
+				EMPLOYEE_ID: "Employee ID",
+				STATUS: "Status", // DEDUCTED, PARTIAL or FAILED
+				AMOUNT: "Deducted Amount", // Optional for DEDUCTED, required for PARTIAL
+				REFERENCE: "Reference",
+				REASON: "Reason",
+			},
+			// Largest difference between a DEDUCTED amount and the exported deduction
+			AMOUNT_TOLERANCE: 0.01,
+		},
+	},
+
+	CREDIT: {
+		// Limits applied when no active CreditPolicy matches the employee. null = no limit.
+		DEFAULT_MAX_OUTSTANDING_BALANCE: 100000 as number | null,
+		DEFAULT_MAX_DEDUCTION_PER_CUTOFF: 5000 as number | null,
+	},
+
+	TAX: {
+		// Whether catalogue prices (employeePrice/retailPrice) already include VAT
+		PRICES_INCLUDE_TAX: true,
+		// Used for products with no tax class on the product or its category, unless an active
+		// TaxClass with this code exists
+		DEFAULT_CLASS: { CODE: "VAT12", NAME: "VAT 12%", RATE: 0.12 },
+	},
+
+	POINTS: {
+		// Points earned per 1.00 of the amount paid (after points) when an order is delivered.
+		// 0 turns earning off.
+		EARN_RATE: 0.01,
+		// Months before unspent granted or earned points expire. null = never.
+		EXPIRY_MONTHS: 12 as number | null,
+		// Largest bulk grant accepted in one request
+		MAX_GRANT_BATCH_SIZE: 500,
+	},
+
+	RETURNS: {
+		// Days after delivery during which a return can be requested
+		WINDOW_DAYS: 30,
+	},
+
+	NUMBERING: {
+		// Document number formats: PREFIX-<period>-<zero padded sequence>
+		// RESET: YEARLY → EPP-2026-000123, RMA-2026-000007; MONTHLY → TXN-2026-10-000045;
+		// NEVER (no period) → PREFIX-000007
+		ORDER: { PREFIX: "EPP", RESET: "YEARLY", PAD: 6 },
+		TRANSACTION: { PREFIX: "TXN", RESET: "MONTHLY", PAD: 6 },
+		REFUND: { PREFIX: "RFD", RESET: "MONTHLY", PAD: 6 },
+		RETURN: { PREFIX: "RMA", RESET: "YEARLY", PAD: 6 },
+		PAYROLL_BATCH: { PREFIX: "PRB", RESET: "YEARLY", PAD: 5 },
+		RESTRUCTURE: { PREFIX: "RST", RESET: "YEARLY", PAD: 5 },
+		SEPARATION: { PREFIX: "SEP", RESET: "YEARLY", PAD: 5 },
+	},
+
+	IDEMPOTENCY: {
+		HEADER: "Idempotency-Key",
+		// Completed responses are replayed for this long
+		TTL_SECONDS: 86400,
+		// In-flight requests hold the key for at most this long
+		LOCK_TTL_SECONDS: 60,
+		MAX_KEY_LENGTH: 255,
+	},
 };
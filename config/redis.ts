@@ -242,6 +242,25 @@ class RedisClient {
 		}
 	}
 
+	/**
+	 * Set a key only if it does not exist yet.
+	 * Returns true when the key was set, false when it already existed and
+	 * null when Redis is unavailable.
+	 */
+	async setNX(key: string, value: string, ttl: number): Promise<boolean | null> {
+		if (!this.isConnected || this.circuitBreakerOpen) {
+			logger.warn(`Redis SET NX skipped for key ${key} - Redis unavailable`);
+			return null;
+		}
+		try {
+			const result = await this.client.set(key, value, "EX", ttl, "NX");
+			return result === "OK";
+		} catch (error) {
+			logger.error(`Redis SET NX error for key ${key}:`, error);
+			return null;
+		}
+	}
+
 	async del(key: string): Promise<number> {
 		if (!this.isConnected || this.circuitBreakerOpen) {
 			logger.warn(`Redis DEL skipped for key ${key} - Redis unavailable`);
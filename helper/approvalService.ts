@@ -1,5 +1,10 @@
-import { PrismaClient } from "../generated/prisma";
+import { PrismaClient, Prisma } from "../generated/prisma";
 import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { transitionOrderStatus } from "./orderLifecycleService";
+import { assertNotInPayrollBatch, unwindOrder } from "./orderCancellationService";
+import { startInstallmentScheduleIfDue } from "./installmentScheduleService";
+import { config } from "../config/constant";
 import {
 	sendApprovalRequestEmail,
 	sendNextApprovalNotification,
@@ -14,14 +19,17 @@ const approvalLogger = logger.child({ module: "approvalService" });
  * Find matching workflow for an order based on amount and payment type
  */
 export const findMatchingWorkflow = async (
-	prisma: PrismaClient,
+	prisma: PrismaClient | Prisma.TransactionClient,
 	orderTotal: number,
 	paymentType: string,
 ) => {
 	try {
-		// Find all active workflows
+		// Find all active workflows; the restructuring workflow only approves restructures
 		const workflows = await prisma.approvalWorkflow.findMany({
-			where: { isActive: true },
+			where: {
+				isActive: true,
+				name: { not: config.INSTALLMENTS.RESTRUCTURE.WORKFLOW_NAME },
+			},
 			include: { levels: { orderBy: { level: "asc" } } },
 		});
 
@@ -61,7 +69,7 @@ export const findMatchingWorkflow = async (
  * This is a placeholder - you should implement actual logic to find approvers
  */
 export const getApproverForRole = async (
-	prisma: PrismaClient,
+	prisma: PrismaClient | Prisma.TransactionClient,
 	role: string,
 	employeeId?: string,
 ) => {
@@ -106,6 +114,115 @@ export const getApproverForRole = async (
 	return roleMap[role] || roleMap["MANAGER"];
 };
 
+/**
+ * Store the approval records of the workflow matching an order, one per level, without
+ * notifying anyone. approvalRound numbers the chain: a restarted chain gets a new round, so
+ * its levels do not collide with the superseded ones.
+ */
+const buildApprovalChain = async (
+	prisma: PrismaClient | Prisma.TransactionClient,
+	order: {
+		id: string;
+		orderNumber: string;
+		employeeId: string;
+		total: number;
+		paymentType: string;
+	},
+	approvalRound = 1,
+) => {
+	// Find matching workflow
+	const workflow = await findMatchingWorkflow(prisma, order.total, order.paymentType);
+
+	if (!workflow) {
+		approvalLogger.warn(`No workflow found for order ${order.orderNumber}`);
+		return null;
+	}
+
+	if (!workflow.levels || workflow.levels.length === 0) {
+		approvalLogger.warn(`Workflow ${workflow.name} has no approval levels`);
+		return null;
+	}
+
+	approvalLogger.info(
+		`Creating approval chain for order ${order.orderNumber} with ${workflow.levels.length} levels`,
+	);
+
+	// Remember which workflow applies so an amendment can tell when it changes
+	await prisma.order.update({
+		where: { id: order.id },
+		data: { workflowId: workflow.id, currentApprovalLevel: 1 },
+	});
+
+	// Create approval records for all levels
+	const approvals = [];
+	for (const level of workflow.levels) {
+		// Get approver for this role
+		const approver = await getApproverForRole(prisma, level.role, order.employeeId);
+
+		// Create approval record
+		const approval = await prisma.orderApproval.create({
+			data: {
+				orderId: order.id,
+				approvalRound,
+				approvalLevel: level.level,
+				approverRole: level.role,
+				approverId: approver.id,
+				approverName: approver.name,
+				approverEmail: approver.email,
+				status: "PENDING",
+			},
+		});
+
+		approvals.push(approval);
+		approvalLogger.info(
+			`Created approval level ${level.level} (${level.role}) for order ${order.orderNumber}`,
+		);
+	}
+
+	return {
+		workflow,
+		approvals,
+	};
+};
+
+/**
+ * Send the approval request to the first approver of a chain
+ */
+export const notifyFirstApprover = async (
+	approvals: Array<{
+		approverEmail: string;
+		approverName: string;
+		approvalLevel: number;
+		approverRole: string;
+	}>,
+	order: {
+		orderNumber: string;
+		total: number;
+		orderDate: Date;
+		notes?: string | null;
+	},
+	employeeName: string,
+) => {
+	if (approvals.length === 0) {
+		return;
+	}
+
+	const firstApproval = approvals[0];
+	await sendApprovalRequestEmail({
+		to: firstApproval.approverEmail,
+		approverName: firstApproval.approverName,
+		employeeName: employeeName,
+		orderNumber: order.orderNumber,
+		orderTotal: order.total,
+		approvalLevel: firstApproval.approvalLevel,
+		approverRole: firstApproval.approverRole,
+		orderDate: order.orderDate,
+		notes: order.notes || undefined,
+	});
+
+	approvalLogger.info(`Sent approval request email to ${firstApproval.approverEmail}`);
+};
+
 /**
  * Create approval chain for an order
  */
@@ -121,72 +238,85 @@ export const createApprovalChain = async (
 	notes?: string,
 ) => {
 	try {
-		// Find matching workflow
-		const workflow = await findMatchingWorkflow(prisma, orderTotal, paymentType);
+		const approvalChain = await buildApprovalChain(prisma, {
+			id: orderId,
+			orderNumber,
+			employeeId,
+			total: orderTotal,
+			paymentType,
+		});
 
-		if (!workflow) {
-			approvalLogger.warn(`No workflow found for order ${orderNumber}`);
-			return null;
+		// Send email to first level approver
+		if (approvalChain) {
+			await notifyFirstApprover(
+				approvalChain.approvals,
+				{ orderNumber, total: orderTotal, orderDate, notes },
+				employeeName,
+			);
 		}
 
-		if (!workflow.levels || workflow.levels.length === 0) {
-			approvalLogger.warn(`Workflow ${workflow.name} has no approval levels`);
-			return null;
-		}
+		return approvalChain;
+	} catch (error) {
+		approvalLogger.error(`Error creating approval chain: ${error}`);
+		throw error;
+	}
+};
 
-		approvalLogger.info(
-			`Creating approval chain for order ${orderNumber} with ${workflow.levels.length} levels`,
-		);
+/**
+ * Start the approval chain over when an amended order now falls under a different workflow.
+ * Decisions made on the old chain are kept, marked SUPERSEDED, and the new chain is stored as
+ * the next approval round. Runs inside the amendment's transaction, so the first approver is
+ * not notified here: call notifyFirstApprover once it has committed.
+ */
+export const restartApprovalChainIfWorkflowChanged = async (
+	tx: Prisma.TransactionClient,
+	order: {
+		id: string;
+		orderNumber: string;
+		employeeId: string;
+		total: number;
+		paymentType: string;
+		workflowId: string | null;
+	},
+	previousTotal: number,
+) => {
+	try {
+		// Orders created before the workflow was stored fall back to the one their old total matched
+		const previousWorkflowId =
+			order.workflowId ??
+			(await findMatchingWorkflow(tx, previousTotal, order.paymentType))?.id ??
+			null;
+		const workflow = await findMatchingWorkflow(tx, order.total, order.paymentType);
+		const workflowId = workflow?.id ?? null;
+
+		if (workflowId === previousWorkflowId) {
+			return { restarted: false, previousWorkflowId, approvalChain: null };
+		}
 
-		// Create approval records for all levels
-		const approvals = [];
-		for (const level of workflow.levels) {
-			// Get approver for this role
-			const approver = await getApproverForRole(prisma, level.role, employeeId);
-
-			// Create approval record
-			const approval = await prisma.orderApproval.create({
-				data: {
-					orderId: orderId,
-					approvalLevel: level.level,
-					approverRole: level.role,
-					approverId: approver.id,
-					approverName: approver.name,
-					approverEmail: approver.email,
-					status: "PENDING",
-				},
-			});
+		const superseded = await tx.orderApproval.updateMany({
+			where: { orderId: order.id, status: { in: ["PENDING", "APPROVED"] } },
+			data: { status: "SUPERSEDED", comments: "Order amended into a different workflow" },
+		});
+		await tx.order.update({
+			where: { id: order.id },
+			data: { workflowId: null, currentApprovalLevel: 1 },
+		});
 
-			approvals.push(approval);
-			approvalLogger.info(
-				`Created approval level ${level.level} (${level.role}) for order ${orderNumber}`,
-			);
-		}
+		const lastRound = await tx.orderApproval.findFirst({
+			where: { orderId: order.id },
+			orderBy: { approvalRound: "desc" },
+		});
+		const approvalRound = (lastRound?.approvalRound ?? 0) + 1;
 
-		// Send email to first level approver
-		if (approvals.length > 0) {
-			const firstApproval = approvals[0];
-			await sendApprovalRequestEmail({
-				to: firstApproval.approverEmail,
-				approverName: firstApproval.approverName,
-				employeeName: employeeName,
-				orderNumber: orderNumber,
-				orderTotal: orderTotal,
-				approvalLevel: firstApproval.approvalLevel,
-				approverRole: firstApproval.approverRole,
-				orderDate: orderDate,
-				notes: notes,
-			});
+		approvalLogger.info(
+			`Order ${order.orderNumber} moved from workflow ${previousWorkflowId} to ${workflowId}: ${superseded.count} approval(s) superseded, round ${approvalRound} started`,
+		);
 
-			approvalLogger.info(`Sent approval request email to ${firstApproval.approverEmail}`);
-		}
+		const approvalChain = await buildApprovalChain(tx, order, approvalRound);
 
-		return {
-			workflow,
-			approvals,
-		};
+		return { restarted: true, previousWorkflowId, approvalChain };
 	} catch (error) {
-		approvalLogger.error(`Error creating approval chain: ${error}`);
+		approvalLogger.error(`Error restarting approval chain: ${error}`);
 		throw error;
 	}
 };
@@ -217,32 +347,101 @@ export const processApproval = async (
 			throw new Error("Approval has already been processed");
 		}
 
-		// Update approval record
-		const updatedApproval = await prisma.orderApproval.update({
-			where: { id: approvalId },
-			data: {
-				status: status,
-				[status === "APPROVED" ? "approvedAt" : "rejectedAt"]: new Date(),
-				comments: comments,
+		if (approval.order.status !== "PENDING_APPROVAL") {
+			throw new ServiceError(
+				`Order ${approval.order.orderNumber} is ${approval.order.status} and can no longer be approved or rejected`,
+				409,
+			);
+		}
+
+		// A rejection unwinds the order, which payroll may already be deducting
+		if (status === "REJECTED") {
+			await assertNotInPayrollBatch(prisma, approval.orderId);
+		}
+
+		// Record the decision and apply its effect on the order in one unit of work. The
+		// decision is claimed only while it is still PENDING, so two approvers acting at
+		// once cannot both move the order.
+		const { updatedApproval, nextLevelApproval } = await prisma.$transaction(
+			async (tx) => {
+				const claimed = await tx.orderApproval.updateMany({
+					where: { id: approvalId, status: "PENDING" },
+					data: {
+						status: status,
+						[status === "APPROVED" ? "approvedAt" : "rejectedAt"]: new Date(),
+						comments: comments,
+					},
+				});
+				if (claimed.count === 0) {
+					throw new ServiceError("Approval has already been processed", 409);
+				}
+
+				if (status === "REJECTED") {
+					// Reject the order and unwind its installments, ledger and stock together
+					await transitionOrderStatus(tx, approval.orderId, "REJECTED", {
+						changedBy: approval.approverName,
+						reason: comments || "Order rejected",
+						data: {
+							rejectedBy: approval.approverName,
+							rejectionReason: comments || "Order rejected",
+						},
+					});
+					await unwindOrder(tx, approval.orderId, {
+						reason: comments || "Order rejected",
+						changedBy: approval.approverName,
+					});
+					return {
+						updatedApproval: await tx.orderApproval.findUniqueOrThrow({
+							where: { id: approvalId },
+						}),
+						nextLevelApproval: null,
+					};
+				}
+
+				// Check if there are more levels
+				const nextLevelApproval = await tx.orderApproval.findFirst({
+					where: {
+						orderId: approval.orderId,
+						approvalRound: approval.approvalRound,
+						approvalLevel: approval.approvalLevel + 1,
+						status: "PENDING",
+					},
+				});
+
+				if (nextLevelApproval) {
+					await tx.order.update({
+						where: { id: approval.orderId },
+						data: {
+							currentApprovalLevel: approval.approvalLevel + 1,
+						},
+					});
+				} else {
+					// No more levels - order is fully approved. Orders anchored on approval
+					// start paying from today.
+					await transitionOrderStatus(tx, approval.orderId, "APPROVED", {
+						changedBy: approval.approverName,
+						reason: comments,
+					});
+					await startInstallmentScheduleIfDue(tx, approval.orderId);
+				}
+				return {
+					updatedApproval: await tx.orderApproval.findUniqueOrThrow({
+						where: { id: approvalId },
+					}),
+					nextLevelApproval,
+				};
 			},
-		});
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
 
 		approvalLogger.info(
 			`Approval ${approvalId} ${status.toLowerCase()} for order ${approval.order.orderNumber}`,
 		);
 
 		if (status === "REJECTED") {
-			// Update order to rejected
-			await prisma.order.update({
-				where: { id: approval.orderId },
-				data: {
-					status: "REJECTED",
-					rejectedAt: new Date(),
-					rejectedBy: approval.approverName,
-					rejectionReason: comments || "Order rejected",
-				},
-			});
-
 			// Send rejection email to employee
 			// TODO: Get employee email from database
 			await sendOrderRejectedEmail({
@@ -256,62 +455,35 @@ export const processApproval = async (
 			});
 
 			approvalLogger.info(`Order ${approval.order.orderNumber} rejected`);
-		} else {
-			// Check if there are more levels
-			const nextLevelApproval = await prisma.orderApproval.findFirst({
-				where: {
-					orderId: approval.orderId,
-					approvalLevel: approval.approvalLevel + 1,
-				},
+		} else if (nextLevelApproval) {
+			// There's a next level - send notification
+			await sendNextApprovalNotification({
+				to: nextLevelApproval.approverEmail,
+				approverName: nextLevelApproval.approverName,
+				employeeName: "Employee Name", // TODO: Get from employee record
+				orderNumber: approval.order.orderNumber,
+				orderTotal: approval.order.total,
+				previousApprover: approval.approverName,
+				approvalLevel: nextLevelApproval.approvalLevel,
+				approverRole: nextLevelApproval.approverRole,
 			});
 
-			if (nextLevelApproval) {
-				// There's a next level - send notification
-				await prisma.order.update({
-					where: { id: approval.orderId },
-					data: {
-						currentApprovalLevel: approval.approvalLevel + 1,
-					},
-				});
-
-				await sendNextApprovalNotification({
-					to: nextLevelApproval.approverEmail,
-					approverName: nextLevelApproval.approverName,
-					employeeName: "Employee Name", // TODO: Get from employee record
-					orderNumber: approval.order.orderNumber,
-					orderTotal: approval.order.total,
-					previousApprover: approval.approverName,
-					approvalLevel: nextLevelApproval.approvalLevel,
-					approverRole: nextLevelApproval.approverRole,
-				});
-
-				approvalLogger.info(
-					`Sent next level approval notification for order ${approval.order.orderNumber}`,
-				);
-			} else {
-				// No more levels - order is fully approved
-				await prisma.order.update({
-					where: { id: approval.orderId },
-					data: {
-						status: "APPROVED",
-						isFullyApproved: true,
-						approvedAt: new Date(),
-					},
-				});
-
-				// Send approval email to employee
-				// TODO: Get employee email from database
-				await sendOrderApprovedEmail({
-					to: "employee@company.com", // TODO: Get from employee record
-					employeeName: "Employee Name", // TODO: Get from employee record
-					orderNumber: approval.order.orderNumber,
-					orderTotal: approval.order.total,
-					approvedBy: approval.approverName,
-					approvedAt: new Date(),
-				});
+			approvalLogger.info(
+				`Sent next level approval notification for order ${approval.order.orderNumber}`,
+			);
+		} else {
+			// Send approval email to employee
+			// TODO: Get employee email from database
+			await sendOrderApprovedEmail({
+				to: "employee@company.com", // TODO: Get from employee record
+				employeeName: "Employee Name", // TODO: Get from employee record
+				orderNumber: approval.order.orderNumber,
+				orderTotal: approval.order.total,
+				approvedBy: approval.approverName,
+				approvedAt: new Date(),
+			});
 
-				approvalLogger.info(`Order ${approval.order.orderNumber} fully approved`);
-			}
+			approvalLogger.info(`Order ${approval.order.orderNumber} fully approved`);
 		}
 
 		return updatedApproval;
@@ -0,0 +1,345 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { nextDocumentNumber } from "./numberingService";
+import { createArrearsAdjustment, findOrderLedger } from "./transactionService";
+import { calculatePayrollDates, getPayrollCalendar } from "./payrollCalendarService";
+import { sendDeductionFailureEmail } from "./email.helper";
+
+const logger = getLogger();
+const arrearsLogger = logger.child({ module: "arrearsService" });
+
+export type ArrearsPolicy = "CARRY_FORWARD" | "SPREAD";
+
+const UNPAID_INSTALLMENT_STATUSES = ["FAILED", "PARTIAL"];
+
+export interface CarriedArrears {
+	installmentId: string;
+	policy: ArrearsPolicy;
+	unpaidAmount: number;
+	lateFee: number;
+	adjustmentId: string;
+	appliedTo: {
+		installmentId: string;
+		installmentNumber: number;
+		amount: number;
+		created: boolean;
+	}[];
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date);
+	result.setDate(result.getDate() + days);
+	return result;
+}
+
+/**
+ * Split an amount into parts that add up to it exactly; the last part takes the rounding
+ */
+function splitAmount(amount: number, parts: number): number[] {
+	const share = roundMoney(amount / parts);
+	return Array.from({ length: parts }, (_, i) =>
+		i === parts - 1 ? roundMoney(amount - share * (parts - 1)) : share,
+	);
+}
+
+/**
+ * Late fee charged when an unpaid amount is carried forward
+ */
+export function calculateLateFee(unpaidAmount: number): number {
+	const { LATE_FEE_TYPE, LATE_FEE_VALUE } = config.INSTALLMENTS.ARREARS;
+	if (!LATE_FEE_VALUE || unpaidAmount <= 0) {
+		return 0;
+	}
+	return roundMoney(
+		LATE_FEE_TYPE === "PERCENT" ? (unpaidAmount * LATE_FEE_VALUE) / 100 : LATE_FEE_VALUE,
+	);
+}
+
+/**
+ * Move the unpaid part of a FAILED or PARTIAL installment, plus any late fee, onto the order's
+ * later PENDING installments: the next one (CARRY_FORWARD) or all of them (SPREAD). When none
+ * are left, a new installment is added on the next payroll cutoff. The move is recorded as an
+ * ADJUSTMENT on the order's ledger and can only happen once per installment.
+ */
+export async function carryForwardArrears(
+	prisma: PrismaClient,
+	installmentId: string,
+	policy: ArrearsPolicy = config.INSTALLMENTS.ARREARS.POLICY,
+): Promise<CarriedArrears | null> {
+	const installment = await prisma.installment.findUnique({
+		where: { id: installmentId },
+		include: { order: true },
+	});
+
+	if (!installment) {
+		throw new ServiceError(`Installment ${installmentId} not found`, 404);
+	}
+	if (!UNPAID_INSTALLMENT_STATUSES.includes(installment.status)) {
+		throw new ServiceError(
+			`Installment ${installmentId} is ${installment.status}; only FAILED or PARTIAL installments have arrears`,
+			409,
+		);
+	}
+	if (installment.carriedForwardAmount != null) {
+		throw new ServiceError(
+			`Installment ${installmentId} has already been carried forward`,
+			409,
+		);
+	}
+
+	const unpaidAmount = roundMoney(installment.amount - (installment.deductedAmount ?? 0));
+	if (unpaidAmount <= 0) {
+		return null;
+	}
+	const lateFee = calculateLateFee(unpaidAmount);
+	// Deductions pay interest first, so what is unpaid is interest only up to what was missed
+	const unpaidInterest = roundMoney(
+		Math.max((installment.interestAmount ?? 0) - (installment.deductedAmount ?? 0), 0),
+	);
+
+	const ledger = await findOrderLedger(prisma, installment.orderId);
+	if (!ledger) {
+		throw new ServiceError(
+			`Transaction ledger not found for order ${installment.orderId}`,
+			404,
+		);
+	}
+	const transactionNumber = await nextDocumentNumber(prisma, "TRANSACTION");
+
+	const result = await prisma.$transaction(
+		async (tx) => {
+			const claimed = await tx.installment.updateMany({
+				where: {
+					id: installmentId,
+					status: installment.status,
+					OR: [
+						{ carriedForwardAmount: null },
+						{ carriedForwardAmount: { isSet: false } },
+					],
+				},
+				data: { carriedForwardAmount: unpaidAmount },
+			});
+			if (claimed.count === 0) {
+				throw new ServiceError(
+					`Installment ${installmentId} changed while its arrears were being carried forward`,
+					409,
+				);
+			}
+
+			const pending = await tx.installment.findMany({
+				where: {
+					orderId: installment.orderId,
+					status: "PENDING",
+					cutOffDate: { gt: installment.cutOffDate },
+				},
+				orderBy: { cutOffDate: "asc" },
+			});
+			const targets = policy === "SPREAD" ? pending : pending.slice(0, 1);
+			const appliedTo: CarriedArrears["appliedTo"] = [];
+
+			if (targets.length > 0) {
+				const shares = splitAmount(unpaidAmount, targets.length);
+				const interestShares = splitAmount(unpaidInterest, targets.length);
+				for (const [index, target] of targets.entries()) {
+					// The fee is collected once, with the first installment
+					const fee = index === 0 ? lateFee : 0;
+					const amount = roundMoney(shares[index] + fee);
+
+					// A batch locking the installment meanwhile would have snapshotted the old amount
+					const updated = await tx.installment.updateMany({
+						where: { id: target.id, status: "PENDING" },
+						data: {
+							amount: roundMoney(target.amount + amount),
+							arrearsAmount: roundMoney((target.arrearsAmount ?? 0) + shares[index]),
+							lateFeeAmount: roundMoney((target.lateFeeAmount ?? 0) + fee),
+							...(unpaidInterest > 0 && {
+								interestAmount: roundMoney(
+									(target.interestAmount ?? 0) + interestShares[index],
+								),
+							}),
+						},
+					});
+					if (updated.count === 0) {
+						throw new ServiceError(
+							`Installment ${target.id} was scheduled for payroll while arrears were being carried into it`,
+							409,
+						);
+					}
+					appliedTo.push({
+						installmentId: target.id,
+						installmentNumber: target.installmentNumber,
+						amount,
+						created: false,
+					});
+				}
+			} else {
+				// Nothing left to carry into: add an installment on the next cutoff after the plan
+				const last = await tx.installment.findFirst({
+					where: { orderId: installment.orderId },
+					orderBy: { installmentNumber: "desc" },
+				});
+				const latestCutOff = await tx.installment.findFirst({
+					where: { orderId: installment.orderId },
+					orderBy: { cutOffDate: "desc" },
+				});
+				const after = addDays(latestCutOff?.cutOffDate ?? installment.cutOffDate, 1);
+				const calendar = await getPayrollCalendar(tx, installment.order.payrollCalendarId);
+				const [next] = calculatePayrollDates(
+					calendar,
+					after > new Date() ? after : new Date(),
+					1,
+				);
+				const installmentNumber = (last?.installmentNumber ?? 0) + 1;
+				const amount = roundMoney(unpaidAmount + lateFee);
+
+				const created = await tx.installment.create({
+					data: {
+						orderId: installment.orderId,
+						installmentNumber,
+						amount,
+						arrearsAmount: unpaidAmount,
+						lateFeeAmount: lateFee,
+						...(unpaidInterest > 0 && { interestAmount: unpaidInterest }),
+						status: "PENDING",
+						cutOffDate: next.cutOffDate,
+						scheduledDate: next.payDate,
+						notes: `Arrears from installment ${installment.installmentNumber}`,
+					},
+				});
+				await tx.order.update({
+					where: { id: installment.orderId },
+					data: { installmentCount: installmentNumber },
+				});
+				appliedTo.push({
+					installmentId: created.id,
+					installmentNumber,
+					amount,
+					created: true,
+				});
+			}
+
+			const adjustment = await createArrearsAdjustment(tx, ledger, transactionNumber, {
+				installmentId,
+				unpaidAmount,
+				lateFee,
+				policy,
+				appliedTo: appliedTo.map(({ installmentId, amount }) => ({
+					installmentId,
+					amount,
+				})),
+				notes:
+					`Arrears of installment ${installment.installmentNumber} carried to installment ` +
+					appliedTo.map((entry) => entry.installmentNumber).join(", "),
+			});
+
+			return { adjustmentId: adjustment.id, appliedTo };
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+
+	arrearsLogger.info(
+		`Carried ${unpaidAmount} (late fee ${lateFee}) from installment ${installmentId} to ` +
+			`${result.appliedTo.map((entry) => entry.installmentId).join(", ")} (${policy})`,
+	);
+
+	return { installmentId, policy, unpaidAmount, lateFee, ...result };
+}
+
+/**
+ * Count a FAILED deduction towards the order's streak, and tell the employee and HR once the
+ * streak reaches the configured limit. Returns the streak length.
+ */
+export async function recordFailedDeduction(
+	prisma: PrismaClient,
+	orderId: string,
+	failureReason?: string | null,
+): Promise<number> {
+	const order = await prisma.order.update({
+		where: { id: orderId },
+		data: { consecutiveFailedDeductions: { increment: 1 } },
+	});
+	const failures = order.consecutiveFailedDeductions;
+
+	if (failures === config.INSTALLMENTS.ARREARS.NOTIFY_AFTER_CONSECUTIVE_FAILURES) {
+		await notifyConsecutiveFailures(prisma, order, failures, failureReason);
+	}
+
+	return failures;
+}
+
+/**
+ * A full deduction ends the order's failure streak
+ */
+export async function resetFailedDeductions(prisma: PrismaClient, orderId: string) {
+	await prisma.order.updateMany({
+		where: { id: orderId, consecutiveFailedDeductions: { gt: 0 } },
+		data: { consecutiveFailedDeductions: 0 },
+	});
+}
+
+async function notifyConsecutiveFailures(
+	prisma: PrismaClient,
+	order: any,
+	failures: number,
+	failureReason?: string | null,
+) {
+	const [person, unpaid] = await Promise.all([
+		prisma.person.findUnique({
+			where: { id: order.employeeId },
+			select: { personalInfo: true, contactInfo: true },
+		}),
+		prisma.installment.findMany({
+			where: { orderId: order.id, status: { in: UNPAID_INSTALLMENT_STATUSES as any } },
+		}),
+	]);
+
+	const info = person?.personalInfo;
+	const employeeName =
+		(info && [info.firstName, info.lastName].filter(Boolean).join(" ")) || "Employee";
+	// Amounts already carried forward are owed through later installments, not as arrears
+	const unpaidAmount = roundMoney(
+		unpaid.reduce(
+			(sum, i) =>
+				sum + (i.carriedForwardAmount != null ? 0 : i.amount - (i.deductedAmount ?? 0)),
+			0,
+		),
+	);
+	const carriedAmount = roundMoney(
+		unpaid.reduce((sum, i) => sum + (i.carriedForwardAmount ?? 0), 0),
+	);
+
+	const recipients: { to: string; audience: "EMPLOYEE" | "HR" }[] = [];
+	if (person?.contactInfo?.email) {
+		recipients.push({ to: person.contactInfo.email, audience: "EMPLOYEE" });
+	}
+	if (process.env.HR_NOTIFICATION_EMAIL) {
+		recipients.push({ to: process.env.HR_NOTIFICATION_EMAIL, audience: "HR" });
+	}
+	if (recipients.length === 0) {
+		arrearsLogger.warn(
+			`Order ${order.orderNumber} reached ${failures} failed deductions but nobody could be notified`,
+		);
+		return;
+	}
+
+	for (const recipient of recipients) {
+		await sendDeductionFailureEmail({
+			...recipient,
+			employeeName,
+			orderNumber: order.orderNumber,
+			consecutiveFailures: failures,
+			unpaidAmount,
+			carriedAmount,
+			failureReason: failureReason || undefined,
+		});
+	}
+}
@@ -0,0 +1,418 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { reserveStock, StockLine } from "./inventoryService";
+import { startInstallmentScheduleIfDue } from "./installmentScheduleService";
+import { sendBackorderAllocatedEmail } from "./email.helper";
+
+const logger = getLogger();
+const backorderLogger = logger.child({ module: "backorderService" });
+
+export type BackorderMode = "BACKORDER" | "PREORDER";
+
+export interface BackorderLine extends StockLine {
+	mode: BackorderMode;
+}
+
+export interface AllocatedBackorder {
+	id: string;
+	orderId: string;
+	employeeId: string;
+	productId: string;
+	quantity: number;
+	allocatedAt: Date;
+}
+
+export interface AllocationResult {
+	productId: string;
+	stockQuantity: number;
+	allocated: AllocatedBackorder[];
+	releasedOrders: string[]; // Orders with nothing left waiting
+	stillQueued: number;
+}
+
+/**
+ * Units already waiting in the queue, per product
+ */
+async function getQueuedQuantities(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	productIds: string[],
+): Promise<Map<string, number>> {
+	const entries = await prisma.backorderEntry.findMany({
+		where: { productId: { in: productIds }, status: "QUEUED" },
+		select: { productId: true, quantity: true },
+	});
+
+	const queued = new Map<string, number>();
+	for (const entry of entries) {
+		queued.set(entry.productId, (queued.get(entry.productId) || 0) + entry.quantity);
+	}
+	return queued;
+}
+
+/**
+ * Reserve stock for the lines that can be filled now and return the ones that have to wait.
+ * A product that takes backorders or pre-orders queues the whole line when its stock is short
+ * or earlier orders are already waiting, so incoming stock reaches them first. Products
+ * without a backorder mode fail with 409 when short, as before. Must run inside a transaction.
+ */
+export async function reserveStockOrBackorder(
+	tx: Prisma.TransactionClient,
+	items: StockLine[],
+): Promise<BackorderLine[]> {
+	const quantities = new Map<string, number>();
+	for (const item of items) {
+		quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+	}
+
+	const productIds = [...quantities.keys()];
+	const products = await tx.product.findMany({
+		where: { id: { in: productIds } },
+		select: {
+			id: true,
+			stockQuantity: true,
+			backorderMode: true,
+			maxBackorderQuantity: true,
+		},
+	});
+	const productById = new Map<string, (typeof products)[number]>(products.map((p) => [p.id, p]));
+	const queued = await getQueuedQuantities(tx, productIds);
+
+	const reserved: StockLine[] = [];
+	const backordered: BackorderLine[] = [];
+	const overLimit: Array<{ productId: string; requested: number; remaining: number }> = [];
+
+	for (const [productId, quantity] of quantities) {
+		const product = productById.get(productId);
+		const waiting = queued.get(productId) || 0;
+
+		if (
+			!product ||
+			product.backorderMode === "NONE" ||
+			(waiting === 0 && product.stockQuantity >= quantity)
+		) {
+			reserved.push({ productId, quantity });
+			continue;
+		}
+
+		if (
+			product.maxBackorderQuantity !== null &&
+			waiting + quantity > product.maxBackorderQuantity
+		) {
+			overLimit.push({
+				productId,
+				requested: quantity,
+				remaining: Math.max(product.maxBackorderQuantity - waiting, 0),
+			});
+			continue;
+		}
+
+		backordered.push({ productId, quantity, mode: product.backorderMode as BackorderMode });
+	}
+
+	if (overLimit.length > 0) {
+		backorderLogger.warn(`Backorder limit reached for ${overLimit.length} product(s)`);
+		throw new ServiceError(
+			"Backorder limit reached for one or more items",
+			409,
+			overLimit.map((line) => ({
+				field: `product.${line.productId}`,
+				message: `Requested ${line.requested}, only ${line.remaining} more can be backordered`,
+			})),
+		);
+	}
+
+	if (reserved.length > 0) {
+		await reserveStock(tx, reserved);
+	}
+
+	return backordered;
+}
+
+/**
+ * Put the order's lines for backordered products in the queue.
+ * Must run inside the transaction that creates the order, after its items exist.
+ */
+export async function queueBackorders(
+	tx: Prisma.TransactionClient,
+	order: { id: string; employeeId: string },
+	backordered: BackorderLine[],
+): Promise<number> {
+	if (backordered.length === 0) {
+		return 0;
+	}
+
+	const modeByProduct = new Map<string, BackorderMode>(
+		backordered.map((line) => [line.productId, line.mode]),
+	);
+	const items = await tx.orderItem.findMany({
+		where: { orderId: order.id, productId: { in: [...modeByProduct.keys()] } },
+	});
+
+	for (const item of items) {
+		await tx.backorderEntry.create({
+			data: {
+				productId: item.productId,
+				orderId: order.id,
+				orderItemId: item.id,
+				employeeId: order.employeeId,
+				mode: modeByProduct.get(item.productId)!,
+				quantity: item.quantity,
+			},
+		});
+	}
+
+	backorderLogger.info(`Queued ${items.length} backordered line(s) for order ${order.id}`);
+	return items.length;
+}
+
+/**
+ * Cancel the queued lines of an order that is being unwound.
+ * Returns the queued quantity per order item, which never took stock and must not be released.
+ */
+export async function cancelOrderBackorders(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+): Promise<Map<string, number>> {
+	const entries = await tx.backorderEntry.findMany({
+		where: { orderId, status: "QUEUED" },
+	});
+
+	if (entries.length > 0) {
+		await tx.backorderEntry.updateMany({
+			where: { id: { in: entries.map((entry) => entry.id) } },
+			data: { status: "CANCELLED", cancelledAt: new Date() },
+		});
+		backorderLogger.info(`Cancelled ${entries.length} backorder(s) for order ${orderId}`);
+	}
+
+	const queued = new Map<string, number>();
+	for (const entry of entries) {
+		queued.set(entry.orderItemId, (queued.get(entry.orderItemId) || 0) + entry.quantity);
+	}
+	return queued;
+}
+
+/**
+ * Allocate a product's stock to its queue, first come first served.
+ * Entries are filled whole and in order: allocation stops at the first entry the stock cannot
+ * cover, so later orders never jump the queue. Orders with nothing left waiting are released
+ * and their installment schedule starts if its anchor event has already happened.
+ */
+async function allocateQueuedStock(
+	tx: Prisma.TransactionClient,
+	productId: string,
+): Promise<Omit<AllocationResult, "stockQuantity">> {
+	const entries = await tx.backorderEntry.findMany({
+		where: { productId, status: "QUEUED" },
+		orderBy: { queuedAt: "asc" },
+	});
+
+	const allocatedAt = new Date();
+	const allocated: AllocatedBackorder[] = [];
+
+	for (const entry of entries) {
+		const taken = await tx.product.updateMany({
+			where: { id: productId, stockQuantity: { gte: entry.quantity } },
+			data: { stockQuantity: { decrement: entry.quantity } },
+		});
+		if (taken.count === 0) {
+			break;
+		}
+
+		await tx.backorderEntry.update({
+			where: { id: entry.id },
+			data: { status: "ALLOCATED", allocatedAt },
+		});
+		allocated.push({
+			id: entry.id,
+			orderId: entry.orderId,
+			employeeId: entry.employeeId,
+			productId,
+			quantity: entry.quantity,
+			allocatedAt,
+		});
+	}
+
+	const releasedOrders: string[] = [];
+	for (const orderId of new Set(allocated.map((entry) => entry.orderId))) {
+		const waiting = await tx.backorderEntry.count({
+			where: { orderId, status: "QUEUED" },
+		});
+		if (waiting > 0) continue;
+
+		await tx.order.update({
+			where: { id: orderId },
+			data: { awaitingStock: false, stockAllocatedAt: allocatedAt },
+		});
+		await startInstallmentScheduleIfDue(tx, orderId);
+		releasedOrders.push(orderId);
+	}
+
+	return {
+		productId,
+		allocated,
+		releasedOrders,
+		stillQueued: entries.length - allocated.length,
+	};
+}
+
+/**
+ * Tell employees their backordered items were allocated
+ */
+async function notifyAllocations(prisma: PrismaClient, allocated: AllocatedBackorder[]) {
+	if (allocated.length === 0) {
+		return;
+	}
+
+	const orders = await prisma.order.findMany({
+		where: { id: { in: [...new Set(allocated.map((entry) => entry.orderId))] } },
+		select: { id: true, orderNumber: true, awaitingStock: true },
+	});
+	const orderById = new Map<string, (typeof orders)[number]>(orders.map((o) => [o.id, o]));
+	const product = await prisma.product.findUnique({
+		where: { id: allocated[0].productId },
+		select: { name: true },
+	});
+	const people = await prisma.person.findMany({
+		where: { id: { in: [...new Set(allocated.map((entry) => entry.employeeId))] } },
+		select: { id: true, personalInfo: true, contactInfo: true },
+	});
+	const personById = new Map<string, (typeof people)[number]>(people.map((p) => [p.id, p]));
+
+	const notified: string[] = [];
+	for (const entry of allocated) {
+		const order = orderById.get(entry.orderId);
+		const person = personById.get(entry.employeeId);
+		if (!person?.contactInfo?.email) {
+			backorderLogger.warn(
+				`No email for employee ${entry.employeeId}; backorder ${entry.id} allocation not sent`,
+			);
+			continue;
+		}
+
+		const info = person.personalInfo;
+		await sendBackorderAllocatedEmail({
+			to: person.contactInfo.email,
+			employeeName:
+				(info && [info.firstName, info.lastName].filter(Boolean).join(" ")) || "Employee",
+			orderNumber: order?.orderNumber || entry.orderId,
+			productName: product?.name || entry.productId,
+			quantity: entry.quantity,
+			allocatedAt: entry.allocatedAt,
+			orderComplete: order ? !order.awaitingStock : false,
+		});
+		notified.push(entry.id);
+	}
+
+	if (notified.length > 0) {
+		await prisma.backorderEntry.updateMany({
+			where: { id: { in: notified } },
+			data: { notifiedAt: new Date() },
+		});
+	}
+}
+
+/**
+ * Allocate whatever stock a product has to its queue, e.g. after its stock was corrected
+ */
+export async function allocateBackorders(
+	prisma: PrismaClient,
+	productId: string,
+): Promise<AllocationResult> {
+	try {
+		const result = await prisma.$transaction(
+			async (tx) => {
+				const allocation = await allocateQueuedStock(tx, productId);
+				const product = await tx.product.findUniqueOrThrow({
+					where: { id: productId },
+					select: { stockQuantity: true },
+				});
+				return { ...allocation, stockQuantity: product.stockQuantity };
+			},
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
+
+		await notifyAllocations(prisma, result.allocated);
+		return result;
+	} catch (error) {
+		backorderLogger.error(`Failed to allocate backorders for product ${productId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Record incoming stock for a product and allocate it to the queue in the same unit of work
+ */
+export async function receiveStock(
+	prisma: PrismaClient,
+	productId: string,
+	quantity: number,
+	options: { receivedBy: string; reference?: string },
+): Promise<AllocationResult> {
+	try {
+		const existing = await prisma.product.findUnique({
+			where: { id: productId },
+			select: { id: true },
+		});
+		if (!existing) {
+			throw new ServiceError("Product not found", 404);
+		}
+
+		const result = await prisma.$transaction(
+			async (tx) => {
+				await tx.product.update({
+					where: { id: productId },
+					data: { stockQuantity: { increment: quantity } },
+				});
+				const allocation = await allocateQueuedStock(tx, productId);
+				const product = await tx.product.findUniqueOrThrow({
+					where: { id: productId },
+					select: { stockQuantity: true },
+				});
+				return { ...allocation, stockQuantity: product.stockQuantity };
+			},
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
+
+		backorderLogger.info(
+			`Received ${quantity} unit(s) of product ${productId} by ${options.receivedBy}` +
+				(options.reference ? ` (${options.reference})` : "") +
+				`: ${result.allocated.length} backorder(s) allocated, ${result.stillQueued} still queued`,
+		);
+
+		await notifyAllocations(prisma, result.allocated);
+		return result;
+	} catch (error) {
+		backorderLogger.error(`Failed to receive stock for product ${productId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Queue of a product in allocation order
+ */
+export async function getBackorderQueue(
+	prisma: PrismaClient,
+	productId: string,
+	status: "QUEUED" | "ALLOCATED" | "CANCELLED" = "QUEUED",
+) {
+	const entries = await prisma.backorderEntry.findMany({
+		where: { productId, status },
+		orderBy: { queuedAt: "asc" },
+	});
+
+	return {
+		productId,
+		status,
+		totalQuantity: entries.reduce((sum, entry) => sum + entry.quantity, 0),
+		entries: entries.map((entry, index) => ({ position: index + 1, ...entry })),
+	};
+}
@@ -0,0 +1,185 @@
+import { PrismaClient } from "../generated/prisma";
+import { getLogger } from "./logger";
+
+const logger = getLogger();
+const cartPricingLogger = logger.child({ module: "cartPricingService" });
+
+export type CartLineAvailability =
+	| "AVAILABLE"
+	| "UNAVAILABLE" // Product not approved, inactive or not available
+	| "OUT_OF_STOCK" // Not enough stock for the requested quantity
+	| "BACKORDER" // Not enough stock, but the product takes backorders or pre-orders
+	| "REMOVED"; // Product no longer exists
+
+export interface CartLineReview {
+	cartItemId: string;
+	productId: string;
+	productName: string | null;
+	quantity: number;
+	snapshotUnitPrice: number | null;
+	currentUnitPrice: number | null;
+	priceChanged: boolean;
+	priceDelta: number;
+	availability: CartLineAvailability;
+	availableQuantity: number;
+}
+
+export interface CartReview {
+	lines: CartLineReview[];
+	snapshotSubtotal: number;
+	currentSubtotal: number;
+	hasPriceChanges: boolean;
+	hasUnavailableItems: boolean;
+	hasBackorders: boolean;
+}
+
+interface PricedProduct {
+	id: string;
+	name?: string | null;
+	employeePrice: number | null;
+	retailPrice: number;
+	stockQuantity: number;
+	backorderMode?: string;
+	status: string;
+	isAvailable: boolean;
+	isActive: boolean;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Whether a reviewed line can be ordered now, either from stock or as a backorder
+ */
+export function isOrderable(
+	line: CartLineReview,
+): line is CartLineReview & { currentUnitPrice: number } {
+	return (
+		(line.availability === "AVAILABLE" || line.availability === "BACKORDER") &&
+		line.currentUnitPrice !== null
+	);
+}
+
+/**
+ * Price an employee pays for a product: employeePrice when set, otherwise retailPrice
+ */
+export function getEmployeeUnitPrice(product: {
+	employeePrice: number | null;
+	retailPrice: number;
+}): number {
+	return product.employeePrice || product.retailPrice;
+}
+
+/**
+ * Compare one cart line against the live product
+ */
+export function reviewCartLine(
+	cartItem: {
+		id: string;
+		productId: string;
+		quantity: number;
+		unitPriceSnapshot?: number | null;
+	},
+	product: PricedProduct | undefined,
+): CartLineReview {
+	const snapshotUnitPrice = cartItem.unitPriceSnapshot ?? null;
+
+	if (!product) {
+		return {
+			cartItemId: cartItem.id,
+			productId: cartItem.productId,
+			productName: null,
+			quantity: cartItem.quantity,
+			snapshotUnitPrice,
+			currentUnitPrice: null,
+			priceChanged: false,
+			priceDelta: 0,
+			availability: "REMOVED",
+			availableQuantity: 0,
+		};
+	}
+
+	const currentUnitPrice = getEmployeeUnitPrice(product);
+	// Items added before snapshots existed are treated as priced at the current price
+	const priceDelta =
+		snapshotUnitPrice === null ? 0 : roundMoney(currentUnitPrice - snapshotUnitPrice);
+
+	let availability: CartLineAvailability = "AVAILABLE";
+	if (product.status !== "APPROVED" || !product.isAvailable || !product.isActive) {
+		availability = "UNAVAILABLE";
+	} else if (product.stockQuantity < cartItem.quantity) {
+		availability =
+			product.backorderMode && product.backorderMode !== "NONE"
+				? "BACKORDER"
+				: "OUT_OF_STOCK";
+	}
+
+	return {
+		cartItemId: cartItem.id,
+		productId: cartItem.productId,
+		productName: product.name ?? null,
+		quantity: cartItem.quantity,
+		snapshotUnitPrice,
+		currentUnitPrice,
+		priceChanged: priceDelta !== 0,
+		priceDelta,
+		availability,
+		availableQuantity: Math.max(product.stockQuantity, 0),
+	};
+}
+
+/**
+ * Review cart lines against live prices, availability and stock
+ */
+export async function reviewCart(
+	prisma: PrismaClient,
+	cartItems: Array<{
+		id: string;
+		productId: string;
+		quantity: number;
+		unitPriceSnapshot?: number | null;
+	}>,
+): Promise<CartReview> {
+	const productIds = [...new Set(cartItems.map((item) => item.productId))];
+	const products = await prisma.product.findMany({
+		where: { id: { in: productIds } },
+	});
+	const productMap = new Map<string, PricedProduct>(products.map((p) => [p.id, p]));
+
+	return summarizeCartReview(
+		cartItems.map((item) => reviewCartLine(item, productMap.get(item.productId))),
+	);
+}
+
+/**
+ * Totals and flags for reviewed cart lines.
+ * Subtotals only include lines that can still be purchased, from stock or as backorders.
+ */
+export function summarizeCartReview(lines: CartLineReview[]): CartReview {
+	let snapshotSubtotal = 0;
+	let currentSubtotal = 0;
+	for (const line of lines) {
+		if (!isOrderable(line)) continue;
+		snapshotSubtotal += (line.snapshotUnitPrice ?? line.currentUnitPrice) * line.quantity;
+		currentSubtotal += line.currentUnitPrice * line.quantity;
+	}
+
+	const review: CartReview = {
+		lines,
+		snapshotSubtotal: roundMoney(snapshotSubtotal),
+		currentSubtotal: roundMoney(currentSubtotal),
+		hasPriceChanges: lines.some((l) => isOrderable(l) && l.priceChanged),
+		hasUnavailableItems: lines.some((l) => !isOrderable(l)),
+		hasBackorders: lines.some((l) => l.availability === "BACKORDER"),
+	};
+
+	if (review.hasPriceChanges || review.hasUnavailableItems) {
+		cartPricingLogger.info(
+			`Cart drift: subtotal ${review.snapshotSubtotal} → ${review.currentSubtotal}, ` +
+				`${lines.filter((l) => !isOrderable(l)).length} unavailable line(s)`,
+		);
+	}
+
+	return review;
+}
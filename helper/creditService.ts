@@ -0,0 +1,381 @@
+import { PrismaClient, Prisma, CreditPolicy } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { ORDER_LEDGER_TYPES } from "./transactionService";
+import { assertNotSeparated } from "./separationService";
+import { planInstallments } from "./installmentService";
+import { getFinancedAmount } from "./installmentScheduleService";
+import { FinancingTerms, getOrderFinancingTerms } from "./financingService";
+import {
+	getPayrollCalendar,
+	PayrollCalendarRules,
+	resolveEmployeePayrollCalendar,
+} from "./payrollCalendarService";
+import { EmployeeProfile, getEmployeeProfile, getEmployeeProfiles } from "./employeeService";
+
+const logger = getLogger();
+const creditLogger = logger.child({ module: "creditService" });
+
+/**
+ * Ledger statuses that still carry an outstanding balance
+ */
+const OPEN_LEDGER_STATUSES = ["PENDING", "PROCESSING"] as const;
+
+/**
+ * Installment statuses that will still be deducted from a future payroll
+ */
+const UPCOMING_INSTALLMENT_STATUSES = ["PENDING", "SCHEDULED"] as const;
+
+/**
+ * Orders whose installments no longer count against the employee
+ */
+const CLOSED_ORDER_STATUSES = ["CANCELLED", "REJECTED", "RETURNED"] as const;
+
+/**
+ * Policy scopes from most to least specific
+ */
+const SCOPE_PRECEDENCE = ["EMPLOYEE", "GRADE", "ORGANIZATION", "DEFAULT"] as const;
+
+export interface CreditContext {
+	employeeId: string;
+}
+
+export interface ResolvedCreditPolicy {
+	policyId: string | null; // null when the configured defaults apply
+	name: string;
+	scope: (typeof SCOPE_PRECEDENCE)[number] | "CONFIG";
+	maxOutstandingBalance: number | null;
+	maxDeductionPerCutoff: number | null;
+}
+
+export interface CutoffDeduction {
+	cutOffDate: string; // YYYY-MM-DD
+	amount: number;
+	remaining: number | null;
+}
+
+export interface CreditCapacity {
+	employeeId: string;
+	policy: ResolvedCreditPolicy;
+	outstandingBalance: number;
+	remainingBalance: number | null;
+	cutoffs: CutoffDeduction[];
+	peakCutoffDeduction: number;
+}
+
+export interface CreditProposal {
+	total: number;
+	paymentType: string;
+	installmentMonths?: number | null;
+	financedAmount?: number; // Principal repaid by installments, before interest; the total when omitted
+	startDate?: Date;
+	replacesOrderId?: string; // Order being amended; its current ledger and installments are left out
+	payrollCalendarId?: string | null; // Calendar already stored on the order, if any
+	financing?: FinancingTerms | null; // Terms the financed amount is repaid under
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Calendar key for a payroll cutoff. Cutoffs are built from local dates, so avoid toISOString.
+ */
+export function cutoffKey(date: Date): string {
+	const d = new Date(date);
+	const month = (d.getMonth() + 1).toString().padStart(2, "0");
+	const day = d.getDate().toString().padStart(2, "0");
+	return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function policyCandidates(
+	employeeId: string,
+	profile: EmployeeProfile,
+): Prisma.CreditPolicyWhereInput[] {
+	const candidates: Prisma.CreditPolicyWhereInput[] = [
+		{ scope: "EMPLOYEE", scopeValue: employeeId },
+	];
+	if (profile.employeeGrade) {
+		candidates.push({ scope: "GRADE", scopeValue: profile.employeeGrade });
+	}
+	if (profile.organizationId) {
+		candidates.push({ scope: "ORGANIZATION", scopeValue: profile.organizationId });
+	}
+	return candidates;
+}
+
+function pickCreditPolicy(
+	policies: CreditPolicy[],
+	employeeId: string,
+	profile: EmployeeProfile,
+): ResolvedCreditPolicy {
+	const scopeValues: Record<(typeof SCOPE_PRECEDENCE)[number], string | null> = {
+		EMPLOYEE: employeeId,
+		GRADE: profile.employeeGrade,
+		ORGANIZATION: profile.organizationId,
+		DEFAULT: null,
+	};
+
+	for (const scope of SCOPE_PRECEDENCE) {
+		const policy = policies.find(
+			(p) =>
+				p.scope === scope &&
+				(scope === "DEFAULT" ||
+					(scopeValues[scope] !== null && p.scopeValue === scopeValues[scope])),
+		);
+		if (policy) {
+			return {
+				policyId: policy.id,
+				name: policy.name,
+				scope,
+				maxOutstandingBalance: policy.maxOutstandingBalance ?? null,
+				maxDeductionPerCutoff: policy.maxDeductionPerCutoff ?? null,
+			};
+		}
+	}
+
+	return {
+		policyId: null,
+		name: "Default credit limits",
+		scope: "CONFIG",
+		maxOutstandingBalance: config.CREDIT.DEFAULT_MAX_OUTSTANDING_BALANCE,
+		maxDeductionPerCutoff: config.CREDIT.DEFAULT_MAX_DEDUCTION_PER_CUTOFF,
+	};
+}
+
+/**
+ * Pick the most specific active policy for an employee, falling back to the configured defaults.
+ * Grade and organization come from the employee's Person record.
+ */
+export async function resolveCreditPolicy(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	context: CreditContext,
+): Promise<ResolvedCreditPolicy> {
+	const profile = await getEmployeeProfile(prisma, context.employeeId);
+	const policies = await prisma.creditPolicy.findMany({
+		where: {
+			isActive: true,
+			OR: [...policyCandidates(context.employeeId, profile), { scope: "DEFAULT" }],
+		},
+	});
+
+	return pickCreditPolicy(policies, context.employeeId, profile);
+}
+
+/**
+ * resolveCreditPolicy for several employees with one Person and one policy query, keyed by
+ * employee ID
+ */
+export async function resolveCreditPolicies(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeIds: string[],
+): Promise<Map<string, ResolvedCreditPolicy>> {
+	const profiles = await getEmployeeProfiles(prisma, employeeIds);
+	const policies = await prisma.creditPolicy.findMany({
+		where: {
+			isActive: true,
+			OR: [
+				...employeeIds.flatMap((employeeId) =>
+					policyCandidates(employeeId, profiles.get(employeeId)!),
+				),
+				{ scope: "DEFAULT" },
+			],
+		},
+	});
+
+	return new Map(
+		employeeIds.map((employeeId) => [
+			employeeId,
+			pickCreditPolicy(policies, employeeId, profiles.get(employeeId)!),
+		]),
+	);
+}
+
+/**
+ * Outstanding balance and upcoming payroll deductions for an employee, measured
+ * against the applicable credit policy
+ */
+export async function getCreditCapacity(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	context: CreditContext,
+	options: { excludeOrderId?: string } = {},
+): Promise<CreditCapacity> {
+	try {
+		const policy = await resolveCreditPolicy(prisma, context);
+
+		const openLedgers = await prisma.transaction.findMany({
+			where: {
+				employeeId: context.employeeId,
+				type: { in: [...ORDER_LEDGER_TYPES] },
+				status: { in: [...OPEN_LEDGER_STATUSES] },
+				...(options.excludeOrderId && { orderId: { not: options.excludeOrderId } }),
+			},
+			select: { balance: true },
+		});
+		const outstandingBalance = roundMoney(
+			openLedgers.reduce((sum, ledger) => sum + ledger.balance, 0),
+		);
+
+		const activeOrders = await prisma.order.findMany({
+			where: {
+				employeeId: context.employeeId,
+				status: { notIn: [...CLOSED_ORDER_STATUSES] },
+				...(options.excludeOrderId && { id: { not: options.excludeOrderId } }),
+			},
+			select: {
+				id: true,
+				total: true,
+				paymentType: true,
+				installmentMonths: true,
+				tenders: true,
+				scheduleAnchor: true,
+				scheduleStartedAt: true,
+				payrollCalendarId: true,
+				financingMethod: true,
+				financingRate: true,
+			},
+		});
+
+		const upcoming =
+			activeOrders.length > 0
+				? await prisma.installment.findMany({
+						where: {
+							orderId: { in: activeOrders.map((o) => o.id) },
+							status: { in: [...UPCOMING_INSTALLMENT_STATUSES] },
+						},
+						select: { amount: true, cutOffDate: true },
+					})
+				: [];
+
+		const byCutoff = new Map<string, number>();
+		for (const installment of upcoming) {
+			const key = cutoffKey(installment.cutOffDate);
+			byCutoff.set(key, (byCutoff.get(key) || 0) + installment.amount);
+		}
+
+		// Orders still waiting for approval, stock or delivery to start their schedule are
+		// projected as if it started today, so they cannot be used to slip past the limit
+		const calendars = new Map<string, PayrollCalendarRules>();
+		for (const order of activeOrders) {
+			const financed = getFinancedAmount(order);
+			if (!order.scheduleAnchor || order.scheduleStartedAt) continue;
+			if (!financed || !order.installmentMonths) continue;
+
+			const calendarKey = order.payrollCalendarId || "default";
+			if (!calendars.has(calendarKey)) {
+				calendars.set(
+					calendarKey,
+					await getPayrollCalendar(prisma, order.payrollCalendarId),
+				);
+			}
+			const plan = planInstallments(
+				order.installmentMonths,
+				financed,
+				new Date(),
+				calendars.get(calendarKey),
+				getOrderFinancingTerms(order),
+			);
+			for (const planned of plan) {
+				const key = cutoffKey(planned.cutOffDate);
+				byCutoff.set(key, (byCutoff.get(key) || 0) + planned.amount);
+			}
+		}
+
+		const cutoffs = [...byCutoff.entries()]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([cutOffDate, amount]) => ({
+				cutOffDate,
+				amount: roundMoney(amount),
+				remaining:
+					policy.maxDeductionPerCutoff === null
+						? null
+						: roundMoney(Math.max(policy.maxDeductionPerCutoff - amount, 0)),
+			}));
+
+		return {
+			employeeId: context.employeeId,
+			policy,
+			outstandingBalance,
+			remainingBalance:
+				policy.maxOutstandingBalance === null
+					? null
+					: roundMoney(Math.max(policy.maxOutstandingBalance - outstandingBalance, 0)),
+			cutoffs,
+			peakCutoffDeduction: cutoffs.reduce((max, c) => Math.max(max, c.amount), 0),
+		};
+	} catch (error) {
+		creditLogger.error(`Failed to compute credit capacity for ${context.employeeId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Throw when a new order would push the employee over their outstanding balance limit,
+ * or push any payroll cutoff over the per-cutoff deduction limit. A separated employee has
+ * no credit at all.
+ */
+export async function assertCreditCapacity(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	context: CreditContext,
+	proposal: CreditProposal,
+): Promise<CreditCapacity> {
+	await assertNotSeparated(prisma, context.employeeId);
+
+	const capacity = await getCreditCapacity(prisma, context, {
+		excludeOrderId: proposal.replacesOrderId,
+	});
+	const { policy } = capacity;
+	const errors: { field: string; message: string }[] = [];
+
+	if (
+		policy.maxOutstandingBalance !== null &&
+		capacity.outstandingBalance + proposal.total > policy.maxOutstandingBalance
+	) {
+		errors.push({
+			field: "total",
+			message: `Order total ${proposal.total} exceeds the remaining credit of ${capacity.remainingBalance} (limit ${policy.maxOutstandingBalance}, outstanding ${capacity.outstandingBalance})`,
+		});
+	}
+
+	if (
+		policy.maxDeductionPerCutoff !== null &&
+		(proposal.paymentType === "INSTALLMENT" || proposal.paymentType === "MIXED") &&
+		proposal.installmentMonths
+	) {
+		const existing = new Map(capacity.cutoffs.map((c) => [c.cutOffDate, c.amount]));
+		const calendar =
+			proposal.payrollCalendarId !== undefined
+				? await getPayrollCalendar(prisma, proposal.payrollCalendarId)
+				: await resolveEmployeePayrollCalendar(prisma, context.employeeId);
+		const plan = planInstallments(
+			proposal.installmentMonths,
+			proposal.financedAmount ?? proposal.total,
+			proposal.startDate || new Date(),
+			calendar,
+			proposal.financing,
+		);
+
+		for (const planned of plan) {
+			const key = cutoffKey(planned.cutOffDate);
+			const projected = roundMoney((existing.get(key) || 0) + planned.amount);
+			if (projected > policy.maxDeductionPerCutoff) {
+				errors.push({
+					field: "installmentMonths",
+					message: `Deductions on the ${key} cutoff would reach ${projected}, above the per-cutoff limit of ${policy.maxDeductionPerCutoff}`,
+				});
+			}
+		}
+	}
+
+	if (errors.length > 0) {
+		creditLogger.warn(
+			`Credit limit exceeded for employee ${context.employeeId} under ${policy.name}: ${errors.length} violation(s)`,
+		);
+		throw new ServiceError("Order exceeds the employee's credit limit", 422, errors, {
+			creditCapacity: capacity,
+		});
+	}
+
+	return capacity;
+}
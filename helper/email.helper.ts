@@ -225,3 +225,154 @@ export const sendNextApprovalNotification = async (params: {
 		);
 	}
 };
+
+// Send backorder allocated notification to employee
+export const sendBackorderAllocatedEmail = async (params: {
+	to: string;
+	employeeName: string;
+	orderNumber: string;
+	productName: string;
+	quantity: number;
+	allocatedAt: Date;
+	orderComplete: boolean;
+	orderDetailsUrl?: string;
+}): Promise<void> => {
+	const templatePath = path.join(__dirname, "..", "views", "emails", "backorder-allocated.ejs");
+
+	try {
+		const template = fs.readFileSync(templatePath, "utf-8");
+		const html = ejs.render(template, {
+			employeeName: params.employeeName,
+			orderNumber: params.orderNumber,
+			productName: params.productName,
+			quantity: params.quantity,
+			allocatedAt: params.allocatedAt.toLocaleDateString(),
+			orderComplete: params.orderComplete,
+			orderDetailsUrl: params.orderDetailsUrl || "#",
+		});
+
+		await mailer.sendMail({
+			from: `"EPP System" <${GMAIL_USER}>`,
+			to: params.to,
+			subject: `Item Allocated: ${params.productName} for Order ${params.orderNumber}`,
+			html,
+		});
+
+		emailLogger.info(
+			`Backorder allocated email sent to ${params.to} for order ${params.orderNumber}`,
+		);
+	} catch (error: any) {
+		emailLogger.error(
+			`Failed to send backorder allocated email to ${params.to}: ${error.message}`,
+		);
+	}
+};
+
+// Tell the employee and HR that an order's payroll deductions keep failing
+export const sendDeductionFailureEmail = async (params: {
+	to: string;
+	audience: "EMPLOYEE" | "HR";
+	employeeName: string;
+	orderNumber: string;
+	consecutiveFailures: number;
+	unpaidAmount: number;
+	carriedAmount: number;
+	failureReason?: string;
+	orderDetailsUrl?: string;
+}): Promise<void> => {
+	const templatePath = path.join(__dirname, "..", "views", "emails", "deduction-failed.ejs");
+
+	try {
+		const template = fs.readFileSync(templatePath, "utf-8");
+		const html = ejs.render(template, {
+			audience: params.audience,
+			employeeName: params.employeeName,
+			orderNumber: params.orderNumber,
+			consecutiveFailures: params.consecutiveFailures,
+			unpaidAmount: params.unpaidAmount.toFixed(2),
+			carriedAmount: params.carriedAmount.toFixed(2),
+			failureReason: params.failureReason || "Not provided",
+			orderDetailsUrl: params.orderDetailsUrl || "#",
+		});
+
+		await mailer.sendMail({
+			from: `"EPP System" <${GMAIL_USER}>`,
+			to: params.to,
+			subject:
+				params.audience === "HR"
+					? `Payroll Deductions Failing: ${params.employeeName}, Order ${params.orderNumber}`
+					: `Payroll Deduction Failed for Order ${params.orderNumber}`,
+			html,
+		});
+
+		emailLogger.info(
+			`Deduction failure email sent to ${params.to} for order ${params.orderNumber}`,
+		);
+	} catch (error: any) {
+		emailLogger.error(
+			`Failed to send deduction failure email to ${params.to}: ${error.message}`,
+		);
+	}
+};
+
+// Ask the approver at the current level to review an installment restructure request
+export const sendRestructureApprovalRequestEmail = async (params: {
+	to: string;
+	approverName: string;
+	employeeName: string;
+	orderNumber: string;
+	restructureNumber: string;
+	balance: number;
+	currentInstallments: number;
+	proposedInstallments: number;
+	installmentAmount: number;
+	firstCutOffDate: Date;
+	lastCutOffDate: Date;
+	reason: string;
+	approvalLevel: number;
+	approverRole: string;
+	approvalUrl?: string;
+}): Promise<void> => {
+	const templatePath = path.join(
+		__dirname,
+		"..",
+		"views",
+		"emails",
+		"restructure-approval-request.ejs",
+	);
+
+	try {
+		const template = fs.readFileSync(templatePath, "utf-8");
+		const html = ejs.render(template, {
+			approverName: params.approverName,
+			employeeName: params.employeeName,
+			orderNumber: params.orderNumber,
+			restructureNumber: params.restructureNumber,
+			balance: params.balance.toFixed(2),
+			currentInstallments: params.currentInstallments,
+			proposedInstallments: params.proposedInstallments,
+			installmentAmount: params.installmentAmount.toFixed(2),
+			firstCutOffDate: params.firstCutOffDate.toLocaleDateString(),
+			lastCutOffDate: params.lastCutOffDate.toLocaleDateString(),
+			reason: params.reason,
+			approvalLevel: params.approvalLevel,
+			approverRole: params.approverRole,
+			approvalUrl: params.approvalUrl || "#",
+		});
+
+		await mailer.sendMail({
+			from: `"EPP System" <${GMAIL_USER}>`,
+			to: params.to,
+			subject: `Approval Required: Installment Restructure ${params.restructureNumber}`,
+			html,
+		});
+
+		emailLogger.info(
+			`Restructure approval request email sent to ${params.to} for ${params.restructureNumber}`,
+		);
+	} catch (error: any) {
+		emailLogger.error(
+			`Failed to send restructure approval request email to ${params.to}: ${error.message}`,
+		);
+	}
+};
@@ -0,0 +1,77 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+/**
+ * Employee attributes the service trusts: read from the Person record, never from a request
+ */
+export interface EmployeeProfile {
+	organizationId: string | null;
+	employeeGrade: string | null;
+}
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+/**
+ * Organization and grade of an employee from their Person record. Employees without them, or
+ * whose ID is not a Person ID, have neither and fall back to the defaults.
+ */
+export async function getEmployeeProfile(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeId: string,
+): Promise<EmployeeProfile> {
+	const person = OBJECT_ID_PATTERN.test(employeeId)
+		? await prisma.person.findUnique({
+				where: { id: employeeId },
+				select: { organizationId: true, employeeGrade: true },
+			})
+		: null;
+
+	return {
+		organizationId: person?.organizationId ?? null,
+		employeeGrade: person?.employeeGrade ?? null,
+	};
+}
+
+/**
+ * Full name of an employee from their Person record, for notifications. Falls back to
+ * "Employee" when there is no Person record or it has no name.
+ */
+export async function getEmployeeName(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeId: string,
+): Promise<string> {
+	const person = OBJECT_ID_PATTERN.test(employeeId)
+		? await prisma.person.findUnique({
+				where: { id: employeeId },
+				select: { personalInfo: true },
+			})
+		: null;
+	const info = person?.personalInfo;
+	return (info && [info.firstName, info.lastName].filter(Boolean).join(" ")) || "Employee";
+}
+
+/**
+ * getEmployeeProfile for several employees in one query, keyed by employee ID
+ */
+export async function getEmployeeProfiles(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeIds: string[],
+): Promise<Map<string, EmployeeProfile>> {
+	const people = await prisma.person.findMany({
+		where: { id: { in: employeeIds.filter((id) => OBJECT_ID_PATTERN.test(id)) } },
+		select: { id: true, organizationId: true, employeeGrade: true },
+	});
+	const personById = new Map(people.map((person) => [person.id, person]));
+
+	return new Map(
+		employeeIds.map((employeeId) => {
+			const person = personById.get(employeeId);
+			return [
+				employeeId,
+				{
+					organizationId: person?.organizationId ?? null,
+					employeeGrade: person?.employeeGrade ?? null,
+				},
+			];
+		}),
+	);
+}
@@ -10,6 +10,7 @@ export interface ErrorResponse {
 	message: string;
 	code: number;
 	errors?: ErrorDetail[];
+	data?: Record<string, any>;
 	timestamp: string;
 }
 
@@ -17,16 +18,41 @@ export function buildErrorResponse(
 	message: string,
 	code: number = 500,
 	errors?: ErrorDetail[],
+	data?: Record<string, any>,
 ): ErrorResponse {
 	return {
 		status: "error",
 		message,
 		code,
 		errors,
+		...(data && { data }),
 		timestamp: new Date().toISOString(),
 	};
 }
 
+/**
+ * Error thrown by helper services for business-rule failures that should reach the
+ * client as-is (e.g. insufficient stock) instead of a generic 500.
+ */
+export class ServiceError extends Error {
+	statusCode: number;
+	errors?: ErrorDetail[];
+	data?: Record<string, any>;
+
+	constructor(
+		message: string,
+		statusCode: number = 400,
+		errors?: ErrorDetail[],
+		data?: Record<string, any>,
+	) {
+		super(message);
+		this.name = "ServiceError";
+		this.statusCode = statusCode;
+		this.errors = errors;
+		this.data = data;
+	}
+}
+
 // Optional: Helper to convert Zod errors to ErrorDetail format
 export interface ErrorDetail {
 	field?: string;
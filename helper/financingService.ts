@@ -0,0 +1,228 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import {
+	countPayrollPeriods,
+	getPeriodsPerYear,
+	PayrollCalendarRules,
+} from "./payrollCalendarService";
+
+const logger = getLogger();
+const financingLogger = logger.child({ module: "financingService" });
+
+export type FinancingMethod = "FLAT" | "DIMINISHING";
+
+/**
+ * Financing terms an order is repaid under
+ */
+export interface FinancingTerms {
+	method: FinancingMethod;
+	annualRate: number;
+}
+
+export interface AmortizationLine {
+	principal: number;
+	interest: number;
+	amount: number;
+}
+
+/**
+ * Cost of credit for financing an amount over a term, as shown at checkout
+ */
+export interface FinancingQuote extends FinancingTerms {
+	financingTierId: string | null;
+	tierName: string | null;
+	installmentMonths: number;
+	installmentCount: number;
+	principal: number;
+	financeCharge: number;
+	totalRepayable: number;
+	installmentAmount: number;
+	schedule: AmortizationLine[];
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Split an amount into parts that add up to it exactly; the last part takes the rounding
+ */
+function splitAmount(amount: number, parts: number): number[] {
+	const share = roundMoney(amount / parts);
+	return Array.from({ length: parts }, (_, i) =>
+		i === parts - 1 ? roundMoney(amount - share * (parts - 1)) : share,
+	);
+}
+
+/**
+ * Split a financed amount into installments of principal and interest.
+ *
+ * FLAT charges the period rate on the original principal every period, so principal and interest
+ * are each spread evenly. DIMINISHING charges it on the principal still outstanding, with equal
+ * payments (an annuity), so early installments carry more interest. The principal parts always
+ * add up to the principal exactly; the last installment takes the rounding.
+ */
+export function amortize(
+	principal: number,
+	installmentCount: number,
+	terms: FinancingTerms,
+	periodsPerYear: number,
+): AmortizationLine[] {
+	const periodRate = terms.annualRate / periodsPerYear;
+
+	if (periodRate <= 0 || terms.method === "FLAT") {
+		const principals = splitAmount(principal, installmentCount);
+		const interests = splitAmount(
+			roundMoney(principal * Math.max(periodRate, 0) * installmentCount),
+			installmentCount,
+		);
+		return principals.map((share, i) => ({
+			principal: share,
+			interest: interests[i],
+			amount: roundMoney(share + interests[i]),
+		}));
+	}
+
+	const payment = roundMoney(
+		(principal * periodRate) / (1 - Math.pow(1 + periodRate, -installmentCount)),
+	);
+	const lines: AmortizationLine[] = [];
+	let outstanding = principal;
+
+	for (let i = 0; i < installmentCount; i++) {
+		const interest = roundMoney(outstanding * periodRate);
+		const share =
+			i === installmentCount - 1
+				? outstanding
+				: roundMoney(Math.min(payment - interest, outstanding));
+		outstanding = roundMoney(outstanding - share);
+		lines.push({ principal: share, interest, amount: roundMoney(share + interest) });
+	}
+	return lines;
+}
+
+/**
+ * Terms stored on an order at checkout, or null when it is interest-free
+ */
+export function getOrderFinancingTerms(order: {
+	financingMethod?: string | null;
+	financingRate?: number | null;
+}): FinancingTerms | null {
+	if (!order.financingMethod || !order.financingRate) {
+		return null;
+	}
+	return { method: order.financingMethod as FinancingMethod, annualRate: order.financingRate };
+}
+
+/**
+ * Total interest on an amount financed under the given terms
+ */
+export function calculateFinanceCharge(
+	principal: number,
+	installmentMonths: number,
+	terms: FinancingTerms | null,
+	calendar: PayrollCalendarRules,
+): number {
+	if (!terms) {
+		return 0;
+	}
+	const schedule = amortize(
+		principal,
+		countPayrollPeriods(calendar, installmentMonths),
+		terms,
+		getPeriodsPerYear(calendar),
+	);
+	return roundMoney(schedule.reduce((sum, line) => sum + line.interest, 0));
+}
+
+/**
+ * Active tier for a term. When every product is in one category, a tier for that category wins
+ * over a general one; among several matches the one with the highest minimum term is the most
+ * specific.
+ */
+export async function resolveFinancingTier(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	installmentMonths: number,
+	productIds: string[],
+) {
+	const tiers = await prisma.financingTier.findMany({
+		where: { isActive: true, minMonths: { lte: installmentMonths } },
+		orderBy: { minMonths: "desc" },
+	});
+	// maxMonths may be missing altogether on tiers without an upper bound
+	const matching = tiers.filter((t) => t.maxMonths == null || t.maxMonths >= installmentMonths);
+	if (matching.length === 0) {
+		return null;
+	}
+
+	const products =
+		productIds.length > 0
+			? await prisma.product.findMany({
+					where: { id: { in: productIds } },
+					select: { categoryId: true },
+				})
+			: [];
+	const categoryIds = [...new Set(products.map((p) => p.categoryId))];
+
+	return (
+		(categoryIds.length === 1 && matching.find((t) => t.categoryId === categoryIds[0])) ||
+		matching.find((t) => !t.categoryId) ||
+		null
+	);
+}
+
+/**
+ * Work out the cost of credit for financing an amount over a term on a payroll calendar.
+ * Without a matching tier the amount is interest-free.
+ */
+export async function quoteFinancing(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	params: {
+		installmentMonths: number;
+		principal: number;
+		productIds: string[];
+		calendar: PayrollCalendarRules;
+	},
+): Promise<FinancingQuote> {
+	const { installmentMonths, principal, calendar } = params;
+	const tier = await resolveFinancingTier(prisma, installmentMonths, params.productIds);
+	const terms: FinancingTerms = {
+		method: (tier?.method as FinancingMethod) || "FLAT",
+		annualRate: tier?.annualRate || 0,
+	};
+
+	const installmentCount = countPayrollPeriods(calendar, installmentMonths);
+	const schedule = amortize(principal, installmentCount, terms, getPeriodsPerYear(calendar));
+	const financeCharge = roundMoney(schedule.reduce((sum, line) => sum + line.interest, 0));
+
+	financingLogger.info(
+		`Financing ${principal} over ${installmentMonths} months: ` +
+			(tier ? `${tier.name} (${terms.method} ${terms.annualRate})` : "interest-free") +
+			`, charge ${financeCharge}`,
+	);
+
+	return {
+		...terms,
+		financingTierId: tier?.id ?? null,
+		tierName: tier?.name ?? null,
+		installmentMonths,
+		installmentCount,
+		principal,
+		financeCharge,
+		totalRepayable: roundMoney(principal + financeCharge),
+		installmentAmount: schedule[0].amount,
+		schedule,
+	};
+}
+
+/**
+ * Order fields that fix a quote's terms for the life of the order
+ */
+export function financingOrderFields(quote: FinancingQuote | null) {
+	return {
+		financingTierId: quote?.financingTierId ?? null,
+		financingMethod: quote?.financingTierId ? quote.method : null,
+		financingRate: quote?.financingTierId ? quote.annualRate : null,
+		financeCharge: quote?.financingTierId ? quote.financeCharge : null,
+	};
+}
@@ -0,0 +1,184 @@
+import { PrismaClient } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { computeOrderTax } from "./taxService";
+import { evaluatePromotion } from "./promotionService";
+import { isOrderable, reviewCart } from "./cartPricingService";
+import { quoteFinancing } from "./financingService";
+import { planInstallments } from "./installmentService";
+import { currentScheduleAnchor } from "./installmentScheduleService";
+import { resolveEmployeePayrollCalendar, resolvePayrollCalendar } from "./payrollCalendarService";
+
+const logger = getLogger();
+const quoteLogger = logger.child({ module: "installmentQuoteService" });
+
+export interface QuoteLine {
+	productId: string;
+	quantity: number;
+}
+
+export interface InstallmentQuoteInput {
+	employeeId?: string | null; // Quote the employee's cart when items are not given
+	items?: QuoteLine[] | null;
+	installmentMonths: number[];
+	couponCode?: string | null;
+	pointsUsed?: number | null;
+	organizationId?: string | null; // Picks the payroll calendar when no employeeId is given
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Price a cart or a list of products the way checkout would and work out the installment
+ * schedule for each requested term, financing included. Nothing is written: stock, coupons,
+ * points and document numbers are left untouched, so terms can be compared freely.
+ *
+ * Dates assume the schedule starts today. Under a later schedule anchor (approval, stock or
+ * delivery) the real cutoffs move with it; amounts do not.
+ */
+export async function quoteInstallments(prisma: PrismaClient, input: InstallmentQuoteInput) {
+	const source = input.items?.length ? "ITEMS" : "CART";
+	let requested: Array<QuoteLine & { id: string; unitPriceSnapshot?: number | null }>;
+
+	if (source === "ITEMS") {
+		requested = input.items!.map((item, index) => ({ ...item, id: `items.${index}` }));
+	} else {
+		if (!input.employeeId) {
+			throw new ServiceError("Provide items or the employeeId whose cart to quote", 400, [
+				{ field: "items", message: "items or employeeId is required" },
+			]);
+		}
+		requested = await prisma.cartItem.findMany({ where: { employeeId: input.employeeId } });
+		if (requested.length === 0) {
+			throw new ServiceError("Cart is empty", 400, [
+				{ field: "cart", message: "Cannot quote an empty cart" },
+			]);
+		}
+	}
+
+	const review = await reviewCart(prisma, requested);
+
+	// Lines checkout would skip are reported, not quoted
+	const orderable = review.lines.filter(isOrderable);
+	const unavailable = review.lines.filter((line) => !isOrderable(line));
+	if (orderable.length === 0) {
+		throw new ServiceError(
+			"None of the items can be ordered",
+			422,
+			unavailable.map((line) => ({
+				field: source === "ITEMS" ? line.cartItemId : `cart.${line.cartItemId}`,
+				message: `${line.productName || line.productId} is ${line.availability.toLowerCase().replace(/_/g, " ")}`,
+			})),
+		);
+	}
+
+	const lines = orderable.map((line) => ({
+		productId: line.productId,
+		quantity: line.quantity,
+		unitPrice: line.currentUnitPrice,
+		discount: 0,
+		subtotal: line.currentUnitPrice * line.quantity,
+	}));
+
+	const promotion =
+		input.couponCode && input.employeeId
+			? await evaluatePromotion(prisma, {
+					code: input.couponCode,
+					employeeId: input.employeeId,
+					lines,
+				})
+			: null;
+	promotion?.lineDiscounts.forEach((lineDiscount, index) => {
+		lines[index].discount = lineDiscount;
+	});
+
+	const orderTax = await computeOrderTax(prisma, lines);
+	const pointsUsed = input.pointsUsed || 0;
+	const total = roundMoney(orderTax.total - pointsUsed);
+	if (total <= 0) {
+		throw new ServiceError("Nothing is left to pay in installments", 422, [
+			{ field: "pointsUsed", message: `Points cover the order total of ${orderTax.total}` },
+		]);
+	}
+
+	const calendar = input.employeeId
+		? await resolveEmployeePayrollCalendar(prisma, input.employeeId)
+		: await resolvePayrollCalendar(prisma, input.organizationId);
+	const productIds = lines.map((line) => line.productId);
+	const startDate = new Date();
+
+	const terms = [];
+	for (const installmentMonths of [...new Set(input.installmentMonths)].sort((a, b) => a - b)) {
+		const financing = await quoteFinancing(prisma, {
+			installmentMonths,
+			principal: total,
+			productIds,
+			calendar,
+		});
+		const schedule = planInstallments(
+			installmentMonths,
+			total,
+			startDate,
+			calendar,
+			financing.annualRate > 0 ? financing : null,
+		);
+		const first = schedule[0];
+		const last = schedule[schedule.length - 1];
+
+		terms.push({
+			installmentMonths,
+			installmentCount: schedule.length,
+			installmentAmount: first.amount,
+			lastInstallmentAmount: last.amount,
+			// What the last installment takes up or gives back so the amounts add up exactly
+			roundingAdjustment: roundMoney(last.amount - first.amount),
+			principal: total,
+			financeCharge: financing.financeCharge,
+			totalRepayable: financing.totalRepayable,
+			financing: financing.financingTierId
+				? {
+						financingTierId: financing.financingTierId,
+						tierName: financing.tierName,
+						method: financing.method,
+						annualRate: financing.annualRate,
+					}
+				: null,
+			firstCutOffDate: first.cutOffDate,
+			lastScheduledDate: last.scheduledDate,
+			schedule,
+		});
+	}
+
+	quoteLogger.info(
+		`Quoted ${source === "CART" ? `cart of ${input.employeeId}` : `${lines.length} item(s)`}: ` +
+			`total ${total} over ${terms.map((t) => t.installmentMonths).join("/")} months`,
+	);
+
+	return {
+		source,
+		subtotal: orderTax.subtotal,
+		discount: orderTax.discount,
+		tax: orderTax.tax,
+		pricesIncludeTax: orderTax.pricesIncludeTax,
+		pointsUsed,
+		total,
+		promotion: promotion
+			? {
+					code: promotion.code,
+					name: promotion.name,
+					discountAmount: promotion.discountAmount,
+				}
+			: null,
+		unavailableItems: unavailable.map((line) => ({
+			productId: line.productId,
+			productName: line.productName,
+			quantity: line.quantity,
+			availability: line.availability,
+		})),
+		payrollCalendar: calendar.name,
+		scheduleAnchor: currentScheduleAnchor(),
+		terms,
+	};
+}
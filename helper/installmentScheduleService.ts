@@ -0,0 +1,175 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { generateInstallments } from "./installmentService";
+
+const logger = getLogger();
+const scheduleLogger = logger.child({ module: "installmentScheduleService" });
+
+/**
+ * Installment statuses that can be rescheduled. SCHEDULED installments are locked in an
+ * exported payroll batch and are left to payroll.
+ */
+const RESCHEDULABLE_INSTALLMENT_STATUSES = ["PENDING"] as const;
+
+export type ScheduleAnchor = "ORDER_DATE" | "APPROVAL" | "DELIVERY";
+
+interface SchedulableOrder {
+	id: string;
+	orderNumber: string;
+	total: number;
+	paymentType: string;
+	installmentMonths: number | null;
+	tenders: unknown;
+	orderDate: Date;
+	approvedAt: Date | null;
+	deliveredDate: Date | null;
+	awaitingStock: boolean;
+	stockAllocatedAt: Date | null;
+	scheduleAnchor: string | null;
+	scheduleStartedAt: Date | null;
+}
+
+/**
+ * Anchor for orders placed now
+ */
+export function currentScheduleAnchor(): ScheduleAnchor {
+	return config.INSTALLMENTS.SCHEDULE_ANCHOR;
+}
+
+/**
+ * Part of the order paid through payroll deductions: the total for INSTALLMENT orders,
+ * the INSTALLMENT tender of a MIXED payment, nothing otherwise
+ */
+export function getFinancedAmount(order: {
+	total: number;
+	paymentType: string;
+	tenders: unknown;
+}): number {
+	if (order.paymentType === "INSTALLMENT") {
+		return order.total;
+	}
+	if (order.paymentType === "MIXED") {
+		const tenders = (order.tenders || []) as Array<{ type: string; amount: number }>;
+		return tenders.find((t) => t.type === "INSTALLMENT")?.amount || 0;
+	}
+	return 0;
+}
+
+/**
+ * Date the schedule starts from, or null while the anchor event has not happened.
+ * Backordered goods push the start to when they were allocated.
+ */
+function scheduleStartDate(order: SchedulableOrder): Date | null {
+	const anchorDate =
+		order.scheduleAnchor === "APPROVAL"
+			? order.approvedAt
+			: order.scheduleAnchor === "DELIVERY"
+				? order.deliveredDate
+				: order.orderDate;
+
+	if (!anchorDate || order.awaitingStock) {
+		return null;
+	}
+	if (order.stockAllocatedAt && order.stockAllocatedAt > anchorDate) {
+		return order.stockAllocatedAt;
+	}
+	return anchorDate;
+}
+
+/**
+ * Generate the installment schedule of an order once its anchor event has happened, re-basing
+ * any schedule it already has on that date. Call it whenever an anchor event fires (checkout,
+ * approval, stock allocation, delivery); it does nothing when the schedule has already started,
+ * the event has not happened yet or the order is not paid by installments.
+ * Must run inside the transaction that records the event.
+ */
+export async function startInstallmentScheduleIfDue(
+	tx: PrismaClient | Prisma.TransactionClient,
+	orderId: string,
+) {
+	const order: SchedulableOrder | null = await tx.order.findUnique({ where: { id: orderId } });
+
+	// Orders placed before the anchor was stored were scheduled at checkout
+	if (!order || !order.scheduleAnchor || order.scheduleStartedAt) {
+		return null;
+	}
+
+	const financed = getFinancedAmount(order);
+	const startDate = scheduleStartDate(order);
+	if (!financed || !order.installmentMonths || !startDate) {
+		return null;
+	}
+
+	const existing = await tx.installment.findMany({ where: { orderId } });
+	const collected = existing.filter(
+		(i) => !(RESCHEDULABLE_INSTALLMENT_STATUSES as readonly string[]).includes(i.status),
+	);
+	if (collected.length > 0) {
+		scheduleLogger.warn(
+			`Order ${order.orderNumber} has ${collected.length} processed installment(s); schedule left as is`,
+		);
+		return null;
+	}
+	if (existing.length > 0) {
+		await tx.installment.deleteMany({ where: { orderId } });
+	}
+
+	const installments = await generateInstallments(
+		tx,
+		orderId,
+		order.installmentMonths,
+		financed,
+		startDate,
+	);
+	await tx.order.update({
+		where: { id: orderId },
+		data: {
+			installmentCount: installments.length,
+			installmentAmount: installments[0]?.amount || 0,
+			scheduleStartedAt: startDate,
+		},
+	});
+
+	scheduleLogger.info(
+		`Order ${order.orderNumber} schedule ${existing.length > 0 ? "re-based" : "started"} ` +
+			`from ${order.scheduleAnchor} (${startDate.toISOString().split("T")[0]})`,
+	);
+	return installments;
+}
+
+/**
+ * Clear a schedule that no longer matches the order (e.g. after an amendment) so the next
+ * anchor event, or an immediate call to startInstallmentScheduleIfDue, builds it again.
+ * Orders without a stored anchor were scheduled from their order date and keep that anchor.
+ * Throws 409 while any installment sits in a payroll batch.
+ */
+export async function resetInstallmentSchedule(
+	tx: Prisma.TransactionClient,
+	order: { id: string; orderNumber: string; scheduleAnchor: ScheduleAnchor | null },
+) {
+	const scheduled = await tx.installment.count({
+		where: { orderId: order.id, status: "SCHEDULED" },
+	});
+	if (scheduled > 0) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} has ${scheduled} installment(s) in a payroll batch; ` +
+				"its schedule cannot be rebuilt until the batch results are imported",
+			409,
+		);
+	}
+
+	await tx.installment.deleteMany({
+		where: { orderId: order.id, status: { in: [...RESCHEDULABLE_INSTALLMENT_STATUSES] } },
+	});
+	await tx.order.update({
+		where: { id: order.id },
+		data: {
+			installmentCount: null,
+			installmentAmount: null,
+			scheduleAnchor: order.scheduleAnchor ?? "ORDER_DATE",
+			scheduleStartedAt: null,
+		},
+	});
+}
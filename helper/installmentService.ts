@@ -1,135 +1,154 @@
-import { PrismaClient } from "../generated/prisma";
+import { PrismaClient, Prisma } from "../generated/prisma";
 import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
 import { recordInstallmentPayment } from "./transactionService";
+import {
+	carryForwardArrears,
+	recordFailedDeduction,
+	resetFailedDeductions,
+} from "./arrearsService";
+import {
+	calculatePayrollDates,
+	countPayrollPeriods,
+	defaultPayrollCalendar,
+	getPayrollCalendar,
+	getPeriodsPerYear,
+	PayrollCalendarRules,
+} from "./payrollCalendarService";
+import { amortize, FinancingTerms, getOrderFinancingTerms } from "./financingService";
 
 const logger = getLogger();
 const installmentLogger = logger.child({ module: "installmentService" });
 
 /**
- * Configuration for payroll cutoff dates
- * Bi-monthly payroll: 15th and end of month
+ * Installment statuses payroll can still post a deduction result against
  */
-const PAYROLL_CUTOFFS = {
-	FIRST: 15,  // First cutoff: 15th of the month
-	SECOND: "END_OF_MONTH",  // Second cutoff: last day of the month
-};
+const POSTABLE_INSTALLMENT_STATUSES = ["PENDING", "SCHEDULED", "FAILED"] as const;
+
+export interface PlannedInstallment {
+	installmentNumber: number;
+	amount: number;
+	cutOffDate: Date;
+	scheduledDate: Date;
+	// Split of amount on financed orders
+	principalAmount?: number;
+	interestAmount?: number;
+}
 
 /**
- * Calculate the cutoff dates for bi-monthly payroll
- * Returns array of dates representing each cutoff period
+ * Work out the installment schedule for an amount without persisting it
+ * @param installmentMonths - Number of months for installment plan
+ * @param totalAmount - Total amount to be paid
+ * @param startDate - Start date for installment calculation (defaults to now)
+ * @param calendar - Payroll calendar the deductions follow (defaults to the configured one)
+ * @param financing - Terms totalAmount is financed under; each installment then carries its
+ * principal and interest, and totalAmount is the principal only
  */
-export function calculateCutoffDates(startDate: Date, installmentCount: number): Date[] {
-	const cutoffDates: Date[] = [];
-	let currentDate = new Date(startDate);
+export function planInstallments(
+	installmentMonths: number,
+	totalAmount: number,
+	startDate: Date = new Date(),
+	calendar: PayrollCalendarRules = defaultPayrollCalendar(),
+	financing: FinancingTerms | null = null
+): PlannedInstallment[] {
+	// One installment per payroll period in the plan
+	const installmentCount = countPayrollPeriods(calendar, installmentMonths);
 	
-	// Start from the next available cutoff
-	const day = currentDate.getDate();
+	// Calculate cutoff and pay dates
+	const payrollDates = calculatePayrollDates(calendar, startDate, installmentCount);
 	
-	for (let i = 0; i < installmentCount; i++) {
-		let cutoffDate: Date;
-		
-		// Determine if this should be 15th or end of month
-		if (i % 2 === 0) {
-			// First cutoff of the month (15th)
-			if (day <= PAYROLL_CUTOFFS.FIRST) {
-				// If before or on 15th of current month, use this month's 15th
-				cutoffDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), PAYROLL_CUTOFFS.FIRST);
-			} else {
-				// If after 15th, move to next month's 15th
-				cutoffDate = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, PAYROLL_CUTOFFS.FIRST);
-			}
-		} else {
-			// Second cutoff of the month (end of month)
-			const month = currentDate.getMonth();
-			const year = currentDate.getFullYear();
-			// Get last day of current month
-			cutoffDate = new Date(year, month + 1, 0); // Day 0 of next month = last day of current month
-		}
-		
-		cutoffDates.push(cutoffDate);
-		
-		// Move to the next cutoff period
-		if (i % 2 === 0) {
-			// After 15th, stay in same month for end-of-month
-			currentDate = new Date(cutoffDate);
-		} else {
-			// After end of month, move to next month's 15th
-			currentDate = new Date(cutoffDate.getFullYear(), cutoffDate.getMonth() + 1, 1);
-		}
+	if (financing) {
+		const schedule = amortize(
+			totalAmount,
+			installmentCount,
+			financing,
+			getPeriodsPerYear(calendar)
+		);
+		return payrollDates.map(({ cutOffDate, payDate }, i) => ({
+			installmentNumber: i + 1,
+			amount: schedule[i].amount,
+			cutOffDate,
+			scheduledDate: payDate,
+			principalAmount: schedule[i].principal,
+			interestAmount: schedule[i].interest,
+		}));
 	}
 	
-	return cutoffDates;
-}
-
-/**
- * Calculate scheduled payment date (typically 3-5 days after cutoff)
- */
-export function calculateScheduledDate(cutoffDate: Date, daysAfter: number = 5): Date {
-	const scheduledDate = new Date(cutoffDate);
-	scheduledDate.setDate(scheduledDate.getDate() + daysAfter);
-	return scheduledDate;
+	// Calculate amount per installment
+	const installmentAmount = parseFloat((totalAmount / installmentCount).toFixed(2));
+	
+	// Adjust last installment to account for rounding
+	const lastInstallmentAmount = parseFloat(
+		(totalAmount - (installmentAmount * (installmentCount - 1))).toFixed(2)
+	);
+	
+	return payrollDates.map(({ cutOffDate, payDate }, i) => ({
+		installmentNumber: i + 1,
+		amount: i === installmentCount - 1 ? lastInstallmentAmount : installmentAmount,
+		cutOffDate,
+		scheduledDate: payDate,
+	}));
 }
 
 /**
- * Generate installment records for an order
- * @param prisma - PrismaClient instance
+ * Generate installment records for an order, following the payroll calendar stored on it.
+ * Financed orders split each installment into principal and interest under their stored terms.
+ * @param prisma - PrismaClient or interactive transaction client
  * @param orderId - The order ID
  * @param installmentMonths - Number of months for installment plan
- * @param totalAmount - Total amount to be paid
+ * @param totalAmount - Principal to be paid; interest is added on financed orders
  * @param startDate - Start date for installment calculation (defaults to now)
  */
 export async function generateInstallments(
-	prisma: PrismaClient,
+	prisma: PrismaClient | Prisma.TransactionClient,
 	orderId: string,
 	installmentMonths: number,
 	totalAmount: number,
 	startDate: Date = new Date()
 ) {
 	try {
-		// Calculate installment count (2 per month for bi-monthly payroll)
-		const installmentCount = installmentMonths * 2;
-		
-		// Calculate amount per installment
-		const installmentAmount = parseFloat((totalAmount / installmentCount).toFixed(2));
-		
-		// Adjust last installment to account for rounding
-		const lastInstallmentAmount = parseFloat(
-			(totalAmount - (installmentAmount * (installmentCount - 1))).toFixed(2)
+		const order = await prisma.order.findUnique({
+			where: { id: orderId },
+			select: { payrollCalendarId: true, financingMethod: true, financingRate: true },
+		});
+		const calendar = await getPayrollCalendar(prisma, order?.payrollCalendarId);
+		const plan = planInstallments(
+			installmentMonths,
+			totalAmount,
+			startDate,
+			calendar,
+			order ? getOrderFinancingTerms(order) : null
 		);
+		const installmentCount = plan.length;
 		
 		installmentLogger.info(
 			`Generating ${installmentCount} installments for order ${orderId}: ` +
-			`${installmentMonths} months × 2 cutoffs = ${installmentCount} installments`
+			`${installmentMonths} months on the ${calendar.name} calendar`
 		);
 		
-		// Calculate cutoff dates
-		const cutoffDates = calculateCutoffDates(startDate, installmentCount);
-		
 		// Create installment records
 		const installments = [];
-		for (let i = 0; i < installmentCount; i++) {
-			const cutoffDate = cutoffDates[i];
-			const scheduledDate = calculateScheduledDate(cutoffDate);
-			const amount = i === installmentCount - 1 ? lastInstallmentAmount : installmentAmount;
-			
+		for (const planned of plan) {
 			const installment = await prisma.installment.create({
 				data: {
 					orderId,
-					installmentNumber: i + 1,
-					amount,
+					installmentNumber: planned.installmentNumber,
+					amount: planned.amount,
 					status: "PENDING",
-					cutOffDate: cutoffDate,
-					scheduledDate: scheduledDate,
-					notes: `Installment ${i + 1} of ${installmentCount} for ${installmentMonths}-month plan`,
+					cutOffDate: planned.cutOffDate,
+					scheduledDate: planned.scheduledDate,
+					principalAmount: planned.principalAmount,
+					interestAmount: planned.interestAmount,
+					notes: `Installment ${planned.installmentNumber} of ${installmentCount} for ${installmentMonths}-month plan`,
 				},
 			});
 			
 			installments.push(installment);
 			
 			installmentLogger.info(
-				`Created installment ${i + 1}/${installmentCount}: ` +
-				`Amount=${amount}, CutOff=${cutoffDate.toISOString().split('T')[0]}, ` +
-				`Scheduled=${scheduledDate.toISOString().split('T')[0]}`
+				`Created installment ${planned.installmentNumber}/${installmentCount}: ` +
+				`Amount=${planned.amount}, CutOff=${planned.cutOffDate.toISOString().split('T')[0]}, ` +
+				`Scheduled=${planned.scheduledDate.toISOString().split('T')[0]}`
 			);
 		}
 		
@@ -144,6 +163,65 @@ export async function generateInstallments(
 	}
 }
 
+/**
+ * Move an installment to a payroll result, guarded on its current status so a repeated or
+ * concurrent post cannot record the same deduction twice. An installment whose arrears were
+ * carried forward is owed through later installments and cannot be posted again.
+ * Returns the installment as it was.
+ */
+async function claimInstallment(
+	prisma: PrismaClient,
+	installmentId: string,
+	allowedStatuses: readonly string[],
+	buildData: (installment: any) => Prisma.InstallmentUpdateManyMutationInput
+) {
+	const installment = await prisma.installment.findUnique({
+		where: { id: installmentId },
+	});
+
+	if (!installment) {
+		throw new ServiceError(`Installment ${installmentId} not found`, 404);
+	}
+
+	const claimed = await prisma.installment.updateMany({
+		where: {
+			id: installmentId,
+			status: { in: [...allowedStatuses] as any },
+			OR: [
+				{ carriedForwardAmount: null },
+				{ carriedForwardAmount: { isSet: false } },
+			],
+		},
+		data: buildData(installment),
+	});
+
+	if (claimed.count === 0) {
+		throw new ServiceError(
+			installment.carriedForwardAmount != null
+				? `Installment ${installmentId} was carried forward and cannot be posted`
+				: `Installment ${installmentId} is ${installment.status} and cannot be posted`,
+			409
+		);
+	}
+
+	return installment;
+}
+
+/**
+ * Carry the unpaid part of a FAILED or PARTIAL installment forward. A failure here leaves the
+ * installment as posted; the policy can be applied again from the carry-forward endpoint.
+ */
+async function applyArrearsPolicy(prisma: PrismaClient, installmentId: string) {
+	try {
+		await carryForwardArrears(prisma, installmentId);
+	} catch (arrearsError) {
+		installmentLogger.error(
+			`Failed to carry forward arrears of installment ${installmentId}:`,
+			arrearsError
+		);
+	}
+}
+
 /**
  * Update installment status when payment is deducted
  */
@@ -154,25 +232,19 @@ export async function markInstallmentAsDeducted(
 	deductionReference?: string
 ) {
 	try {
-		// Get the installment details
-		const installment = await prisma.installment.findUnique({
-			where: { id: installmentId },
-		});
-
-		if (!installment) {
-			throw new Error(`Installment ${installmentId} not found`);
-		}
-
-		// Update installment status
-		const updatedInstallment = await prisma.installment.update({
-			where: { id: installmentId },
-			data: {
+		const installment = await claimInstallment(
+			prisma,
+			installmentId,
+			POSTABLE_INSTALLMENT_STATUSES,
+			(current) => ({
 				status: "DEDUCTED",
 				deductedDate: new Date(),
+				deductedAmount: current.amount,
 				payrollBatchId,
 				deductionReference,
-			},
-		});
+				failureReason: null,
+			})
+		);
 		
 		installmentLogger.info(
 			`Installment ${installmentId} marked as DEDUCTED ` +
@@ -192,6 +264,7 @@ export async function markInstallmentAsDeducted(
 					payrollDate: new Date(),
 					processedBy: "SYSTEM",
 					notes: `Installment ${installment.installmentNumber} deducted`,
+					interestAmount: installment.interestAmount || 0,
 				}
 			);
 			installmentLogger.info(
@@ -204,14 +277,136 @@ export async function markInstallmentAsDeducted(
 			);
 			// Don't fail the entire operation if transaction update fails
 		}
+
+		try {
+			await resetFailedDeductions(prisma, installment.orderId);
+		} catch (streakError) {
+			installmentLogger.error(
+				`Failed to reset failed deductions for order ${installment.orderId}:`,
+				streakError
+			);
+		}
 		
-		return updatedInstallment;
+		return prisma.installment.findUnique({ where: { id: installmentId } });
 	} catch (error) {
 		installmentLogger.error(`Failed to mark installment ${installmentId} as deducted:`, error);
 		throw error;
 	}
 }
 
+/**
+ * Record a deduction that covered only part of an installment. The deducted part goes to the
+ * ledger; the installment stays PARTIAL and the rest is carried forward under the arrears policy.
+ */
+export async function markInstallmentAsPartiallyDeducted(
+	prisma: PrismaClient,
+	installmentId: string,
+	deductedAmount: number,
+	payrollBatchId?: string,
+	deductionReference?: string,
+	failureReason?: string
+) {
+	try {
+		const installment = await claimInstallment(
+			prisma,
+			installmentId,
+			POSTABLE_INSTALLMENT_STATUSES,
+			() => ({
+				status: "PARTIAL",
+				deductedDate: new Date(),
+				deductedAmount,
+				payrollBatchId,
+				deductionReference,
+				failureReason: failureReason || null,
+			})
+		);
+
+		installmentLogger.info(
+			`Installment ${installmentId} marked as PARTIAL: ${deductedAmount} of ${installment.amount} ` +
+			`(batch: ${payrollBatchId}, ref: ${deductionReference})`
+		);
+
+		try {
+			await recordInstallmentPayment(
+				prisma,
+				installment.orderId,
+				installmentId,
+				deductedAmount,
+				{
+					payrollBatchId,
+					payrollReference: deductionReference,
+					payrollDate: new Date(),
+					processedBy: "SYSTEM",
+					notes: `Installment ${installment.installmentNumber} partially deducted`,
+					// Interest is paid before principal
+					interestAmount: Math.min(installment.interestAmount || 0, deductedAmount),
+				}
+			);
+		} catch (transactionError) {
+			installmentLogger.error(
+				`Failed to record partial payment in transaction ledger:`,
+				transactionError
+			);
+			// Don't fail the entire operation if transaction update fails
+		}
+
+		await applyArrearsPolicy(prisma, installmentId);
+
+		return prisma.installment.findUnique({ where: { id: installmentId } });
+	} catch (error) {
+		installmentLogger.error(
+			`Failed to mark installment ${installmentId} as partially deducted:`,
+			error
+		);
+		throw error;
+	}
+}
+
+/**
+ * Record that payroll could not deduct an installment. Nothing is paid; the amount is carried
+ * forward under the arrears policy and the failure counts towards the order's streak.
+ */
+export async function markInstallmentAsFailed(
+	prisma: PrismaClient,
+	installmentId: string,
+	payrollBatchId?: string,
+	failureReason?: string
+) {
+	try {
+		const installment = await claimInstallment(
+			prisma,
+			installmentId,
+			["PENDING", "SCHEDULED"],
+			() => ({
+				status: "FAILED",
+				payrollBatchId,
+				failureReason: failureReason || null,
+			})
+		);
+
+		installmentLogger.info(
+			`Installment ${installmentId} marked as FAILED ` +
+			`(batch: ${payrollBatchId}, reason: ${failureReason})`
+		);
+
+		await applyArrearsPolicy(prisma, installmentId);
+
+		try {
+			await recordFailedDeduction(prisma, installment.orderId, failureReason);
+		} catch (streakError) {
+			installmentLogger.error(
+				`Failed to record failed deduction for order ${installment.orderId}:`,
+				streakError
+			);
+		}
+
+		return prisma.installment.findUnique({ where: { id: installmentId } });
+	} catch (error) {
+		installmentLogger.error(`Failed to mark installment ${installmentId} as failed:`, error);
+		throw error;
+	}
+}
+
 /**
  * Get pending installments for payroll processing
  * Returns installments that are due (cutoff date has passed but not yet deducted)
@@ -263,19 +458,40 @@ export async function getOrderInstallmentSummary(prisma: PrismaClient, orderId:
 			where: { orderId },
 			orderBy: { installmentNumber: "asc" },
 		});
+		const order = await prisma.order.findUnique({
+			where: { id: orderId },
+			select: { consecutiveFailedDeductions: true },
+		});
 		
 		const summary = {
 			totalInstallments: installments.length,
-			paidCount: installments.filter(i => i.status === "DEDUCTED").length,
+			paidCount: installments.filter(i => i.status === "DEDUCTED" || i.status === "PREPAID").length,
+			prepaidCount: installments.filter(i => i.status === "PREPAID").length,
 			pendingCount: installments.filter(i => i.status === "PENDING").length,
+			scheduledCount: installments.filter(i => i.status === "SCHEDULED").length,
+			partialCount: installments.filter(i => i.status === "PARTIAL").length,
 			failedCount: installments.filter(i => i.status === "FAILED").length,
-			totalAmount: installments.reduce((sum, i) => sum + i.amount, 0),
+			// Carried-forward amounts are counted once, on the installments they moved to, and
+			// cancelled installments (e.g. replaced after a prepayment) not at all
+			totalAmount: installments
+				.filter(i => i.status !== "CANCELLED")
+				.reduce((sum, i) => sum + i.amount - (i.carriedForwardAmount ?? 0), 0),
+			// PARTIAL installments count their deducted part as paid and the rest as remaining
 			paidAmount: installments
-				.filter(i => i.status === "DEDUCTED")
-				.reduce((sum, i) => sum + i.amount, 0),
+				.filter(i => ["DEDUCTED", "PREPAID", "PARTIAL"].includes(i.status))
+				.reduce((sum, i) => sum + (i.deductedAmount ?? i.amount), 0),
 			remainingAmount: installments
-				.filter(i => i.status === "PENDING" || i.status === "FAILED")
-				.reduce((sum, i) => sum + i.amount, 0),
+				.filter(i => ["PENDING", "SCHEDULED", "PARTIAL", "FAILED"].includes(i.status))
+				.reduce(
+					(sum, i) => sum + i.amount - (i.deductedAmount ?? 0) - (i.carriedForwardAmount ?? 0),
+					0
+				),
+			carriedForwardAmount: installments.reduce(
+				(sum, i) => sum + (i.carriedForwardAmount ?? 0),
+				0
+			),
+			lateFeeAmount: installments.reduce((sum, i) => sum + (i.lateFeeAmount ?? 0), 0),
+			consecutiveFailedDeductions: order?.consecutiveFailedDeductions ?? 0,
 			installments,
 		};
 		
@@ -0,0 +1,88 @@
+import { Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+
+const logger = getLogger();
+const inventoryLogger = logger.child({ module: "inventoryService" });
+
+export interface StockLine {
+	productId: string;
+	quantity: number;
+}
+
+/**
+ * Merge lines for the same product so each product is decremented once
+ */
+function aggregateLines(items: StockLine[]): StockLine[] {
+	const quantities = new Map<string, number>();
+	for (const item of items) {
+		quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+	}
+	return [...quantities.entries()].map(([productId, quantity]) => ({ productId, quantity }));
+}
+
+/**
+ * Reserve and decrement stock for every line.
+ * Each decrement is conditional on enough stock being left, so concurrent checkouts
+ * cannot oversell. Must run inside a transaction: when any line is short a ServiceError
+ * is thrown and the decrements already applied are rolled back with it.
+ */
+export async function reserveStock(tx: Prisma.TransactionClient, items: StockLine[]) {
+	const shortages: Array<{ productId: string; requested: number; available: number }> = [];
+
+	for (const { productId, quantity } of aggregateLines(items)) {
+		const result = await tx.product.updateMany({
+			where: {
+				id: productId,
+				stockQuantity: { gte: quantity },
+			},
+			data: {
+				stockQuantity: { decrement: quantity },
+			},
+		});
+
+		if (result.count === 0) {
+			const product = await tx.product.findUnique({
+				where: { id: productId },
+				select: { stockQuantity: true },
+			});
+			shortages.push({
+				productId,
+				requested: quantity,
+				available: product?.stockQuantity ?? 0,
+			});
+		}
+	}
+
+	if (shortages.length > 0) {
+		inventoryLogger.warn(`Insufficient stock for ${shortages.length} product(s)`, shortages);
+		throw new ServiceError(
+			"Insufficient stock for one or more items",
+			409,
+			shortages.map((s) => ({
+				field: `product.${s.productId}`,
+				message: `Requested ${s.requested}, only ${s.available} in stock`,
+			})),
+		);
+	}
+
+	inventoryLogger.info(`Reserved stock for ${items.length} line(s)`);
+}
+
+/**
+ * Return stock to inventory (cancellations, returns)
+ */
+export async function releaseStock(tx: Prisma.TransactionClient, items: StockLine[]) {
+	for (const { productId, quantity } of aggregateLines(items)) {
+		if (quantity <= 0) continue;
+
+		await tx.product.updateMany({
+			where: { id: productId },
+			data: {
+				stockQuantity: { increment: quantity },
+			},
+		});
+	}
+
+	inventoryLogger.info(`Released stock for ${items.length} line(s)`);
+}
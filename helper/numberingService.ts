@@ -0,0 +1,99 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { config } from "../config/constant";
+
+const logger = getLogger();
+const numberingLogger = logger.child({ module: "numberingService" });
+
+export type DocumentType = keyof typeof config.NUMBERING;
+export type NumberingReset = "YEARLY" | "MONTHLY" | "NEVER";
+
+interface NumberingFormat {
+	PREFIX: string;
+	RESET: string;
+	PAD: number;
+}
+
+const MAX_UPSERT_ATTEMPTS = 3;
+
+/**
+ * Counter period for a date, e.g. "2026", "2026-10" or "ALL"
+ */
+export function getNumberingPeriod(reset: NumberingReset, at: Date): string {
+	const year = at.getFullYear().toString();
+	const month = (at.getMonth() + 1).toString().padStart(2, "0");
+
+	switch (reset) {
+		case "YEARLY":
+			return year;
+		case "MONTHLY":
+			return `${year}-${month}`;
+		default:
+			return "ALL";
+	}
+}
+
+/**
+ * Build a document number such as EPP-2026-000123 or TXN-2026-10-000045
+ */
+export function formatDocumentNumber(
+	format: NumberingFormat,
+	period: string,
+	sequence: number,
+): string {
+	const parts = [format.PREFIX];
+	if (period !== "ALL") {
+		parts.push(period);
+	}
+	parts.push(sequence.toString().padStart(format.PAD, "0"));
+	return parts.join("-");
+}
+
+/**
+ * Atomically increment the counter for a key and return the new value.
+ * Concurrent first use of a key can race on the unique index; the loser retries
+ * and increments the counter the winner created.
+ */
+async function incrementCounter(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	key: string,
+): Promise<number> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			const counter = await prisma.counter.upsert({
+				where: { key },
+				create: { key, value: 1 },
+				update: { value: { increment: 1 } },
+			});
+			return counter.value;
+		} catch (error: any) {
+			if (error?.code === "P2002" && attempt < MAX_UPSERT_ATTEMPTS) {
+				continue;
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Issue the next number for a document type.
+ * Numbers are unique but not gapless: a number issued to a unit of work that later
+ * rolls back is not reused. Prefer calling this outside interactive transactions so
+ * concurrent checkouts do not conflict on the shared counter document.
+ */
+export async function nextDocumentNumber(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	type: DocumentType,
+	at: Date = new Date(),
+): Promise<string> {
+	try {
+		const format = config.NUMBERING[type] as NumberingFormat;
+		const period = getNumberingPeriod(format.RESET as NumberingReset, at);
+		const sequence = await incrementCounter(prisma, `${type}:${period}`);
+
+		return formatDocumentNumber(format, period, sequence);
+	} catch (error) {
+		numberingLogger.error(`Failed to issue ${type} number:`, error);
+		throw error;
+	}
+}
@@ -0,0 +1,370 @@
+import { PrismaClient } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { computeOrderTax } from "./taxService";
+import { reserveStock, releaseStock } from "./inventoryService";
+import { findOrderLedgers } from "./transactionService";
+import {
+	resetInstallmentSchedule,
+	startInstallmentScheduleIfDue,
+} from "./installmentScheduleService";
+import { assertCreditCapacity } from "./creditService";
+import { repriceOrderPromotion } from "./promotionService";
+import { notifyFirstApprover, restartApprovalChainIfWorkflowChanged } from "./approvalService";
+import { calculateFinanceCharge, getOrderFinancingTerms } from "./financingService";
+import { getPayrollCalendar } from "./payrollCalendarService";
+import { getEmployeeName } from "./employeeService";
+
+const logger = getLogger();
+const amendmentLogger = logger.child({ module: "orderAmendmentService" });
+
+/**
+ * Installment statuses that can be rescheduled. SCHEDULED installments are locked in an
+ * exported payroll batch, so an order with any of them cannot be amended.
+ */
+const RESCHEDULABLE_INSTALLMENT_STATUSES = ["PENDING"] as const;
+
+export interface OrderLineAmendment {
+	productId: string;
+	quantity: number; // 0 drops the line
+}
+
+export interface AmendedLine {
+	productId: string;
+	previousQuantity: number;
+	quantity: number;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Change item quantities on an order that is still waiting for approval.
+ * Lines keep the unit price they were ordered at. Subtotal, tax, total, the coupon discount,
+ * the ledger and the installment schedule are recomputed and stock is reserved or released
+ * for the difference, all in one unit of work. If the new total falls under a different
+ * approval workflow the approval chain is started over.
+ */
+export async function amendOrder(
+	prisma: PrismaClient,
+	orderId: string,
+	amendments: OrderLineAmendment[],
+	options: {
+		changedBy: string;
+		reason?: string;
+	},
+) {
+	try {
+		const order = await prisma.order.findUnique({
+			where: { id: orderId },
+			include: { items: { orderBy: { createdAt: "asc" } } },
+		});
+
+		if (!order) {
+			throw new ServiceError("Order not found", 404);
+		}
+
+		if (order.status !== "PENDING_APPROVAL") {
+			throw new ServiceError(
+				`Order ${order.orderNumber} is ${order.status}; only orders pending approval can be amended`,
+				409,
+				[{ field: "status", message: "Cancel the order and place a new one instead" }],
+			);
+		}
+
+		// Each tender of a MIXED payment has its own ledger; re-splitting is left to a new order
+		if (order.paymentType === "MIXED") {
+			throw new ServiceError(
+				`Order ${order.orderNumber} was paid with a MIXED payment and cannot be amended`,
+				409,
+				[{ field: "paymentType", message: "Cancel the order and place a new one instead" }],
+			);
+		}
+
+		// Queued lines hold a place in a product's backorder queue that an amendment would upset
+		if (order.awaitingStock) {
+			throw new ServiceError(
+				`Order ${order.orderNumber} has backordered items waiting for stock and cannot be amended`,
+				409,
+				[{ field: "items", message: "Cancel the order and place a new one instead" }],
+			);
+		}
+
+		const orderedProducts = new Set(order.items.map((item) => item.productId));
+		const unknown = amendments.filter((line) => !orderedProducts.has(line.productId));
+		if (unknown.length > 0) {
+			throw new ServiceError(
+				"Only items already on the order can be amended",
+				400,
+				unknown.map((line) => ({
+					field: `items.${line.productId}`,
+					message: `Product ${line.productId} is not on order ${order.orderNumber}`,
+				})),
+			);
+		}
+
+		// The amended quantity goes on the product's first line; any other line for it is dropped
+		const requested = new Map<string, number>(
+			amendments.map((line) => [line.productId, line.quantity]),
+		);
+		const seen = new Set<string>();
+		const changes = order.items.map((item) => {
+			const amended = requested.get(item.productId);
+			const quantity =
+				amended === undefined ? item.quantity : seen.has(item.productId) ? 0 : amended;
+			seen.add(item.productId);
+			return { item, quantity };
+		});
+
+		if (changes.every(({ item, quantity }) => item.quantity === quantity)) {
+			throw new ServiceError("The amendment does not change any quantity", 400, [
+				{ field: "items", message: "Every quantity matches the current order" },
+			]);
+		}
+
+		const kept = changes.filter(({ quantity }) => quantity > 0);
+		if (kept.length === 0) {
+			throw new ServiceError("An amendment cannot remove every item", 400, [
+				{ field: "items", message: "Cancel the order instead" },
+			]);
+		}
+
+		const installments = await prisma.installment.findMany({ where: { orderId } });
+		const collected = installments.filter(
+			(i) => !(RESCHEDULABLE_INSTALLMENT_STATUSES as readonly string[]).includes(i.status),
+		);
+		if (collected.length > 0) {
+			throw new ServiceError(
+				`Order ${order.orderNumber} has installments that were already processed`,
+				409,
+				collected.map((i) => ({
+					field: `installments.${i.installmentNumber}`,
+					message: `Installment ${i.installmentNumber} is ${i.status}`,
+				})),
+			);
+		}
+
+		const previousTotal = order.total;
+		const pointsUsed = order.pointsUsed || 0;
+
+		const result = await prisma.$transaction(
+			async (tx) => {
+				const ledgers = await findOrderLedgers(tx, orderId);
+				const paidLedger = ledgers.find((ledger) => ledger.paidAmount > 0);
+				if (paidLedger) {
+					throw new ServiceError(
+						`Order ${order.orderNumber} already has payments recorded and cannot be amended`,
+						409,
+						[
+							{
+								field: "transaction",
+								message: `${paidLedger.transactionNumber} has ${paidLedger.paidAmount} paid`,
+							},
+						],
+					);
+				}
+
+				const lines = kept.map(({ item, quantity }) => ({
+					productId: item.productId,
+					quantity,
+					unitPrice: item.unitPrice,
+				}));
+
+				// A coupon is worked out again for the new lines; otherwise each line keeps its
+				// discount per unit
+				const coupon = order.promotionId
+					? await repriceOrderPromotion(
+							tx,
+							{ id: order.id, promotionId: order.promotionId },
+							lines,
+						)
+					: null;
+				const orderTax = await computeOrderTax(
+					tx,
+					lines.map((line, index) => {
+						const { item } = kept[index];
+						return {
+							...line,
+							discount: coupon
+								? coupon.lineDiscounts[index]
+								: roundMoney((item.discount * line.quantity) / item.quantity),
+						};
+					}),
+					{ pricesIncludeTax: order.pricesIncludeTax },
+				);
+
+				const total = roundMoney(orderTax.total - pointsUsed);
+				if (total <= 0) {
+					throw new ServiceError(
+						`The amended total ${orderTax.total} is covered by the ${pointsUsed} points already used`,
+						422,
+						[{ field: "items", message: "Cancel the order instead" }],
+					);
+				}
+
+				// A financed order keeps the rate it was checked out at; the charge follows the total
+				const financing = getOrderFinancingTerms(order);
+				const financeCharge =
+					financing && order.installmentMonths
+						? calculateFinanceCharge(
+								total,
+								order.installmentMonths,
+								financing,
+								await getPayrollCalendar(tx, order.payrollCalendarId),
+							)
+						: 0;
+
+				// Only a larger total can take the employee past their credit policy
+				if (total > previousTotal) {
+					await assertCreditCapacity(
+						tx,
+						{ employeeId: order.employeeId },
+						{
+							total: roundMoney(total + financeCharge),
+							paymentType: order.paymentType,
+							installmentMonths: order.installmentMonths,
+							financedAmount: total,
+							startDate: order.orderDate,
+							replacesOrderId: order.id,
+							payrollCalendarId: order.payrollCalendarId ?? null,
+							financing,
+						},
+					);
+				}
+
+				const increases = changes
+					.filter(({ item, quantity }) => quantity > item.quantity)
+					.map(({ item, quantity }) => ({
+						productId: item.productId,
+						quantity: quantity - item.quantity,
+					}));
+				const decreases = changes
+					.filter(({ item, quantity }) => quantity < item.quantity)
+					.map(({ item, quantity }) => ({
+						productId: item.productId,
+						quantity: item.quantity - quantity,
+					}));
+				if (increases.length > 0) await reserveStock(tx, increases);
+				if (decreases.length > 0) await releaseStock(tx, decreases);
+
+				const dropped = changes.filter(({ quantity }) => quantity === 0);
+				if (dropped.length > 0) {
+					await tx.orderItem.deleteMany({
+						where: { id: { in: dropped.map(({ item }) => item.id) } },
+					});
+				}
+				for (const [index, { item }] of kept.entries()) {
+					const line = orderTax.lines[index];
+					await tx.orderItem.update({
+						where: { id: item.id },
+						data: {
+							quantity: line.quantity,
+							discount: line.discount,
+							subtotal: line.subtotal,
+							taxClassCode: line.taxClassCode,
+							taxRate: line.taxRate,
+							taxableAmount: line.taxableAmount,
+							taxAmount: line.taxAmount,
+						},
+					});
+				}
+
+				// Guard against an approval landing while the order was being amended
+				const updated = await tx.order.updateMany({
+					where: { id: orderId, status: "PENDING_APPROVAL" },
+					data: {
+						subtotal: orderTax.subtotal,
+						discount: orderTax.discount,
+						tax: orderTax.tax,
+						total,
+						...(financing && { financeCharge }),
+					},
+				});
+				if (updated.count === 0) {
+					throw new ServiceError(
+						`Order ${order.orderNumber} was modified by another request. Please retry.`,
+						409,
+					);
+				}
+				await tx.order.update({
+					where: { id: orderId },
+					data: { taxBreakdown: orderTax.taxBreakdown },
+				});
+
+				for (const ledger of ledgers) {
+					await tx.transaction.update({
+						where: { id: ledger.id },
+						data: {
+							totalAmount: roundMoney(total + financeCharge),
+							balance: roundMoney(total + financeCharge),
+							...(financing && { interestAmount: financeCharge }),
+						},
+					});
+				}
+
+				// The schedule is rebuilt for the new total, or left for approval when anchored on it
+				let generatedInstallments = null;
+				if (order.paymentType === "INSTALLMENT" && order.installmentMonths) {
+					await resetInstallmentSchedule(tx, order);
+					generatedInstallments = await startInstallmentScheduleIfDue(tx, orderId);
+				}
+
+				// A new workflow restarts the chain here, so a failure rolls the amendment back
+				const approval = await restartApprovalChainIfWorkflowChanged(
+					tx,
+					{ ...order, total },
+					previousTotal,
+				);
+
+				const amended = await tx.order.findUniqueOrThrow({
+					where: { id: orderId },
+					include: { items: true },
+				});
+
+				return { order: amended, coupon, generatedInstallments, approval };
+			},
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
+
+		amendmentLogger.info(
+			`Order ${order.orderNumber} amended by ${options.changedBy}: total ${previousTotal} → ${result.order.total}` +
+				(options.reason ? ` (${options.reason})` : ""),
+		);
+
+		// Approval emails go out once the amendment is committed
+		const { approval } = result;
+		if (approval.approvalChain) {
+			await notifyFirstApprover(
+				approval.approvalChain.approvals,
+				result.order,
+				await getEmployeeName(prisma, order.employeeId),
+			);
+		}
+
+		const amendedLines: AmendedLine[] = changes
+			.filter(({ item, quantity }) => item.quantity !== quantity)
+			.map(({ item, quantity }) => ({
+				productId: item.productId,
+				previousQuantity: item.quantity,
+				quantity,
+			}));
+
+		return {
+			order: result.order,
+			previousTotal,
+			amendedLines,
+			installments: result.generatedInstallments,
+			coupon: result.coupon,
+			approvalRestarted: approval.restarted,
+			approvalChain: approval.approvalChain,
+		};
+	} catch (error) {
+		amendmentLogger.error(`Failed to amend order ${orderId}:`, error);
+		throw error;
+	}
+}
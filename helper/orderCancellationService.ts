@@ -0,0 +1,299 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { OrderStatus } from "../zod/order.zod";
+import { releaseStock } from "./inventoryService";
+import { createRefundTransaction, findOrderLedgers } from "./transactionService";
+import { OrderStatusHistoryEntry, transitionOrderStatus } from "./orderLifecycleService";
+import { releasePromotionUsage } from "./promotionService";
+import { reverseOrderPoints } from "./pointsService";
+import { cancelOrderBackorders } from "./backorderService";
+
+const logger = getLogger();
+const cancellationLogger = logger.child({ module: "orderCancellationService" });
+
+/**
+ * Installment statuses that have not been collected yet and can simply be cancelled.
+ * SCHEDULED installments are locked in an exported payroll batch; see assertNotInPayrollBatch.
+ */
+const OPEN_INSTALLMENT_STATUSES = ["PENDING", "FAILED"] as const;
+
+/**
+ * Installment statuses with money collected, refunded when the order is unwound
+ */
+const COLLECTED_INSTALLMENT_STATUSES = ["DEDUCTED", "PARTIAL", "PREPAID"] as const;
+
+export interface UnwindResult {
+	cancelledInstallments: number;
+	refundedInstallments: number;
+	refundedAmount: number;
+	refundTransactionId: string | null;
+	restockedLines: number;
+	cancelledBackorders: number;
+	releasedCoupons: number;
+	refundedPoints: number;
+}
+
+/**
+ * When the order entered its current status.
+ * Falls back to approvedAt / orderDate for orders created before statusHistory existed.
+ */
+export function enteredCurrentStatusAt(order: {
+	status: string;
+	statusHistory: Prisma.JsonValue | null;
+	approvedAt: Date | null;
+	orderDate: Date;
+}): Date {
+	const history = (order.statusHistory as unknown as OrderStatusHistoryEntry[]) || [];
+	for (let i = history.length - 1; i >= 0; i--) {
+		if (history[i].to === order.status) {
+			return new Date(history[i].changedAt);
+		}
+	}
+
+	if (order.status === "APPROVED" && order.approvedAt) {
+		return order.approvedAt;
+	}
+
+	return order.orderDate;
+}
+
+/**
+ * Throw when the cancellation window for the order's current status has elapsed.
+ * A status without a configured window can be cancelled at any time.
+ */
+export function assertWithinCancellationWindow(
+	order: Parameters<typeof enteredCurrentStatusAt>[0] & { orderNumber: string },
+	now: Date = new Date(),
+) {
+	const windows = config.ORDER_CANCELLATION.WINDOW_HOURS as Partial<
+		Record<OrderStatus, number | null>
+	>;
+	const windowHours = windows[order.status as OrderStatus];
+
+	if (windowHours === undefined || windowHours === null) {
+		return;
+	}
+
+	const since = enteredCurrentStatusAt(order);
+	const deadline = new Date(since.getTime() + windowHours * 60 * 60 * 1000);
+
+	if (now > deadline) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} can no longer be cancelled: the ${windowHours}h cancellation window for ${order.status} orders ended on ${deadline.toISOString()}`,
+			409,
+			[
+				{
+					field: "status",
+					message: `Cancellation window closed at ${deadline.toISOString()}`,
+				},
+			],
+		);
+	}
+}
+
+/**
+ * Throw while installments of the order sit in a payroll batch: payroll deducts them whatever
+ * happens to the order, so it cannot be unwound until the batch results are imported
+ */
+export async function assertNotInPayrollBatch(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string,
+) {
+	const scheduled = await prisma.installment.findMany({
+		where: { orderId, status: "SCHEDULED" },
+		select: { installmentNumber: true, payrollBatchId: true },
+	});
+	if (scheduled.length === 0) {
+		return;
+	}
+
+	throw new ServiceError(
+		`${scheduled.length} installment(s) of the order are in a payroll batch`,
+		409,
+		scheduled.map((i) => ({
+			field: `installments.${i.installmentNumber}`,
+			message: "Import the payroll batch results, or delete the draft batch, first",
+		})),
+		{ payrollBatchIds: [...new Set(scheduled.map((i) => i.payrollBatchId))] },
+	);
+}
+
+/**
+ * Reverse the financial and inventory side effects of an order.
+ * Cancels uncollected installments, refunds what deducted, partially deducted and prepaid
+ * ones collected through a REFUND transaction, closes the order ledger, returns the items to
+ * stock, takes backordered lines out of the queue and gives back any coupon use and points
+ * spent. Must run inside a transaction.
+ * Throws 409 while installments of the order sit in a payroll batch.
+ */
+export async function unwindOrder(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+	options: { reason: string; changedBy: string },
+): Promise<UnwindResult> {
+	await assertNotInPayrollBatch(tx, orderId);
+
+	const installments = await tx.installment.findMany({
+		where: { orderId },
+	});
+
+	const openIds = installments
+		.filter((i) => (OPEN_INSTALLMENT_STATUSES as readonly string[]).includes(i.status))
+		.map((i) => i.id);
+	// A PARTIAL installment refunds what was deducted; the rest of it is no longer owed
+	const deducted = installments.filter((i) =>
+		(COLLECTED_INSTALLMENT_STATUSES as readonly string[]).includes(i.status),
+	);
+	const deductedAmount = Number(
+		deducted.reduce((sum, i) => sum + (i.deductedAmount ?? i.amount), 0).toFixed(2),
+	);
+
+	if (openIds.length > 0) {
+		await tx.installment.updateMany({
+			where: { id: { in: openIds } },
+			data: {
+				status: "CANCELLED",
+				notes: options.reason,
+			},
+		});
+	}
+
+	if (deducted.length > 0) {
+		await tx.installment.updateMany({
+			where: { id: { in: deducted.map((i) => i.id) } },
+			data: {
+				status: "REFUNDED",
+				notes: options.reason,
+			},
+		});
+	}
+
+	// Close every ledger and book a refund for anything already collected: deducted
+	// installments on the INSTALLMENT ledger, a paid down payment on a PURCHASE ledger
+	let refundTransactionId: string | null = null;
+	let refundedAmount = 0;
+	const ledgers = await findOrderLedgers(tx, orderId);
+
+	for (const ledger of ledgers) {
+		const collected =
+			ledger.type === "INSTALLMENT" ? deductedAmount : Number(ledger.paidAmount.toFixed(2));
+
+		if (collected > 0) {
+			const refund = await createRefundTransaction(tx, ledger, collected, {
+				reason: options.reason,
+				processedBy: options.changedBy,
+				...(ledger.type === "INSTALLMENT" && { installmentIds: deducted.map((i) => i.id) }),
+			});
+			refundTransactionId = refundTransactionId || refund.id;
+			refundedAmount = Number((refundedAmount + collected).toFixed(2));
+		}
+
+		await tx.transaction.update({
+			where: { id: ledger.id },
+			data: {
+				status: collected > 0 ? "REVERSED" : "CANCELLED",
+				balance: 0,
+				notes: options.reason,
+			},
+		});
+	}
+
+	if (ledgers.length === 0) {
+		cancellationLogger.warn(`No ledger found for order ${orderId} while unwinding`);
+	}
+
+	if (refundedAmount > 0) {
+		await tx.order.update({
+			where: { id: orderId },
+			data: { paymentStatus: "REFUNDED" },
+		});
+	}
+
+	// Return the items to inventory; backordered quantities never took stock
+	const backordered = await cancelOrderBackorders(tx, orderId);
+	const items = await tx.orderItem.findMany({
+		where: { orderId },
+		select: { id: true, productId: true, quantity: true },
+	});
+	await releaseStock(
+		tx,
+		items.map((item) => ({
+			productId: item.productId,
+			quantity: item.quantity - (backordered.get(item.id) || 0),
+		})),
+	);
+
+	const releasedCoupons = await releasePromotionUsage(tx, orderId);
+	const { refundedPoints } = await reverseOrderPoints(tx, orderId, {
+		reason: options.reason,
+		reversedBy: options.changedBy,
+	});
+	if (refundedPoints > 0) {
+		await tx.transaction.updateMany({
+			where: { orderId, type: "POINTS_REDEMPTION" },
+			data: { status: "REVERSED", notes: options.reason },
+		});
+	}
+
+	cancellationLogger.info(
+		`Unwound order ${orderId}: ${openIds.length} installment(s) cancelled, ${deducted.length} refunded (${refundedAmount})`,
+	);
+
+	return {
+		cancelledInstallments: openIds.length,
+		refundedInstallments: deducted.length,
+		refundedAmount,
+		refundTransactionId,
+		restockedLines: items.filter((item) => !backordered.has(item.id)).length,
+		cancelledBackorders: backordered.size,
+		releasedCoupons,
+		refundedPoints,
+	};
+}
+
+/**
+ * Cancel an order and unwind it in a single unit of work
+ */
+export async function cancelOrder(
+	prisma: PrismaClient,
+	orderId: string,
+	options: { changedBy: string; reason?: string },
+) {
+	try {
+		const order = await prisma.order.findUnique({
+			where: { id: orderId },
+		});
+
+		if (!order) {
+			throw new ServiceError("Order not found", 404);
+		}
+
+		assertWithinCancellationWindow(order);
+
+		const reason = options.reason || "Order cancelled";
+
+		return await prisma.$transaction(
+			async (tx) => {
+				const cancelled = await transitionOrderStatus(tx, orderId, "CANCELLED", {
+					changedBy: options.changedBy,
+					reason,
+				});
+				const unwind = await unwindOrder(tx, orderId, {
+					reason,
+					changedBy: options.changedBy,
+				});
+
+				return { order: cancelled, unwind };
+			},
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
+	} catch (error) {
+		cancellationLogger.error(`Failed to cancel order ${orderId}:`, error);
+		throw error;
+	}
+}
@@ -0,0 +1,159 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { OrderStatus } from "../zod/order.zod";
+
+const logger = getLogger();
+const lifecycleLogger = logger.child({ module: "orderLifecycleService" });
+
+/**
+ * Allowed order status transitions.
+ * REJECTED, CANCELLED and RETURNED are terminal.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+	PENDING_APPROVAL: ["APPROVED", "REJECTED", "CANCELLED"],
+	APPROVED: ["PROCESSING", "CANCELLED"],
+	PROCESSING: ["SHIPPED", "CANCELLED"],
+	SHIPPED: ["DELIVERED"],
+	DELIVERED: ["RETURNED"],
+	REJECTED: [],
+	CANCELLED: [],
+	RETURNED: [],
+};
+
+/**
+ * Fields only the transition endpoints may set
+ */
+export const LIFECYCLE_MANAGED_FIELDS = [
+	"status",
+	"shippedDate",
+	"deliveredDate",
+	"cancelledDate",
+] as const;
+
+export interface OrderStatusHistoryEntry {
+	from: OrderStatus | null; // null on the entry that placed the order
+	to: OrderStatus;
+	changedBy: string;
+	changedAt: Date;
+	reason?: string;
+}
+
+/**
+ * statusHistory of a new order: the single entry placing it in PENDING_APPROVAL
+ */
+export function initialStatusHistory(changedBy: string): OrderStatusHistoryEntry[] {
+	return [{ from: null, to: "PENDING_APPROVAL", changedBy, changedAt: new Date() }];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+	return ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throw a ServiceError describing the allowed moves when from → to is illegal
+ */
+export function assertTransition(from: OrderStatus, to: OrderStatus) {
+	if (canTransition(from, to)) {
+		return;
+	}
+
+	const allowed = ORDER_TRANSITIONS[from] || [];
+	throw new ServiceError(`Cannot change order status from ${from} to ${to}`, 409, [
+		{
+			field: "status",
+			message:
+				allowed.length > 0
+					? `Allowed next statuses from ${from}: ${allowed.join(", ")}`
+					: `${from} is a final status`,
+		},
+	]);
+}
+
+/**
+ * Date field stamped when an order enters a status
+ */
+function stampForStatus(to: OrderStatus, at: Date): Prisma.OrderUpdateManyMutationInput {
+	switch (to) {
+		case "APPROVED":
+			return { approvedAt: at, isFullyApproved: true };
+		case "REJECTED":
+			return { rejectedAt: at };
+		case "SHIPPED":
+			return { shippedDate: at };
+		case "DELIVERED":
+			return { deliveredDate: at };
+		case "CANCELLED":
+			return { cancelledDate: at };
+		default:
+			return {};
+	}
+}
+
+/**
+ * Move an order to a new status.
+ * Validates the transition, stamps the matching date, appends to statusHistory and
+ * guards against concurrent changes by only updating while the status is unchanged.
+ */
+export async function transitionOrderStatus(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string,
+	toStatus: OrderStatus,
+	options: {
+		changedBy: string;
+		reason?: string;
+		data?: Prisma.OrderUpdateManyMutationInput;
+	},
+) {
+	const order = await prisma.order.findUnique({
+		where: { id: orderId },
+	});
+
+	if (!order) {
+		throw new ServiceError("Order not found", 404);
+	}
+
+	const fromStatus = order.status as OrderStatus;
+	assertTransition(fromStatus, toStatus);
+
+	if (toStatus === "PROCESSING" && order.awaitingStock) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} has backordered items that are still waiting for stock`,
+			409,
+			[{ field: "status", message: "Receive stock for the backordered items first" }],
+		);
+	}
+
+	const changedAt = new Date();
+	const statusHistory = (order.statusHistory as any[]) || [];
+	const entry: OrderStatusHistoryEntry = {
+		from: fromStatus,
+		to: toStatus,
+		changedBy: options.changedBy,
+		changedAt,
+		...(options.reason && { reason: options.reason }),
+	};
+
+	const result = await prisma.order.updateMany({
+		where: { id: orderId, status: order.status },
+		data: {
+			...stampForStatus(toStatus, changedAt),
+			...options.data,
+			status: toStatus,
+			statusHistory: [...statusHistory, entry] as any,
+		},
+	});
+
+	if (result.count === 0) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} was modified by another request. Please retry.`,
+			409,
+		);
+	}
+
+	lifecycleLogger.info(
+		`Order ${order.orderNumber} moved ${fromStatus} → ${toStatus} by ${options.changedBy}`,
+	);
+
+	return prisma.order.findUniqueOrThrow({ where: { id: orderId } });
+}
@@ -0,0 +1,173 @@
+import { Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { TenderInput } from "../zod/order.zod";
+import { createTransactionForOrder } from "./transactionService";
+import { redeemPoints } from "./pointsService";
+
+const logger = getLogger();
+const paymentSplitLogger = logger.child({ module: "paymentSplitService" });
+
+export interface PaymentSplit {
+	points: number;
+	cash: number;
+	cashPaymentMethod: string;
+	financed: number;
+	installmentMonths: number | null;
+}
+
+export interface OrderTender {
+	type: "POINTS" | "CASH" | "INSTALLMENT";
+	amount: number;
+	paymentMethod: string;
+	installmentMonths: number | null;
+	transactionId: string | null;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Check that the tenders of a MIXED payment cover the amount due exactly
+ */
+export function buildPaymentSplit(tenders: TenderInput[], amountDue: number): PaymentSplit {
+	const byType = new Map(tenders.map((tender) => [tender.type, tender]));
+	const split: PaymentSplit = {
+		points: roundMoney(byType.get("POINTS")?.amount || 0),
+		cash: roundMoney(byType.get("CASH")?.amount || 0),
+		cashPaymentMethod: byType.get("CASH")?.paymentMethod || "CASH",
+		financed: roundMoney(byType.get("INSTALLMENT")?.amount || 0),
+		installmentMonths: byType.get("INSTALLMENT")?.installmentMonths || null,
+	};
+
+	const tendered = roundMoney(split.points + split.cash + split.financed);
+	if (Math.abs(tendered - amountDue) > 0.005) {
+		throw new ServiceError("Payment tenders do not add up to the order total", 400, [
+			{
+				field: "tenders",
+				message: `Tenders add up to ${tendered} but the order total is ${amountDue}`,
+			},
+		]);
+	}
+
+	return split;
+}
+
+/**
+ * Number of ledger entries a split needs, one per non-zero part
+ */
+export function countSplitLedgers(split: PaymentSplit): number {
+	return [split.points, split.cash, split.financed].filter((amount) => amount > 0).length;
+}
+
+/**
+ * Book a MIXED payment: debit the points wallet with a POINTS_REDEMPTION entry, open a PURCHASE
+ * ledger for the cash part and an INSTALLMENT ledger for the financed part only, plus the order's
+ * finance charge. The schedule for the financed part is left to startInstallmentScheduleIfDue,
+ * which reads the stored tenders.
+ * Must run inside the transaction that creates the order.
+ */
+export async function createSplitPaymentLedgers(
+	tx: Prisma.TransactionClient,
+	order: { id: string; employeeId: string; financeCharge?: number | null },
+	split: PaymentSplit,
+	transactionNumbers: string[],
+) {
+	const numbers = [...transactionNumbers];
+	const tenders: OrderTender[] = [];
+	let pointsLedger = null;
+	let cashLedger = null;
+	let installmentLedger = null;
+
+	if (split.points > 0) {
+		const redemption = await redeemPoints(tx, {
+			employeeId: order.employeeId,
+			points: split.points,
+			orderId: order.id,
+		});
+		pointsLedger = await tx.transaction.create({
+			data: {
+				transactionNumber: numbers.shift()!,
+				employeeId: order.employeeId,
+				orderId: order.id,
+				type: "POINTS_REDEMPTION",
+				status: "COMPLETED",
+				totalAmount: split.points,
+				paidAmount: split.points,
+				balance: 0,
+				paymentMethod: "POINTS",
+				paymentHistory: [],
+				pointsUsed: split.points,
+				pointsTransactionId: redemption.id,
+			},
+		});
+		tenders.push({
+			type: "POINTS",
+			amount: split.points,
+			paymentMethod: "POINTS",
+			installmentMonths: null,
+			transactionId: pointsLedger.id,
+		});
+	}
+
+	if (split.cash > 0) {
+		cashLedger = await createTransactionForOrder(
+			tx,
+			order.id,
+			order.employeeId,
+			split.cash,
+			"CASH",
+			split.cashPaymentMethod,
+			numbers.shift(),
+		);
+		cashLedger = await tx.transaction.update({
+			where: { id: cashLedger.id },
+			data: { cashAmount: split.cash, notes: "Down payment" },
+		});
+		tenders.push({
+			type: "CASH",
+			amount: split.cash,
+			paymentMethod: split.cashPaymentMethod,
+			installmentMonths: null,
+			transactionId: cashLedger.id,
+		});
+	}
+
+	if (split.financed > 0 && split.installmentMonths) {
+		installmentLedger = await createTransactionForOrder(
+			tx,
+			order.id,
+			order.employeeId,
+			split.financed,
+			"INSTALLMENT",
+			"PAYROLL_DEDUCTION",
+			numbers.shift(),
+			order.financeCharge || 0,
+		);
+		tenders.push({
+			type: "INSTALLMENT",
+			amount: split.financed,
+			paymentMethod: "PAYROLL_DEDUCTION",
+			installmentMonths: split.installmentMonths,
+			transactionId: installmentLedger.id,
+		});
+	}
+
+	await tx.order.update({
+		where: { id: order.id },
+		data: { tenders: tenders as any },
+	});
+
+	paymentSplitLogger.info(
+		`Order ${order.id} split: points ${split.points}, cash ${split.cash}, financed ${split.financed}` +
+			(split.installmentMonths ? ` over ${split.installmentMonths} months` : ""),
+	);
+
+	return {
+		tenders,
+		// The ledger the employee still owes on: financed part first, then cash
+		primaryLedger: installmentLedger || cashLedger || pointsLedger,
+		ledgers: [pointsLedger, cashLedger, installmentLedger].filter((l) => l !== null),
+	};
+}
@@ -0,0 +1,999 @@
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import csvParser from "csv-parser";
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { nextDocumentNumber } from "./numberingService";
+import { buildXlsx, XlsxCell } from "./xlsx.helper";
+import {
+	calculatePayrollDates,
+	getPayrollCalendar,
+	PayrollCalendarRules,
+} from "./payrollCalendarService";
+import {
+	markInstallmentAsDeducted,
+	markInstallmentAsFailed,
+	markInstallmentAsPartiallyDeducted,
+} from "./installmentService";
+import { resolveCreditPolicies } from "./creditService";
+
+const logger = getLogger();
+const payrollBatchLogger = logger.child({ module: "payrollBatchService" });
+
+export type PayrollExportFormat = "CSV" | "XLSX" | "FIXED_WIDTH";
+
+export type PayrollResultStatus = "DEDUCTED" | "PARTIAL" | "FAILED";
+
+const PAYROLL_RESULT_STATUSES: PayrollResultStatus[] = ["DEDUCTED", "PARTIAL", "FAILED"];
+
+export interface PayrollBatchInput {
+	cutOffDate: Date;
+	payrollCalendarId?: string | null;
+	deductionCap?: number | null; // Defaults to config.PAYROLL.MAX_DEDUCTION_PER_CUTOFF; null = no cap
+	notes?: string | null;
+	createdBy?: string | null;
+}
+
+export interface PayrollBatchLine {
+	installmentId: string;
+	orderId: string;
+	orderNumber: string;
+	employeeId: string;
+	employeeName: string | null;
+	installmentNumber: number;
+	amount: number;
+	cutOffDate: Date;
+	scheduledDate: Date;
+}
+
+export interface EmployeeDeduction {
+	employeeId: string;
+	employeeName: string | null;
+	installmentCount: number;
+	amount: number;
+	orderNumbers: string[];
+}
+
+/**
+ * An employee's deduction on a cutoff, with what the cap defers to the next cutoff
+ */
+export interface CappedDeduction extends EmployeeDeduction {
+	deductionCap: number | null; // Smaller of the batch cap and the employee's credit policy cap
+	deferredInstallmentCount: number;
+	deferredAmount: number;
+}
+
+interface CappableInstallment {
+	amount: number;
+	separationId?: string | null;
+	order: { employeeId: string; orderNumber: string };
+}
+
+/**
+ * Each employee's deduction cap on a cutoff; null = no cap
+ */
+export type DeductionCaps = Map<string, number | null>;
+
+const DUE_INSTALLMENT_INCLUDE = {
+	order: {
+		select: {
+			id: true,
+			orderNumber: true,
+			employeeId: true,
+			payrollCalendarId: true,
+		},
+	},
+} satisfies Prisma.InstallmentInclude;
+
+/**
+ * An installment due on a batch's cutoff, with the order fields the batch needs
+ */
+type DueInstallment = Prisma.InstallmentGetPayload<{ include: typeof DUE_INSTALLMENT_INCLUDE }>;
+
+export interface PayrollExportFile {
+	fileName: string;
+	contentType: string;
+	content: Buffer;
+}
+
+export interface PayrollResultsFile {
+	buffer: Buffer;
+	originalname?: string;
+}
+
+export interface PayrollResultError {
+	line: number;
+	employeeId: string | null;
+	field?: string;
+	message: string;
+}
+
+export interface PayrollResultLine {
+	line: number;
+	employeeId: string;
+	status: PayrollResultStatus;
+	outcome: "POSTED" | "SKIPPED" | "ERROR";
+	expectedAmount: number;
+	deductedAmount: number;
+	installments: number;
+	message?: string;
+}
+
+export interface PayrollResultSummary {
+	batchId: string;
+	batchNumber: string;
+	fileName: string | null;
+	fileHash: string;
+	importedAt: Date;
+	rows: { total: number; posted: number; skipped: number; errors: number };
+	installments: { deducted: number; partial: number; failed: number; skipped: number };
+	amounts: { expected: number; deducted: number; unpaid: number };
+	missingEmployees: string[];
+	batchStatus: string;
+	errors: PayrollResultError[];
+	duplicate: boolean; // The same file was imported before; nothing was posted
+	lines?: PayrollResultLine[]; // Per-row outcomes, not kept for replays
+}
+
+interface ParsedResultRow {
+	line: number;
+	employeeId: string;
+	status: PayrollResultStatus;
+	amount: number | null;
+	reference: string | null;
+	reason: string | null;
+}
+
+interface FixedWidthField {
+	FIELD: string;
+	WIDTH: number;
+}
+
+const LINE_ENDING = "\r\n";
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+function formatDate(date: Date): string {
+	return new Date(date).toISOString().split("T")[0];
+}
+
+function employeeNameOf(person: any): string | null {
+	const info = person?.personalInfo;
+	if (!info) return null;
+	return [info.firstName, info.middleName, info.lastName].filter(Boolean).join(" ") || null;
+}
+
+/**
+ * Each employee's deduction cap: the batch cap or the maxDeductionPerCutoff of their credit
+ * policy, whichever is smaller. null on either side means that side sets no limit.
+ */
+export async function resolveDeductionCaps(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeIds: string[],
+	cap: number | null,
+): Promise<DeductionCaps> {
+	const policies = await resolveCreditPolicies(prisma, [...new Set(employeeIds)]);
+
+	return new Map(
+		[...policies].map(([employeeId, policy]) => {
+			const policyCap = policy.maxDeductionPerCutoff;
+			return [
+				employeeId,
+				cap === null ? policyCap : policyCap === null ? cap : Math.min(cap, policyCap),
+			];
+		}),
+	);
+}
+
+/**
+ * Split the installments due on a cutoff at each employee's deduction cap. Installments are taken
+ * in the order given, oldest first; once one does not fit, the employee's later ones are deferred
+ * too so the schedule keeps its order. An employee's first installment is always taken, even over
+ * the cap, or it would never be deducted. Final pay deductions are never deferred.
+ */
+export function applyDeductionCap<T extends CappableInstallment>(
+	installments: T[],
+	caps: DeductionCaps,
+) {
+	const included: T[] = [];
+	const deferred: T[] = [];
+	const taken = new Map<string, number>();
+	const capped = new Set<string>();
+
+	for (const installment of installments) {
+		const employeeId = installment.order.employeeId;
+		const total = taken.get(employeeId);
+		const cap = caps.get(employeeId) ?? null;
+		const fits =
+			cap === null ||
+			total === undefined ||
+			(!capped.has(employeeId) && roundMoney(total + installment.amount) <= cap);
+
+		if (fits || installment.separationId) {
+			included.push(installment);
+			taken.set(employeeId, roundMoney((total ?? 0) + installment.amount));
+		} else {
+			deferred.push(installment);
+			capped.add(employeeId);
+		}
+	}
+
+	return { included, deferred };
+}
+
+/**
+ * One deduction per employee for the installments due by a cutoff, capped the way a batch
+ * created now would be
+ */
+export async function previewDeductions(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	installments: CappableInstallment[],
+	cap: number | null = config.PAYROLL.MAX_DEDUCTION_PER_CUTOFF,
+): Promise<CappedDeduction[]> {
+	const caps = await resolveDeductionCaps(
+		prisma,
+		installments.map((installment) => installment.order.employeeId),
+		cap,
+	);
+	const { included, deferred } = applyDeductionCap(installments, caps);
+	const deductions = summarizeDeductions(
+		included.map((installment) => ({
+			employeeId: installment.order.employeeId,
+			employeeName: null,
+			amount: installment.amount,
+			orderNumber: installment.order.orderNumber,
+		})),
+	);
+
+	return deductions.map((deduction) => {
+		const over = deferred.filter((i) => i.order.employeeId === deduction.employeeId);
+		return {
+			...deduction,
+			deductionCap: caps.get(deduction.employeeId) ?? null,
+			deferredInstallmentCount: over.length,
+			deferredAmount: roundMoney(over.reduce((sum, i) => sum + i.amount, 0)),
+		};
+	});
+}
+
+/**
+ * Snapshot every PENDING installment due on or before the cutoff into a new DRAFT batch and
+ * lock them to SCHEDULED, so a later batch or the pending-payroll list cannot pick them up
+ * again. Limited to orders on one payroll calendar when payrollCalendarId is given.
+ *
+ * Each employee gets one deduction, capped at deductionCap or, when smaller, the
+ * maxDeductionPerCutoff of the employee's credit policy. Installments over the cap stay
+ * PENDING and move to the next cutoff on their order's calendar; the move is added to the
+ * installment's deferrals.
+ */
+export async function createPayrollBatch(prisma: PrismaClient, input: PayrollBatchInput) {
+	// Issued outside the transaction so concurrent batches do not conflict on the counter
+	const batchNumber = await nextDocumentNumber(prisma, "PAYROLL_BATCH");
+	const deductionCap =
+		input.deductionCap !== undefined
+			? input.deductionCap
+			: config.PAYROLL.MAX_DEDUCTION_PER_CUTOFF;
+
+	const batch = await prisma.$transaction(
+		async (tx) => {
+			const installments: DueInstallment[] = await tx.installment.findMany({
+				where: {
+					status: "PENDING",
+					cutOffDate: { lte: input.cutOffDate },
+					...(input.payrollCalendarId && {
+						order: { payrollCalendarId: input.payrollCalendarId },
+					}),
+				},
+				include: DUE_INSTALLMENT_INCLUDE,
+				orderBy: [{ cutOffDate: "asc" }, { installmentNumber: "asc" }],
+			});
+
+			if (installments.length === 0) {
+				throw new ServiceError(config.ERROR.PAYROLLBATCH.NOTHING_DUE, 422);
+			}
+
+			const caps = await resolveDeductionCaps(
+				tx,
+				installments.map((installment) => installment.order.employeeId),
+				deductionCap,
+			);
+			const { included, deferred } = applyDeductionCap(installments, caps);
+
+			// Names are copied into the snapshot so the file does not change with the person record
+			const employeeIds = [...new Set(included.map((i) => i.order.employeeId))];
+			const people = await tx.person.findMany({
+				where: { id: { in: employeeIds } },
+				select: { id: true, personalInfo: true },
+			});
+			const nameById = new Map<string, string | null>(
+				people.map((person) => [person.id, employeeNameOf(person)]),
+			);
+
+			const lines: PayrollBatchLine[] = included.map((installment) => ({
+				installmentId: installment.id,
+				orderId: installment.order.id,
+				orderNumber: installment.order.orderNumber,
+				employeeId: installment.order.employeeId,
+				employeeName: nameById.get(installment.order.employeeId) ?? null,
+				installmentNumber: installment.installmentNumber,
+				amount: installment.amount,
+				cutOffDate: installment.cutOffDate,
+				scheduledDate: installment.scheduledDate,
+			}));
+
+			const created = await tx.payrollBatch.create({
+				data: {
+					batchNumber,
+					cutOffDate: input.cutOffDate,
+					payrollCalendarId: input.payrollCalendarId ?? null,
+					lines,
+					deductionCap,
+					deferredInstallmentCount: deferred.length,
+					deferredAmount: roundMoney(deferred.reduce((sum, i) => sum + i.amount, 0)),
+					employeeCount: employeeIds.length,
+					installmentCount: lines.length,
+					totalAmount: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+					notes: input.notes ?? null,
+					createdBy: input.createdBy ?? null,
+				},
+			});
+
+			// Only installments still PENDING are taken; anything else means a concurrent batch won
+			const locked = await tx.installment.updateMany({
+				where: { id: { in: lines.map((line) => line.installmentId) }, status: "PENDING" },
+				data: { status: "SCHEDULED", payrollBatchId: created.id },
+			});
+			if (locked.count !== lines.length) {
+				throw new ServiceError(config.ERROR.PAYROLLBATCH.INSTALLMENTS_TAKEN, 409);
+			}
+
+			const dayAfterCutoff = new Date(input.cutOffDate);
+			dayAfterCutoff.setDate(dayAfterCutoff.getDate() + 1);
+			const calendars = new Map<string | null, PayrollCalendarRules>();
+			const deferredAt = new Date();
+
+			for (const installment of deferred) {
+				const calendarId = installment.order.payrollCalendarId ?? null;
+				if (!calendars.has(calendarId)) {
+					calendars.set(calendarId, await getPayrollCalendar(tx, calendarId));
+				}
+				const [next] = calculatePayrollDates(calendars.get(calendarId)!, dayAfterCutoff, 1);
+
+				const moved = await tx.installment.updateMany({
+					where: { id: installment.id, status: "PENDING" },
+					data: {
+						cutOffDate: next.cutOffDate,
+						scheduledDate: next.payDate,
+						deferrals: {
+							push: {
+								fromCutOffDate: installment.cutOffDate,
+								fromScheduledDate: installment.scheduledDate,
+								toCutOffDate: next.cutOffDate,
+								toScheduledDate: next.payDate,
+								payrollBatchId: created.id,
+								deductionCap: caps.get(installment.order.employeeId)!,
+								deferredAt,
+							},
+						},
+					},
+				});
+				if (moved.count === 0) {
+					throw new ServiceError(config.ERROR.PAYROLLBATCH.INSTALLMENTS_TAKEN, 409);
+				}
+			}
+
+			return created;
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+
+	payrollBatchLogger.info(
+		`Payroll batch ${batch.batchNumber} created: ${batch.installmentCount} installments ` +
+			`for ${batch.employeeCount} employees, total ${batch.totalAmount}` +
+			(batch.deferredInstallmentCount > 0
+				? `; ${batch.deferredInstallmentCount} installments (${batch.deferredAmount}) ` +
+					`deferred over the cap of ${batch.deductionCap}`
+				: ""),
+	);
+
+	return batch;
+}
+
+/**
+ * Delete a batch that has not been exported, put its installments back to PENDING and move the
+ * installments it deferred back to their cutoff, unless a later batch deferred them again
+ */
+export async function deletePayrollBatch(prisma: PrismaClient, batchId: string) {
+	return prisma.$transaction(
+		async (tx) => {
+			const batch = await tx.payrollBatch.findUnique({ where: { id: batchId } });
+			if (!batch) {
+				throw new ServiceError(config.ERROR.PAYROLLBATCH.NOT_FOUND, 404);
+			}
+			if (batch.status !== "DRAFT") {
+				throw new ServiceError(config.ERROR.PAYROLLBATCH.ALREADY_EXPORTED, 409);
+			}
+
+			const released = await tx.installment.updateMany({
+				where: { payrollBatchId: batchId, status: "SCHEDULED" },
+				data: { status: "PENDING", payrollBatchId: null },
+			});
+
+			const deferred = await tx.installment.findMany({
+				where: { status: "PENDING", deferrals: { some: { payrollBatchId: batchId } } },
+			});
+			let restored = 0;
+			for (const installment of deferred) {
+				const deferrals: any[] = installment.deferrals || [];
+				const last = deferrals[deferrals.length - 1];
+				if (last?.payrollBatchId !== batchId) {
+					continue;
+				}
+				await tx.installment.update({
+					where: { id: installment.id },
+					data: {
+						cutOffDate: last.fromCutOffDate,
+						scheduledDate: last.fromScheduledDate,
+						deferrals: deferrals.slice(0, -1),
+					},
+				});
+				restored++;
+			}
+
+			await tx.payrollBatch.delete({ where: { id: batchId } });
+
+			payrollBatchLogger.info(
+				`Payroll batch ${batch.batchNumber} deleted; ${released.count} installments released, ` +
+					`${restored} deferred installments restored`,
+			);
+
+			return {
+				batch,
+				releasedInstallments: released.count,
+				restoredDeferredInstallments: restored,
+			};
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+}
+
+/**
+ * One deduction per employee, totalling the employee's installments in the batch
+ */
+export function summarizeDeductions(
+	lines: Pick<PayrollBatchLine, "employeeId" | "employeeName" | "amount" | "orderNumber">[],
+): EmployeeDeduction[] {
+	const byEmployee = new Map<string, EmployeeDeduction>();
+
+	for (const line of lines) {
+		const deduction = byEmployee.get(line.employeeId) || {
+			employeeId: line.employeeId,
+			employeeName: line.employeeName,
+			installmentCount: 0,
+			amount: 0,
+			orderNumbers: [],
+		};
+		deduction.installmentCount += 1;
+		deduction.amount = roundMoney(deduction.amount + line.amount);
+		if (!deduction.orderNumbers.includes(line.orderNumber)) {
+			deduction.orderNumbers.push(line.orderNumber);
+		}
+		byEmployee.set(line.employeeId, deduction);
+	}
+
+	return [...byEmployee.values()].sort((a, b) => a.employeeId.localeCompare(b.employeeId));
+}
+
+/**
+ * Deduction table shared by the CSV and XLSX exports: a header row, one row per employee and a
+ * TOTAL row with the control counts
+ */
+function deductionRows(batch: any): XlsxCell[][] {
+	const deductions = summarizeDeductions(batch.lines);
+
+	return [
+		[
+			"Batch Number",
+			"Cutoff Date",
+			"Employee ID",
+			"Employee Name",
+			"Installments",
+			"Amount",
+			"Orders",
+		],
+		...deductions.map((deduction) => [
+			batch.batchNumber,
+			formatDate(batch.cutOffDate),
+			deduction.employeeId,
+			deduction.employeeName,
+			deduction.installmentCount,
+			deduction.amount,
+			deduction.orderNumbers.join(" "),
+		]),
+		[
+			"TOTAL",
+			formatDate(batch.cutOffDate),
+			`${batch.employeeCount} employees`,
+			"",
+			batch.installmentCount,
+			batch.totalAmount,
+			"",
+		],
+	];
+}
+
+function csvValue(value: XlsxCell, delimiter: string): string {
+	if (value === null || value === undefined) return "";
+	const text = String(value);
+	return /["\r\n]/.test(text) || text.includes(delimiter)
+		? `"${text.replace(/"/g, '""')}"`
+		: text;
+}
+
+function fixedWidthValue(value: string | number, width: number): string {
+	if (typeof value === "number") {
+		return Math.trunc(value).toString().padStart(width, "0").slice(-width);
+	}
+	return value.padEnd(width, " ").slice(0, width);
+}
+
+function fixedWidthRecord(fields: FixedWidthField[], values: Record<string, string | number>) {
+	return fields.map((field) => fixedWidthValue(values[field.FIELD] ?? "", field.WIDTH)).join("");
+}
+
+function compactDate(date: Date): string {
+	return formatDate(date).replace(/-/g, "");
+}
+
+function toCents(amount: number): number {
+	return Math.round(amount * 100);
+}
+
+function renderFixedWidth(batch: any): string {
+	const layout = config.PAYROLL.EXPORT.FIXED_WIDTH;
+	const records = [
+		fixedWidthRecord(layout.HEADER, {
+			recordType: "H",
+			batchNumber: batch.batchNumber,
+			cutOffDate: compactDate(batch.cutOffDate),
+			createdAt: compactDate(batch.createdAt),
+		}),
+		...summarizeDeductions(batch.lines).map((deduction) =>
+			fixedWidthRecord(layout.DETAIL, {
+				recordType: "D",
+				employeeId: deduction.employeeId,
+				employeeName: deduction.employeeName || "",
+				installmentCount: deduction.installmentCount,
+				amount: toCents(deduction.amount),
+			}),
+		),
+		fixedWidthRecord(layout.TRAILER, {
+			recordType: "T",
+			employeeCount: batch.employeeCount,
+			installmentCount: batch.installmentCount,
+			amount: toCents(batch.totalAmount),
+		}),
+	];
+	return records.join(LINE_ENDING) + LINE_ENDING;
+}
+
+/**
+ * Deduction file for a batch. Only the stored snapshot is read, so every export of a batch
+ * produces the same file.
+ */
+export function renderPayrollBatch(batch: any, format: PayrollExportFormat): PayrollExportFile {
+	switch (format) {
+		case "XLSX":
+			return {
+				fileName: `${batch.batchNumber}.xlsx`,
+				contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+				content: buildXlsx(config.PAYROLL.EXPORT.XLSX_SHEET_NAME, deductionRows(batch)),
+			};
+		case "FIXED_WIDTH":
+			return {
+				fileName: `${batch.batchNumber}.txt`,
+				contentType: "text/plain; charset=utf-8",
+				content: Buffer.from(renderFixedWidth(batch), "utf8"),
+			};
+		case "CSV":
+		default: {
+			const delimiter = config.PAYROLL.EXPORT.CSV_DELIMITER;
+			const csv = deductionRows(batch)
+				.map((row) => row.map((value) => csvValue(value, delimiter)).join(delimiter))
+				.join(LINE_ENDING);
+			return {
+				fileName: `${batch.batchNumber}.csv`,
+				contentType: "text/csv; charset=utf-8",
+				content: Buffer.from(csv + LINE_ENDING, "utf8"),
+			};
+		}
+	}
+}
+
+/**
+ * Render the deduction file and mark the batch EXPORTED. The first export records when and by
+ * whom; later exports return the same file and only bump exportCount.
+ */
+export async function exportPayrollBatch(
+	prisma: PrismaClient,
+	batchId: string,
+	format: PayrollExportFormat,
+	exportedBy: string,
+) {
+	const batch = await prisma.payrollBatch.findUnique({ where: { id: batchId } });
+	if (!batch) {
+		throw new ServiceError(config.ERROR.PAYROLLBATCH.NOT_FOUND, 404);
+	}
+
+	const file = renderPayrollBatch(batch, format);
+	const firstExport = batch.status === "DRAFT";
+
+	const exported = await prisma.payrollBatch.update({
+		where: { id: batchId },
+		data: {
+			exportCount: { increment: 1 },
+			...(firstExport && { status: "EXPORTED", exportedAt: new Date(), exportedBy }),
+		},
+	});
+
+	payrollBatchLogger.info(
+		`Payroll batch ${batch.batchNumber} exported as ${format} by ${exportedBy}` +
+			(firstExport ? "" : ` (export ${exported.exportCount})`),
+	);
+
+	return { batch: exported, file, firstExport };
+}
+
+function parseResultsCsv(buffer: Buffer): Promise<Record<string, string>[]> {
+	return new Promise((resolve, reject) => {
+		const rows: Record<string, string>[] = [];
+		Readable.from(buffer.toString())
+			.pipe(csvParser({ mapHeaders: ({ header }) => header.trim() }))
+			.on("data", (row) => rows.push(row))
+			.on("end", () => resolve(rows))
+			.on("error", (error) => reject(error));
+	});
+}
+
+/**
+ * Check a results row on its own: batch reference, employee, status and amount format
+ */
+function parseResultRow(
+	row: Record<string, string>,
+	line: number,
+	batchNumber: string,
+): ParsedResultRow | PayrollResultError {
+	const columns = config.PAYROLL.RESULTS.COLUMNS;
+	const value = (column: string) => (row[column] ?? "").trim();
+
+	const employeeId = value(columns.EMPLOYEE_ID) || null;
+	const fail = (field: string, message: string): PayrollResultError => ({
+		line,
+		employeeId,
+		field,
+		message,
+	});
+
+	if (value(columns.BATCH_NUMBER) !== batchNumber) {
+		return fail(
+			columns.BATCH_NUMBER,
+			`Batch number "${value(columns.BATCH_NUMBER)}" does not match ${batchNumber}`,
+		);
+	}
+	if (!employeeId) {
+		return fail(columns.EMPLOYEE_ID, "Employee ID is required");
+	}
+
+	const status = value(columns.STATUS).toUpperCase() as PayrollResultStatus;
+	if (!PAYROLL_RESULT_STATUSES.includes(status)) {
+		return fail(columns.STATUS, `Status must be one of ${PAYROLL_RESULT_STATUSES.join(", ")}`);
+	}
+
+	const rawAmount = value(columns.AMOUNT).replace(/,/g, "");
+	const amount = rawAmount ? Number(rawAmount) : null;
+	if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+		return fail(columns.AMOUNT, `Invalid amount "${value(columns.AMOUNT)}"`);
+	}
+
+	return {
+		line,
+		employeeId,
+		status,
+		amount: amount === null ? null : roundMoney(amount),
+		reference: value(columns.REFERENCE) || null,
+		reason: value(columns.REASON) || null,
+	};
+}
+
+/**
+ * Check a row's amount against what is still expected from the employee
+ */
+function checkResultAmount(result: ParsedResultRow, expected: number): string | null {
+	const tolerance = config.PAYROLL.RESULTS.AMOUNT_TOLERANCE;
+
+	switch (result.status) {
+		case "DEDUCTED":
+			return result.amount !== null && Math.abs(result.amount - expected) > tolerance
+				? `Deducted amount ${result.amount} does not match the expected ${expected}`
+				: null;
+		case "PARTIAL":
+			return result.amount === null || result.amount <= 0 || result.amount >= expected
+				? `A PARTIAL deduction needs an amount above 0 and below the expected ${expected}`
+				: null;
+		case "FAILED":
+		default:
+			return result.amount ? "A FAILED deduction cannot have a deducted amount" : null;
+	}
+}
+
+/**
+ * Post one employee's result over their installments in the batch, oldest first. A PARTIAL
+ * amount pays off whole installments while it lasts, partially covers the next one and leaves
+ * the rest FAILED. Installments another upload already posted are skipped.
+ */
+async function postEmployeeResult(
+	prisma: PrismaClient,
+	batchId: string,
+	result: ParsedResultRow,
+	installments: { id: string; amount: number }[],
+) {
+	const posted = { deducted: 0, partial: 0, failed: 0, skipped: 0, amount: 0 };
+	let remaining = result.status === "DEDUCTED" ? Infinity : (result.amount ?? 0);
+	const reference = result.reference ?? undefined;
+	const reason = result.reason ?? undefined;
+
+	for (const installment of installments) {
+		try {
+			if (result.status !== "FAILED" && remaining >= installment.amount - 0.005) {
+				await markInstallmentAsDeducted(prisma, installment.id, batchId, reference);
+				remaining = roundMoney(remaining - installment.amount);
+				posted.deducted += 1;
+				posted.amount = roundMoney(posted.amount + installment.amount);
+			} else if (result.status === "PARTIAL" && remaining > 0) {
+				await markInstallmentAsPartiallyDeducted(
+					prisma,
+					installment.id,
+					remaining,
+					batchId,
+					reference,
+					reason,
+				);
+				posted.partial += 1;
+				posted.amount = roundMoney(posted.amount + remaining);
+				remaining = 0;
+			} else {
+				await markInstallmentAsFailed(prisma, installment.id, batchId, reason);
+				posted.failed += 1;
+			}
+		} catch (error) {
+			// Posted by a concurrent upload or by hand in the meantime
+			if (error instanceof ServiceError && error.statusCode === 409) {
+				posted.skipped += 1;
+				continue;
+			}
+			throw error;
+		}
+	}
+
+	return posted;
+}
+
+/**
+ * Post a payroll results file against an exported batch and reconcile it. Rows with errors are
+ * reported and left unposted; the rest go through the installment deduction or failure paths.
+ * Uploading the same file again returns the first summary without posting anything, and a
+ * different file only posts installments that are still SCHEDULED in the batch.
+ */
+export async function importPayrollResults(
+	prisma: PrismaClient,
+	batchId: string,
+	file: PayrollResultsFile,
+	importedBy: string,
+): Promise<PayrollResultSummary> {
+	const batch = await prisma.payrollBatch.findUnique({ where: { id: batchId } });
+	if (!batch) {
+		throw new ServiceError(config.ERROR.PAYROLLBATCH.NOT_FOUND, 404);
+	}
+	if (batch.status === "DRAFT") {
+		throw new ServiceError(config.ERROR.PAYROLLBATCH.NOT_EXPORTED, 409);
+	}
+
+	const fileHash = createHash("sha256").update(file.buffer).digest("hex");
+	const previous = (batch.resultImports || []).find((entry) => entry.fileHash === fileHash);
+	if (previous) {
+		payrollBatchLogger.info(
+			`Results file ${fileHash} was already imported into ${batch.batchNumber}; skipping`,
+		);
+		return { ...(previous.summary as unknown as PayrollResultSummary), duplicate: true };
+	}
+
+	let rows: Record<string, string>[];
+	try {
+		rows = await parseResultsCsv(file.buffer);
+	} catch (parseError: any) {
+		throw new ServiceError(config.ERROR.PAYROLLBATCH.RESULTS_PARSE_FAILED, 400, [
+			{ field: "file", message: parseError.message },
+		]);
+	}
+
+	const linesByEmployee = new Map<string, PayrollBatchLine[]>();
+	for (const line of batch.lines as PayrollBatchLine[]) {
+		linesByEmployee.set(line.employeeId, [
+			...(linesByEmployee.get(line.employeeId) || []),
+			line,
+		]);
+	}
+
+	// Current state of the batch's installments, to skip anything already posted
+	const current = await prisma.installment.findMany({
+		where: { payrollBatchId: batchId },
+		select: { id: true, amount: true, status: true },
+	});
+	const installmentById = new Map<string, { id: string; amount: number; status: string }>(
+		current.map((installment) => [installment.id, installment]),
+	);
+	const scheduledFor = (employeeId: string) =>
+		(linesByEmployee.get(employeeId) || [])
+			.map((line) => installmentById.get(line.installmentId))
+			.filter((installment) => installment?.status === "SCHEDULED") as {
+			id: string;
+			amount: number;
+		}[];
+
+	const errors: PayrollResultError[] = [];
+	const lines: PayrollResultLine[] = [];
+	const seenEmployees = new Set<string>();
+	const totals = { deducted: 0, partial: 0, failed: 0, skipped: 0 };
+	const amounts = { expected: 0, deducted: 0, unpaid: 0 };
+	let resultRows = 0;
+
+	for (let i = 0; i < rows.length; i++) {
+		const line = i + 2; // Line 1 is the header
+		// A TOTAL control row, as in the exported file, is not a result
+		if ((rows[i][config.PAYROLL.RESULTS.COLUMNS.BATCH_NUMBER] ?? "").trim() === "TOTAL") {
+			continue;
+		}
+		resultRows += 1;
+
+		const parsed = parseResultRow(rows[i], line, batch.batchNumber);
+		if ("message" in parsed) {
+			errors.push(parsed);
+			continue;
+		}
+
+		if (!linesByEmployee.has(parsed.employeeId)) {
+			errors.push({
+				line,
+				employeeId: parsed.employeeId,
+				field: config.PAYROLL.RESULTS.COLUMNS.EMPLOYEE_ID,
+				message: `Employee ${parsed.employeeId} has no deduction in ${batch.batchNumber}`,
+			});
+			continue;
+		}
+		if (seenEmployees.has(parsed.employeeId)) {
+			errors.push({
+				line,
+				employeeId: parsed.employeeId,
+				field: config.PAYROLL.RESULTS.COLUMNS.EMPLOYEE_ID,
+				message: `Employee ${parsed.employeeId} appears more than once in the file`,
+			});
+			continue;
+		}
+		seenEmployees.add(parsed.employeeId);
+
+		const installments = scheduledFor(parsed.employeeId);
+		const expected = roundMoney(installments.reduce((sum, inst) => sum + inst.amount, 0));
+		const resultLine: PayrollResultLine = {
+			line,
+			employeeId: parsed.employeeId,
+			status: parsed.status,
+			outcome: "SKIPPED",
+			expectedAmount: expected,
+			deductedAmount: 0,
+			installments: installments.length,
+		};
+
+		if (installments.length === 0) {
+			resultLine.message = "Already posted";
+			lines.push(resultLine);
+			continue;
+		}
+
+		const amountError = checkResultAmount(parsed, expected);
+		if (amountError) {
+			errors.push({
+				line,
+				employeeId: parsed.employeeId,
+				field: config.PAYROLL.RESULTS.COLUMNS.AMOUNT,
+				message: amountError,
+			});
+			lines.push({ ...resultLine, outcome: "ERROR", message: amountError });
+			continue;
+		}
+
+		try {
+			const posted = await postEmployeeResult(prisma, batchId, parsed, installments);
+			totals.deducted += posted.deducted;
+			totals.partial += posted.partial;
+			totals.failed += posted.failed;
+			totals.skipped += posted.skipped;
+			amounts.expected = roundMoney(amounts.expected + expected);
+			amounts.deducted = roundMoney(amounts.deducted + posted.amount);
+			amounts.unpaid = roundMoney(amounts.unpaid + expected - posted.amount);
+			lines.push({ ...resultLine, outcome: "POSTED", deductedAmount: posted.amount });
+		} catch (error: any) {
+			payrollBatchLogger.error(
+				`Failed to post payroll result for ${parsed.employeeId} in ${batch.batchNumber}:`,
+				error,
+			);
+			const message = error?.message || "Failed to post the result";
+			errors.push({ line, employeeId: parsed.employeeId, message });
+			lines.push({ ...resultLine, outcome: "ERROR", message });
+		}
+	}
+
+	// Employees still waiting for a result after this file
+	const remaining = await prisma.installment.findMany({
+		where: { payrollBatchId: batchId, status: "SCHEDULED" },
+		select: { id: true },
+	});
+	const remainingIds = new Set(remaining.map((installment) => installment.id));
+	const missingEmployees = [...linesByEmployee.entries()]
+		.filter(([, employeeLines]) => employeeLines.some((l) => remainingIds.has(l.installmentId)))
+		.map(([employeeId]) => employeeId);
+
+	const importedAt = new Date();
+	const summary: PayrollResultSummary = {
+		batchId,
+		batchNumber: batch.batchNumber,
+		fileName: file.originalname || null,
+		fileHash,
+		importedAt,
+		rows: {
+			total: resultRows,
+			posted: lines.filter((l) => l.outcome === "POSTED").length,
+			skipped: lines.filter((l) => l.outcome === "SKIPPED").length,
+			errors: new Set(errors.map((e) => e.line)).size,
+		},
+		installments: totals,
+		amounts,
+		missingEmployees,
+		batchStatus: remainingIds.size === 0 ? "RECONCILED" : batch.status,
+		errors,
+		duplicate: false,
+	};
+
+	await prisma.payrollBatch.update({
+		where: { id: batchId },
+		data: {
+			resultImports: {
+				push: {
+					fileHash,
+					fileName: file.originalname || null,
+					importedAt,
+					importedBy,
+					summary: summary as unknown as Prisma.InputJsonValue,
+				},
+			},
+			...(remainingIds.size === 0 && { status: "RECONCILED", reconciledAt: importedAt }),
+		},
+	});
+
+	payrollBatchLogger.info(
+		`Payroll results imported into ${batch.batchNumber}: ${summary.rows.posted} posted, ` +
+			`${summary.rows.skipped} skipped, ${summary.rows.errors} with errors, ` +
+			`${missingEmployees.length} employees still without a result`,
+	);
+
+	return { ...summary, lines };
+}
@@ -0,0 +1,275 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { config } from "../config/constant";
+import { getEmployeeProfile } from "./employeeService";
+
+const logger = getLogger();
+const payrollCalendarLogger = logger.child({ module: "payrollCalendarService" });
+
+export type PayrollFrequency = "WEEKLY" | "BI_WEEKLY" | "SEMI_MONTHLY" | "MONTHLY";
+
+export type HolidayShift = "PREVIOUS_WORKING_DAY" | "NEXT_WORKING_DAY";
+
+/**
+ * Payroll periods in a year, used to turn an installment plan in months into a number of
+ * deductions
+ */
+const PERIODS_PER_YEAR: Record<PayrollFrequency, number> = {
+	WEEKLY: 52,
+	BI_WEEKLY: 26,
+	SEMI_MONTHLY: 24,
+	MONTHLY: 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PayrollCalendarRules {
+	id: string | null; // null when the configured default applies
+	name: string;
+	frequency: PayrollFrequency;
+	cutoffWeekday?: number | null;
+	anchorDate?: string | null;
+	firstCutoffDay?: number | null;
+	secondCutoffDay?: number | null;
+	monthlyCutoffDay?: number | null;
+	payDateOffsetDays: number;
+	nonWorkingWeekdays: number[];
+	holidays: string[];
+	holidayShift: HolidayShift;
+}
+
+export interface PayrollDate {
+	cutOffDate: Date;
+	payDate: Date;
+}
+
+/**
+ * Calendar key for a date. Payroll dates are built from local dates, so avoid toISOString.
+ */
+function dateKey(date: Date): string {
+	const month = (date.getMonth() + 1).toString().padStart(2, "0");
+	const day = date.getDate().toString().padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function parseDateKey(key: string): Date {
+	const [year, month, day] = key.split("-").map(Number);
+	return new Date(year, month - 1, day);
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Day of a month, capped at its last day; null means the last day
+ */
+function dayOfMonth(year: number, month: number, day: number | null | undefined): Date {
+	const lastDay = new Date(year, month + 1, 0).getDate();
+	return new Date(year, month, day ? Math.min(day, lastDay) : lastDay);
+}
+
+export function defaultPayrollCalendar(): PayrollCalendarRules {
+	const fallback = config.PAYROLL.DEFAULT_CALENDAR;
+	return {
+		id: null,
+		name: fallback.NAME,
+		frequency: fallback.FREQUENCY,
+		firstCutoffDay: fallback.FIRST_CUTOFF_DAY,
+		secondCutoffDay: fallback.SECOND_CUTOFF_DAY,
+		payDateOffsetDays: fallback.PAY_DATE_OFFSET_DAYS,
+		nonWorkingWeekdays: [...fallback.NON_WORKING_WEEKDAYS],
+		holidays: [],
+		holidayShift: "PREVIOUS_WORKING_DAY",
+	};
+}
+
+/**
+ * Rules of a stored PayrollCalendar record
+ */
+export function toPayrollCalendarRules(calendar: any): PayrollCalendarRules {
+	return {
+		id: calendar.id,
+		name: calendar.name,
+		frequency: calendar.frequency,
+		cutoffWeekday: calendar.cutoffWeekday,
+		anchorDate: calendar.anchorDate,
+		firstCutoffDay: calendar.firstCutoffDay,
+		secondCutoffDay: calendar.secondCutoffDay,
+		monthlyCutoffDay: calendar.monthlyCutoffDay,
+		payDateOffsetDays: calendar.payDateOffsetDays,
+		nonWorkingWeekdays: calendar.nonWorkingWeekdays || [],
+		holidays: calendar.holidays || [],
+		holidayShift: calendar.holidayShift,
+	};
+}
+
+/**
+ * Calendar for an organization: its own active calendar, then the active default calendar,
+ * then the configured default
+ */
+export async function resolvePayrollCalendar(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	organizationId?: string | null,
+): Promise<PayrollCalendarRules> {
+	// Few calendars exist and the default one may have no organizationId field at all
+	const calendars = await prisma.payrollCalendar.findMany({ where: { isActive: true } });
+
+	const calendar =
+		(organizationId && calendars.find((c) => c.organizationId === organizationId)) ||
+		calendars.find((c) => !c.organizationId);
+
+	return calendar ? toPayrollCalendarRules(calendar) : defaultPayrollCalendar();
+}
+
+/**
+ * Calendar of the organization on the employee's Person record
+ */
+export async function resolveEmployeePayrollCalendar(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeId: string,
+): Promise<PayrollCalendarRules> {
+	const { organizationId } = await getEmployeeProfile(prisma, employeeId);
+	return resolvePayrollCalendar(prisma, organizationId);
+}
+
+/**
+ * Calendar stored on an order, falling back to the default when it is missing or inactive
+ */
+export async function getPayrollCalendar(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	payrollCalendarId: string | null | undefined,
+): Promise<PayrollCalendarRules> {
+	if (payrollCalendarId) {
+		const calendar = await prisma.payrollCalendar.findFirst({
+			where: { id: payrollCalendarId, isActive: true },
+		});
+		if (calendar) {
+			return toPayrollCalendarRules(calendar);
+		}
+		payrollCalendarLogger.warn(
+			`Payroll calendar ${payrollCalendarId} is missing or inactive; using the default`,
+		);
+	}
+	return resolvePayrollCalendar(prisma, null);
+}
+
+/**
+ * Number of payroll periods in a year on a calendar
+ */
+export function getPeriodsPerYear(calendar: PayrollCalendarRules): number {
+	return PERIODS_PER_YEAR[calendar.frequency];
+}
+
+/**
+ * Number of payroll deductions in an installment plan of the given length
+ */
+export function countPayrollPeriods(calendar: PayrollCalendarRules, months: number): number {
+	return Math.max(1, Math.round((months * getPeriodsPerYear(calendar)) / 12));
+}
+
+/**
+ * First cutoff on or after a date
+ */
+function firstCutoffOnOrAfter(calendar: PayrollCalendarRules, from: Date): Date {
+	switch (calendar.frequency) {
+		case "WEEKLY": {
+			const weekday = calendar.cutoffWeekday ?? 5;
+			return addDays(from, (weekday - from.getDay() + 7) % 7);
+		}
+		case "BI_WEEKLY": {
+			const anchor = calendar.anchorDate ? parseDateKey(calendar.anchorDate) : from;
+			const days = Math.round((from.getTime() - anchor.getTime()) / DAY_MS);
+			return addDays(anchor, Math.ceil(days / 14) * 14);
+		}
+		case "MONTHLY": {
+			const cutoff = dayOfMonth(
+				from.getFullYear(),
+				from.getMonth(),
+				calendar.monthlyCutoffDay,
+			);
+			return cutoff >= from
+				? cutoff
+				: dayOfMonth(from.getFullYear(), from.getMonth() + 1, calendar.monthlyCutoffDay);
+		}
+		case "SEMI_MONTHLY":
+		default:
+			return nextSemiMonthlyCutoff(calendar, addDays(from, -1));
+	}
+}
+
+/**
+ * Next semi-monthly cutoff strictly after a date
+ */
+function nextSemiMonthlyCutoff(calendar: PayrollCalendarRules, after: Date): Date {
+	for (let offset = 0; ; offset++) {
+		const year = after.getFullYear();
+		const month = after.getMonth() + offset;
+		const first = dayOfMonth(year, month, calendar.firstCutoffDay ?? 15);
+		const second = dayOfMonth(year, month, calendar.secondCutoffDay);
+		if (first > after) return first;
+		if (second > after) return second;
+	}
+}
+
+function nextCutoff(calendar: PayrollCalendarRules, cutoff: Date): Date {
+	switch (calendar.frequency) {
+		case "WEEKLY":
+			return addDays(cutoff, 7);
+		case "BI_WEEKLY":
+			return addDays(cutoff, 14);
+		case "MONTHLY":
+			return dayOfMonth(
+				cutoff.getFullYear(),
+				cutoff.getMonth() + 1,
+				calendar.monthlyCutoffDay,
+			);
+		case "SEMI_MONTHLY":
+		default:
+			return nextSemiMonthlyCutoff(calendar, cutoff);
+	}
+}
+
+function isWorkingDay(calendar: PayrollCalendarRules, date: Date): boolean {
+	return (
+		!calendar.nonWorkingWeekdays.includes(date.getDay()) &&
+		!calendar.holidays.includes(dateKey(date))
+	);
+}
+
+/**
+ * Pay date for a cutoff: the cutoff plus the calendar's offset, moved to the nearest working day
+ * in the direction of the holiday shift
+ */
+export function calculatePayDate(calendar: PayrollCalendarRules, cutoffDate: Date): Date {
+	const step = calendar.holidayShift === "NEXT_WORKING_DAY" ? 1 : -1;
+	let payDate = addDays(cutoffDate, calendar.payDateOffsetDays);
+
+	// A calendar with every weekday off would never settle; a year is plenty
+	for (let i = 0; i < 366 && !isWorkingDay(calendar, payDate); i++) {
+		payDate = addDays(payDate, step);
+	}
+	return payDate;
+}
+
+/**
+ * The next payroll cutoffs and pay dates, starting with the first cutoff on or after startDate
+ */
+export function calculatePayrollDates(
+	calendar: PayrollCalendarRules,
+	startDate: Date,
+	count: number,
+): PayrollDate[] {
+	const dates: PayrollDate[] = [];
+	let cutOffDate = firstCutoffOnOrAfter(calendar, startOfDay(startDate));
+
+	for (let i = 0; i < count; i++) {
+		dates.push({ cutOffDate, payDate: calculatePayDate(calendar, cutOffDate) });
+		cutOffDate = nextCutoff(calendar, cutOffDate);
+	}
+	return dates;
+}
@@ -0,0 +1,515 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+
+const logger = getLogger();
+const pointsLogger = logger.child({ module: "pointsService" });
+
+/**
+ * Entry types that add points to a wallet and can expire
+ */
+const EXPIRING_ENTRY_TYPES = ["GRANT", "EARN"] as const;
+
+/**
+ * Entry types an order reverses when it is cancelled, rejected or returned
+ */
+const ORDER_ENTRY_TYPES = ["REDEEM", "EARN"] as const;
+
+type EntryType = "GRANT" | "EARN" | "REDEEM" | "EXPIRE" | "REVERSAL";
+
+export interface PointsGrant {
+	employeeId: string;
+	points: number;
+	reason?: string | null;
+	expiresAt?: Date | null;
+}
+
+export interface PointsExpiryResult {
+	asOf: Date;
+	walletsChecked: number;
+	walletsExpired: number;
+	pointsExpired: number;
+}
+
+function roundPoints(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Default expiry for newly granted or earned points
+ */
+export function defaultPointsExpiry(from: Date = new Date()): Date | null {
+	const months = config.POINTS.EXPIRY_MONTHS;
+	if (months === null) return null;
+
+	const expiresAt = new Date(from);
+	expiresAt.setMonth(expiresAt.getMonth() + months);
+	return expiresAt;
+}
+
+export async function getOrCreateWallet(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeId: string,
+) {
+	return prisma.pointsWallet.upsert({
+		where: { employeeId },
+		update: {},
+		create: { employeeId },
+	});
+}
+
+/**
+ * Add points to a wallet and record the entry
+ */
+async function creditWallet(
+	tx: Prisma.TransactionClient,
+	employeeId: string,
+	points: number,
+	entry: {
+		type: EntryType;
+		totals: Prisma.PointsWalletUpdateInput;
+		orderId?: string | null;
+		reversedEntryId?: string | null;
+		grantBatchId?: string | null;
+		expiresAt?: Date | null;
+		reason?: string | null;
+		createdBy?: string | null;
+	},
+) {
+	const existing = await getOrCreateWallet(tx, employeeId);
+	const wallet = await tx.pointsWallet.update({
+		where: { id: existing.id },
+		data: { ...entry.totals, balance: { increment: points } },
+	});
+
+	return tx.pointsLedgerEntry.create({
+		data: {
+			walletId: wallet.id,
+			employeeId,
+			type: entry.type,
+			points,
+			balanceAfter: roundPoints(wallet.balance),
+			orderId: entry.orderId || null,
+			reversedEntryId: entry.reversedEntryId || null,
+			grantBatchId: entry.grantBatchId || null,
+			expiresAt: entry.expiresAt || null,
+			reason: entry.reason || null,
+			createdBy: entry.createdBy || null,
+		},
+	});
+}
+
+/**
+ * Take points from a wallet and record the entry. The balance is only decremented while it
+ * covers the amount, so concurrent debits cannot overdraw the wallet.
+ */
+async function debitWallet(
+	tx: Prisma.TransactionClient,
+	employeeId: string,
+	points: number,
+	entry: {
+		type: EntryType;
+		totals: Prisma.PointsWalletUpdateManyMutationInput;
+		orderId?: string | null;
+		reversedEntryId?: string | null;
+		reason?: string | null;
+		createdBy?: string | null;
+	},
+) {
+	const existing = await getOrCreateWallet(tx, employeeId);
+	const debited = await tx.pointsWallet.updateMany({
+		where: { id: existing.id, balance: { gte: points } },
+		data: { ...entry.totals, balance: { decrement: points } },
+	});
+
+	if (debited.count === 0) {
+		const message = `Insufficient points: ${points} requested, ${roundPoints(existing.balance)} available`;
+		throw new ServiceError(message, 422, [{ field: "pointsUsed", message }]);
+	}
+
+	const wallet = await tx.pointsWallet.findUniqueOrThrow({ where: { id: existing.id } });
+	return tx.pointsLedgerEntry.create({
+		data: {
+			walletId: wallet.id,
+			employeeId,
+			type: entry.type,
+			points: -points,
+			balanceAfter: roundPoints(wallet.balance),
+			orderId: entry.orderId || null,
+			reversedEntryId: entry.reversedEntryId || null,
+			reason: entry.reason || null,
+			createdBy: entry.createdBy || null,
+		},
+	});
+}
+
+/**
+ * Grant points to one employee
+ */
+export async function grantPoints(
+	tx: Prisma.TransactionClient,
+	grant: PointsGrant,
+	options: { grantBatchId?: string; grantedBy: string },
+) {
+	const points = roundPoints(grant.points);
+	return creditWallet(tx, grant.employeeId, points, {
+		type: "GRANT",
+		totals: { lifetimeEarned: { increment: points } },
+		grantBatchId: options.grantBatchId,
+		expiresAt: grant.expiresAt === undefined ? defaultPointsExpiry() : grant.expiresAt,
+		reason: grant.reason,
+		createdBy: options.grantedBy,
+	});
+}
+
+/**
+ * Grant points to many employees. Each grant is committed on its own so one bad row does not
+ * block the rest; the grants share a batch ID for tracing.
+ */
+export async function bulkGrantPoints(
+	prisma: PrismaClient,
+	grants: PointsGrant[],
+	options: { grantBatchId: string; grantedBy: string },
+) {
+	const granted: { employeeId: string; points: number; entryId: string; balance: number }[] = [];
+	const failed: { index: number; employeeId: string; message: string }[] = [];
+
+	for (const [index, grant] of grants.entries()) {
+		try {
+			const entry = await prisma.$transaction((tx) => grantPoints(tx, grant, options));
+			granted.push({
+				employeeId: grant.employeeId,
+				points: entry.points,
+				entryId: entry.id,
+				balance: entry.balanceAfter,
+			});
+		} catch (error: any) {
+			pointsLogger.error(
+				`Points grant ${index} for ${grant.employeeId} in batch ${options.grantBatchId} failed:`,
+				error,
+			);
+			failed.push({
+				index,
+				employeeId: grant.employeeId,
+				message: error instanceof ServiceError ? error.message : "Grant failed",
+			});
+		}
+	}
+
+	pointsLogger.info(
+		`Points batch ${options.grantBatchId}: ${granted.length} granted, ${failed.length} failed`,
+	);
+
+	return {
+		grantBatchId: options.grantBatchId,
+		grantedCount: granted.length,
+		failedCount: failed.length,
+		totalPoints: roundPoints(granted.reduce((sum, g) => sum + g.points, 0)),
+		granted,
+		failed,
+	};
+}
+
+/**
+ * Spend points on an order. Must run inside the transaction that creates the order.
+ */
+export async function redeemPoints(
+	tx: Prisma.TransactionClient,
+	options: { employeeId: string; points: number; orderId: string; createdBy?: string },
+) {
+	const points = roundPoints(options.points);
+	const entry = await debitWallet(tx, options.employeeId, points, {
+		type: "REDEEM",
+		totals: { lifetimeRedeemed: { increment: points } },
+		orderId: options.orderId,
+		reason: "Order payment",
+		createdBy: options.createdBy || options.employeeId,
+	});
+
+	pointsLogger.info(
+		`Redeemed ${points} points for order ${options.orderId}, balance ${entry.balanceAfter}`,
+	);
+	return entry;
+}
+
+/**
+ * Award points for a delivered order at the configured earn rate.
+ * Points paid with points do not earn; an order only earns once.
+ */
+export async function earnOrderPoints(
+	tx: Prisma.TransactionClient,
+	order: { id: string; employeeId: string; total: number; orderNumber: string },
+) {
+	const points = roundPoints(order.total * config.POINTS.EARN_RATE);
+	if (points <= 0) return null;
+
+	const alreadyEarned = await tx.pointsLedgerEntry.count({
+		where: { orderId: order.id, type: "EARN" },
+	});
+	if (alreadyEarned > 0) return null;
+
+	const entry = await creditWallet(tx, order.employeeId, points, {
+		type: "EARN",
+		totals: { lifetimeEarned: { increment: points } },
+		orderId: order.id,
+		expiresAt: defaultPointsExpiry(),
+		reason: `Earned on order ${order.orderNumber}`,
+		createdBy: "system",
+	});
+
+	pointsLogger.info(`Order ${order.orderNumber} earned ${points} points`);
+	return entry;
+}
+
+/**
+ * Points of an entry that earlier reversals have not undone yet
+ */
+async function unreversedPoints(
+	tx: Prisma.TransactionClient,
+	entry: { id: string; points: number },
+): Promise<number> {
+	const reversals = await tx.pointsLedgerEntry.findMany({
+		where: { reversedEntryId: entry.id, type: "REVERSAL" },
+		select: { points: true },
+	});
+	const reversed = reversals.reduce((sum, r) => sum + Math.abs(r.points), 0);
+	return roundPoints(Math.abs(entry.points) - reversed);
+}
+
+/**
+ * Undo a ledger entry with an opposite REVERSAL entry.
+ * Reversing a credit only takes back what is still in the wallet, so a clawback never
+ * leaves a negative balance; the entry records the amount actually taken back.
+ */
+export async function reversePointsEntry(
+	tx: Prisma.TransactionClient,
+	entryId: string,
+	options: { reason: string; reversedBy: string },
+) {
+	const entry = await tx.pointsLedgerEntry.findUnique({ where: { id: entryId } });
+	if (!entry) {
+		throw new ServiceError(config.ERROR.POINTSWALLET.ENTRY_NOT_FOUND, 404);
+	}
+	if (entry.type === "REVERSAL") {
+		throw new ServiceError("A reversal cannot itself be reversed", 409);
+	}
+
+	const remaining = await unreversedPoints(tx, entry);
+	if (remaining <= 0) {
+		throw new ServiceError(`Points entry ${entryId} has already been reversed`, 409);
+	}
+
+	// Debits (REDEEM, EXPIRE) are given back in full
+	if (entry.points < 0) {
+		return creditWallet(tx, entry.employeeId, remaining, {
+			type: "REVERSAL",
+			totals:
+				entry.type === "REDEEM"
+					? { lifetimeRedeemed: { decrement: remaining } }
+					: { lifetimeExpired: { decrement: remaining } },
+			orderId: entry.orderId,
+			reversedEntryId: entry.id,
+			reason: options.reason,
+			createdBy: options.reversedBy,
+		});
+	}
+
+	const wallet = await getOrCreateWallet(tx, entry.employeeId);
+	const clawback = roundPoints(Math.min(remaining, wallet.balance));
+	if (clawback <= 0) {
+		throw new ServiceError(
+			`Points entry ${entryId} cannot be reversed: the wallet has no points left`,
+			409,
+		);
+	}
+
+	return debitWallet(tx, entry.employeeId, clawback, {
+		type: "REVERSAL",
+		totals: { lifetimeEarned: { decrement: clawback } },
+		orderId: entry.orderId,
+		reversedEntryId: entry.id,
+		reason: options.reason,
+		createdBy: options.reversedBy,
+	});
+}
+
+/**
+ * Give back part of the points spent on an order, e.g. for returned items. The points are
+ * reversed from the order's REDEEM entries, never more than is left unreversed on them.
+ */
+export async function refundRedeemedPoints(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+	points: number,
+	options: { reason: string; reversedBy: string },
+) {
+	const redemptions = await tx.pointsLedgerEntry.findMany({
+		where: { orderId, type: "REDEEM" },
+		orderBy: { createdAt: "asc" },
+	});
+
+	let remaining = roundPoints(points);
+	let refundedPoints = 0;
+
+	for (const entry of redemptions) {
+		if (remaining <= 0) break;
+
+		const refund = roundPoints(Math.min(remaining, await unreversedPoints(tx, entry)));
+		if (refund <= 0) continue;
+
+		await creditWallet(tx, entry.employeeId, refund, {
+			type: "REVERSAL",
+			totals: { lifetimeRedeemed: { decrement: refund } },
+			orderId,
+			reversedEntryId: entry.id,
+			reason: options.reason,
+			createdBy: options.reversedBy,
+		});
+		refundedPoints = roundPoints(refundedPoints + refund);
+		remaining = roundPoints(remaining - refund);
+	}
+
+	if (refundedPoints > 0) {
+		pointsLogger.info(`Refunded ${refundedPoints} points redeemed on order ${orderId}`);
+	}
+	return refundedPoints;
+}
+
+/**
+ * Give back points spent on an order and take back points it earned.
+ * Used when an order is cancelled, rejected or fully returned.
+ */
+export async function reverseOrderPoints(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+	options: { reason: string; reversedBy: string },
+) {
+	const entries = await tx.pointsLedgerEntry.findMany({
+		where: { orderId, type: { in: [...ORDER_ENTRY_TYPES] } },
+	});
+
+	let refundedPoints = 0;
+	let clawedBackPoints = 0;
+
+	for (const entry of entries) {
+		if ((await unreversedPoints(tx, entry)) <= 0) continue;
+
+		const wallet = await getOrCreateWallet(tx, entry.employeeId);
+		if (entry.points > 0 && wallet.balance <= 0) {
+			pointsLogger.warn(
+				`Points earned on order ${orderId} were already spent; nothing to take back`,
+			);
+			continue;
+		}
+
+		const reversal = await reversePointsEntry(tx, entry.id, options);
+		if (entry.type === "REDEEM") {
+			refundedPoints += reversal.points;
+		} else {
+			clawedBackPoints += Math.abs(reversal.points);
+		}
+	}
+
+	if (entries.length > 0) {
+		pointsLogger.info(
+			`Reversed points for order ${orderId}: ${refundedPoints} refunded, ${clawedBackPoints} taken back`,
+		);
+	}
+
+	return {
+		refundedPoints: roundPoints(refundedPoints),
+		clawedBackPoints: roundPoints(clawedBackPoints),
+	};
+}
+
+/**
+ * Expire a wallet's lapsed points.
+ * Spending is assumed to use the points closest to expiry first, so only what is left of the
+ * lapsed credits after every redemption and earlier expiry is taken.
+ */
+export async function expireWalletPoints(
+	tx: Prisma.TransactionClient,
+	walletId: string,
+	asOf: Date,
+): Promise<number> {
+	const wallet = await tx.pointsWallet.findUniqueOrThrow({ where: { id: walletId } });
+	const entries = await tx.pointsLedgerEntry.findMany({ where: { walletId } });
+
+	const reversedByEntry = new Map<string, number>();
+	for (const entry of entries) {
+		if (entry.type === "REVERSAL" && entry.reversedEntryId) {
+			reversedByEntry.set(
+				entry.reversedEntryId,
+				(reversedByEntry.get(entry.reversedEntryId) || 0) + Math.abs(entry.points),
+			);
+		}
+	}
+
+	let lapsedCredits = 0;
+	let consumed = 0;
+	for (const entry of entries) {
+		const net = Math.abs(entry.points) - (reversedByEntry.get(entry.id) || 0);
+		if ((EXPIRING_ENTRY_TYPES as readonly string[]).includes(entry.type)) {
+			if (entry.expiresAt && entry.expiresAt <= asOf) lapsedCredits += net;
+		} else if (entry.type === "REDEEM" || entry.type === "EXPIRE") {
+			consumed += net;
+		}
+	}
+
+	const due = roundPoints(Math.min(Math.max(lapsedCredits - consumed, 0), wallet.balance));
+	if (due <= 0) return 0;
+
+	await debitWallet(tx, wallet.employeeId, due, {
+		type: "EXPIRE",
+		totals: { lifetimeExpired: { increment: due } },
+		reason: `Points expired as of ${asOf.toISOString()}`,
+		createdBy: "system",
+	});
+	return due;
+}
+
+/**
+ * Expire lapsed points across all wallets that hold expiring credits
+ */
+export async function expirePoints(
+	prisma: PrismaClient,
+	asOf: Date = new Date(),
+): Promise<PointsExpiryResult> {
+	try {
+		const walletIds = await prisma.pointsLedgerEntry.findMany({
+			where: {
+				type: { in: [...EXPIRING_ENTRY_TYPES] },
+				expiresAt: { lte: asOf },
+			},
+			select: { walletId: true },
+			distinct: ["walletId"],
+		});
+
+		let walletsExpired = 0;
+		let pointsExpired = 0;
+		for (const { walletId } of walletIds) {
+			const expired = await prisma.$transaction((tx) =>
+				expireWalletPoints(tx, walletId, asOf),
+			);
+			if (expired > 0) {
+				walletsExpired += 1;
+				pointsExpired += expired;
+			}
+		}
+
+		pointsLogger.info(
+			`Points expiry as of ${asOf.toISOString()}: ${pointsExpired} points from ${walletsExpired} wallet(s)`,
+		);
+
+		return {
+			asOf,
+			walletsChecked: walletIds.length,
+			walletsExpired,
+			pointsExpired: roundPoints(pointsExpired),
+		};
+	} catch (error) {
+		pointsLogger.error("Failed to expire points:", error);
+		throw error;
+	}
+}
@@ -0,0 +1,373 @@
+import { PrismaClient } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { findOrderLedgers, recordPrepayment } from "./transactionService";
+
+const logger = getLogger();
+const prepaymentLogger = logger.child({ module: "prepaymentService" });
+
+/**
+ * Orders that no longer owe anything, so nothing can be prepaid on them
+ */
+const CLOSED_ORDER_STATUSES = ["REJECTED", "CANCELLED", "RETURNED"];
+
+/**
+ * Deductions that left part of the installment unpaid
+ */
+const UNPAID_INSTALLMENT_STATUSES = ["FAILED", "PARTIAL"];
+
+export type PrepaymentTarget = "REMAINING_BALANCE" | "NEXT_INSTALLMENTS";
+
+export interface PrepaymentInput {
+	applyTo: PrepaymentTarget;
+	amount?: number;
+	installmentCount?: number;
+	paymentMethod: "CASH" | "BANK_TRANSFER";
+	reference?: string;
+	notes?: string;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Split an amount into parts that add up to it exactly; the last part takes the rounding
+ */
+function splitAmount(amount: number, parts: number): number[] {
+	const share = roundMoney(amount / parts);
+	return Array.from({ length: parts }, (_, i) =>
+		i === parts - 1 ? roundMoney(amount - share * (parts - 1)) : share,
+	);
+}
+
+/**
+ * Spread an amount over at most maxParts parts of at least 0.01 each; small amounts take
+ * fewer parts
+ */
+function spreadAmount(amount: number, maxParts: number): number[] {
+	let parts = Math.max(Math.min(maxParts, Math.floor(roundMoney(amount * 100))), 1);
+	let shares = splitAmount(amount, parts);
+	while (parts > 1 && shares[parts - 1] < 0.01) {
+		shares = splitAmount(amount, --parts);
+	}
+	return shares;
+}
+
+/**
+ * Apply a cash or bank payment to an installment order ahead of payroll.
+ *
+ * NEXT_INSTALLMENTS pays the next installmentCount PENDING installments in full; they become
+ * PREPAID. REMAINING_BALANCE pays towards all PENDING installments and the arrears of FAILED or
+ * PARTIAL deductions not carried forward yet: the whole balance marks them PREPAID, a smaller
+ * amount is booked as one PREPAID installment and the PENDING ones are cancelled and
+ * regenerated on the same cutoffs for what is left, on fewer of them when the rest is too small
+ * to split. Either way the arrears are carried into the payment. Installments already
+ * SCHEDULED in a payroll batch are left to payroll. The payment is posted to the order's ledger
+ * and the order is marked paid once every ledger is settled.
+ */
+export async function prepayOrder(
+	prisma: PrismaClient,
+	orderId: string,
+	input: PrepaymentInput,
+	options: { changedBy: string },
+) {
+	const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+	if (!order) {
+		throw new ServiceError("Order not found", 404);
+	}
+	if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} is ${order.status} and cannot be prepaid`,
+			409,
+		);
+	}
+
+	const pending = await prisma.installment.findMany({
+		where: { orderId, status: "PENDING" },
+		orderBy: [{ cutOffDate: "asc" }, { installmentNumber: "asc" }],
+	});
+
+	if (pending.length === 0) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} has no pending installments to prepay`,
+			409,
+			[
+				{
+					field: "installments",
+					message:
+						"The schedule has not started yet, or every installment is paid or already scheduled for payroll",
+				},
+			],
+		);
+	}
+
+	// Arrears already carried forward are part of the PENDING amounts; unpaid deductions not
+	// carried forward yet are owed on top of them
+	const arrears =
+		input.applyTo === "REMAINING_BALANCE"
+			? (
+					await prisma.installment.findMany({
+						where: {
+							orderId,
+							status: { in: UNPAID_INSTALLMENT_STATUSES as any },
+							OR: [
+								{ carriedForwardAmount: null },
+								{ carriedForwardAmount: { isSet: false } },
+							],
+						},
+					})
+				)
+					.map((installment) => ({
+						installment,
+						unpaidAmount: roundMoney(
+							installment.amount - (installment.deductedAmount ?? 0),
+						),
+						// Deductions pay interest first
+						unpaidInterest: roundMoney(
+							Math.max(
+								(installment.interestAmount ?? 0) -
+									(installment.deductedAmount ?? 0),
+								0,
+							),
+						),
+					}))
+					.filter((entry) => entry.unpaidAmount > 0)
+			: [];
+
+	const remainingBalance = roundMoney(
+		pending.reduce((sum, i) => sum + i.amount, 0) +
+			arrears.reduce((sum, entry) => sum + entry.unpaidAmount, 0),
+	);
+	const remainingInterest = roundMoney(
+		pending.reduce((sum, i) => sum + (i.interestAmount || 0), 0) +
+			arrears.reduce((sum, entry) => sum + entry.unpaidInterest, 0),
+	);
+	let covered = pending;
+	let amount: number;
+
+	if (input.applyTo === "NEXT_INSTALLMENTS") {
+		const count = input.installmentCount ?? 0;
+		if (count > pending.length) {
+			throw new ServiceError(
+				`Order ${order.orderNumber} has only ${pending.length} pending installment(s)`,
+				422,
+				[{ field: "installmentCount", message: `At most ${pending.length}` }],
+				{ pendingInstallments: pending.length },
+			);
+		}
+		covered = pending.slice(0, count);
+		amount = roundMoney(covered.reduce((sum, i) => sum + i.amount, 0));
+
+		if (input.amount !== undefined && roundMoney(input.amount) !== amount) {
+			throw new ServiceError(
+				`The next ${count} installment(s) come to ${amount}`,
+				422,
+				[{ field: "amount", message: `Must be ${amount} or left out` }],
+				{ amountDue: amount },
+			);
+		}
+	} else {
+		amount = roundMoney(input.amount ?? remainingBalance);
+		if (amount > remainingBalance) {
+			throw new ServiceError(
+				`The payment exceeds the remaining balance of ${remainingBalance}`,
+				422,
+				[{ field: "amount", message: `At most ${remainingBalance}` }],
+				{ remainingBalance },
+			);
+		}
+	}
+
+	// Anything short of the installments it covers leaves a balance to reschedule
+	const regenerate = amount < remainingBalance && input.applyTo === "REMAINING_BALANCE";
+	// On a financed order the payment settles interest before principal
+	const interestPaid = regenerate
+		? Math.min(remainingInterest, amount)
+		: roundMoney(
+				covered.reduce((sum, i) => sum + (i.interestAmount || 0), 0) +
+					arrears.reduce((sum, entry) => sum + entry.unpaidInterest, 0),
+			);
+	const paidAt = new Date();
+	const notes =
+		input.notes ||
+		`Prepaid by ${input.paymentMethod === "CASH" ? "cash" : "bank transfer"}` +
+			(input.reference ? ` (${input.reference})` : "");
+
+	const result = await prisma.$transaction(
+		async (tx) => {
+			const prepaid: any[] = [];
+			const regenerated: any[] = [];
+
+			// The arrears are settled by this payment, so they can no longer be carried forward
+			for (const { installment, unpaidAmount } of arrears) {
+				const claimed = await tx.installment.updateMany({
+					where: {
+						id: installment.id,
+						status: installment.status,
+						OR: [
+							{ carriedForwardAmount: null },
+							{ carriedForwardAmount: { isSet: false } },
+						],
+					},
+					data: { carriedForwardAmount: unpaidAmount },
+				});
+				if (claimed.count === 0) {
+					throw new ServiceError(
+						`The arrears of installment ${installment.installmentNumber} were carried forward meanwhile`,
+						409,
+					);
+				}
+			}
+
+			if (!regenerate) {
+				for (const installment of covered) {
+					const claimed = await tx.installment.updateMany({
+						where: { id: installment.id, status: "PENDING" },
+						data: {
+							status: "PREPAID",
+							deductedDate: paidAt,
+							deductedAmount: installment.amount,
+							deductionReference: input.reference,
+							notes,
+						},
+					});
+					if (claimed.count === 0) {
+						throw new ServiceError(
+							`Installment ${installment.installmentNumber} was scheduled for payroll meanwhile`,
+							409,
+						);
+					}
+					prepaid.push({
+						...installment,
+						status: "PREPAID",
+						deductedAmount: installment.amount,
+					});
+				}
+			} else {
+				const cancelled = await tx.installment.updateMany({
+					where: { id: { in: pending.map((i) => i.id) }, status: "PENDING" },
+					data: {
+						status: "CANCELLED",
+						notes: `Rescheduled after prepayment of ${amount}`,
+					},
+				});
+				if (cancelled.count !== pending.length) {
+					throw new ServiceError(
+						"Some installments were scheduled for payroll meanwhile",
+						409,
+					);
+				}
+
+				const last = await tx.installment.findFirst({
+					where: { orderId },
+					orderBy: { installmentNumber: "desc" },
+				});
+				let installmentNumber = last?.installmentNumber ?? 0;
+
+				prepaid.push(
+					await tx.installment.create({
+						data: {
+							orderId,
+							installmentNumber: ++installmentNumber,
+							amount,
+							status: "PREPAID",
+							cutOffDate: paidAt,
+							scheduledDate: paidAt,
+							deductedDate: paidAt,
+							deductedAmount: amount,
+							deductionReference: input.reference,
+							...(remainingInterest > 0 && {
+								principalAmount: roundMoney(amount - interestPaid),
+								interestAmount: interestPaid,
+							}),
+							notes,
+						},
+					}),
+				);
+
+				const shares = spreadAmount(roundMoney(remainingBalance - amount), pending.length);
+				const interestShares = splitAmount(
+					roundMoney(remainingInterest - interestPaid),
+					shares.length,
+				);
+				for (const [index, installment] of pending.slice(0, shares.length).entries()) {
+					regenerated.push(
+						await tx.installment.create({
+							data: {
+								orderId,
+								installmentNumber: ++installmentNumber,
+								amount: shares[index],
+								...(remainingInterest > 0 && {
+									principalAmount: roundMoney(
+										shares[index] - interestShares[index],
+									),
+									interestAmount: interestShares[index],
+								}),
+								status: "PENDING",
+								cutOffDate: installment.cutOffDate,
+								scheduledDate: installment.scheduledDate,
+								notes: `Replaces installment ${installment.installmentNumber} after prepayment`,
+							},
+						}),
+					);
+				}
+
+				await tx.order.update({
+					where: { id: orderId },
+					data: { installmentAmount: shares[0] },
+				});
+			}
+
+			const ledger = await recordPrepayment(tx, orderId, amount, {
+				paymentMethod: input.paymentMethod,
+				reference: input.reference,
+				installmentIds: prepaid.map((i) => i.id),
+				processedBy: options.changedBy,
+				notes,
+				interestAmount: interestPaid,
+			});
+
+			// A MIXED order is only paid once its other ledgers are settled too
+			const ledgers = await findOrderLedgers(tx, orderId);
+			const fullyPaid = ledgers.every((l) => l.balance <= 0);
+			const updatedOrder = fullyPaid
+				? await tx.order.update({
+						where: { id: orderId },
+						data: { paymentStatus: "COMPLETED" },
+					})
+				: await tx.order.findUnique({ where: { id: orderId } });
+
+			return { order: updatedOrder, ledger, prepaid, regenerated, fullyPaid };
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+
+	prepaymentLogger.info(
+		`Prepayment of ${amount} (${input.paymentMethod}) applied to order ${order.orderNumber}: ` +
+			`${result.prepaid.length} prepaid, ${result.regenerated.length} regenerated, ` +
+			`balance ${result.ledger.balance}`,
+	);
+
+	return {
+		order: result.order,
+		applyTo: input.applyTo,
+		amount,
+		previousBalance: remainingBalance,
+		prepaidInstallments: result.prepaid,
+		cancelledInstallments: regenerate ? pending.length : 0,
+		settledArrears: arrears.map(({ installment, unpaidAmount }) => ({
+			installmentId: installment.id,
+			installmentNumber: installment.installmentNumber,
+			unpaidAmount,
+		})),
+		regeneratedInstallments: result.regenerated,
+		ledger: result.ledger,
+		fullyPaid: result.fullyPaid,
+	};
+}
@@ -0,0 +1,292 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+
+const logger = getLogger();
+const promotionLogger = logger.child({ module: "promotionService" });
+
+export interface PromotionLine {
+	productId: string;
+	quantity: number;
+	unitPrice: number;
+}
+
+export interface AppliedPromotion {
+	promotionId: string;
+	code: string;
+	name: string;
+	discountType: string;
+	scope: string;
+	usageLimit: number | null;
+	usageLimitPerEmployee: number | null;
+	eligibleSubtotal: number;
+	discountAmount: number;
+	lineDiscounts: number[]; // Aligned with the evaluated lines; 0 for lines out of scope
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+function couponError(message: string, statusCode: number): ServiceError {
+	return new ServiceError(message, statusCode, [{ field: "couponCode", message }]);
+}
+
+/**
+ * Which lines a promotion applies to, by the product's category, vendor or ID
+ */
+async function findEligibleLines(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	promotion: { scope: string; scopeIds: string[] },
+	lines: PromotionLine[],
+): Promise<boolean[]> {
+	if (promotion.scope === "ORDER") {
+		return lines.map(() => true);
+	}
+
+	const scopeIds = new Set(promotion.scopeIds);
+	if (promotion.scope === "PRODUCT") {
+		return lines.map((line) => scopeIds.has(line.productId));
+	}
+
+	const products = await prisma.product.findMany({
+		where: { id: { in: [...new Set(lines.map((line) => line.productId))] } },
+		select: { id: true, categoryId: true, vendorId: true },
+	});
+	const productById = new Map<string, { categoryId: string; vendorId: string }>(
+		products.map((p) => [p.id, p]),
+	);
+
+	return lines.map((line) => {
+		const product = productById.get(line.productId);
+		if (!product) return false;
+		return scopeIds.has(promotion.scope === "CATEGORY" ? product.categoryId : product.vendorId);
+	});
+}
+
+/**
+ * Work out a promotion's discount for the lines and spread it over the eligible ones in
+ * proportion to their amounts. Throws when no line qualifies or the minimum spend is not met.
+ */
+async function allocateDiscount(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	promotion: {
+		code: string;
+		scope: string;
+		scopeIds: string[];
+		discountType: string;
+		discountValue: number;
+		maxDiscountAmount: number | null;
+		minSpend: number | null;
+	},
+	lines: PromotionLine[],
+) {
+	const { code } = promotion;
+	const eligible = await findEligibleLines(prisma, promotion, lines);
+	const lineAmounts = lines.map((line, index) =>
+		eligible[index] ? roundMoney(line.unitPrice * line.quantity) : 0,
+	);
+	const eligibleSubtotal = roundMoney(lineAmounts.reduce((sum, amount) => sum + amount, 0));
+
+	if (eligibleSubtotal <= 0) {
+		throw couponError(`Coupon code ${code} does not apply to any item in the order`, 422);
+	}
+	if (promotion.minSpend !== null && eligibleSubtotal < promotion.minSpend) {
+		throw couponError(
+			`Coupon code ${code} requires a minimum spend of ${promotion.minSpend} on eligible items (currently ${eligibleSubtotal})`,
+			422,
+		);
+	}
+
+	let discountAmount =
+		promotion.discountType === "PERCENTAGE"
+			? eligibleSubtotal * promotion.discountValue
+			: promotion.discountValue;
+	if (promotion.discountType === "PERCENTAGE" && promotion.maxDiscountAmount !== null) {
+		discountAmount = Math.min(discountAmount, promotion.maxDiscountAmount);
+	}
+	discountAmount = roundMoney(Math.min(discountAmount, eligibleSubtotal));
+
+	// The last eligible line absorbs rounding so the allocations add up to the discount
+	const lastEligible = eligible.lastIndexOf(true);
+	let discountLeft = discountAmount;
+	const lineDiscounts = lineAmounts.map((amount, index) => {
+		if (!eligible[index]) return 0;
+		const allocated =
+			index === lastEligible
+				? discountLeft
+				: roundMoney((discountAmount * amount) / eligibleSubtotal);
+		discountLeft = roundMoney(discountLeft - allocated);
+		return allocated;
+	});
+
+	return { eligibleSubtotal, discountAmount, lineDiscounts };
+}
+
+/**
+ * Check a coupon code against an employee's order lines and work out the discount
+ */
+export async function evaluatePromotion(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	options: { code: string; employeeId: string; lines: PromotionLine[]; at?: Date },
+): Promise<AppliedPromotion> {
+	const code = options.code.trim().toUpperCase();
+	const at = options.at || new Date();
+
+	const promotion = await prisma.promotion.findUnique({ where: { code } });
+	if (!promotion || !promotion.isActive) {
+		throw couponError(`Coupon code ${code} is not valid`, 404);
+	}
+	if (promotion.startsAt && at < promotion.startsAt) {
+		throw couponError(
+			`Coupon code ${code} is not active until ${promotion.startsAt.toISOString()}`,
+			422,
+		);
+	}
+	if (promotion.endsAt && at > promotion.endsAt) {
+		throw couponError(`Coupon code ${code} expired on ${promotion.endsAt.toISOString()}`, 422);
+	}
+	if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) {
+		throw couponError(`Coupon code ${code} has reached its usage limit`, 409);
+	}
+	if (promotion.usageLimitPerEmployee !== null) {
+		const used = await prisma.promotionRedemption.count({
+			where: { promotionId: promotion.id, employeeId: options.employeeId, status: "APPLIED" },
+		});
+		if (used >= promotion.usageLimitPerEmployee) {
+			throw couponError(
+				`Coupon code ${code} can only be used ${promotion.usageLimitPerEmployee} time(s) per employee`,
+				409,
+			);
+		}
+	}
+
+	const { eligibleSubtotal, discountAmount, lineDiscounts } = await allocateDiscount(
+		prisma,
+		promotion,
+		options.lines,
+	);
+
+	return {
+		promotionId: promotion.id,
+		code: promotion.code,
+		name: promotion.name,
+		discountType: promotion.discountType,
+		scope: promotion.scope,
+		usageLimit: promotion.usageLimit,
+		usageLimitPerEmployee: promotion.usageLimitPerEmployee,
+		eligibleSubtotal,
+		discountAmount,
+		lineDiscounts,
+	};
+}
+
+/**
+ * Record a coupon use against an order. Claims a slot on the usage counter only while it is
+ * below the limit, so concurrent checkouts cannot oversubscribe a promotion.
+ * Must run inside the transaction that creates the order.
+ */
+export async function redeemPromotion(
+	tx: Prisma.TransactionClient,
+	applied: AppliedPromotion,
+	options: { orderId: string; employeeId: string },
+) {
+	if (applied.usageLimitPerEmployee !== null) {
+		const used = await tx.promotionRedemption.count({
+			where: {
+				promotionId: applied.promotionId,
+				employeeId: options.employeeId,
+				status: "APPLIED",
+			},
+		});
+		if (used >= applied.usageLimitPerEmployee) {
+			throw couponError(
+				`Coupon code ${applied.code} can only be used ${applied.usageLimitPerEmployee} time(s) per employee`,
+				409,
+			);
+		}
+	}
+
+	const claimed = await tx.promotion.updateMany({
+		where: {
+			id: applied.promotionId,
+			isActive: true,
+			...(applied.usageLimit !== null && { usageCount: { lt: applied.usageLimit } }),
+		},
+		data: { usageCount: { increment: 1 } },
+	});
+	if (claimed.count === 0) {
+		throw couponError(`Coupon code ${applied.code} has reached its usage limit`, 409);
+	}
+
+	const redemption = await tx.promotionRedemption.create({
+		data: {
+			promotionId: applied.promotionId,
+			code: applied.code,
+			orderId: options.orderId,
+			employeeId: options.employeeId,
+			discountAmount: applied.discountAmount,
+		},
+	});
+
+	promotionLogger.info(
+		`Coupon ${applied.code} redeemed on order ${options.orderId}: ${applied.discountAmount} off`,
+	);
+	return redemption;
+}
+
+/**
+ * Give back the coupon uses of a cancelled or rejected order
+ */
+export async function releasePromotionUsage(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+): Promise<number> {
+	const redemptions = await tx.promotionRedemption.findMany({
+		where: { orderId, status: "APPLIED" },
+	});
+
+	for (const redemption of redemptions) {
+		await tx.promotionRedemption.update({
+			where: { id: redemption.id },
+			data: { status: "RELEASED", releasedAt: new Date() },
+		});
+		await tx.promotion.updateMany({
+			where: { id: redemption.promotionId, usageCount: { gt: 0 } },
+			data: { usageCount: { decrement: 1 } },
+		});
+	}
+
+	if (redemptions.length > 0) {
+		promotionLogger.info(`Released ${redemptions.length} coupon use(s) for order ${orderId}`);
+	}
+	return redemptions.length;
+}
+
+/**
+ * Recompute the coupon discount of an order whose lines changed, keeping the use it already
+ * holds: validity window and usage limits are not checked again, the minimum spend is.
+ * Must run inside the transaction that updates the order.
+ */
+export async function repriceOrderPromotion(
+	tx: Prisma.TransactionClient,
+	order: { id: string; promotionId: string },
+	lines: PromotionLine[],
+) {
+	const promotion = await tx.promotion.findUnique({ where: { id: order.promotionId } });
+	if (!promotion) {
+		throw couponError(`The coupon applied to order ${order.id} no longer exists`, 404);
+	}
+
+	const { discountAmount, lineDiscounts } = await allocateDiscount(tx, promotion, lines);
+
+	await tx.promotionRedemption.updateMany({
+		where: { orderId: order.id, promotionId: promotion.id, status: "APPLIED" },
+		data: { discountAmount },
+	});
+
+	promotionLogger.info(
+		`Coupon ${promotion.code} repriced on order ${order.id}: ${discountAmount} off`,
+	);
+	return { code: promotion.code, discountAmount, lineDiscounts };
+}
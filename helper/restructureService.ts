@@ -0,0 +1,547 @@
+import { PrismaClient } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { nextDocumentNumber } from "./numberingService";
+import { findOrderLedger, recordRestructure } from "./transactionService";
+import { calculatePayrollDates, getPayrollCalendar } from "./payrollCalendarService";
+import { getApproverForRole } from "./approvalService";
+import { getEmployeeName } from "./employeeService";
+import { sendRestructureApprovalRequestEmail } from "./email.helper";
+
+const logger = getLogger();
+const restructureLogger = logger.child({ module: "restructureService" });
+
+/**
+ * Orders that no longer owe anything, so there is nothing to restructure
+ */
+const CLOSED_ORDER_STATUSES = ["REJECTED", "CANCELLED", "RETURNED"];
+
+export interface RestructureTerms {
+	installmentMonths?: number | null;
+	pauseCutoffs?: number | null;
+}
+
+export interface RestructurePlanLine {
+	installmentId?: string | null;
+	installmentNumber: number;
+	amount: number;
+	interestAmount?: number | null; // Part of amount that is interest, on financed orders
+	cutOffDate: Date;
+	scheduledDate: Date;
+}
+
+export interface RestructureRequest extends RestructureTerms {
+	orderId: string;
+	reason: string;
+	requestedBy?: string | null;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+function addMonths(date: Date, months: number): Date {
+	const result = new Date(date);
+	result.setMonth(result.getMonth() + months);
+	return result;
+}
+
+/**
+ * Split an amount into parts that add up to it exactly; the last part takes the rounding
+ */
+function splitAmount(amount: number, parts: number): number[] {
+	const share = roundMoney(amount / parts);
+	return Array.from({ length: parts }, (_, i) =>
+		i === parts - 1 ? roundMoney(amount - share * (parts - 1)) : share,
+	);
+}
+
+function toPlanLine(installment: any): RestructurePlanLine {
+	return {
+		installmentId: installment.id,
+		installmentNumber: installment.installmentNumber,
+		amount: installment.amount,
+		interestAmount: installment.interestAmount ?? null,
+		cutOffDate: installment.cutOffDate,
+		scheduledDate: installment.scheduledDate,
+	};
+}
+
+function isSamePlan(a: RestructurePlanLine[], b: RestructurePlanLine[]): boolean {
+	return (
+		a.length === b.length &&
+		a.every(
+			(line, i) =>
+				line.amount === b[i].amount &&
+				new Date(line.cutOffDate).getTime() === new Date(b[i].cutOffDate).getTime(),
+		)
+	);
+}
+
+/**
+ * The order's PENDING installments and the schedule that would replace them.
+ *
+ * Deductions resume on the first pending cutoff (or the next one, if that has passed), after
+ * skipping pauseCutoffs cutoffs. With installmentMonths the plan ends that many months after its
+ * first installment, so the balance is spread over the cutoffs left until then; without it the
+ * same number of installments is kept. Installments already settled or SCHEDULED in a payroll
+ * batch are not touched.
+ */
+async function buildRestructurePlan(
+	prisma: PrismaClient,
+	orderId: string,
+	terms: RestructureTerms,
+) {
+	const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+	if (!order) {
+		throw new ServiceError("Order not found", 404);
+	}
+	if (CLOSED_ORDER_STATUSES.includes(order.status)) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} is ${order.status} and cannot be restructured`,
+			409,
+		);
+	}
+
+	const [pending, first, last] = await Promise.all([
+		prisma.installment.findMany({
+			where: { orderId, status: "PENDING" },
+			orderBy: [{ cutOffDate: "asc" }, { installmentNumber: "asc" }],
+		}),
+		prisma.installment.findFirst({
+			where: { orderId, status: { not: "CANCELLED" } },
+			orderBy: { cutOffDate: "asc" },
+		}),
+		prisma.installment.findFirst({
+			where: { orderId },
+			orderBy: { installmentNumber: "desc" },
+		}),
+	]);
+
+	if (pending.length === 0) {
+		throw new ServiceError(
+			`Order ${order.orderNumber} has no pending installments to restructure`,
+			409,
+			[
+				{
+					field: "installments",
+					message:
+						"The schedule has not started yet, or every installment is paid or already scheduled for payroll",
+				},
+			],
+		);
+	}
+
+	const balance = roundMoney(pending.reduce((sum, i) => sum + i.amount, 0));
+	// Interest already charged is spread with the balance; a longer term adds none
+	const interest = roundMoney(pending.reduce((sum, i) => sum + (i.interestAmount ?? 0), 0));
+	const pauseCutoffs = terms.pauseCutoffs ?? 0;
+	const today = new Date();
+	const resumeFrom = pending[0].cutOffDate > today ? pending[0].cutOffDate : today;
+	const calendar = await getPayrollCalendar(prisma, order.payrollCalendarId);
+
+	let dates;
+	if (terms.installmentMonths) {
+		const planEnd = addMonths(
+			first?.cutOffDate ?? pending[0].cutOffDate,
+			terms.installmentMonths,
+		);
+		// Enough cutoffs to reach the end of the plan at the most frequent payroll
+		const candidates = calculatePayrollDates(
+			calendar,
+			resumeFrom,
+			pauseCutoffs + Math.ceil(terms.installmentMonths * (52 / 12)) + 1,
+		);
+		dates = candidates.slice(pauseCutoffs).filter((date) => date.cutOffDate < planEnd);
+
+		if (dates.length === 0) {
+			throw new ServiceError(
+				`A ${terms.installmentMonths}-month plan leaves no cutoffs for the remaining balance`,
+				422,
+				[
+					{
+						field: "installmentMonths",
+						message: `The plan started on ${(first?.cutOffDate ?? pending[0].cutOffDate).toDateString()}; choose a longer term`,
+					},
+				],
+			);
+		}
+	} else {
+		dates = calculatePayrollDates(calendar, resumeFrom, pauseCutoffs + pending.length).slice(
+			pauseCutoffs,
+		);
+	}
+
+	const shares = splitAmount(balance, dates.length);
+	const interestShares = splitAmount(interest, dates.length);
+	let installmentNumber = last?.installmentNumber ?? 0;
+	const proposedPlan: RestructurePlanLine[] = dates.map((date, index) => ({
+		installmentNumber: ++installmentNumber,
+		amount: shares[index],
+		interestAmount: interest > 0 ? interestShares[index] : null,
+		cutOffDate: date.cutOffDate,
+		scheduledDate: date.payDate,
+	}));
+	const originalPlan = pending.map(toPlanLine);
+
+	if (isSamePlan(originalPlan, proposedPlan)) {
+		throw new ServiceError("The proposed schedule is the same as the current one", 422, [
+			{ field: "installmentMonths", message: "Change the term or pause some cutoffs" },
+		]);
+	}
+
+	return { order, balance, originalPlan, proposedPlan };
+}
+
+/**
+ * What a restructure would do to an order, without requesting it
+ */
+export async function previewRestructure(
+	prisma: PrismaClient,
+	orderId: string,
+	terms: RestructureTerms,
+) {
+	const { order, balance, originalPlan, proposedPlan } = await buildRestructurePlan(
+		prisma,
+		orderId,
+		terms,
+	);
+
+	return {
+		orderId,
+		orderNumber: order.orderNumber,
+		balance,
+		previousInstallmentMonths: order.installmentMonths ?? null,
+		installmentMonths: terms.installmentMonths ?? order.installmentMonths ?? null,
+		pauseCutoffs: terms.pauseCutoffs ?? 0,
+		installmentAmount: proposedPlan[0].amount,
+		originalPlan,
+		proposedPlan,
+	};
+}
+
+/**
+ * Approval levels for a restructure: the active restructuring workflow, or the configured roles
+ */
+async function buildApprovalChain(prisma: PrismaClient, employeeId: string) {
+	const { WORKFLOW_NAME, APPROVAL_ROLES } = config.INSTALLMENTS.RESTRUCTURE;
+	const workflow = await prisma.approvalWorkflow.findFirst({
+		where: { name: WORKFLOW_NAME, isActive: true },
+		include: { levels: { orderBy: { level: "asc" } } },
+	});
+
+	const levels: { level: number; role: string }[] = workflow?.levels?.length
+		? workflow.levels.map((level: any) => ({ level: level.level, role: level.role }))
+		: APPROVAL_ROLES.map((role, index) => ({ level: index + 1, role }));
+
+	const approvals = [];
+	for (const level of levels) {
+		const approver = await getApproverForRole(prisma, level.role, employeeId);
+		approvals.push({
+			level: level.level,
+			role: level.role,
+			approverId: approver.id,
+			approverName: approver.name,
+			approverEmail: approver.email,
+			status: "PENDING",
+		});
+	}
+	return approvals;
+}
+
+async function notifyApprover(prisma: PrismaClient, restructure: any) {
+	const approval = restructure.approvals.find(
+		(a: any) => a.level === restructure.currentApprovalLevel,
+	);
+	if (!approval) {
+		return;
+	}
+	const proposed: RestructurePlanLine[] = restructure.proposedPlan;
+
+	await sendRestructureApprovalRequestEmail({
+		to: approval.approverEmail,
+		approverName: approval.approverName,
+		employeeName: await getEmployeeName(prisma, restructure.employeeId),
+		orderNumber: restructure.orderNumber,
+		restructureNumber: restructure.restructureNumber,
+		balance: restructure.balance,
+		currentInstallments: restructure.originalPlan.length,
+		proposedInstallments: proposed.length,
+		installmentAmount: proposed[0].amount,
+		firstCutOffDate: new Date(proposed[0].cutOffDate),
+		lastCutOffDate: new Date(proposed[proposed.length - 1].cutOffDate),
+		reason: restructure.reason,
+		approvalLevel: approval.level,
+		approverRole: approval.role,
+	});
+}
+
+/**
+ * Request a restructure of an order's remaining installments. The proposed schedule is kept
+ * with the request and goes to the first approver; nothing changes on the order until the
+ * last level approves.
+ */
+export async function requestRestructure(prisma: PrismaClient, request: RestructureRequest) {
+	const open = await prisma.installmentRestructure.findFirst({
+		where: { orderId: request.orderId, status: "PENDING_APPROVAL" },
+	});
+	if (open) {
+		throw new ServiceError(
+			`Restructure ${open.restructureNumber} is already awaiting approval for this order`,
+			409,
+			undefined,
+			{ restructureId: open.id },
+		);
+	}
+
+	const { order, balance, originalPlan, proposedPlan } = await buildRestructurePlan(
+		prisma,
+		request.orderId,
+		request,
+	);
+	const [ledger, approvals] = await Promise.all([
+		findOrderLedger(prisma, order.id),
+		buildApprovalChain(prisma, order.employeeId),
+	]);
+	const restructureNumber = await nextDocumentNumber(prisma, "RESTRUCTURE");
+
+	const restructure = await prisma.installmentRestructure.create({
+		data: {
+			restructureNumber,
+			status: "PENDING_APPROVAL",
+			orderId: order.id,
+			orderNumber: order.orderNumber,
+			employeeId: order.employeeId,
+			transactionId: ledger?.id,
+			installmentMonths: request.installmentMonths ?? undefined,
+			previousInstallmentMonths: order.installmentMonths ?? undefined,
+			pauseCutoffs: request.pauseCutoffs ?? 0,
+			reason: request.reason,
+			balance,
+			originalPlan,
+			proposedPlan,
+			approvals: approvals as any,
+			currentApprovalLevel: approvals[0]?.level ?? 1,
+			requestedBy: request.requestedBy,
+		},
+	});
+
+	restructureLogger.info(
+		`Restructure ${restructureNumber} requested for order ${order.orderNumber}: ` +
+			`${originalPlan.length} installments -> ${proposedPlan.length} for ${balance}`,
+	);
+
+	if (approvals.length === 0) {
+		return applyRestructure(prisma, restructure, request.requestedBy || "system");
+	}
+
+	await notifyApprover(prisma, restructure);
+	return { restructure, applied: false };
+}
+
+/**
+ * Approve or reject a restructure at its current level. Rejection closes the request; approval
+ * at the last level applies it.
+ */
+export async function decideRestructure(
+	prisma: PrismaClient,
+	restructureId: string,
+	decision: "APPROVED" | "REJECTED",
+	options: { decidedBy: string; comments?: string | null },
+) {
+	const restructure = await prisma.installmentRestructure.findUnique({
+		where: { id: restructureId },
+	});
+
+	if (!restructure) {
+		throw new ServiceError("Installment restructure not found", 404);
+	}
+	if (restructure.status !== "PENDING_APPROVAL") {
+		throw new ServiceError(
+			`Restructure ${restructure.restructureNumber} is already ${restructure.status}`,
+			409,
+		);
+	}
+
+	const level = restructure.currentApprovalLevel;
+	const decidedAt = new Date();
+	const approvals = restructure.approvals.map((approval: any) =>
+		approval.level === level
+			? {
+					...approval,
+					status: decision,
+					decidedBy: options.decidedBy,
+					decidedAt,
+					comments: options.comments ?? undefined,
+				}
+			: approval,
+	);
+	const nextLevel = approvals.find((approval: any) => approval.level > level);
+	const isFinal = decision === "REJECTED" || !nextLevel;
+
+	// Claim the level, so a second decision on it fails instead of overwriting the first
+	const claimed = await prisma.installmentRestructure.updateMany({
+		where: { id: restructureId, status: "PENDING_APPROVAL", currentApprovalLevel: level },
+		data: {
+			approvals,
+			...(decision === "REJECTED"
+				? {
+						status: "REJECTED",
+						decidedAt,
+						rejectionReason: options.comments,
+					}
+				: nextLevel
+					? { currentApprovalLevel: nextLevel.level }
+					: {}),
+		},
+	});
+	if (claimed.count === 0) {
+		throw new ServiceError(
+			`Restructure ${restructure.restructureNumber} was decided by someone else meanwhile`,
+			409,
+		);
+	}
+
+	restructureLogger.info(
+		`Restructure ${restructure.restructureNumber} ${decision.toLowerCase()} at level ${level} by ${options.decidedBy}`,
+	);
+
+	if (!isFinal) {
+		const updated = await prisma.installmentRestructure.findUniqueOrThrow({
+			where: { id: restructureId },
+		});
+		await notifyApprover(prisma, updated);
+		return { restructure: updated, applied: false };
+	}
+	if (decision === "REJECTED") {
+		const updated = await prisma.installmentRestructure.findUniqueOrThrow({
+			where: { id: restructureId },
+		});
+		return { restructure: updated, applied: false };
+	}
+
+	return applyRestructure(prisma, { ...restructure, approvals }, options.decidedBy);
+}
+
+/**
+ * Cancel the installments a restructure replaces and generate its schedule, in one unit of
+ * work. The request keeps the original plan; the order's ledger records both.
+ */
+async function applyRestructure(prisma: PrismaClient, restructure: any, appliedBy: string) {
+	const originalIds: string[] = restructure.originalPlan.map((line: any) => line.installmentId);
+	const pending = await prisma.installment.findMany({
+		where: { orderId: restructure.orderId, status: "PENDING" },
+	});
+	const unchanged =
+		pending.length === originalIds.length && pending.every((i) => originalIds.includes(i.id));
+
+	if (!unchanged) {
+		throw new ServiceError(
+			`The installments of order ${restructure.orderNumber} changed since restructure ` +
+				`${restructure.restructureNumber} was requested; reject it and request a new one`,
+			409,
+		);
+	}
+
+	// An approval that took past the first new cutoff gets the same terms from today
+	let proposedPlan: RestructurePlanLine[] = restructure.proposedPlan;
+	if (new Date(proposedPlan[0].cutOffDate) < new Date()) {
+		({ proposedPlan } = await buildRestructurePlan(prisma, restructure.orderId, restructure));
+	}
+
+	const result = await prisma.$transaction(
+		async (tx) => {
+			const cancelled = await tx.installment.updateMany({
+				where: { id: { in: originalIds }, status: "PENDING" },
+				data: {
+					status: "CANCELLED",
+					notes: `Replaced by restructure ${restructure.restructureNumber}`,
+				},
+			});
+			if (cancelled.count !== originalIds.length) {
+				throw new ServiceError(
+					"Some installments were scheduled for payroll meanwhile",
+					409,
+				);
+			}
+
+			const created: any[] = [];
+			for (const line of proposedPlan) {
+				created.push(
+					await tx.installment.create({
+						data: {
+							orderId: restructure.orderId,
+							installmentNumber: line.installmentNumber,
+							amount: line.amount,
+							...(line.interestAmount != null && {
+								principalAmount: roundMoney(line.amount - line.interestAmount),
+								interestAmount: line.interestAmount,
+							}),
+							status: "PENDING",
+							cutOffDate: line.cutOffDate,
+							scheduledDate: line.scheduledDate,
+							restructureId: restructure.id,
+							notes: `Installment ${line.installmentNumber} of restructure ${restructure.restructureNumber}`,
+						},
+					}),
+				);
+			}
+
+			const installmentCount = await tx.installment.count({
+				where: { orderId: restructure.orderId, status: { not: "CANCELLED" } },
+			});
+			await tx.order.update({
+				where: { id: restructure.orderId },
+				data: {
+					installmentCount,
+					installmentAmount: proposedPlan[0].amount,
+					...(restructure.installmentMonths && {
+						installmentMonths: restructure.installmentMonths,
+					}),
+				},
+			});
+
+			const ledger = restructure.transactionId
+				? await tx.transaction.findUnique({ where: { id: restructure.transactionId } })
+				: await findOrderLedger(tx, restructure.orderId);
+			if (ledger) {
+				await recordRestructure(tx, ledger, {
+					restructureId: restructure.id,
+					restructureNumber: restructure.restructureNumber,
+					balance: restructure.balance,
+					cancelledInstallmentIds: originalIds,
+					installmentIds: created.map((i) => i.id),
+				});
+			}
+
+			const appliedAt = new Date();
+			return tx.installmentRestructure.update({
+				where: { id: restructure.id },
+				data: {
+					status: "APPROVED",
+					approvals: restructure.approvals,
+					transactionId: ledger?.id,
+					decidedAt: appliedAt,
+					appliedAt,
+					proposedPlan: proposedPlan.map((line, index) => ({
+						...line,
+						installmentId: created[index].id,
+					})),
+				},
+			});
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+
+	restructureLogger.info(
+		`Restructure ${restructure.restructureNumber} applied to order ${restructure.orderNumber} by ${appliedBy}: ` +
+			`${originalIds.length} installments cancelled, ${proposedPlan.length} created`,
+	);
+
+	return { restructure: result, applied: true };
+}
@@ -0,0 +1,491 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { releaseStock } from "./inventoryService";
+import { createRefundTransaction, findOrderLedger } from "./transactionService";
+import { transitionOrderStatus } from "./orderLifecycleService";
+import { nextDocumentNumber } from "./numberingService";
+import { refundRedeemedPoints, reverseOrderPoints } from "./pointsService";
+import { ReturnLineInput } from "../zod/returnRequest.zod";
+
+const logger = getLogger();
+const returnLogger = logger.child({ module: "returnService" });
+
+/**
+ * Return requests that still hold quantity against their order items
+ */
+const OPEN_RETURN_STATUSES = ["REQUESTED", "APPROVED"] as const;
+
+/**
+ * Installment statuses that can still be reduced by a refund. SCHEDULED installments are
+ * locked in an exported payroll batch and are left to payroll.
+ */
+const REDUCIBLE_INSTALLMENT_STATUSES = ["PENDING"] as const;
+
+export interface RefundApplication {
+	refundAmount: number;
+	installmentReduction: number;
+	refundedAmount: number;
+	refundTransactionId: string | null;
+	adjustedInstallments: number;
+	cancelledInstallments: number;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Quantity per order item already held by open return requests
+ */
+async function getOpenReturnQuantities(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string,
+	excludeReturnId?: string,
+): Promise<Map<string, number>> {
+	const openReturns = await prisma.returnRequest.findMany({
+		where: {
+			orderId,
+			status: { in: [...OPEN_RETURN_STATUSES] },
+			...(excludeReturnId && { id: { not: excludeReturnId } }),
+		},
+		select: { items: true },
+	});
+
+	const held = new Map<string, number>();
+	for (const request of openReturns) {
+		for (const line of request.items) {
+			held.set(line.orderItemId, (held.get(line.orderItemId) || 0) + line.quantity);
+		}
+	}
+	return held;
+}
+
+/**
+ * Create a return request for part or all of a delivered order
+ */
+export async function requestReturn(
+	prisma: PrismaClient,
+	input: {
+		orderId: string;
+		items: ReturnLineInput[];
+		reason: string;
+		requestedBy: string;
+		notes?: string;
+	},
+) {
+	try {
+		const order = await prisma.order.findUnique({
+			where: { id: input.orderId },
+			include: { items: true },
+		});
+
+		if (!order) {
+			throw new ServiceError("Order not found", 404);
+		}
+
+		if (order.status !== "DELIVERED") {
+			throw new ServiceError(
+				`Only delivered orders can be returned; order ${order.orderNumber} is ${order.status}`,
+				409,
+			);
+		}
+
+		const windowDays = config.RETURNS.WINDOW_DAYS;
+		const deliveredAt = order.deliveredDate || order.updatedAt;
+		const deadline = new Date(deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+		if (new Date() > deadline) {
+			throw new ServiceError(
+				`The ${windowDays}-day return window for order ${order.orderNumber} ended on ${deadline.toISOString()}`,
+				409,
+			);
+		}
+
+		const held = await getOpenReturnQuantities(prisma, order.id);
+		const requested = new Map<string, number>();
+		for (const line of input.items) {
+			requested.set(line.orderItemId, (requested.get(line.orderItemId) || 0) + line.quantity);
+		}
+
+		const errors: Array<{ field: string; message: string }> = [];
+		const lines = [];
+
+		for (const [orderItemId, quantity] of requested) {
+			const orderItem = order.items.find((item) => item.id === orderItemId);
+			if (!orderItem) {
+				errors.push({
+					field: `items.${orderItemId}`,
+					message: `Item does not belong to order ${order.orderNumber}`,
+				});
+				continue;
+			}
+
+			const returnable =
+				orderItem.quantity - orderItem.returnedQuantity - (held.get(orderItemId) || 0);
+			if (quantity > returnable) {
+				errors.push({
+					field: `items.${orderItemId}`,
+					message: `Requested ${quantity}, only ${Math.max(returnable, 0)} can still be returned`,
+				});
+				continue;
+			}
+
+			lines.push({
+				orderItemId,
+				productId: orderItem.productId,
+				quantity,
+				unitPrice: orderItem.unitPrice,
+			});
+		}
+
+		if (errors.length > 0) {
+			throw new ServiceError("One or more items cannot be returned", 400, errors);
+		}
+
+		const returnRequest = await prisma.returnRequest.create({
+			data: {
+				returnNumber: await nextDocumentNumber(prisma, "RETURN"),
+				orderId: order.id,
+				employeeId: order.employeeId,
+				items: lines,
+				reason: input.reason,
+				requestedBy: input.requestedBy,
+				notes: input.notes,
+			},
+		});
+
+		returnLogger.info(
+			`Return ${returnRequest.returnNumber} requested for order ${order.orderNumber} (${lines.length} line(s))`,
+		);
+
+		return returnRequest;
+	} catch (error) {
+		returnLogger.error(`Failed to request return for order ${input.orderId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Move a return request between statuses, guarding against concurrent changes
+ */
+async function moveReturnStatus(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	returnId: string,
+	from: readonly string[],
+	data: Prisma.ReturnRequestUpdateManyMutationInput,
+) {
+	const existing = await prisma.returnRequest.findUnique({
+		where: { id: returnId },
+	});
+
+	if (!existing) {
+		throw new ServiceError("Return request not found", 404);
+	}
+
+	if (!from.includes(existing.status)) {
+		throw new ServiceError(
+			`Return ${existing.returnNumber} is ${existing.status} and cannot be moved to ${data.status}`,
+			409,
+		);
+	}
+
+	const result = await prisma.returnRequest.updateMany({
+		where: { id: returnId, status: existing.status },
+		data,
+	});
+
+	if (result.count === 0) {
+		throw new ServiceError(
+			`Return ${existing.returnNumber} was modified by another request. Please retry.`,
+			409,
+		);
+	}
+
+	return existing;
+}
+
+/**
+ * Approve a requested return so the goods can be sent back
+ */
+export async function approveReturn(
+	prisma: PrismaClient,
+	returnId: string,
+	options: { approvedBy: string; notes?: string },
+) {
+	await moveReturnStatus(prisma, returnId, ["REQUESTED"], {
+		status: "APPROVED",
+		approvedBy: options.approvedBy,
+		approvedAt: new Date(),
+		...(options.notes && { notes: options.notes }),
+	});
+
+	returnLogger.info(`Return ${returnId} approved by ${options.approvedBy}`);
+	return prisma.returnRequest.findUniqueOrThrow({ where: { id: returnId } });
+}
+
+/**
+ * Reject a return that has not been received yet
+ */
+export async function rejectReturn(
+	prisma: PrismaClient,
+	returnId: string,
+	options: { rejectedBy: string; reason: string },
+) {
+	await moveReturnStatus(prisma, returnId, OPEN_RETURN_STATUSES, {
+		status: "REJECTED",
+		rejectedBy: options.rejectedBy,
+		rejectedAt: new Date(),
+		rejectionReason: options.reason,
+	});
+
+	returnLogger.info(`Return ${returnId} rejected by ${options.rejectedBy}`);
+	return prisma.returnRequest.findUniqueOrThrow({ where: { id: returnId } });
+}
+
+/**
+ * Value of the returned lines, with order-level discount and tax spread
+ * proportionally over the item subtotals. The order total is net of redeemed points, so the
+ * points are spread the same way and given back as points rather than money.
+ */
+export function calculateLineRefunds(
+	order: { subtotal: number; total: number; pointsUsed?: number | null },
+	orderItems: Array<{ id: string; quantity: number; subtotal: number }>,
+	lines: Array<{ orderItemId: string; quantity: number }>,
+) {
+	// Item subtotals are net of line discounts; the ratios spread tax and points over them
+	const itemsSubtotal = orderItems.reduce((sum, item) => sum + item.subtotal, 0);
+	const pointsUsed = order.pointsUsed || 0;
+	const ratio = itemsSubtotal > 0 ? order.total / itemsSubtotal : 1;
+	const pointsRatio = itemsSubtotal > 0 ? pointsUsed / itemsSubtotal : 0;
+
+	return lines.map((line) => {
+		const orderItem = orderItems.find((item) => item.id === line.orderItemId);
+		const perUnit = orderItem ? orderItem.subtotal / orderItem.quantity : 0;
+		return {
+			orderItemId: line.orderItemId,
+			refundAmount: roundMoney(perUnit * line.quantity * ratio),
+			pointsRefund: roundMoney(perUnit * line.quantity * pointsRatio),
+		};
+	});
+}
+
+/**
+ * Apply a refund to an order: first reduce what is still owed (future installments,
+ * or the open ledger balance for non-installment orders), then pay back the remainder
+ * through a REFUND transaction. Must run inside a transaction.
+ */
+export async function applyOrderRefund(
+	tx: Prisma.TransactionClient,
+	orderId: string,
+	amount: number,
+	details: { reason: string; processedBy: string },
+): Promise<RefundApplication> {
+	const refundAmount = roundMoney(amount);
+	let remaining = refundAmount;
+	let adjustedInstallments = 0;
+	let cancelledInstallments = 0;
+
+	const ledger = await findOrderLedger(tx, orderId);
+
+	const installments = await tx.installment.findMany({
+		where: {
+			orderId,
+			status: { in: [...REDUCIBLE_INSTALLMENT_STATUSES, "SCHEDULED"] },
+		},
+		orderBy: { installmentNumber: "desc" },
+	});
+	const reducible = installments.filter((i) =>
+		(REDUCIBLE_INSTALLMENT_STATUSES as readonly string[]).includes(i.status),
+	);
+
+	if (installments.length > 0) {
+		// Shorten the schedule from the end so the next deductions stay unchanged; what payroll
+		// still collects on SCHEDULED installments is paid back instead
+		for (const installment of reducible) {
+			if (remaining <= 0) break;
+
+			if (installment.amount <= remaining) {
+				await tx.installment.update({
+					where: { id: installment.id },
+					data: { status: "CANCELLED", notes: details.reason },
+				});
+				remaining = roundMoney(remaining - installment.amount);
+				cancelledInstallments++;
+			} else {
+				await tx.installment.update({
+					where: { id: installment.id },
+					data: {
+						amount: roundMoney(installment.amount - remaining),
+						notes: details.reason,
+					},
+				});
+				remaining = 0;
+				adjustedInstallments++;
+			}
+		}
+	} else if (ledger && ledger.balance > 0) {
+		remaining = roundMoney(remaining - Math.min(remaining, ledger.balance));
+	}
+
+	const installmentReduction = roundMoney(refundAmount - remaining);
+	let refundTransactionId: string | null = null;
+
+	if (ledger) {
+		if (remaining > 0) {
+			const refund = await createRefundTransaction(tx, ledger, remaining, {
+				reason: details.reason,
+				processedBy: details.processedBy,
+			});
+			refundTransactionId = refund.id;
+		}
+
+		await tx.transaction.update({
+			where: { id: ledger.id },
+			data: {
+				totalAmount: roundMoney(ledger.totalAmount - refundAmount),
+				balance: roundMoney(Math.max(ledger.balance - installmentReduction, 0)),
+			},
+		});
+	} else {
+		returnLogger.warn(`No ledger found for order ${orderId}; refund not booked`);
+	}
+
+	return {
+		refundAmount,
+		installmentReduction,
+		refundedAmount: remaining,
+		refundTransactionId,
+		adjustedInstallments,
+		cancelledInstallments,
+	};
+}
+
+/**
+ * Receive the goods of an approved return: restock, compute and apply the refund,
+ * and mark the order RETURNED once every item has come back
+ */
+export async function receiveReturn(
+	prisma: PrismaClient,
+	returnId: string,
+	options: { receivedBy: string; notes?: string },
+) {
+	try {
+		return await prisma.$transaction(
+			async (tx) => {
+				const returnRequest = await moveReturnStatus(tx, returnId, ["APPROVED"], {
+					status: "RECEIVED",
+					receivedBy: options.receivedBy,
+					receivedAt: new Date(),
+					...(options.notes && { notes: options.notes }),
+				});
+
+				const order = await tx.order.findUniqueOrThrow({
+					where: { id: returnRequest.orderId },
+					include: { items: true },
+				});
+
+				for (const line of returnRequest.items) {
+					const orderItem = order.items.find((item) => item.id === line.orderItemId);
+					if (
+						!orderItem ||
+						orderItem.returnedQuantity + line.quantity > orderItem.quantity
+					) {
+						throw new ServiceError(
+							`Return ${returnRequest.returnNumber} exceeds the quantity left on order item ${line.orderItemId}`,
+							409,
+						);
+					}
+
+					await tx.orderItem.update({
+						where: { id: line.orderItemId },
+						data: { returnedQuantity: { increment: line.quantity } },
+					});
+				}
+
+				await releaseStock(tx, returnRequest.items);
+
+				const lineRefunds = calculateLineRefunds(order, order.items, returnRequest.items);
+				const totalRefund = lineRefunds.reduce((sum, line) => sum + line.refundAmount, 0);
+
+				const refund = await applyOrderRefund(tx, order.id, totalRefund, {
+					reason: `Return ${returnRequest.returnNumber}: ${returnRequest.reason}`,
+					processedBy: options.receivedBy,
+				});
+
+				// The returned lines' share of the points spent on the order goes back as points
+				const linePoints = roundMoney(
+					lineRefunds.reduce((sum, line) => sum + line.pointsRefund, 0),
+				);
+				let pointsRefunded =
+					linePoints > 0
+						? await refundRedeemedPoints(tx, order.id, linePoints, {
+								reason: `Return ${returnRequest.returnNumber}`,
+								reversedBy: options.receivedBy,
+							})
+						: 0;
+
+				const fullyReturned = order.items.every((item) => {
+					const line = returnRequest.items.find((l) => l.orderItemId === item.id);
+					return item.returnedQuantity + (line?.quantity || 0) >= item.quantity;
+				});
+
+				if (fullyReturned) {
+					await transitionOrderStatus(tx, order.id, "RETURNED", {
+						changedBy: options.receivedBy,
+						reason: `Return ${returnRequest.returnNumber}`,
+						...(refund.refundedAmount > 0 && {
+							data: { paymentStatus: "REFUNDED" },
+						}),
+					});
+
+					// Points spent on the order go back; points it earned are taken back
+					const reversal = await reverseOrderPoints(tx, order.id, {
+						reason: `Return ${returnRequest.returnNumber}`,
+						reversedBy: options.receivedBy,
+					});
+					pointsRefunded = roundMoney(pointsRefunded + reversal.refundedPoints);
+				}
+
+				const updated = await tx.returnRequest.update({
+					where: { id: returnId },
+					data: {
+						items: returnRequest.items.map((line) => {
+							const lineRefund = lineRefunds.find(
+								(r) => r.orderItemId === line.orderItemId,
+							);
+							return {
+								...line,
+								refundAmount: lineRefund?.refundAmount ?? 0,
+								pointsRefund: lineRefund?.pointsRefund ?? 0,
+							};
+						}),
+						refundAmount: refund.refundAmount,
+						installmentReduction: refund.installmentReduction,
+						refundedAmount: refund.refundedAmount,
+						refundTransactionId: refund.refundTransactionId,
+						pointsRefunded,
+					},
+				});
+
+				returnLogger.info(
+					`Return ${returnRequest.returnNumber} received: refund ${refund.refundAmount} (${refund.installmentReduction} off installments, ${refund.refundedAmount} paid back), ${pointsRefunded} points given back`,
+				);
+
+				return {
+					returnRequest: updated,
+					refund,
+					pointsRefunded,
+					orderReturned: fullyReturned,
+				};
+			},
+			{
+				maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+				timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+			},
+		);
+	} catch (error) {
+		returnLogger.error(`Failed to receive return ${returnId}:`, error);
+		throw error;
+	}
+}
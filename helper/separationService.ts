@@ -0,0 +1,293 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { ServiceError } from "./error-handler";
+import { config } from "../config/constant";
+import { nextDocumentNumber } from "./numberingService";
+import { findOrderLedger, ORDER_LEDGER_TYPES, recordSeparation } from "./transactionService";
+import { calculatePayDate, getPayrollCalendar } from "./payrollCalendarService";
+
+const logger = getLogger();
+const separationLogger = logger.child({ module: "separationService" });
+
+export interface SeparationInput {
+	employeeId: string;
+	lastWorkingDay: Date;
+	finalPayAmount: number; // Final pay available for deductions
+	reason?: string | null;
+	processedBy?: string | null;
+}
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+function sumAmounts(installments: { amount: number }[]): number {
+	return roundMoney(installments.reduce((sum, i) => sum + i.amount, 0));
+}
+
+/**
+ * Throw when the employee has been separated: payroll no longer pays them, so nothing new can
+ * be deducted from it
+ */
+export async function assertNotSeparated(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	employeeId: string,
+) {
+	const separation = await prisma.employeeSeparation.findUnique({ where: { employeeId } });
+	if (!separation) {
+		return;
+	}
+
+	const lastWorkingDay = new Date(separation.lastWorkingDay).toISOString().split("T")[0];
+	throw new ServiceError(
+		`Employee ${employeeId} was separated with a last working day of ${lastWorkingDay}`,
+		403,
+		[
+			{
+				field: "employeeId",
+				message: `New orders are blocked after separation ${separation.separationNumber}`,
+			},
+		],
+		{ separationId: separation.id, separationNumber: separation.separationNumber },
+	);
+}
+
+/**
+ * Settle everything a leaving employee owes and block further orders.
+ *
+ * Every open order ledger is collapsed: installments already SCHEDULED in a payroll batch are
+ * left to payroll, PENDING ones are CANCELLED, and the rest of the balance is deducted from
+ * final pay on one PENDING installment per order, cut off on the last working day. Final pay
+ * goes to the oldest orders first. Whatever it does not cover, and cash owed on a ledger payroll
+ * does not deduct against, becomes a RECEIVABLE adjustment on that ledger. Orders awaiting
+ * approval must be decided first.
+ *
+ * The separation is the clearance statement: one line per ledger with how its balance is settled.
+ */
+export async function separateEmployee(prisma: PrismaClient, input: SeparationInput) {
+	const { employeeId } = input;
+
+	const existing = await prisma.employeeSeparation.findUnique({ where: { employeeId } });
+	if (existing) {
+		throw new ServiceError(
+			`Employee ${employeeId} was already separated under ${existing.separationNumber}`,
+			409,
+			undefined,
+			{ separationId: existing.id },
+		);
+	}
+
+	const awaitingApproval = await prisma.order.findMany({
+		where: { employeeId, status: "PENDING_APPROVAL" },
+		select: { id: true, orderNumber: true },
+	});
+	if (awaitingApproval.length > 0) {
+		throw new ServiceError(
+			`${awaitingApproval.length} order(s) of the employee are awaiting approval`,
+			409,
+			awaitingApproval.map((order) => ({
+				field: order.orderNumber,
+				message: "Approve or reject the order before separating the employee",
+			})),
+		);
+	}
+
+	const ledgers = await prisma.transaction.findMany({
+		where: {
+			employeeId,
+			type: { in: [...ORDER_LEDGER_TYPES] },
+			status: { in: ["PENDING", "PROCESSING"] },
+			balance: { gt: 0 },
+		},
+		orderBy: { createdAt: "asc" },
+	});
+	const orderIds = [...new Set<string>(ledgers.map((ledger) => ledger.orderId))];
+	const [orders, installments] = await Promise.all([
+		prisma.order.findMany({ where: { id: { in: orderIds } } }),
+		prisma.installment.findMany({
+			where: { orderId: { in: orderIds }, status: { in: ["PENDING", "SCHEDULED"] } },
+			orderBy: [{ cutOffDate: "asc" }, { installmentNumber: "asc" }],
+		}),
+	]);
+	const orderById = new Map<string, any>(orders.map((order) => [order.id, order]));
+
+	// Payroll deductions are only ever posted to one ledger per order
+	const payrollLedgerIds = new Set<string>();
+	for (const orderId of orderIds) {
+		const ledger = await findOrderLedger(prisma, orderId);
+		if (ledger) {
+			payrollLedgerIds.add(ledger.id);
+		}
+	}
+
+	let finalPayLeft = roundMoney(input.finalPayAmount);
+	const plans = ledgers.map((ledger) => {
+		const order = orderById.get(ledger.orderId);
+		const payroll = payrollLedgerIds.has(ledger.id);
+		const own = payroll ? installments.filter((i) => i.orderId === ledger.orderId) : [];
+		const scheduled = own.filter((i) => i.status === "SCHEDULED");
+		const scheduledAmount = sumAmounts(scheduled);
+
+		const due = roundMoney(Math.max(ledger.balance - scheduledAmount, 0));
+		const finalPayAmount = payroll ? Math.min(due, finalPayLeft) : 0;
+		finalPayLeft = roundMoney(finalPayLeft - finalPayAmount);
+
+		// On a financed order final pay settles interest before principal, as a prepayment does
+		const unpaidInterest = roundMoney(
+			Math.max(
+				(ledger.interestAmount || 0) -
+					(ledger.interestPaid || 0) -
+					scheduled.reduce((sum, i) => sum + (i.interestAmount || 0), 0),
+				0,
+			),
+		);
+
+		return {
+			ledger,
+			order,
+			payroll,
+			pending: own.filter((i) => i.status === "PENDING"),
+			scheduledAmount,
+			finalPayAmount,
+			finalPayInterest: Math.min(unpaidInterest, finalPayAmount),
+			receivableAmount: roundMoney(due - finalPayAmount),
+		};
+	});
+
+	const totals = {
+		totalOutstanding: roundMoney(ledgers.reduce((sum, ledger) => sum + ledger.balance, 0)),
+		scheduledAmount: roundMoney(plans.reduce((sum, plan) => sum + plan.scheduledAmount, 0)),
+		finalPayDeduction: roundMoney(plans.reduce((sum, plan) => sum + plan.finalPayAmount, 0)),
+		receivableAmount: roundMoney(plans.reduce((sum, plan) => sum + plan.receivableAmount, 0)),
+	};
+
+	const separationNumber = await nextDocumentNumber(prisma, "SEPARATION");
+	const receivableNumbers: string[] = [];
+	while (receivableNumbers.length < plans.filter((p) => p.receivableAmount > 0).length) {
+		receivableNumbers.push(await nextDocumentNumber(prisma, "TRANSACTION"));
+	}
+
+	const separation = await prisma.$transaction(
+		async (tx) => {
+			const created = await tx.employeeSeparation.create({
+				data: {
+					separationNumber,
+					employeeId,
+					lastWorkingDay: input.lastWorkingDay,
+					finalPayAmount: input.finalPayAmount,
+					...totals,
+					clearanceStatus: totals.receivableAmount > 0 ? "RECEIVABLE" : "CLEARED",
+					lines: [],
+					reason: input.reason,
+					processedBy: input.processedBy,
+				},
+			});
+
+			const lines = [];
+			for (const plan of plans) {
+				const { ledger, order } = plan;
+				const cancelledInstallmentIds = plan.pending.map((i) => i.id);
+
+				if (cancelledInstallmentIds.length > 0) {
+					const cancelled = await tx.installment.updateMany({
+						where: { id: { in: cancelledInstallmentIds }, status: "PENDING" },
+						data: {
+							status: "CANCELLED",
+							separationId: created.id,
+							notes: `Settled by separation ${separationNumber}`,
+						},
+					});
+					if (cancelled.count !== cancelledInstallmentIds.length) {
+						throw new ServiceError(
+							`Installments of order ${order?.orderNumber} were scheduled for payroll meanwhile`,
+							409,
+						);
+					}
+				}
+
+				let finalPayInstallmentId: string | null = null;
+				if (plan.finalPayAmount > 0) {
+					const calendar = await getPayrollCalendar(tx, order?.payrollCalendarId);
+					const last = await tx.installment.findFirst({
+						where: { orderId: ledger.orderId },
+						orderBy: { installmentNumber: "desc" },
+					});
+					const installment = await tx.installment.create({
+						data: {
+							orderId: ledger.orderId,
+							installmentNumber: (last?.installmentNumber ?? 0) + 1,
+							amount: plan.finalPayAmount,
+							...(plan.finalPayInterest > 0 && {
+								principalAmount: roundMoney(
+									plan.finalPayAmount - plan.finalPayInterest,
+								),
+								interestAmount: plan.finalPayInterest,
+							}),
+							status: "PENDING",
+							cutOffDate: input.lastWorkingDay,
+							scheduledDate: calculatePayDate(calendar, input.lastWorkingDay),
+							separationId: created.id,
+							notes: `Final pay deduction on separation ${separationNumber}`,
+						},
+					});
+					finalPayInstallmentId = installment.id;
+				}
+
+				// An anchor event still to come must not schedule what final pay now collects
+				if (plan.payroll && order?.scheduleAnchor && !order.scheduleStartedAt) {
+					await tx.order.update({
+						where: { id: order.id },
+						data: { scheduleStartedAt: input.lastWorkingDay },
+					});
+				}
+
+				const { receivable } = await recordSeparation(
+					tx,
+					ledger,
+					{
+						separationId: created.id,
+						separationNumber,
+						lastWorkingDay: input.lastWorkingDay,
+						finalPayAmount: plan.finalPayAmount,
+						receivableAmount: plan.receivableAmount,
+						finalPayInstallmentId,
+						cancelledInstallmentIds,
+					},
+					plan.receivableAmount > 0 ? receivableNumbers.shift() : undefined,
+				);
+
+				lines.push({
+					orderId: ledger.orderId,
+					orderNumber: order?.orderNumber || "",
+					transactionId: ledger.id,
+					transactionNumber: ledger.transactionNumber,
+					balance: ledger.balance,
+					scheduledAmount: plan.scheduledAmount,
+					finalPayAmount: plan.finalPayAmount,
+					receivableAmount: plan.receivableAmount,
+					cancelledInstallmentIds,
+					finalPayInstallmentId,
+					receivableTransactionId: receivable?.id ?? null,
+				});
+			}
+
+			return tx.employeeSeparation.update({
+				where: { id: created.id },
+				data: { lines },
+			});
+		},
+		{
+			maxWait: config.CHECKOUT.TRANSACTION_MAX_WAIT_MS,
+			timeout: config.CHECKOUT.TRANSACTION_TIMEOUT_MS,
+		},
+	);
+
+	separationLogger.info(
+		`Employee ${employeeId} separated under ${separationNumber}: outstanding ` +
+			`${totals.totalOutstanding} on ${ledgers.length} ledger(s), final pay ` +
+			`${totals.finalPayDeduction}, scheduled ${totals.scheduledAmount}, receivable ` +
+			`${totals.receivableAmount}`,
+	);
+
+	return separation;
+}
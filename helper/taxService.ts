@@ -0,0 +1,364 @@
+import { PrismaClient, Prisma } from "../generated/prisma";
+import { getLogger } from "./logger";
+import { config } from "../config/constant";
+
+const logger = getLogger();
+const taxLogger = logger.child({ module: "taxService" });
+
+/**
+ * Orders that do not count towards tax reports
+ */
+const NON_TAXABLE_ORDER_STATUSES = ["CANCELLED", "REJECTED", "RETURNED"] as const;
+
+export interface ResolvedTaxClass {
+	code: string;
+	name: string;
+	rate: number;
+	isExempt: boolean;
+}
+
+export interface TaxableLine {
+	productId: string;
+	quantity: number;
+	unitPrice: number;
+	discount?: number;
+}
+
+export interface TaxedLine extends TaxableLine {
+	discount: number; // Line discount plus its share of the order discount
+	subtotal: number; // After discounts
+	taxClassCode: string;
+	taxRate: number;
+	taxableAmount: number;
+	taxAmount: number;
+}
+
+export interface OrderTaxLine {
+	taxClassCode: string;
+	taxClassName: string;
+	rate: number;
+	isExempt: boolean;
+	taxableAmount: number;
+	taxAmount: number;
+}
+
+export interface OrderTaxResult {
+	lines: TaxedLine[];
+	subtotal: number;
+	discount: number;
+	tax: number;
+	total: number; // Before points
+	pricesIncludeTax: boolean;
+	taxBreakdown: OrderTaxLine[];
+}
+
+export type TaxReportPeriod = "DAY" | "MONTH" | "YEAR";
+
+function roundMoney(value: number): number {
+	return Number(value.toFixed(2));
+}
+
+/**
+ * Tax class applied when neither the product nor its category has one: the active class
+ * with the configured default code, or the built-in default when it has not been created
+ */
+async function getDefaultTaxClass(
+	prisma: PrismaClient | Prisma.TransactionClient,
+): Promise<ResolvedTaxClass> {
+	const fallback = config.TAX.DEFAULT_CLASS;
+	const taxClass = await prisma.taxClass.findFirst({
+		where: { code: fallback.CODE, isActive: true },
+	});
+
+	if (taxClass) {
+		return {
+			code: taxClass.code,
+			name: taxClass.name,
+			rate: taxClass.rate,
+			isExempt: taxClass.isExempt,
+		};
+	}
+
+	return { code: fallback.CODE, name: fallback.NAME, rate: fallback.RATE, isExempt: false };
+}
+
+/**
+ * Resolve the tax class for each product: product class, then category class, then default
+ */
+export async function resolveTaxClasses(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	productIds: string[],
+): Promise<Map<string, ResolvedTaxClass>> {
+	const products = await prisma.product.findMany({
+		where: { id: { in: [...new Set(productIds)] } },
+		select: {
+			id: true,
+			taxClassId: true,
+			category: { select: { taxClassId: true } },
+		},
+	});
+
+	const classIds = new Set<string>();
+	for (const product of products) {
+		const classId = product.taxClassId || product.category?.taxClassId;
+		if (classId) classIds.add(classId);
+	}
+
+	const taxClasses =
+		classIds.size > 0
+			? await prisma.taxClass.findMany({
+					where: { id: { in: [...classIds] }, isActive: true },
+				})
+			: [];
+	const classById = new Map<string, ResolvedTaxClass>(taxClasses.map((c) => [c.id, c]));
+	const defaultClass = await getDefaultTaxClass(prisma);
+
+	const resolved = new Map<string, ResolvedTaxClass>();
+	for (const productId of productIds) {
+		const product = products.find((p) => p.id === productId);
+		const classId = product?.taxClassId || product?.category?.taxClassId;
+		const taxClass = classId ? classById.get(classId) : undefined;
+
+		resolved.set(
+			productId,
+			taxClass
+				? {
+						code: taxClass.code,
+						name: taxClass.name,
+						rate: taxClass.rate,
+						isExempt: taxClass.isExempt,
+					}
+				: defaultClass,
+		);
+	}
+
+	return resolved;
+}
+
+/**
+ * Compute VAT for order lines.
+ * An order-level discount is spread over the lines in proportion to their amounts and added to
+ * each line's own discount before tax is worked out. With VAT-inclusive pricing the tax is
+ * extracted from the line amount and the total is unchanged; with exclusive pricing it is added
+ * on top. The returned subtotal is before discounts; discount is the sum of all line discounts.
+ */
+export async function computeOrderTax(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	lines: TaxableLine[],
+	options: { orderDiscount?: number; pricesIncludeTax?: boolean } = {},
+): Promise<OrderTaxResult> {
+	try {
+		const pricesIncludeTax = options.pricesIncludeTax ?? config.TAX.PRICES_INCLUDE_TAX;
+		const orderDiscount = roundMoney(options.orderDiscount || 0);
+		const taxClasses = await resolveTaxClasses(
+			prisma,
+			lines.map((line) => line.productId),
+		);
+
+		const grossAmounts = lines.map((line) => roundMoney(line.unitPrice * line.quantity));
+		const lineAmounts = lines.map((line, index) =>
+			roundMoney(grossAmounts[index] - (line.discount || 0)),
+		);
+		const subtotal = roundMoney(grossAmounts.reduce((sum, amount) => sum + amount, 0));
+		const netSubtotal = roundMoney(lineAmounts.reduce((sum, amount) => sum + amount, 0));
+		const appliedOrderDiscount = roundMoney(Math.min(orderDiscount, netSubtotal));
+
+		let discountLeft = appliedOrderDiscount;
+		const breakdown = new Map<string, OrderTaxLine>();
+
+		const taxedLines: TaxedLine[] = lines.map((line, index) => {
+			const taxClass = taxClasses.get(line.productId)!;
+			const lineAmount = lineAmounts[index];
+
+			// The last line absorbs rounding so the allocations add up to the discount
+			const allocated =
+				index === lines.length - 1
+					? discountLeft
+					: netSubtotal > 0
+						? roundMoney((appliedOrderDiscount * lineAmount) / netSubtotal)
+						: 0;
+			discountLeft = roundMoney(discountLeft - allocated);
+
+			const net = roundMoney(lineAmount - allocated);
+			const rate = taxClass.isExempt ? 0 : taxClass.rate;
+			const taxAmount = pricesIncludeTax
+				? roundMoney((net * rate) / (1 + rate))
+				: roundMoney(net * rate);
+			const taxableAmount = pricesIncludeTax ? roundMoney(net - taxAmount) : net;
+
+			const entry = breakdown.get(taxClass.code) || {
+				taxClassCode: taxClass.code,
+				taxClassName: taxClass.name,
+				rate,
+				isExempt: taxClass.isExempt,
+				taxableAmount: 0,
+				taxAmount: 0,
+			};
+			entry.taxableAmount = roundMoney(entry.taxableAmount + taxableAmount);
+			entry.taxAmount = roundMoney(entry.taxAmount + taxAmount);
+			breakdown.set(taxClass.code, entry);
+
+			return {
+				...line,
+				discount: roundMoney((line.discount || 0) + allocated),
+				subtotal: net,
+				taxClassCode: taxClass.code,
+				taxRate: rate,
+				taxableAmount,
+				taxAmount,
+			};
+		});
+
+		const discount = roundMoney(taxedLines.reduce((sum, line) => sum + line.discount, 0));
+		const tax = roundMoney(taxedLines.reduce((sum, line) => sum + line.taxAmount, 0));
+		const total = pricesIncludeTax
+			? roundMoney(subtotal - discount)
+			: roundMoney(subtotal - discount + tax);
+
+		return {
+			lines: taxedLines,
+			subtotal,
+			discount,
+			tax,
+			total,
+			pricesIncludeTax,
+			taxBreakdown: [...breakdown.values()],
+		};
+	} catch (error) {
+		taxLogger.error("Failed to compute order tax:", error);
+		throw error;
+	}
+}
+
+function periodKey(date: Date, period: TaxReportPeriod): string {
+	const year = date.getFullYear().toString();
+	const month = (date.getMonth() + 1).toString().padStart(2, "0");
+	const day = date.getDate().toString().padStart(2, "0");
+
+	switch (period) {
+		case "YEAR":
+			return year;
+		case "DAY":
+			return `${year}-${month}-${day}`;
+		default:
+			return `${year}-${month}`;
+	}
+}
+
+/**
+ * Tax collected per period and tax class, from the taxable amount and tax stored on each order
+ * line. Gross sales are the lines' taxable amount plus tax, before points. Returned quantities
+ * are left out; cancelled, rejected and returned orders are not counted.
+ */
+export async function getTaxSummary(
+	prisma: PrismaClient,
+	options: { from: Date; to: Date; period?: TaxReportPeriod },
+) {
+	try {
+		const period = options.period || "MONTH";
+		const orders = await prisma.order.findMany({
+			where: {
+				orderDate: { gte: options.from, lte: options.to },
+				status: { notIn: [...NON_TAXABLE_ORDER_STATUSES] },
+			},
+			select: {
+				orderDate: true,
+				taxBreakdown: true,
+				items: {
+					select: {
+						quantity: true,
+						returnedQuantity: true,
+						taxClassCode: true,
+						taxRate: true,
+						taxableAmount: true,
+						taxAmount: true,
+					},
+				},
+			},
+		});
+
+		const periods = new Map<
+			string,
+			{
+				period: string;
+				orderCount: number;
+				grossSales: number;
+				taxAmount: number;
+				byTaxClass: Map<string, OrderTaxLine>;
+			}
+		>();
+
+		for (const order of orders) {
+			const key = periodKey(order.orderDate, period);
+			const bucket = periods.get(key) || {
+				period: key,
+				orderCount: 0,
+				grossSales: 0,
+				taxAmount: 0,
+				byTaxClass: new Map<string, OrderTaxLine>(),
+			};
+
+			bucket.orderCount += 1;
+			// The order's breakdown names the classes its lines were taxed under
+			const classes = new Map<string, OrderTaxLine>(
+				((order.taxBreakdown || []) as OrderTaxLine[]).map((line) => [
+					line.taxClassCode,
+					line,
+				]),
+			);
+
+			for (const item of order.items) {
+				const kept = item.quantity - (item.returnedQuantity || 0);
+				if (!item.taxClassCode || kept <= 0) {
+					continue;
+				}
+				const share = kept / item.quantity;
+				const taxableAmount = roundMoney(item.taxableAmount * share);
+				const taxAmount = roundMoney(item.taxAmount * share);
+
+				bucket.grossSales = roundMoney(bucket.grossSales + taxableAmount + taxAmount);
+				bucket.taxAmount = roundMoney(bucket.taxAmount + taxAmount);
+
+				const taxClass = classes.get(item.taxClassCode);
+				const entry = bucket.byTaxClass.get(item.taxClassCode) || {
+					taxClassCode: item.taxClassCode,
+					taxClassName: taxClass?.taxClassName || item.taxClassCode,
+					rate: item.taxRate,
+					isExempt: taxClass?.isExempt ?? false,
+					taxableAmount: 0,
+					taxAmount: 0,
+				};
+				entry.taxableAmount = roundMoney(entry.taxableAmount + taxableAmount);
+				entry.taxAmount = roundMoney(entry.taxAmount + taxAmount);
+				bucket.byTaxClass.set(item.taxClassCode, entry);
+			}
+
+			periods.set(key, bucket);
+		}
+
+		const rows = [...periods.values()]
+			.sort((a, b) => a.period.localeCompare(b.period))
+			.map((bucket) => ({
+				period: bucket.period,
+				orderCount: bucket.orderCount,
+				grossSales: bucket.grossSales,
+				taxAmount: bucket.taxAmount,
+				byTaxClass: [...bucket.byTaxClass.values()],
+			}));
+
+		return {
+			from: options.from,
+			to: options.to,
+			period,
+			periods: rows,
+			totals: {
+				orderCount: rows.reduce((sum, row) => sum + row.orderCount, 0),
+				grossSales: roundMoney(rows.reduce((sum, row) => sum + row.grossSales, 0)),
+				taxAmount: roundMoney(rows.reduce((sum, row) => sum + row.taxAmount, 0)),
+			},
+		};
+	} catch (error) {
+		taxLogger.error("Failed to build tax summary:", error);
+		throw error;
+	}
+}
@@ -1,22 +1,63 @@
-import { PrismaClient } from "../generated/prisma";
+import { PrismaClient, Prisma } from "../generated/prisma";
 import { getLogger } from "./logger";
+import { nextDocumentNumber } from "./numberingService";
 
 const logger = getLogger();
 const transactionLogger = logger.child({ module: "transactionService" });
 
 /**
- * Create a transaction ledger for an order
+ * Transaction types that make up an order's primary ledger.
+ * REFUND and ADJUSTMENT entries are separate documents linked via relatedTransactionId.
+ * A MIXED order has a PURCHASE ledger for its cash part and an INSTALLMENT ledger for the
+ * financed part.
+ */
+export const ORDER_LEDGER_TYPES = ["PURCHASE", "INSTALLMENT"] as const;
+
+/**
+ * Find all primary ledgers for an order
+ */
+export async function findOrderLedgers(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string
+) {
+	return prisma.transaction.findMany({
+		where: {
+			orderId,
+			type: { in: [...ORDER_LEDGER_TYPES] },
+		},
+		orderBy: { createdAt: "asc" },
+	});
+}
+
+/**
+ * Find the primary ledger for an order.
+ * When an order has both, the INSTALLMENT ledger is the one payroll deductions are paid against.
+ */
+export async function findOrderLedger(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string
+) {
+	const ledgers = await findOrderLedgers(prisma, orderId);
+	return ledgers.find((ledger) => ledger.type === "INSTALLMENT") || ledgers[0] || null;
+}
+
+/**
+ * Create a transaction ledger for an order. A finance charge is owed on top of totalAmount and
+ * tracked separately as interestAmount.
  */
 export async function createTransactionForOrder(
-	prisma: PrismaClient,
+	prisma: PrismaClient | Prisma.TransactionClient,
 	orderId: string,
 	employeeId: string,
 	totalAmount: number,
 	paymentType: string,
-	paymentMethod: any
+	paymentMethod: any,
+	transactionNumber?: string,
+	financeCharge = 0
 ) {
 	try {
-		const transactionNumber = `TXN-${Date.now()}`;
+		// Callers inside an interactive transaction pre-allocate the number
+		transactionNumber = transactionNumber || (await nextDocumentNumber(prisma, "TRANSACTION"));
 
 		const transaction = await prisma.transaction.create({
 			data: {
@@ -25,9 +66,10 @@ export async function createTransactionForOrder(
 				orderId,
 				type: paymentType === "INSTALLMENT" ? "INSTALLMENT" : "PURCHASE",
 				status: "PENDING",
-				totalAmount,
+				totalAmount: Number((totalAmount + financeCharge).toFixed(2)),
 				paidAmount: 0,
-				balance: totalAmount,
+				balance: Number((totalAmount + financeCharge).toFixed(2)),
+				...(financeCharge > 0 && { interestAmount: financeCharge, interestPaid: 0 }),
 				paymentMethod: paymentMethod as any,
 				paymentHistory: [],
 			},
@@ -58,13 +100,12 @@ export async function recordInstallmentPayment(
 		payrollDate?: Date;
 		processedBy?: string;
 		notes?: string;
+		interestAmount?: number; // Part of amount that pays interest on a financed order
 	}
 ) {
 	try {
 		// Get the transaction for this order
-		const transaction = await prisma.transaction.findFirst({
-			where: { orderId },
-		});
+		const transaction = await findOrderLedger(prisma, orderId);
 
 		if (!transaction) {
 			throw new Error(`Transaction not found for order ${orderId}`);
@@ -74,9 +115,14 @@ export async function recordInstallmentPayment(
 		const paymentHistory = (transaction.paymentHistory as any[]) || [];
 
 		// Add new payment record
+		const interest = paymentDetails?.interestAmount || 0;
 		const paymentRecord = {
 			installmentId,
 			amount,
+			...(interest > 0 && {
+				principalAmount: Number((amount - interest).toFixed(2)),
+				interestAmount: interest,
+			}),
 			paidAt: new Date(),
 			payrollBatchId: paymentDetails?.payrollBatchId,
 			payrollReference: paymentDetails?.payrollReference,
@@ -98,6 +144,9 @@ export async function recordInstallmentPayment(
 			data: {
 				paidAmount: newPaidAmount,
 				balance: newBalance,
+				...(interest > 0 && {
+					interestPaid: Number(((transaction.interestPaid || 0) + interest).toFixed(2)),
+				}),
 				status: isFullyPaid ? "COMPLETED" : "PROCESSING",
 				paymentHistory: paymentHistory as any,
 			},
@@ -116,14 +165,80 @@ export async function recordInstallmentPayment(
 	}
 }
 
+/**
+ * Record a payment made outside payroll (cash or bank transfer) against an order's ledger.
+ * Unlike recordInstallmentPayment it can run inside an interactive transaction.
+ */
+export async function recordPrepayment(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	orderId: string,
+	amount: number,
+	paymentDetails: {
+		paymentMethod: "CASH" | "BANK_TRANSFER";
+		reference?: string;
+		installmentIds: string[];
+		processedBy?: string;
+		notes?: string;
+		interestAmount?: number; // Part of amount that pays interest on a financed order
+	}
+) {
+	try {
+		const transaction = await findOrderLedger(prisma, orderId);
+
+		if (!transaction) {
+			throw new Error(`Transaction not found for order ${orderId}`);
+		}
+
+		const interest = paymentDetails.interestAmount || 0;
+		const paymentHistory = (transaction.paymentHistory as any[]) || [];
+		paymentHistory.push({
+			installmentIds: paymentDetails.installmentIds,
+			amount,
+			...(interest > 0 && {
+				principalAmount: Number((amount - interest).toFixed(2)),
+				interestAmount: interest,
+			}),
+			paidAt: new Date(),
+			paymentMethod: paymentDetails.paymentMethod,
+			reference: paymentDetails.reference,
+			processedBy: paymentDetails.processedBy,
+			notes: paymentDetails.notes,
+		});
+
+		const newPaidAmount = Number((transaction.paidAmount + amount).toFixed(2));
+		const newBalance = Number((transaction.totalAmount - newPaidAmount).toFixed(2));
+
+		const updatedTransaction = await prisma.transaction.update({
+			where: { id: transaction.id },
+			data: {
+				paidAmount: newPaidAmount,
+				balance: newBalance,
+				...(interest > 0 && {
+					interestPaid: Number(((transaction.interestPaid || 0) + interest).toFixed(2)),
+				}),
+				status: newBalance <= 0 ? "COMPLETED" : "PROCESSING",
+				paymentHistory: paymentHistory as any,
+			},
+		});
+
+		transactionLogger.info(
+			`Prepayment recorded for order ${orderId}: ` +
+			`Paid ${amount} by ${paymentDetails.paymentMethod}, Balance: ${newBalance}`
+		);
+
+		return updatedTransaction;
+	} catch (error) {
+		transactionLogger.error(`Failed to record prepayment for order ${orderId}:`, error);
+		throw error;
+	}
+}
+
 /**
  * Get transaction summary for an order
  */
 export async function getTransactionSummary(prisma: PrismaClient, orderId: string) {
 	try {
-		const transaction = await prisma.transaction.findFirst({
-			where: { orderId },
-		});
+		const transaction = await findOrderLedger(prisma, orderId);
 
 		if (!transaction) {
 			return null;
@@ -159,9 +274,7 @@ export async function reconcileTransaction(
 	notes?: string
 ) {
 	try {
-		const transaction = await prisma.transaction.findFirst({
-			where: { orderId },
-		});
+		const transaction = await findOrderLedger(prisma, orderId);
 
 		if (!transaction) {
 			throw new Error(`Transaction not found for order ${orderId}`);
@@ -222,3 +335,254 @@ export async function getUnreconciledTransactions(prisma: PrismaClient) {
 		throw error;
 	}
 }
+
+/**
+ * Create a REFUND entry against an order's ledger.
+ * The refund is PENDING until it is paid back to the employee.
+ */
+export async function createRefundTransaction(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	ledger: { id: string; orderId: string; employeeId: string; paymentMethod: any },
+	amount: number,
+	details: {
+		reason: string;
+		processedBy?: string;
+		installmentIds?: string[];
+	}
+) {
+	try {
+		const transactionNumber = await nextDocumentNumber(prisma, "REFUND");
+
+		const refund = await prisma.transaction.create({
+			data: {
+				transactionNumber,
+				employeeId: ledger.employeeId,
+				orderId: ledger.orderId,
+				relatedTransactionId: ledger.id,
+				type: "REFUND",
+				status: "PENDING",
+				totalAmount: amount,
+				paidAmount: 0,
+				balance: amount,
+				paymentMethod: ledger.paymentMethod,
+				paymentHistory: [],
+				notes: details.reason,
+				metadata: {
+					processedBy: details.processedBy,
+					installmentIds: details.installmentIds || [],
+				},
+			},
+		});
+
+		transactionLogger.info(
+			`Refund ${transactionNumber} of ${amount} created for order ${ledger.orderId}`
+		);
+
+		return refund;
+	} catch (error) {
+		transactionLogger.error(`Failed to create refund for order ${ledger.orderId}:`, error);
+		throw error;
+	}
+}
+
+/**
+ * Create an ADJUSTMENT entry against an order's ledger recording arrears moved between
+ * installments. A late fee is added to the ledger total and balance, since it is collected
+ * with the installments it was carried into.
+ */
+export async function createArrearsAdjustment(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	ledger: {
+		id: string;
+		orderId: string;
+		employeeId: string;
+		paymentMethod: any;
+		totalAmount: number;
+		balance: number;
+	},
+	transactionNumber: string,
+	details: {
+		installmentId: string;
+		unpaidAmount: number;
+		lateFee: number;
+		policy: string;
+		appliedTo: { installmentId: string; amount: number }[];
+		notes?: string;
+	}
+) {
+	try {
+		const adjustment = await prisma.transaction.create({
+			data: {
+				transactionNumber,
+				employeeId: ledger.employeeId,
+				orderId: ledger.orderId,
+				relatedTransactionId: ledger.id,
+				type: "ADJUSTMENT",
+				status: "COMPLETED",
+				totalAmount: details.unpaidAmount + details.lateFee,
+				paidAmount: 0,
+				balance: 0,
+				paymentMethod: ledger.paymentMethod,
+				paymentHistory: [],
+				notes: details.notes,
+				metadata: {
+					kind: "ARREARS",
+					policy: details.policy,
+					installmentId: details.installmentId,
+					unpaidAmount: details.unpaidAmount,
+					lateFee: details.lateFee,
+					appliedTo: details.appliedTo,
+				},
+			},
+		});
+
+		if (details.lateFee > 0) {
+			await prisma.transaction.update({
+				where: { id: ledger.id },
+				data: {
+					totalAmount: ledger.totalAmount + details.lateFee,
+					balance: ledger.balance + details.lateFee,
+				},
+			});
+		}
+
+		transactionLogger.info(
+			`Arrears adjustment ${transactionNumber} for order ${ledger.orderId}: ` +
+			`carried ${details.unpaidAmount}, late fee ${details.lateFee}`
+		);
+
+		return adjustment;
+	} catch (error) {
+		transactionLogger.error(
+			`Failed to record arrears adjustment for order ${ledger.orderId}:`,
+			error
+		);
+		throw error;
+	}
+}
+
+/**
+ * Record a restructure on the order's ledger. The balance is unchanged: the original and the
+ * restructured installments are both paid against this ledger, and its metadata keeps the
+ * history of which installments replaced which.
+ */
+export async function recordRestructure(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	ledger: { id: string; orderId: string; metadata?: any },
+	details: {
+		restructureId: string;
+		restructureNumber: string;
+		balance: number;
+		cancelledInstallmentIds: string[];
+		installmentIds: string[];
+	}
+) {
+	try {
+		const metadata = (ledger.metadata as Record<string, any>) || {};
+		const restructures = Array.isArray(metadata.restructures) ? metadata.restructures : [];
+
+		const updated = await prisma.transaction.update({
+			where: { id: ledger.id },
+			data: {
+				metadata: {
+					...metadata,
+					restructures: [
+						...restructures,
+						{
+							...details,
+							appliedAt: new Date().toISOString(),
+						},
+					],
+				},
+			},
+		});
+
+		transactionLogger.info(
+			`Restructure ${details.restructureNumber} recorded on ledger ${ledger.id} for order ${ledger.orderId}`
+		);
+
+		return updated;
+	} catch (error) {
+		transactionLogger.error(
+			`Failed to record restructure for order ${ledger.orderId}:`,
+			error
+		);
+		throw error;
+	}
+}
+
+/**
+ * Record an employee separation on a ledger. The part of the balance final pay does not cover
+ * becomes a PENDING ADJUSTMENT entry (metadata.kind RECEIVABLE) that is collected outside
+ * payroll. The ledger balance is unchanged: the final pay deduction and the receivable are both
+ * settled against it.
+ */
+export async function recordSeparation(
+	prisma: PrismaClient | Prisma.TransactionClient,
+	ledger: { id: string; orderId: string; employeeId: string; paymentMethod: any; metadata?: any },
+	details: {
+		separationId: string;
+		separationNumber: string;
+		lastWorkingDay: Date;
+		finalPayAmount: number;
+		receivableAmount: number;
+		finalPayInstallmentId?: string | null;
+		cancelledInstallmentIds: string[];
+	},
+	receivableNumber?: string
+) {
+	try {
+		const receivable =
+			details.receivableAmount > 0
+				? await prisma.transaction.create({
+						data: {
+							transactionNumber: receivableNumber!,
+							employeeId: ledger.employeeId,
+							orderId: ledger.orderId,
+							relatedTransactionId: ledger.id,
+							type: "ADJUSTMENT",
+							status: "PENDING",
+							totalAmount: details.receivableAmount,
+							paidAmount: 0,
+							balance: details.receivableAmount,
+							paymentMethod: ledger.paymentMethod,
+							paymentHistory: [],
+							notes: `Owed beyond final pay on separation ${details.separationNumber}`,
+							metadata: {
+								kind: "RECEIVABLE",
+								separationId: details.separationId,
+								separationNumber: details.separationNumber,
+							},
+						},
+					})
+				: null;
+
+		const metadata = (ledger.metadata as Record<string, any>) || {};
+		const updated = await prisma.transaction.update({
+			where: { id: ledger.id },
+			data: {
+				metadata: {
+					...metadata,
+					separation: {
+						...details,
+						lastWorkingDay: details.lastWorkingDay.toISOString(),
+						receivableTransactionId: receivable?.id ?? null,
+					},
+				},
+			},
+		});
+
+		transactionLogger.info(
+			`Separation ${details.separationNumber} recorded on ledger ${ledger.id}: ` +
+			`final pay ${details.finalPayAmount}, receivable ${details.receivableAmount}`
+		);
+
+		return { ledger: updated, receivable };
+	} catch (error) {
+		transactionLogger.error(
+			`Failed to record separation for order ${ledger.orderId}:`,
+			error
+		);
+		throw error;
+	}
+}
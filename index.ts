@@ -53,6 +53,16 @@ const transaction = require("./app/transaction")(prisma);
 const orderApproval = require("./app/orderApproval")(prisma);
 const approvalWorkflow = require("./app/approvalWorkflow")(prisma);
 const approvalLevel = require("./app/approvalLevel")(prisma);
+const returnRequest = require("./app/returnRequest")(prisma);
+const creditPolicy = require("./app/creditPolicy")(prisma);
+const financingTier = require("./app/financingTier")(prisma);
+const payrollCalendar = require("./app/payrollCalendar")(prisma);
+const payrollBatch = require("./app/payrollBatch")(prisma);
+const installmentRestructure = require("./app/installmentRestructure")(prisma);
+const employeeSeparation = require("./app/employeeSeparation")(prisma);
+const taxClass = require("./app/taxClass")(prisma);
+const promotion = require("./app/promotion")(prisma);
+const pointsWallet = require("./app/pointsWallet")(prisma);
 const docs = require("./app/docs/docs");
 
 app.use(express.json());
@@ -131,9 +141,9 @@ if (process.env.NODE_ENV !== "production") {
 // Apply authentication-specific security middleware
 app.use(`${config.baseApiPath}/auth`, authSecurityMiddleware);
 
-// Apply middleware for protected routes, excluding /docs, /auth, /products, /purchase, /category, /wishlistItem, /wishlist, /cartItem, /cart, /order, /orderItem, /vendor, /installment, /transaction, /orderApproval, /approvalWorkflow, and /approvalLevel
+// Apply middleware for protected routes, excluding /docs, /auth, /products, /purchase, /category, /wishlistItem, /wishlist, /cartItem, /cart, /order, /orderItem, /vendor, /installment (but not /installmentRestructure), /transaction, /orderApproval, /approvalWorkflow, and /approvalLevel
 app.use(config.baseApiPath, (req: Request, res: Response, next: NextFunction) => {
-	if (req.path.startsWith("/docs") || req.path.startsWith("/auth") || req.path.startsWith("/products") || req.path.startsWith("/purchase") || req.path.startsWith("/category") || req.path.startsWith("/wishlistItem") || req.path.startsWith("/wishlist") || req.path.startsWith("/cartItem") || req.path.startsWith("/cart") || req.path.startsWith("/order") || req.path.startsWith("/orderItem") || req.path.startsWith("/vendor") || req.path.startsWith("/installment") || req.path.startsWith("/transaction") || req.path.startsWith("/orderApproval") || req.path.startsWith("/approvalWorkflow") || req.path.startsWith("/approvalLevel")) {
+	if (req.path.startsWith("/docs") || req.path.startsWith("/auth") || req.path.startsWith("/products") || req.path.startsWith("/purchase") || req.path.startsWith("/category") || req.path.startsWith("/wishlistItem") || req.path.startsWith("/wishlist") || req.path.startsWith("/cartItem") || req.path.startsWith("/cart") || req.path.startsWith("/order") || req.path.startsWith("/orderItem") || req.path.startsWith("/vendor") || (req.path.startsWith("/installment") && !req.path.startsWith("/installmentRestructure")) || req.path.startsWith("/transaction") || req.path.startsWith("/orderApproval") || req.path.startsWith("/approvalWorkflow") || req.path.startsWith("/approvalLevel")) {
 		// Skip middleware for the docs, auth, products, purchase, category, wishlistItem, wishlist, cartItem, cart, order, orderItem, vendor, installment, transaction, orderApproval, approvalWorkflow, and approvalLevel routes
 		return next();
 	}
@@ -156,6 +166,16 @@ app.use(config.baseApiPath, transaction);
 app.use(config.baseApiPath, orderApproval);
 app.use(config.baseApiPath, approvalWorkflow);
 app.use(config.baseApiPath, approvalLevel);
+app.use(config.baseApiPath, returnRequest);
+app.use(config.baseApiPath, creditPolicy);
+app.use(config.baseApiPath, financingTier);
+app.use(config.baseApiPath, payrollCalendar);
+app.use(config.baseApiPath, payrollBatch);
+app.use(config.baseApiPath, installmentRestructure);
+app.use(config.baseApiPath, employeeSeparation);
+app.use(config.baseApiPath, taxClass);
+app.use(config.baseApiPath, promotion);
+app.use(config.baseApiPath, pointsWallet);
 app.use(config.baseApiPath, docs(prisma, app));
 
 // Store app instance globally for docs generation after all routes are registered
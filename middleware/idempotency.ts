@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { redisClient } from "../config/redis";
+import { config } from "../config/constant";
+import { getLogger } from "../helper/logger";
+import { buildErrorResponse } from "../helper/error-handler";
+import { AuthRequest } from "./verifyToken";
+
+const logger = getLogger();
+const idempotencyLogger = logger.child({ module: "idempotency" });
+
+export interface IdempotencyOptions {
+	ttl?: number; // Seconds a completed response is replayed for
+	lockTtl?: number; // Seconds an in-flight request holds the key
+	required?: boolean; // Reject requests without the header
+}
+
+interface IdempotencyRecord {
+	state: "IN_PROGRESS" | "COMPLETED";
+	fingerprint: string;
+	statusCode?: number;
+	body?: any;
+	createdAt: string;
+}
+
+/**
+ * JSON.stringify with sorted object keys so equivalent bodies hash the same
+ */
+function stableStringify(value: any): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+function fingerprintRequest(req: Request): string {
+	return crypto
+		.createHash("sha256")
+		.update(`${req.method}:${req.baseUrl}${req.path}:${stableStringify(req.body ?? {})}`)
+		.digest("hex");
+}
+
+/**
+ * Responses worth replaying. Server errors and conflicts are left retryable.
+ */
+function isReplayable(statusCode: number): boolean {
+	return statusCode < 500 && statusCode !== 409 && statusCode !== 429;
+}
+
+/**
+ * Idempotency middleware for mutating endpoints.
+ * The first response for an Idempotency-Key is stored in Redis and replayed for retries with
+ * the same key and body; reusing the key with a different body, or while the first request is
+ * still running, returns 409. Without Redis the request runs unprotected.
+ */
+export const idempotency = (options: IdempotencyOptions = {}) => {
+	const ttl = options.ttl || config.IDEMPOTENCY.TTL_SECONDS;
+	const lockTtl = options.lockTtl || config.IDEMPOTENCY.LOCK_TTL_SECONDS;
+
+	return async (req: Request, res: Response, next: NextFunction) => {
+		const idempotencyKey = req.get(config.IDEMPOTENCY.HEADER);
+
+		if (!idempotencyKey) {
+			if (options.required) {
+				res.status(400).json(
+					buildErrorResponse(`${config.IDEMPOTENCY.HEADER} header is required`, 400),
+				);
+				return;
+			}
+			return next();
+		}
+
+		if (idempotencyKey.length > config.IDEMPOTENCY.MAX_KEY_LENGTH) {
+			res.status(400).json(
+				buildErrorResponse(
+					`${config.IDEMPOTENCY.HEADER} must be at most ${config.IDEMPOTENCY.MAX_KEY_LENGTH} characters`,
+					400,
+				),
+			);
+			return;
+		}
+
+		if (!redisClient.isClientConnected()) {
+			idempotencyLogger.warn("Redis not connected, skipping idempotency check");
+			return next();
+		}
+
+		const userId = (req as AuthRequest).userId || (req as any).user?.id || "anonymous";
+		const redisKey = `idempotency:${userId}:${req.method}:${req.baseUrl}${req.path}:${idempotencyKey}`;
+		const fingerprint = fingerprintRequest(req);
+
+		try {
+			const pending: IdempotencyRecord = {
+				state: "IN_PROGRESS",
+				fingerprint,
+				createdAt: new Date().toISOString(),
+			};
+			const acquired = await redisClient.setNX(redisKey, JSON.stringify(pending), lockTtl);
+
+			if (acquired === null) {
+				idempotencyLogger.warn("Redis unavailable, skipping idempotency check");
+				return next();
+			}
+
+			if (!acquired) {
+				const existing = await redisClient.getJSON<IdempotencyRecord>(redisKey);
+
+				if (!existing) {
+					// Expired between SET NX and GET; let the client retry cleanly
+					res.status(409).json(
+						buildErrorResponse("Idempotent request state changed, please retry", 409),
+					);
+					return;
+				}
+
+				if (existing.fingerprint !== fingerprint) {
+					idempotencyLogger.warn(
+						`Idempotency key reused with a different body: ${redisKey}`,
+					);
+					res.status(409).json(
+						buildErrorResponse(
+							`${config.IDEMPOTENCY.HEADER} has already been used for a different request`,
+							409,
+						),
+					);
+					return;
+				}
+
+				if (existing.state === "IN_PROGRESS") {
+					res.status(409).json(
+						buildErrorResponse(
+							`A request with this ${config.IDEMPOTENCY.HEADER} is still being processed`,
+							409,
+						),
+					);
+					return;
+				}
+
+				idempotencyLogger.info(`Replaying stored response for ${redisKey}`);
+				res.set("Idempotent-Replayed", "true");
+				res.status(existing.statusCode || 200).json(existing.body);
+				return;
+			}
+
+			let settled = false;
+
+			// Store the first response so retries get the same result
+			const originalJson = res.json;
+			res.json = function (body: any) {
+				if (!settled) {
+					settled = true;
+					if (isReplayable(res.statusCode)) {
+						const completed: IdempotencyRecord = {
+							state: "COMPLETED",
+							fingerprint,
+							statusCode: res.statusCode,
+							body,
+							createdAt: pending.createdAt,
+						};
+						redisClient.setJSON(redisKey, completed, ttl).catch((error) => {
+							idempotencyLogger.error(
+								`Failed to store idempotent response ${redisKey}:`,
+								error,
+							);
+						});
+					} else {
+						redisClient.del(redisKey).catch(() => undefined);
+					}
+				}
+
+				return originalJson.call(this, body);
+			};
+
+			// Release the key if the handler finished without a JSON response
+			res.on("finish", () => {
+				if (!settled) {
+					settled = true;
+					redisClient.del(redisKey).catch(() => undefined);
+				}
+			});
+
+			next();
+		} catch (error) {
+			idempotencyLogger.error(`Idempotency middleware error for ${redisKey}:`, error);
+			next();
+		}
+	};
+};
+
+export default idempotency;
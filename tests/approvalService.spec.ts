@@ -0,0 +1,243 @@
+import {
+	findMatchingWorkflow,
+	restartApprovalChainIfWorkflowChanged,
+	processApproval,
+} from "../helper/approvalService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Approval Service", () => {
+	let prisma: any;
+	let workflows: any[];
+	let approvals: any[];
+	let orderUpdates: any[];
+	let installments: any[];
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const order = {
+		id: orderId,
+		orderNumber: "EPP-2026-000001",
+		employeeId: "507f1f77bcf86cd799439011",
+		total: 60000,
+		paymentType: "INSTALLMENT",
+		workflowId: "workflow-standard",
+	};
+
+	const workflow = (overrides: Record<string, any>) => ({
+		isActive: true,
+		requiresInstallment: false,
+		minOrderAmount: null,
+		maxOrderAmount: null,
+		levels: [{ level: 1, role: "MANAGER" }],
+		...overrides,
+	});
+
+	beforeEach(() => {
+		workflows = [
+			workflow({ id: "workflow-standard", name: "Standard", maxOrderAmount: 50000 }),
+			workflow({
+				id: "workflow-large",
+				name: "Large Installment",
+				requiresInstallment: true,
+				minOrderAmount: 50000,
+				levels: [
+					{ level: 1, role: "MANAGER" },
+					{ level: 2, role: "FINANCE" },
+				],
+			}),
+		];
+		approvals = [
+			{ id: "approval-1", orderId, approvalRound: 1, approvalLevel: 1, status: "APPROVED" },
+			{ id: "approval-2", orderId, approvalRound: 1, approvalLevel: 2, status: "PENDING" },
+		];
+		orderUpdates = [];
+		installments = [];
+
+		prisma = {
+			approvalWorkflow: {
+				findMany: async (_params: Prisma.ApprovalWorkflowFindManyArgs) => workflows,
+			},
+			orderApproval: {
+				findUnique: async (params: Prisma.OrderApprovalFindUniqueArgs) =>
+					approvals.find((a) => a.id === params.where.id) ?? null,
+				findUniqueOrThrow: async (params: Prisma.OrderApprovalFindUniqueOrThrowArgs) =>
+					approvals.find((a) => a.id === params.where.id),
+				findFirst: async (_params: Prisma.OrderApprovalFindFirstArgs) =>
+					[...approvals].sort((a, b) => b.approvalRound - a.approvalRound)[0] ?? null,
+				updateMany: async (params: Prisma.OrderApprovalUpdateManyArgs) => {
+					const status = params.where?.status as any;
+					const statuses: string[] = typeof status === "string" ? [status] : status.in;
+					const matched = approvals.filter(
+						(a) =>
+							(!params.where?.id || a.id === params.where.id) &&
+							statuses.includes(a.status),
+					);
+					matched.forEach((a) => Object.assign(a, params.data));
+					return { count: matched.length };
+				},
+				create: async (params: Prisma.OrderApprovalCreateArgs) => {
+					const approval = {
+						id: `approval-${approvals.length + 1}`,
+						...(params.data as any),
+					};
+					approvals.push(approval);
+					return approval;
+				},
+				update: async (params: Prisma.OrderApprovalUpdateArgs) =>
+					Object.assign(
+						approvals.find((a) => a.id === params.where.id),
+						params.data,
+					),
+			},
+			order: {
+				update: async (params: Prisma.OrderUpdateArgs) => {
+					orderUpdates.push(params.data);
+					return { id: params.where.id };
+				},
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => installments,
+			},
+		};
+		prisma.$transaction = async (callback: (tx: any) => Promise<any>) => callback(prisma);
+	});
+
+	describe("findMatchingWorkflow()", () => {
+		it("should match the first workflow whose conditions fit", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const matched = await findMatchingWorkflow(
+				prisma as PrismaClient,
+				60000,
+				"INSTALLMENT",
+			);
+			expect(matched).to.have.property("id", "workflow-large");
+		});
+
+		it("should skip installment-only workflows for other payment types", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const matched = await findMatchingWorkflow(prisma as PrismaClient, 60000, "CASH");
+			expect(matched).to.equal(null);
+		});
+	});
+
+	describe("restartApprovalChainIfWorkflowChanged()", () => {
+		it("should keep the chain while the workflow stays the same", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await restartApprovalChainIfWorkflowChanged(
+				prisma,
+				{ ...order, total: 40000 },
+				45000,
+			);
+
+			expect(result).to.deep.equal({
+				restarted: false,
+				previousWorkflowId: "workflow-standard",
+				approvalChain: null,
+			});
+			expect(approvals[0]).to.have.property("status", "APPROVED");
+		});
+
+		it("should supersede earlier decisions and start the next round", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await restartApprovalChainIfWorkflowChanged(prisma, order, 45000);
+
+			expect(result).to.include({ restarted: true, previousWorkflowId: "workflow-standard" });
+			expect(approvals.slice(0, 2).map((a) => a.status)).to.deep.equal([
+				"SUPERSEDED",
+				"SUPERSEDED",
+			]);
+
+			const round = result.approvalChain!.approvals;
+			expect(round.map((a) => [a.approvalRound, a.approvalLevel, a.status])).to.deep.equal([
+				[2, 1, "PENDING"],
+				[2, 2, "PENDING"],
+			]);
+			expect(orderUpdates[orderUpdates.length - 1]).to.deep.equal({
+				workflowId: "workflow-large",
+				currentApprovalLevel: 1,
+			});
+		});
+
+		it("should fall back to the workflow the previous total matched", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await restartApprovalChainIfWorkflowChanged(
+				prisma,
+				{ ...order, workflowId: null },
+				55000,
+			);
+
+			expect(result).to.include({ restarted: false, previousWorkflowId: "workflow-large" });
+		});
+	});
+
+	describe("processApproval()", () => {
+		it("should refuse an approval that was already processed", async function () {
+			this.timeout(TEST_TIMEOUT);
+			approvals[0].order = { ...order, status: "PENDING_APPROVAL" };
+
+			const error = await processApproval(
+				prisma as PrismaClient,
+				"approval-1",
+				"APPROVED",
+			).catch((e) => e);
+			expect(error.message).to.equal("Approval has already been processed");
+		});
+
+		it("should refuse once the order has left PENDING_APPROVAL", async function () {
+			this.timeout(TEST_TIMEOUT);
+			approvals[1].order = { ...order, status: "CANCELLED" };
+
+			const error = await processApproval(
+				prisma as PrismaClient,
+				"approval-2",
+				"APPROVED",
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(approvals[1]).to.have.property("status", "PENDING");
+		});
+
+		it("should refuse to reject an order payroll is already deducting", async function () {
+			this.timeout(TEST_TIMEOUT);
+			approvals[1].order = { ...order, status: "PENDING_APPROVAL" };
+			installments = [
+				{ id: "installment-1", orderId, status: "SCHEDULED", payrollBatchId: "batch-1" },
+			];
+
+			const error = await processApproval(
+				prisma as PrismaClient,
+				"approval-2",
+				"REJECTED",
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(approvals[1]).to.have.property("status", "PENDING");
+		});
+
+		it("should refuse a decision another approver recorded first", async function () {
+			this.timeout(TEST_TIMEOUT);
+			approvals[1].order = { ...order, status: "PENDING_APPROVAL" };
+			// The record reads PENDING, then a concurrent decision lands before the claim
+			const findUnique = prisma.orderApproval.findUnique;
+			prisma.orderApproval.findUnique = async (
+				params: Prisma.OrderApprovalFindUniqueArgs,
+			) => {
+				const approval = { ...(await findUnique(params)) };
+				approvals[1].status = "REJECTED";
+				return approval;
+			};
+
+			const error = await processApproval(
+				prisma as PrismaClient,
+				"approval-2",
+				"APPROVED",
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(approvals[1]).to.have.property("status", "REJECTED");
+			expect(orderUpdates).to.be.empty;
+		});
+	});
+});
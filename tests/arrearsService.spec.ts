@@ -0,0 +1,238 @@
+import {
+	calculateLateFee,
+	carryForwardArrears,
+	recordFailedDeduction,
+	resetFailedDeductions,
+} from "../helper/arrearsService";
+import { ServiceError } from "../helper/error-handler";
+import { config } from "../config/constant";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Arrears Service", () => {
+	let prisma: any;
+	let installments: any[];
+	let transactions: any[];
+	const { LATE_FEE_TYPE, LATE_FEE_VALUE } = config.INSTALLMENTS.ARREARS;
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		deductedAmount: null,
+		carriedForwardAmount: null,
+		arrearsAmount: null,
+		lateFeeAmount: null,
+		interestAmount: null,
+		order: { id: orderId, payrollCalendarId: null },
+		...overrides,
+	});
+
+	beforeEach(() => {
+		installments = [
+			installment({
+				id: "507f1f77bcf86cd799439041",
+				installmentNumber: 1,
+				status: "PARTIAL",
+				deductedAmount: 200,
+				cutOffDate: new Date("2026-01-15"),
+			}),
+			installment({
+				id: "507f1f77bcf86cd799439042",
+				installmentNumber: 2,
+				status: "PENDING",
+				cutOffDate: new Date("2026-01-31"),
+			}),
+			installment({
+				id: "507f1f77bcf86cd799439043",
+				installmentNumber: 3,
+				status: "PENDING",
+				cutOffDate: new Date("2026-02-15"),
+			}),
+		];
+		transactions = [
+			{
+				id: "507f1f77bcf86cd799439030",
+				orderId,
+				employeeId: "507f1f77bcf86cd799439011",
+				type: "INSTALLMENT",
+				paymentMethod: "PAYROLL_DEDUCTION",
+				totalAmount: 1500,
+				balance: 1300,
+				createdAt: new Date(),
+			},
+		];
+
+		prisma = {
+			installment: {
+				findUnique: async (params: Prisma.InstallmentFindUniqueArgs) =>
+					installments.find((i) => i.id === params.where.id) ?? null,
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) =>
+					installments.filter((i) => i.status === "PENDING"),
+				updateMany: async (params: Prisma.InstallmentUpdateManyArgs) => {
+					const target = installments.find((i) => i.id === (params.where as any).id);
+					if (!target || target.status !== (params.where as any).status) {
+						return { count: 0 };
+					}
+					Object.assign(target, params.data);
+					return { count: 1 };
+				},
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => transactions,
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = { id: "507f1f77bcf86cd799439031", ...(params.data as any) };
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) => {
+					const transaction = transactions.find((t) => t.id === params.where.id);
+					return Object.assign(transaction, params.data);
+				},
+			},
+			order: {
+				update: async (_params: Prisma.OrderUpdateArgs) => ({
+					id: orderId,
+					orderNumber: "EPP-2026-000001",
+					employeeId: "507f1f77bcf86cd799439011",
+					consecutiveFailedDeductions: 1,
+				}),
+				updateMany: async (_params: Prisma.OrderUpdateManyArgs) => ({ count: 1 }),
+			},
+			counter: {
+				upsert: async (_params: Prisma.CounterUpsertArgs) => ({ value: 1 }),
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	afterEach(() => {
+		config.INSTALLMENTS.ARREARS.LATE_FEE_TYPE = LATE_FEE_TYPE;
+		config.INSTALLMENTS.ARREARS.LATE_FEE_VALUE = LATE_FEE_VALUE;
+	});
+
+	describe("calculateLateFee()", () => {
+		it("should charge a fixed fee", function () {
+			config.INSTALLMENTS.ARREARS.LATE_FEE_TYPE = "FIXED";
+			config.INSTALLMENTS.ARREARS.LATE_FEE_VALUE = 50;
+			expect(calculateLateFee(300)).to.equal(50);
+		});
+
+		it("should charge a percentage of the unpaid amount", function () {
+			config.INSTALLMENTS.ARREARS.LATE_FEE_TYPE = "PERCENT";
+			config.INSTALLMENTS.ARREARS.LATE_FEE_VALUE = 2.5;
+			expect(calculateLateFee(300)).to.equal(7.5);
+		});
+
+		it("should charge nothing when nothing is unpaid", function () {
+			config.INSTALLMENTS.ARREARS.LATE_FEE_VALUE = 50;
+			expect(calculateLateFee(0)).to.equal(0);
+		});
+	});
+
+	describe("carryForwardArrears()", () => {
+		it("should carry the unpaid amount and late fee to the next pending installment", async function () {
+			this.timeout(TEST_TIMEOUT);
+			config.INSTALLMENTS.ARREARS.LATE_FEE_TYPE = "FIXED";
+			config.INSTALLMENTS.ARREARS.LATE_FEE_VALUE = 25;
+
+			const result = await carryForwardArrears(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439041",
+				"CARRY_FORWARD",
+			);
+
+			expect(result).to.include({ unpaidAmount: 300, lateFee: 25 });
+			expect(result!.appliedTo).to.deep.equal([
+				{
+					installmentId: "507f1f77bcf86cd799439042",
+					installmentNumber: 2,
+					amount: 325,
+					created: false,
+				},
+			]);
+			expect(installments[0]).to.have.property("carriedForwardAmount", 300);
+			expect(installments[1]).to.include({
+				amount: 825,
+				arrearsAmount: 300,
+				lateFeeAmount: 25,
+			});
+			expect(installments[2]).to.have.property("amount", 500);
+			// The late fee is added to the ledger balance
+			expect(transactions[0]).to.have.property("balance", 1325);
+		});
+
+		it("should spread the unpaid amount over all later pending installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await carryForwardArrears(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439041",
+				"SPREAD",
+			);
+
+			expect(result!.appliedTo.map((entry) => entry.amount)).to.deep.equal([150, 150]);
+			expect(installments[1]).to.have.property("amount", 650);
+			expect(installments[2]).to.have.property("amount", 650);
+		});
+
+		it("should refuse to carry an installment forward twice", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments[0].carriedForwardAmount = 300;
+
+			const error = await carryForwardArrears(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439041",
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse installments that are not FAILED or PARTIAL", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await carryForwardArrears(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439042",
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should return 404 for an unknown installment", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await carryForwardArrears(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439099",
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+
+	describe("recordFailedDeduction()", () => {
+		it("should return the order's failure streak", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const failures = await recordFailedDeduction(prisma as PrismaClient, orderId);
+			expect(failures).to.equal(1);
+		});
+	});
+
+	describe("resetFailedDeductions()", () => {
+		it("should only reset orders with a streak", async function () {
+			this.timeout(TEST_TIMEOUT);
+			let where: any;
+			prisma.order.updateMany = async (params: Prisma.OrderUpdateManyArgs) => {
+				where = params.where;
+				return { count: 1 };
+			};
+
+			await resetFailedDeductions(prisma as PrismaClient, orderId);
+			expect(where).to.deep.equal({ id: orderId, consecutiveFailedDeductions: { gt: 0 } });
+		});
+	});
+});
@@ -0,0 +1,283 @@
+import {
+	reserveStockOrBackorder,
+	queueBackorders,
+	cancelOrderBackorders,
+	receiveStock,
+	getBackorderQueue,
+} from "../helper/backorderService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Backorder Service", () => {
+	let prisma: any;
+	let products: any[];
+	let entries: any[];
+	let orderUpdates: any[];
+
+	const productId = "507f1f77bcf86cd799439012";
+
+	const entry = (overrides: Record<string, any>) => ({
+		productId,
+		employeeId: "507f1f77bcf86cd799439011",
+		mode: "BACKORDER",
+		status: "QUEUED",
+		...overrides,
+	});
+
+	beforeEach(() => {
+		products = [
+			{
+				id: productId,
+				name: "Laptop",
+				stockQuantity: 2,
+				backorderMode: "BACKORDER",
+				maxBackorderQuantity: 10,
+			},
+			{
+				id: "507f1f77bcf86cd799439013",
+				name: "Mouse",
+				stockQuantity: 1,
+				backorderMode: "NONE",
+				maxBackorderQuantity: null,
+			},
+		];
+		entries = [];
+		orderUpdates = [];
+
+		prisma = {
+			product: {
+				findMany: async (params: Prisma.ProductFindManyArgs) =>
+					products.filter((p) =>
+						((params.where?.id as any).in as string[]).includes(p.id),
+					),
+				findUnique: async (params: Prisma.ProductFindUniqueArgs) =>
+					products.find((p) => p.id === params.where.id) ?? null,
+				findUniqueOrThrow: async (params: Prisma.ProductFindUniqueOrThrowArgs) =>
+					products.find((p) => p.id === params.where.id),
+				update: async (params: Prisma.ProductUpdateArgs) => {
+					const product = products.find((p) => p.id === params.where.id);
+					product.stockQuantity += (params.data.stockQuantity as any).increment;
+					return product;
+				},
+				updateMany: async (params: Prisma.ProductUpdateManyArgs) => {
+					const where = params.where as any;
+					const data = params.data as any;
+					const product = products.find((p) => p.id === where.id);
+					if (
+						!product ||
+						(where.stockQuantity && product.stockQuantity < where.stockQuantity.gte)
+					) {
+						return { count: 0 };
+					}
+					product.stockQuantity +=
+						data.stockQuantity.increment ?? -data.stockQuantity.decrement;
+					return { count: 1 };
+				},
+			},
+			backorderEntry: {
+				findMany: async (params: Prisma.BackorderEntryFindManyArgs) => {
+					const where = params.where as any;
+					return entries.filter(
+						(e) =>
+							(!where.status || e.status === where.status) &&
+							(!where.orderId || e.orderId === where.orderId) &&
+							(!where.productId ||
+								(typeof where.productId === "string"
+									? e.productId === where.productId
+									: where.productId.in.includes(e.productId))),
+					);
+				},
+				count: async (params: Prisma.BackorderEntryCountArgs) =>
+					entries.filter(
+						(e) =>
+							e.orderId === params.where?.orderId &&
+							e.status === params.where?.status,
+					).length,
+				create: async (params: Prisma.BackorderEntryCreateArgs) => {
+					const created = entry({ id: `entry-${entries.length + 1}`, ...params.data });
+					entries.push(created);
+					return created;
+				},
+				update: async (params: Prisma.BackorderEntryUpdateArgs) =>
+					Object.assign(
+						entries.find((e) => e.id === params.where.id),
+						params.data,
+					),
+				updateMany: async (params: Prisma.BackorderEntryUpdateManyArgs) => {
+					const ids = (params.where?.id as any).in as string[];
+					entries
+						.filter((e) => ids.includes(e.id))
+						.forEach((e) => Object.assign(e, params.data));
+					return { count: ids.length };
+				},
+			},
+			orderItem: {
+				findMany: async (_params: Prisma.OrderItemFindManyArgs) => [
+					{ id: "item-1", productId, quantity: 3 },
+				],
+			},
+			order: {
+				findUnique: async (_params: Prisma.OrderFindUniqueArgs) => null,
+				findMany: async (_params: Prisma.OrderFindManyArgs) => [],
+				update: async (params: Prisma.OrderUpdateArgs) => {
+					orderUpdates.push(params);
+					return { id: params.where.id };
+				},
+			},
+			person: {
+				findMany: async (_params: Prisma.PersonFindManyArgs) => [],
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("reserveStockOrBackorder()", () => {
+		it("should reserve stock for lines that can be filled now", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const backordered = await reserveStockOrBackorder(prisma, [{ productId, quantity: 2 }]);
+
+			expect(backordered).to.deep.equal([]);
+			expect(products[0]).to.have.property("stockQuantity", 0);
+		});
+
+		it("should queue the whole line when stock is short", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const backordered = await reserveStockOrBackorder(prisma, [{ productId, quantity: 3 }]);
+
+			expect(backordered).to.deep.equal([{ productId, quantity: 3, mode: "BACKORDER" }]);
+			expect(products[0]).to.have.property("stockQuantity", 2);
+		});
+
+		it("should queue behind orders already waiting even when stock is available", async function () {
+			this.timeout(TEST_TIMEOUT);
+			entries.push(entry({ id: "entry-1", orderId: "order-1", quantity: 1 }));
+
+			const backordered = await reserveStockOrBackorder(prisma, [{ productId, quantity: 1 }]);
+			expect(backordered).to.have.length(1);
+		});
+
+		it("should refuse to backorder beyond the product's limit", async function () {
+			this.timeout(TEST_TIMEOUT);
+			entries.push(entry({ id: "entry-1", orderId: "order-1", quantity: 9 }));
+
+			const error = await reserveStockOrBackorder(prisma, [{ productId, quantity: 2 }]).catch(
+				(e) => e,
+			);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.errors[0].message).to.equal("Requested 2, only 1 more can be backordered");
+		});
+
+		it("should fail products without a backorder mode when short", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await reserveStockOrBackorder(prisma, [
+				{ productId: "507f1f77bcf86cd799439013", quantity: 2 },
+			]).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error.message).to.equal("Insufficient stock for one or more items");
+		});
+	});
+
+	describe("queueBackorders()", () => {
+		it("should queue the order's lines for backordered products", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const queued = await queueBackorders(
+				prisma,
+				{ id: "order-1", employeeId: "507f1f77bcf86cd799439011" },
+				[{ productId, quantity: 3, mode: "PREORDER" }],
+			);
+
+			expect(queued).to.equal(1);
+			expect(entries[0]).to.include({
+				orderId: "order-1",
+				orderItemId: "item-1",
+				mode: "PREORDER",
+			});
+		});
+	});
+
+	describe("cancelOrderBackorders()", () => {
+		it("should cancel queued lines and return their quantities per order item", async function () {
+			this.timeout(TEST_TIMEOUT);
+			entries.push(
+				entry({ id: "entry-1", orderId: "order-1", orderItemId: "item-1", quantity: 3 }),
+			);
+
+			const queued = await cancelOrderBackorders(prisma, "order-1");
+			expect(queued.get("item-1")).to.equal(3);
+			expect(entries[0]).to.have.property("status", "CANCELLED");
+		});
+	});
+
+	describe("receiveStock()", () => {
+		it("should allocate incoming stock first come first served", async function () {
+			this.timeout(TEST_TIMEOUT);
+			products[0].stockQuantity = 0;
+			entries.push(
+				entry({
+					id: "entry-1",
+					orderId: "order-1",
+					quantity: 2,
+					queuedAt: new Date("2026-01-01"),
+				}),
+				entry({
+					id: "entry-2",
+					orderId: "order-2",
+					quantity: 3,
+					queuedAt: new Date("2026-01-02"),
+				}),
+				entry({
+					id: "entry-3",
+					orderId: "order-3",
+					quantity: 1,
+					queuedAt: new Date("2026-01-03"),
+				}),
+			);
+
+			const result = await receiveStock(prisma as PrismaClient, productId, 4, {
+				receivedBy: "warehouse@company.com",
+			});
+
+			// The second entry cannot be filled, so the third does not jump ahead of it
+			expect(result.allocated.map((a) => a.id)).to.deep.equal(["entry-1"]);
+			expect(result).to.include({ stockQuantity: 2, stillQueued: 2 });
+			expect(result.releasedOrders).to.deep.equal(["order-1"]);
+			expect(orderUpdates[0].data).to.have.property("awaitingStock", false);
+		});
+
+		it("should return 404 for an unknown product", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await receiveStock(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439099",
+				1,
+				{
+					receivedBy: "warehouse@company.com",
+				},
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+
+	describe("getBackorderQueue()", () => {
+		it("should number entries by queue position", async function () {
+			this.timeout(TEST_TIMEOUT);
+			entries.push(
+				entry({ id: "entry-1", orderId: "order-1", quantity: 2 }),
+				entry({ id: "entry-2", orderId: "order-2", quantity: 3 }),
+			);
+
+			const queue = await getBackorderQueue(prisma as PrismaClient, productId);
+			expect(queue).to.have.property("totalQuantity", 5);
+			expect(queue.entries.map((e) => e.position)).to.deep.equal([1, 2]);
+		});
+	});
+});
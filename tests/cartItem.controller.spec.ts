@@ -58,6 +58,13 @@ describe("CartItem Controller", () => {
 		},
 	];
 
+	// Fields the create schema requires
+	const validFields = {
+		employeeId: "507f1f77bcf86cd799439011",
+		productId: "507f1f77bcf86cd799439012",
+		quantity: 1,
+	};
+
 	beforeEach(() => {
 		prisma = {
 			cartItem: {
@@ -92,6 +99,12 @@ describe("CartItem Controller", () => {
 					id: params.where.id,
 				}),
 			},
+			product: {
+				findUnique: async (params: Prisma.ProductFindUniqueArgs) =>
+					params.where?.id === validFields.productId
+						? { id: validFields.productId, retailPrice: 1200, employeePrice: 1000 }
+						: null,
+			},
 			$transaction: async (operations: any) => {
 				if (typeof operations === "function") {
 					return operations(prisma);
@@ -136,77 +149,80 @@ describe("CartItem Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated cartItems", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("cartItems").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group cartItems by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.cartItems).to.have.property("email");
+			expect(sentData.data.cartItems).to.have.property("sms");
+			expect(sentData.data.cartItems).to.have.property("unassigned");
 		});
 
 		it("should group cartItems by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration CartItem");
-			expect(sentData.data.grouped).to.have.property("SMS Notification CartItem");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.cartItems).to.have.property("User Registration CartItem");
+			expect(sentData.data.cartItems).to.have.property("SMS Notification CartItem");
 		});
 
 		it("should handle cartItems with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.cartItems).to.have.property("unassigned");
+			expect(sentData.data.cartItems.unassigned).to.be.an("array");
+			expect(sentData.data.cartItems.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.cartItems).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await cartItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.cartItems).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +235,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.cartItem.findMany = async () => {
@@ -230,13 +246,13 @@ describe("CartItem Controller", () => {
 			};
 
 			await cartItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.cartItem.findMany = async () => {
@@ -251,10 +267,11 @@ describe("CartItem Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +280,14 @@ describe("CartItem Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +295,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +303,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +319,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +341,7 @@ describe("CartItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await cartItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +351,7 @@ describe("CartItem Controller", () => {
 			await cartItemController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +359,7 @@ describe("CartItem Controller", () => {
 			req.params = { id: mockCartItem.id };
 
 			// Mock Prisma to throw an error
-			prisma.cartItem.findUnique = async () => {
+			prisma.cartItem.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +367,7 @@ describe("CartItem Controller", () => {
 			};
 
 			await cartItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +376,7 @@ describe("CartItem Controller", () => {
 			req.params = { id: mockCartItem.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.cartItem.findUnique = async () => {
+			prisma.cartItem.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +390,7 @@ describe("CartItem Controller", () => {
 		it("should create a new cartItem", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form CartItem",
 				description: "CartItem for contact forms with validation",
 			};
@@ -380,6 +405,7 @@ describe("CartItem Controller", () => {
 		it("should create a new cartItem with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email CartItem",
 				description: "CartItem for email notifications",
 				type: "email",
@@ -396,6 +422,7 @@ describe("CartItem Controller", () => {
 		it("should create a new cartItem without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic CartItem",
 				description: "CartItem without type",
 			};
@@ -410,6 +437,7 @@ describe("CartItem Controller", () => {
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form CartItem",
 				description: "CartItem from form data",
 				type: "form",
@@ -429,6 +457,7 @@ describe("CartItem Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL CartItem",
 				description: "CartItem from URL encoded data",
 			};
@@ -459,6 +488,7 @@ describe("CartItem Controller", () => {
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test CartItem",
 				description: "CartItem that will cause Prisma error",
 			};
@@ -473,13 +503,14 @@ describe("CartItem Controller", () => {
 			};
 
 			await cartItemController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test CartItem",
 				description: "CartItem that will cause internal error",
 			};
@@ -509,7 +540,7 @@ describe("CartItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.cartItem).to.have.property("id");
 		});
 
 		it("should update cartItem type field", async function () {
@@ -523,7 +554,7 @@ describe("CartItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.cartItem).to.have.property("id");
 		});
 
 		it("should update multiple cartItem fields including type", async function () {
@@ -539,7 +570,7 @@ describe("CartItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.cartItem).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +619,13 @@ describe("CartItem Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await cartItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "CartItem with empty name",
-			};
+			const updateData = { quantity: 0 };
 			req.params = { id: mockCartItem.id };
 			req.body = updateData;
 			await cartItemController.update(req as Request, res, next);
@@ -615,7 +643,7 @@ describe("CartItem Controller", () => {
 			await cartItemController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +664,7 @@ describe("CartItem Controller", () => {
 			};
 
 			await cartItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +701,7 @@ describe("CartItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await cartItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +711,7 @@ describe("CartItem Controller", () => {
 			await cartItemController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +727,7 @@ describe("CartItem Controller", () => {
 			};
 
 			await cartItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -746,6 +774,7 @@ describe("CartItem Controller", () => {
 		it("should handle very long cartItem name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "CartItem with very long name",
 			};
@@ -758,6 +787,7 @@ describe("CartItem Controller", () => {
 		it("should handle special characters in cartItem data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "CartItem with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +801,7 @@ describe("CartItem Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent CartItem",
 				description: "CartItem created concurrently",
 			};
@@ -799,7 +830,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +838,7 @@ describe("CartItem Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await cartItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +881,8 @@ describe("CartItem Controller", () => {
 			req.params = { id: mockCartItem.id };
 			req.body = {}; // Empty body
 			await cartItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
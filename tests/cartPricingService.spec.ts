@@ -0,0 +1,115 @@
+import {
+	getEmployeeUnitPrice,
+	reviewCartLine,
+	reviewCart,
+	summarizeCartReview,
+} from "../helper/cartPricingService";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Cart Pricing Service", () => {
+	const product = (overrides: Record<string, any> = {}) => ({
+		id: "507f1f77bcf86cd799439012",
+		name: "Laptop",
+		employeePrice: 1000,
+		retailPrice: 1200,
+		stockQuantity: 5,
+		backorderMode: "NONE",
+		status: "APPROVED",
+		isAvailable: true,
+		isActive: true,
+		...overrides,
+	});
+	const cartItem = (overrides: Record<string, any> = {}) => ({
+		id: "507f1f77bcf86cd799439051",
+		productId: "507f1f77bcf86cd799439012",
+		quantity: 2,
+		unitPriceSnapshot: 1000,
+		...overrides,
+	});
+
+	describe("getEmployeeUnitPrice()", () => {
+		it("should use the employee price when set", function () {
+			expect(getEmployeeUnitPrice({ employeePrice: 900, retailPrice: 1200 })).to.equal(900);
+		});
+
+		it("should fall back to the retail price", function () {
+			expect(getEmployeeUnitPrice({ employeePrice: null, retailPrice: 1200 })).to.equal(1200);
+		});
+	});
+
+	describe("reviewCartLine()", () => {
+		it("should report a price change against the snapshot", function () {
+			const line = reviewCartLine(cartItem(), product({ employeePrice: 1050.5 }));
+			expect(line).to.include({
+				availability: "AVAILABLE",
+				currentUnitPrice: 1050.5,
+				priceChanged: true,
+				priceDelta: 50.5,
+			});
+		});
+
+		it("should treat lines without a snapshot as unchanged", function () {
+			const line = reviewCartLine(cartItem({ unitPriceSnapshot: null }), product());
+			expect(line).to.include({ priceChanged: false, priceDelta: 0 });
+		});
+
+		it("should mark products that are not approved as unavailable", function () {
+			const line = reviewCartLine(cartItem(), product({ status: "PENDING" }));
+			expect(line).to.have.property("availability", "UNAVAILABLE");
+		});
+
+		it("should mark short stock as out of stock or backorder", function () {
+			expect(reviewCartLine(cartItem({ quantity: 6 }), product())).to.have.property(
+				"availability",
+				"OUT_OF_STOCK",
+			);
+			expect(
+				reviewCartLine(cartItem({ quantity: 6 }), product({ backorderMode: "PREORDER" })),
+			).to.have.property("availability", "BACKORDER");
+		});
+
+		it("should mark deleted products as removed", function () {
+			const line = reviewCartLine(cartItem(), undefined);
+			expect(line).to.include({ availability: "REMOVED", currentUnitPrice: null });
+		});
+	});
+
+	describe("summarizeCartReview()", () => {
+		it("should leave lines that cannot be ordered out of the subtotals", function () {
+			const review = summarizeCartReview([
+				reviewCartLine(cartItem(), product({ employeePrice: 1100 })),
+				reviewCartLine(
+					cartItem({ id: "507f1f77bcf86cd799439052", quantity: 10 }),
+					product({ backorderMode: "BACKORDER" }),
+				),
+				reviewCartLine(cartItem({ id: "507f1f77bcf86cd799439053" }), undefined),
+			]);
+
+			expect(review).to.include({
+				snapshotSubtotal: 12000,
+				currentSubtotal: 12200,
+				hasPriceChanges: true,
+				hasUnavailableItems: true,
+				hasBackorders: true,
+			});
+		});
+	});
+
+	describe("reviewCart()", () => {
+		it("should review cart items against the live products", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const prisma = {
+				product: {
+					findMany: async (_params: Prisma.ProductFindManyArgs) => [product()],
+				},
+			};
+
+			const review = await reviewCart(prisma as unknown as PrismaClient, [cartItem()]);
+			expect(review.lines).to.have.length(1);
+			expect(review).to.include({ currentSubtotal: 2000, hasPriceChanges: false });
+		});
+	});
+});
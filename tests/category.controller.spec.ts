@@ -136,77 +136,80 @@ describe("Category Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated categorys", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("categorys").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group categorys by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.categorys).to.have.property("email");
+			expect(sentData.data.categorys).to.have.property("sms");
+			expect(sentData.data.categorys).to.have.property("unassigned");
 		});
 
 		it("should group categorys by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration Category");
-			expect(sentData.data.grouped).to.have.property("SMS Notification Category");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.categorys).to.have.property("User Registration Category");
+			expect(sentData.data.categorys).to.have.property("SMS Notification Category");
 		});
 
 		it("should handle categorys with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.categorys).to.have.property("unassigned");
+			expect(sentData.data.categorys.unassigned).to.be.an("array");
+			expect(sentData.data.categorys.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.categorys).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await categoryController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.categorys).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +222,7 @@ describe("Category Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.category.findMany = async () => {
@@ -230,13 +233,13 @@ describe("Category Controller", () => {
 			};
 
 			await categoryController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.category.findMany = async () => {
@@ -251,10 +254,11 @@ describe("Category Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +267,14 @@ describe("Category Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +282,7 @@ describe("Category Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +290,7 @@ describe("Category Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +306,7 @@ describe("Category Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +328,7 @@ describe("Category Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await categoryController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +338,7 @@ describe("Category Controller", () => {
 			await categoryController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +346,7 @@ describe("Category Controller", () => {
 			req.params = { id: mockCategory.id };
 
 			// Mock Prisma to throw an error
-			prisma.category.findUnique = async () => {
+			prisma.category.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +354,7 @@ describe("Category Controller", () => {
 			};
 
 			await categoryController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +363,7 @@ describe("Category Controller", () => {
 			req.params = { id: mockCategory.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.category.findUnique = async () => {
+			prisma.category.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -473,7 +484,7 @@ describe("Category Controller", () => {
 			};
 
 			await categoryController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -509,7 +520,7 @@ describe("Category Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.category).to.have.property("id");
 		});
 
 		it("should update category type field", async function () {
@@ -523,7 +534,7 @@ describe("Category Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.category).to.have.property("id");
 		});
 
 		it("should update multiple category fields including type", async function () {
@@ -539,7 +550,7 @@ describe("Category Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.category).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,7 +599,7 @@ describe("Category Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await categoryController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -615,7 +626,7 @@ describe("Category Controller", () => {
 			await categoryController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +647,7 @@ describe("Category Controller", () => {
 			};
 
 			await categoryController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +684,7 @@ describe("Category Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await categoryController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +694,7 @@ describe("Category Controller", () => {
 			await categoryController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +710,7 @@ describe("Category Controller", () => {
 			};
 
 			await categoryController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -799,7 +810,7 @@ describe("Category Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +818,7 @@ describe("Category Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await categoryController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +861,8 @@ describe("Category Controller", () => {
 			req.params = { id: mockCategory.id };
 			req.body = {}; // Empty body
 			await categoryController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
@@ -0,0 +1,265 @@
+import {
+	cutoffKey,
+	resolveCreditPolicy,
+	resolveCreditPolicies,
+	getCreditCapacity,
+	assertCreditCapacity,
+} from "../helper/creditService";
+import { planInstallments } from "../helper/installmentService";
+import { ServiceError } from "../helper/error-handler";
+import { config } from "../config/constant";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Credit Service", () => {
+	let prisma: any;
+	let people: any[];
+	let policies: any[];
+	let ledgers: any[];
+	let installments: any[];
+	let separation: any;
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const otherEmployeeId = "507f1f77bcf86cd799439012";
+
+	const policy = (overrides: Record<string, any>) => ({
+		id: `policy-${overrides.scope}`,
+		name: `${overrides.scope} policy`,
+		scopeValue: null,
+		maxOutstandingBalance: null,
+		maxDeductionPerCutoff: null,
+		isActive: true,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		people = [
+			{ id: employeeId, organizationId: "org-1", employeeGrade: "G5" },
+			{ id: otherEmployeeId, organizationId: "org-2", employeeGrade: null },
+		];
+		policies = [
+			policy({ scope: "DEFAULT", maxOutstandingBalance: 50000 }),
+			policy({ scope: "ORGANIZATION", scopeValue: "org-1", maxOutstandingBalance: 40000 }),
+			policy({ scope: "GRADE", scopeValue: "G5", maxOutstandingBalance: 30000 }),
+		];
+		ledgers = [];
+		installments = [];
+		separation = null;
+
+		prisma = {
+			person: {
+				findUnique: async (params: Prisma.PersonFindUniqueArgs) =>
+					people.find((p) => p.id === params.where.id) ?? null,
+				findMany: async (params: Prisma.PersonFindManyArgs) =>
+					people.filter((p) => ((params.where?.id as any).in as string[]).includes(p.id)),
+			},
+			creditPolicy: {
+				findMany: async (_params: Prisma.CreditPolicyFindManyArgs) => policies,
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => ledgers,
+			},
+			order: {
+				findMany: async (_params: Prisma.OrderFindManyArgs) =>
+					installments.length > 0 ? [{ id: "507f1f77bcf86cd799439026" }] : [],
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => installments,
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+				findFirst: async (_params: Prisma.PayrollCalendarFindFirstArgs) => null,
+			},
+			employeeSeparation: {
+				findUnique: async (_params: Prisma.EmployeeSeparationFindUniqueArgs) => separation,
+			},
+		};
+	});
+
+	describe("cutoffKey()", () => {
+		it("should key cutoffs by local calendar date", function () {
+			expect(cutoffKey(new Date(2026, 0, 5, 23, 30))).to.equal("2026-01-05");
+		});
+	});
+
+	describe("resolveCreditPolicy()", () => {
+		it("should prefer an employee policy over every other scope", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies.push(
+				policy({ scope: "EMPLOYEE", scopeValue: employeeId, maxOutstandingBalance: 20000 }),
+			);
+
+			const resolved = await resolveCreditPolicy(prisma as PrismaClient, { employeeId });
+			expect(resolved).to.include({ scope: "EMPLOYEE", maxOutstandingBalance: 20000 });
+		});
+
+		it("should prefer the grade policy over the organization policy", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const resolved = await resolveCreditPolicy(prisma as PrismaClient, { employeeId });
+			expect(resolved).to.include({ policyId: "policy-GRADE", scope: "GRADE" });
+		});
+
+		it("should ignore policies for another organization", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const resolved = await resolveCreditPolicy(prisma as PrismaClient, {
+				employeeId: otherEmployeeId,
+			});
+			expect(resolved).to.include({ scope: "DEFAULT", maxOutstandingBalance: 50000 });
+		});
+
+		it("should fall back to the configured defaults without a matching policy", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies = [];
+
+			const resolved = await resolveCreditPolicy(prisma as PrismaClient, { employeeId });
+			expect(resolved).to.include({
+				policyId: null,
+				scope: "CONFIG",
+				maxOutstandingBalance: config.CREDIT.DEFAULT_MAX_OUTSTANDING_BALANCE,
+				maxDeductionPerCutoff: config.CREDIT.DEFAULT_MAX_DEDUCTION_PER_CUTOFF,
+			});
+		});
+	});
+
+	describe("resolveCreditPolicies()", () => {
+		it("should resolve each employee's policy from one query", async function () {
+			this.timeout(TEST_TIMEOUT);
+			let queries = 0;
+			prisma.creditPolicy.findMany = async (_params: Prisma.CreditPolicyFindManyArgs) => {
+				queries++;
+				return policies;
+			};
+
+			const resolved = await resolveCreditPolicies(prisma as PrismaClient, [
+				employeeId,
+				otherEmployeeId,
+				"legacy-employee",
+			]);
+			expect(queries).to.equal(1);
+			expect(resolved.get(employeeId)).to.have.property("scope", "GRADE");
+			expect(resolved.get(otherEmployeeId)).to.have.property("scope", "DEFAULT");
+			expect(resolved.get("legacy-employee")).to.have.property("scope", "DEFAULT");
+		});
+	});
+
+	describe("getCreditCapacity()", () => {
+		it("should total open ledgers and upcoming deductions per cutoff", async function () {
+			this.timeout(TEST_TIMEOUT);
+			ledgers = [{ balance: 12000 }, { balance: 3000.5 }];
+			installments = [
+				{ amount: 1000, cutOffDate: new Date(2026, 0, 15) },
+				{ amount: 500, cutOffDate: new Date(2026, 0, 15) },
+				{ amount: 1000, cutOffDate: new Date(2026, 0, 31) },
+			];
+			policies.push(
+				policy({
+					scope: "EMPLOYEE",
+					scopeValue: employeeId,
+					maxOutstandingBalance: 20000,
+					maxDeductionPerCutoff: 2000,
+				}),
+			);
+
+			const capacity = await getCreditCapacity(prisma as PrismaClient, { employeeId });
+			expect(capacity).to.include({
+				outstandingBalance: 15000.5,
+				remainingBalance: 4999.5,
+				peakCutoffDeduction: 1500,
+			});
+			expect(capacity.cutoffs).to.deep.equal([
+				{ cutOffDate: "2026-01-15", amount: 1500, remaining: 500 },
+				{ cutOffDate: "2026-01-31", amount: 1000, remaining: 1000 },
+			]);
+		});
+	});
+
+	describe("assertCreditCapacity()", () => {
+		it("should allow an order within the limits", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const capacity = await assertCreditCapacity(
+				prisma as PrismaClient,
+				{ employeeId },
+				{ total: 1000, paymentType: "CASH" },
+			);
+			expect(capacity).to.have.property("remainingBalance", 30000);
+		});
+
+		it("should refuse an order above the outstanding balance limit", async function () {
+			this.timeout(TEST_TIMEOUT);
+			ledgers = [{ balance: 29500 }];
+
+			const error = await assertCreditCapacity(
+				prisma as PrismaClient,
+				{ employeeId },
+				{ total: 1000, paymentType: "CASH" },
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+			expect(error.errors[0]).to.have.property("field", "total");
+			expect(error.data.creditCapacity).to.have.property("outstandingBalance", 29500);
+		});
+
+		it("should refuse installments above the per-cutoff deduction limit", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies.push(
+				policy({ scope: "EMPLOYEE", scopeValue: employeeId, maxDeductionPerCutoff: 500 }),
+			);
+
+			const error = await assertCreditCapacity(
+				prisma as PrismaClient,
+				{ employeeId },
+				{ total: 12000, paymentType: "INSTALLMENT", installmentMonths: 6 },
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error.errors[0]).to.have.property("field", "installmentMonths");
+		});
+
+		it("should allow financed installments that reach the per-cutoff limit exactly", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const financing = { method: "FLAT" as const, annualRate: 0.12 };
+			const startDate = new Date(2026, 0, 5);
+			const plan = planInstallments(3, 1200, startDate, undefined, financing);
+			const financeCharge = plan.reduce((sum, p) => sum + p.interestAmount!, 0);
+			policies.push(
+				policy({
+					scope: "EMPLOYEE",
+					scopeValue: employeeId,
+					maxDeductionPerCutoff: Math.max(...plan.map((p) => p.amount)),
+				}),
+			);
+
+			// The principal is amortized once; the total already carries the interest
+			const capacity = await assertCreditCapacity(
+				prisma as PrismaClient,
+				{ employeeId },
+				{
+					total: Number((1200 + financeCharge).toFixed(2)),
+					paymentType: "INSTALLMENT",
+					installmentMonths: 3,
+					financedAmount: 1200,
+					startDate,
+					financing,
+				},
+			);
+			expect(capacity.policy).to.have.property("scope", "EMPLOYEE");
+		});
+
+		it("should refuse any order from a separated employee", async function () {
+			this.timeout(TEST_TIMEOUT);
+			separation = {
+				id: "507f1f77bcf86cd799439061",
+				separationNumber: "SEP-2026-000001",
+				lastWorkingDay: new Date("2026-03-31"),
+			};
+
+			const error = await assertCreditCapacity(
+				prisma as PrismaClient,
+				{ employeeId },
+				{ total: 100, paymentType: "CASH" },
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 403);
+		});
+	});
+});
@@ -0,0 +1,93 @@
+import {
+	getEmployeeName,
+	getEmployeeProfile,
+	getEmployeeProfiles,
+} from "../helper/employeeService";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Employee Service", () => {
+	let prisma: any;
+	let queriedIds: string[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+
+	beforeEach(() => {
+		queriedIds = [];
+		prisma = {
+			person: {
+				findUnique: async (params: Prisma.PersonFindUniqueArgs) => {
+					queriedIds.push(params.where.id!);
+					return params.where.id === employeeId
+						? {
+								organizationId: "org-1",
+								employeeGrade: "G5",
+								personalInfo: { firstName: "Maria", lastName: "Santos" },
+							}
+						: null;
+				},
+				findMany: async (params: Prisma.PersonFindManyArgs) => {
+					queriedIds = (params.where?.id as any).in;
+					return queriedIds.includes(employeeId)
+						? [{ id: employeeId, organizationId: "org-1", employeeGrade: null }]
+						: [];
+				},
+			},
+		};
+	});
+
+	describe("getEmployeeProfile()", () => {
+		it("should read organization and grade from the Person record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const profile = await getEmployeeProfile(prisma as PrismaClient, employeeId);
+			expect(profile).to.deep.equal({ organizationId: "org-1", employeeGrade: "G5" });
+		});
+
+		it("should not look up IDs that are not Person IDs", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const profile = await getEmployeeProfile(prisma as PrismaClient, "EMP-001");
+			expect(profile).to.deep.equal({ organizationId: null, employeeGrade: null });
+			expect(queriedIds).to.be.empty;
+		});
+	});
+
+	describe("getEmployeeName()", () => {
+		it("should join first and last name from the Person record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const name = await getEmployeeName(prisma as PrismaClient, employeeId);
+			expect(name).to.equal("Maria Santos");
+		});
+
+		it("should fall back when there is no Person record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			expect(
+				await getEmployeeName(prisma as PrismaClient, "507f1f77bcf86cd799439012"),
+			).to.equal("Employee");
+			expect(await getEmployeeName(prisma as PrismaClient, "EMP-001")).to.equal("Employee");
+			expect(queriedIds).to.deep.equal(["507f1f77bcf86cd799439012"]);
+		});
+	});
+
+	describe("getEmployeeProfiles()", () => {
+		it("should key every requested employee, with or without a Person record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const profiles = await getEmployeeProfiles(prisma as PrismaClient, [
+				employeeId,
+				"507f1f77bcf86cd799439012",
+				"EMP-001",
+			]);
+
+			expect(queriedIds).to.deep.equal([employeeId, "507f1f77bcf86cd799439012"]);
+			expect(profiles.get(employeeId)).to.deep.equal({
+				organizationId: "org-1",
+				employeeGrade: null,
+			});
+			expect(profiles.get("EMP-001")).to.deep.equal({
+				organizationId: null,
+				employeeGrade: null,
+			});
+		});
+	});
+});
@@ -0,0 +1,190 @@
+import {
+	amortize,
+	getOrderFinancingTerms,
+	calculateFinanceCharge,
+	resolveFinancingTier,
+	quoteFinancing,
+	financingOrderFields,
+} from "../helper/financingService";
+import { defaultPayrollCalendar } from "../helper/payrollCalendarService";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Financing Service", () => {
+	let prisma: any;
+	let tiers: any[];
+	let products: any[];
+
+	const sum = (values: number[]) => Number(values.reduce((a, b) => a + b, 0).toFixed(2));
+
+	beforeEach(() => {
+		tiers = [
+			{
+				id: "507f1f77bcf86cd799439071",
+				name: "Standard",
+				method: "FLAT",
+				annualRate: 0.12,
+				minMonths: 6,
+				maxMonths: null,
+				categoryId: null,
+			},
+			{
+				id: "507f1f77bcf86cd799439072",
+				name: "Gadgets",
+				method: "DIMINISHING",
+				annualRate: 0.1,
+				minMonths: 3,
+				maxMonths: 12,
+				categoryId: "507f1f77bcf86cd799439081",
+			},
+		];
+		products = [{ id: "507f1f77bcf86cd799439012", categoryId: "507f1f77bcf86cd799439081" }];
+
+		prisma = {
+			financingTier: {
+				findMany: async (params: Prisma.FinancingTierFindManyArgs) =>
+					tiers
+						.filter((t) => t.minMonths <= (params.where?.minMonths as any).lte)
+						.sort((a, b) => b.minMonths - a.minMonths),
+			},
+			product: {
+				findMany: async (params: Prisma.ProductFindManyArgs) =>
+					products.filter((p) =>
+						((params.where?.id as any).in as string[]).includes(p.id),
+					),
+			},
+		};
+	});
+
+	describe("amortize()", () => {
+		it("should spread flat interest evenly over the installments", function () {
+			const lines = amortize(12000, 12, { method: "FLAT", annualRate: 0.12 }, 24);
+
+			expect(lines).to.have.length(12);
+			expect(lines[0]).to.deep.equal({ principal: 1000, interest: 60, amount: 1060 });
+			expect(sum(lines.map((l) => l.interest))).to.equal(720);
+		});
+
+		it("should charge diminishing interest on the outstanding principal", function () {
+			const lines = amortize(12000, 12, { method: "DIMINISHING", annualRate: 0.12 }, 24);
+
+			expect(sum(lines.map((l) => l.principal))).to.equal(12000);
+			expect(lines[0].interest).to.be.greaterThan(lines[11].interest);
+			expect(sum(lines.map((l) => l.interest))).to.be.lessThan(720);
+		});
+
+		it("should leave interest-free plans without interest", function () {
+			const lines = amortize(1000, 3, { method: "DIMINISHING", annualRate: 0 }, 24);
+
+			expect(lines.map((l) => l.amount)).to.deep.equal([333.33, 333.33, 333.34]);
+			expect(lines.every((l) => l.interest === 0)).to.equal(true);
+		});
+	});
+
+	describe("getOrderFinancingTerms()", () => {
+		it("should return the terms stored on an order", function () {
+			expect(
+				getOrderFinancingTerms({ financingMethod: "FLAT", financingRate: 0.12 }),
+			).to.deep.equal({
+				method: "FLAT",
+				annualRate: 0.12,
+			});
+		});
+
+		it("should return null for interest-free orders", function () {
+			expect(getOrderFinancingTerms({ financingMethod: null, financingRate: null })).to.equal(
+				null,
+			);
+		});
+	});
+
+	describe("calculateFinanceCharge()", () => {
+		it("should total the interest over the payroll periods of the term", function () {
+			const charge = calculateFinanceCharge(
+				12000,
+				6,
+				{ method: "FLAT", annualRate: 0.12 },
+				defaultPayrollCalendar(),
+			);
+			expect(charge).to.equal(720);
+		});
+	});
+
+	describe("resolveFinancingTier()", () => {
+		it("should prefer a tier for the order's only category", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const tier = await resolveFinancingTier(prisma as PrismaClient, 6, [
+				"507f1f77bcf86cd799439012",
+			]);
+			expect(tier).to.have.property("name", "Gadgets");
+		});
+
+		it("should use the general tier for products from several categories", async function () {
+			this.timeout(TEST_TIMEOUT);
+			products.push({
+				id: "507f1f77bcf86cd799439013",
+				categoryId: "507f1f77bcf86cd799439082",
+			});
+
+			const tier = await resolveFinancingTier(prisma as PrismaClient, 6, [
+				"507f1f77bcf86cd799439012",
+				"507f1f77bcf86cd799439013",
+			]);
+			expect(tier).to.have.property("name", "Standard");
+		});
+
+		it("should skip tiers whose term range does not cover the request", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const tier = await resolveFinancingTier(prisma as PrismaClient, 18, [
+				"507f1f77bcf86cd799439012",
+			]);
+			expect(tier).to.have.property("name", "Standard");
+			expect(await resolveFinancingTier(prisma as PrismaClient, 2, [])).to.equal(null);
+		});
+	});
+
+	describe("quoteFinancing()", () => {
+		it("should quote the cost of credit under the matching tier", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const quote = await quoteFinancing(prisma as PrismaClient, {
+				installmentMonths: 6,
+				principal: 12000,
+				productIds: [],
+				calendar: defaultPayrollCalendar(),
+			});
+
+			expect(quote).to.include({
+				financingTierId: "507f1f77bcf86cd799439071",
+				method: "FLAT",
+				installmentCount: 12,
+				financeCharge: 720,
+				totalRepayable: 12720,
+				installmentAmount: 1060,
+			});
+		});
+
+		it("should quote interest-free without a matching tier", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const quote = await quoteFinancing(prisma as PrismaClient, {
+				installmentMonths: 1,
+				principal: 1000,
+				productIds: [],
+				calendar: defaultPayrollCalendar(),
+			});
+
+			expect(quote).to.include({
+				financingTierId: null,
+				financeCharge: 0,
+				totalRepayable: 1000,
+			});
+			expect(financingOrderFields(quote)).to.deep.equal({
+				financingTierId: null,
+				financingMethod: null,
+				financingRate: null,
+				financeCharge: null,
+			});
+		});
+	});
+});
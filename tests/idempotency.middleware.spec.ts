@@ -0,0 +1,166 @@
+import { describe, it, before, after, beforeEach } from "mocha";
+import { expect } from "chai";
+import request from "supertest";
+import express from "express";
+import { idempotency } from "../middleware/idempotency";
+import { redisClient } from "../config/redis";
+
+describe("Idempotency Middleware", () => {
+	let app: express.Application;
+	let store: Map<string, string>;
+	let connected: boolean;
+	let handled: number;
+	const original = {
+		isClientConnected: redisClient.isClientConnected,
+		setNX: redisClient.setNX,
+		getJSON: redisClient.getJSON,
+		setJSON: redisClient.setJSON,
+		del: redisClient.del,
+	};
+
+	before(() => {
+		// Keep the records in memory instead of a Redis server
+		redisClient.isClientConnected = () => connected;
+		redisClient.setNX = async (key: string, value: string) => {
+			if (store.has(key)) return false;
+			store.set(key, value);
+			return true;
+		};
+		redisClient.getJSON = async (key: string) =>
+			store.has(key) ? JSON.parse(store.get(key)!) : null;
+		redisClient.setJSON = async (key: string, value: any) => {
+			store.set(key, JSON.stringify(value));
+			return "OK";
+		};
+		redisClient.del = async (key: string) => (store.delete(key) ? 1 : 0);
+
+		app = express();
+		app.use(express.json());
+
+		app.post("/checkout", idempotency(), (req, res) => {
+			handled++;
+			res.status(201).json({ message: "created", order: handled });
+		});
+
+		app.post("/conflict", idempotency(), (req, res) => {
+			handled++;
+			res.status(409).json({ message: "conflict" });
+		});
+
+		app.post("/required", idempotency({ required: true }), (req, res) => {
+			res.json({ message: "success" });
+		});
+	});
+
+	after(() => {
+		Object.assign(redisClient, original);
+	});
+
+	beforeEach(() => {
+		store = new Map();
+		connected = true;
+		handled = 0;
+	});
+
+	describe("Without a key", () => {
+		it("should pass the request through", async () => {
+			await request(app).post("/checkout").send({ cartId: "1" }).expect(201);
+			await request(app).post("/checkout").send({ cartId: "1" }).expect(201);
+
+			expect(handled).to.equal(2);
+		});
+
+		it("should reject the request when the key is required", async () => {
+			const response = await request(app).post("/required").send({}).expect(400);
+
+			expect(response.body.message).to.contain("Idempotency-Key header is required");
+		});
+	});
+
+	describe("With a key", () => {
+		it("should replay the first response for a retry", async () => {
+			const first = await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+			const retry = await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+
+			expect(handled).to.equal(1);
+			expect(retry.body).to.deep.equal(first.body);
+			expect(retry.headers["idempotent-replayed"]).to.equal("true");
+		});
+
+		it("should refuse the same key with a different body", async () => {
+			await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+			const response = await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "2" })
+				.expect(409);
+
+			expect(response.body.message).to.contain("already been used for a different request");
+			expect(handled).to.equal(1);
+		});
+
+		it("should refuse a retry while the first request is still running", async () => {
+			await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+			// Put the stored record back in flight
+			const [key, value] = [...store.entries()][0];
+			store.set(key, JSON.stringify({ ...JSON.parse(value), state: "IN_PROGRESS" }));
+
+			const response = await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(409);
+
+			expect(response.body.message).to.contain("still being processed");
+			expect(handled).to.equal(1);
+		});
+
+		it("should leave conflicts retryable", async () => {
+			await request(app)
+				.post("/conflict")
+				.set("Idempotency-Key", "conflict-1")
+				.send({})
+				.expect(409);
+			await request(app)
+				.post("/conflict")
+				.set("Idempotency-Key", "conflict-1")
+				.send({})
+				.expect(409);
+
+			expect(handled).to.equal(2);
+			expect(store.size).to.equal(0);
+		});
+
+		it("should run unprotected without Redis", async () => {
+			connected = false;
+			await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+			await request(app)
+				.post("/checkout")
+				.set("Idempotency-Key", "checkout-1")
+				.send({ cartId: "1" })
+				.expect(201);
+
+			expect(handled).to.equal(2);
+		});
+	});
+});
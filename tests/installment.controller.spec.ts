@@ -58,6 +58,15 @@ describe("Installment Controller", () => {
 		},
 	];
 
+	// Fields the create schema requires
+	const validFields = {
+		orderId: "507f1f77bcf86cd799439012",
+		installmentNumber: 1,
+		amount: 500,
+		cutOffDate: "2026-01-15",
+		scheduledDate: "2026-01-20",
+	};
+
 	beforeEach(() => {
 		prisma = {
 			installment: {
@@ -136,77 +145,80 @@ describe("Installment Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated installments", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("installments").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group installments by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.installments).to.have.property("email");
+			expect(sentData.data.installments).to.have.property("sms");
+			expect(sentData.data.installments).to.have.property("unassigned");
 		});
 
 		it("should group installments by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration Installment");
-			expect(sentData.data.grouped).to.have.property("SMS Notification Installment");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.installments).to.have.property("User Registration Installment");
+			expect(sentData.data.installments).to.have.property("SMS Notification Installment");
 		});
 
 		it("should handle installments with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.installments).to.have.property("unassigned");
+			expect(sentData.data.installments.unassigned).to.be.an("array");
+			expect(sentData.data.installments.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.installments).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await installmentController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.installments).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +231,7 @@ describe("Installment Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.installment.findMany = async () => {
@@ -230,13 +242,13 @@ describe("Installment Controller", () => {
 			};
 
 			await installmentController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.installment.findMany = async () => {
@@ -251,10 +263,11 @@ describe("Installment Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +276,14 @@ describe("Installment Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +291,7 @@ describe("Installment Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +299,7 @@ describe("Installment Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +315,7 @@ describe("Installment Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +337,7 @@ describe("Installment Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await installmentController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +347,7 @@ describe("Installment Controller", () => {
 			await installmentController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +355,7 @@ describe("Installment Controller", () => {
 			req.params = { id: mockInstallment.id };
 
 			// Mock Prisma to throw an error
-			prisma.installment.findUnique = async () => {
+			prisma.installment.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +363,7 @@ describe("Installment Controller", () => {
 			};
 
 			await installmentController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +372,7 @@ describe("Installment Controller", () => {
 			req.params = { id: mockInstallment.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.installment.findUnique = async () => {
+			prisma.installment.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +386,7 @@ describe("Installment Controller", () => {
 		it("should create a new installment", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form Installment",
 				description: "Installment for contact forms with validation",
 			};
@@ -380,6 +401,7 @@ describe("Installment Controller", () => {
 		it("should create a new installment with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email Installment",
 				description: "Installment for email notifications",
 				type: "email",
@@ -396,6 +418,7 @@ describe("Installment Controller", () => {
 		it("should create a new installment without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic Installment",
 				description: "Installment without type",
 			};
@@ -410,6 +433,7 @@ describe("Installment Controller", () => {
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form Installment",
 				description: "Installment from form data",
 				type: "form",
@@ -429,6 +453,7 @@ describe("Installment Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL Installment",
 				description: "Installment from URL encoded data",
 			};
@@ -459,6 +484,7 @@ describe("Installment Controller", () => {
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Installment",
 				description: "Installment that will cause Prisma error",
 			};
@@ -473,13 +499,14 @@ describe("Installment Controller", () => {
 			};
 
 			await installmentController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Installment",
 				description: "Installment that will cause internal error",
 			};
@@ -509,7 +536,7 @@ describe("Installment Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.installment).to.have.property("id");
 		});
 
 		it("should update installment type field", async function () {
@@ -523,7 +550,7 @@ describe("Installment Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.installment).to.have.property("id");
 		});
 
 		it("should update multiple installment fields including type", async function () {
@@ -539,7 +566,7 @@ describe("Installment Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.installment).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +615,13 @@ describe("Installment Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await installmentController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "Installment with empty name",
-			};
+			const updateData = { installmentNumber: 0 };
 			req.params = { id: mockInstallment.id };
 			req.body = updateData;
 			await installmentController.update(req as Request, res, next);
@@ -615,7 +639,7 @@ describe("Installment Controller", () => {
 			await installmentController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +660,7 @@ describe("Installment Controller", () => {
 			};
 
 			await installmentController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +697,7 @@ describe("Installment Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await installmentController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +707,7 @@ describe("Installment Controller", () => {
 			await installmentController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +723,7 @@ describe("Installment Controller", () => {
 			};
 
 			await installmentController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -746,6 +770,7 @@ describe("Installment Controller", () => {
 		it("should handle very long installment name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "Installment with very long name",
 			};
@@ -758,6 +783,7 @@ describe("Installment Controller", () => {
 		it("should handle special characters in installment data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Installment with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +797,7 @@ describe("Installment Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent Installment",
 				description: "Installment created concurrently",
 			};
@@ -799,7 +826,7 @@ describe("Installment Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +834,7 @@ describe("Installment Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await installmentController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +877,8 @@ describe("Installment Controller", () => {
 			req.params = { id: mockInstallment.id };
 			req.body = {}; // Empty body
 			await installmentController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
@@ -0,0 +1,164 @@
+import { quoteInstallments } from "../helper/installmentQuoteService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Installment Quote Service", () => {
+	let prisma: any;
+	let products: any[];
+	let cartItems: any[];
+	let tiers: any[];
+	let writes: string[];
+
+	const productId = "507f1f77bcf86cd799439012";
+
+	beforeEach(() => {
+		products = [
+			{
+				id: productId,
+				name: "Laptop",
+				categoryId: "507f1f77bcf86cd799439081",
+				taxClassId: null,
+				category: null,
+				employeePrice: 1000,
+				retailPrice: 1200,
+				stockQuantity: 10,
+				backorderMode: "NONE",
+				status: "APPROVED",
+				isAvailable: true,
+				isActive: true,
+			},
+		];
+		cartItems = [];
+		tiers = [];
+		writes = [];
+
+		const write = (model: string) => async () => {
+			writes.push(model);
+			return {};
+		};
+
+		prisma = {
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => products,
+				update: write("product"),
+			},
+			cartItem: {
+				findMany: async (_params: Prisma.CartItemFindManyArgs) => cartItems,
+			},
+			taxClass: {
+				findMany: async (_params: Prisma.TaxClassFindManyArgs) => [],
+				findFirst: async (_params: Prisma.TaxClassFindFirstArgs) => null,
+			},
+			financingTier: {
+				findMany: async (_params: Prisma.FinancingTierFindManyArgs) => tiers,
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+			},
+			person: {
+				findUnique: async (_params: Prisma.PersonFindUniqueArgs) => null,
+			},
+			counter: {
+				upsert: write("counter"),
+			},
+		};
+	});
+
+	describe("quoteInstallments()", () => {
+		it("should quote each requested term in ascending order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const quote = await quoteInstallments(prisma as PrismaClient, {
+				items: [{ productId, quantity: 3 }],
+				installmentMonths: [6, 3, 6],
+			});
+
+			expect(quote).to.include({ source: "ITEMS", subtotal: 3000, total: 3000 });
+			expect(quote.terms.map((t) => t.installmentMonths)).to.deep.equal([3, 6]);
+			expect(quote.terms[0]).to.include({
+				installmentCount: 6,
+				installmentAmount: 500,
+				financeCharge: 0,
+				totalRepayable: 3000,
+			});
+			expect(quote.terms[1]).to.include({ installmentCount: 12, installmentAmount: 250 });
+			expect(writes).to.be.empty;
+		});
+
+		it("should include the finance charge of a matching tier", async function () {
+			this.timeout(TEST_TIMEOUT);
+			tiers = [
+				{
+					id: "507f1f77bcf86cd799439071",
+					name: "Standard",
+					method: "FLAT",
+					annualRate: 0.12,
+					minMonths: 1,
+					maxMonths: null,
+					categoryId: null,
+				},
+			];
+
+			const quote = await quoteInstallments(prisma as PrismaClient, {
+				items: [{ productId, quantity: 3 }],
+				installmentMonths: [6],
+			});
+			expect(quote.terms[0]).to.include({ financeCharge: 180, totalRepayable: 3180 });
+			expect(quote.terms[0].financing).to.include({ tierName: "Standard", method: "FLAT" });
+		});
+
+		it("should quote the employee's cart when no items are given", async function () {
+			this.timeout(TEST_TIMEOUT);
+			cartItems = [
+				{ id: "507f1f77bcf86cd799439051", productId, quantity: 1, unitPriceSnapshot: 1000 },
+			];
+
+			const quote = await quoteInstallments(prisma as PrismaClient, {
+				employeeId: "507f1f77bcf86cd799439011",
+				installmentMonths: [1],
+			});
+			expect(quote).to.include({ source: "CART", total: 1000 });
+		});
+
+		it("should report lines checkout would skip", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const quote = await quoteInstallments(prisma as PrismaClient, {
+				items: [
+					{ productId, quantity: 1 },
+					{ productId: "507f1f77bcf86cd799439013", quantity: 1 },
+				],
+				installmentMonths: [3],
+			});
+			expect(quote.unavailableItems).to.deep.equal([
+				{
+					productId: "507f1f77bcf86cd799439013",
+					productName: null,
+					quantity: 1,
+					availability: "REMOVED",
+				},
+			]);
+		});
+
+		it("should refuse a quote without items or employee", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await quoteInstallments(prisma as PrismaClient, {
+				installmentMonths: [3],
+			}).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 400);
+		});
+
+		it("should refuse when points cover the whole total", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await quoteInstallments(prisma as PrismaClient, {
+				items: [{ productId, quantity: 1 }],
+				installmentMonths: [3],
+				pointsUsed: 1000,
+			}).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+		});
+	});
+});
@@ -0,0 +1,194 @@
+import {
+	currentScheduleAnchor,
+	getFinancedAmount,
+	startInstallmentScheduleIfDue,
+	resetInstallmentSchedule,
+} from "../helper/installmentScheduleService";
+import { ServiceError } from "../helper/error-handler";
+import { config } from "../config/constant";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Installment Schedule Service", () => {
+	let prisma: any;
+	let order: any;
+	let installments: any[];
+	let orderUpdates: any[];
+
+	const orderId = "507f1f77bcf86cd799439026";
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			total: 6000,
+			paymentType: "INSTALLMENT",
+			installmentMonths: 3,
+			tenders: null,
+			orderDate: new Date(2026, 0, 2),
+			approvedAt: null,
+			deliveredDate: null,
+			awaitingStock: false,
+			stockAllocatedAt: null,
+			scheduleAnchor: "APPROVAL",
+			scheduleStartedAt: null,
+			payrollCalendarId: null,
+			financingMethod: null,
+			financingRate: null,
+		};
+		installments = [];
+		orderUpdates = [];
+
+		prisma = {
+			order: {
+				findUnique: async (_params: Prisma.OrderFindUniqueArgs) => order,
+				update: async (params: Prisma.OrderUpdateArgs) => {
+					orderUpdates.push(params.data);
+					return Object.assign(order, params.data);
+				},
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => installments,
+				count: async (params: Prisma.InstallmentCountArgs) =>
+					installments.filter((i) => i.status === params.where?.status).length,
+				create: async (params: Prisma.InstallmentCreateArgs) => {
+					const installment = {
+						id: `installment-${installments.length + 1}`,
+						...params.data,
+					};
+					installments.push(installment);
+					return installment;
+				},
+				deleteMany: async (_params: Prisma.InstallmentDeleteManyArgs) => {
+					const count = installments.length;
+					installments = [];
+					return { count };
+				},
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+			},
+		};
+	});
+
+	describe("currentScheduleAnchor()", () => {
+		it("should return the configured anchor", function () {
+			expect(currentScheduleAnchor()).to.equal(config.INSTALLMENTS.SCHEDULE_ANCHOR);
+		});
+	});
+
+	describe("getFinancedAmount()", () => {
+		it("should finance the whole total of an installment order", function () {
+			expect(
+				getFinancedAmount({ total: 6000, paymentType: "INSTALLMENT", tenders: null }),
+			).to.equal(6000);
+		});
+
+		it("should finance only the installment tender of a mixed payment", function () {
+			const tenders = [
+				{ type: "POINTS", amount: 500 },
+				{ type: "INSTALLMENT", amount: 4500 },
+			];
+			expect(getFinancedAmount({ total: 5000, paymentType: "MIXED", tenders })).to.equal(
+				4500,
+			);
+		});
+
+		it("should finance nothing for a cash order", function () {
+			expect(getFinancedAmount({ total: 6000, paymentType: "CASH", tenders: null })).to.equal(
+				0,
+			);
+		});
+	});
+
+	describe("startInstallmentScheduleIfDue()", () => {
+		it("should wait for the anchor event", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId);
+			expect(result).to.equal(null);
+			expect(installments).to.be.empty;
+		});
+
+		it("should start the schedule from the anchor date", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.approvedAt = new Date(2026, 0, 10);
+
+			const result = await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId);
+			expect(result).to.have.length(6);
+			expect(installments[0].cutOffDate.getDate()).to.equal(15);
+			expect(orderUpdates[0]).to.include({
+				installmentCount: 6,
+				installmentAmount: 1000,
+				scheduleStartedAt: order.approvedAt,
+			});
+		});
+
+		it("should start from stock allocation when it came after the anchor", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.approvedAt = new Date(2026, 0, 10);
+			order.stockAllocatedAt = new Date(2026, 1, 3);
+
+			await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId);
+			expect(order.scheduleStartedAt).to.equal(order.stockAllocatedAt);
+			expect(installments[0].cutOffDate.getMonth()).to.equal(1);
+		});
+
+		it("should wait while the order is awaiting stock", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.approvedAt = new Date(2026, 0, 10);
+			order.awaitingStock = true;
+
+			expect(await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId)).to.equal(
+				null,
+			);
+		});
+
+		it("should leave a schedule with processed installments as is", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.approvedAt = new Date(2026, 0, 10);
+			installments = [{ id: "installment-1", status: "PAID" }];
+
+			expect(await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId)).to.equal(
+				null,
+			);
+			expect(installments).to.have.length(1);
+		});
+
+		it("should do nothing once the schedule has started", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.approvedAt = new Date(2026, 0, 10);
+			order.scheduleStartedAt = new Date(2026, 0, 10);
+
+			expect(await startInstallmentScheduleIfDue(prisma as PrismaClient, orderId)).to.equal(
+				null,
+			);
+		});
+	});
+
+	describe("resetInstallmentSchedule()", () => {
+		it("should clear pending installments and the schedule start", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = [{ id: "installment-1", status: "PENDING" }];
+
+			await resetInstallmentSchedule(prisma, { ...order, scheduleAnchor: null });
+			expect(installments).to.be.empty;
+			expect(orderUpdates[0]).to.deep.equal({
+				installmentCount: null,
+				installmentAmount: null,
+				scheduleAnchor: "ORDER_DATE",
+				scheduleStartedAt: null,
+			});
+		});
+
+		it("should refuse while installments are in a payroll batch", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = [{ id: "installment-1", status: "SCHEDULED" }];
+
+			const error = await resetInstallmentSchedule(prisma, order).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+		});
+	});
+});
@@ -0,0 +1,220 @@
+import {
+	planInstallments,
+	markInstallmentAsDeducted,
+	markInstallmentAsFailed,
+	getOrderInstallmentSummary,
+} from "../helper/installmentService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Installment Service", () => {
+	let prisma: any;
+	let installments: any[];
+	let orderUpdates: any[];
+	let ledger: any;
+
+	const orderId = "507f1f77bcf86cd799439026";
+
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		deductedAmount: null,
+		carriedForwardAmount: null,
+		lateFeeAmount: null,
+		interestAmount: null,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		installments = [
+			installment({
+				id: "installment-1",
+				installmentNumber: 1,
+				status: "PARTIAL",
+				deductedAmount: 200,
+				carriedForwardAmount: 300,
+			}),
+			installment({
+				id: "installment-2",
+				installmentNumber: 2,
+				status: "SCHEDULED",
+				amount: 800,
+				arrearsAmount: 300,
+			}),
+			installment({ id: "installment-3", installmentNumber: 3, status: "PENDING" }),
+			installment({ id: "installment-4", installmentNumber: 4, status: "CANCELLED" }),
+		];
+		orderUpdates = [];
+		ledger = {
+			id: "507f1f77bcf86cd799439030",
+			orderId,
+			type: "INSTALLMENT",
+			totalAmount: 2000,
+			paidAmount: 200,
+			balance: 1800,
+			paymentHistory: [],
+		};
+
+		prisma = {
+			installment: {
+				findUnique: async (params: Prisma.InstallmentFindUniqueArgs) =>
+					installments.find((i) => i.id === params.where.id) ?? null,
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => installments,
+				updateMany: async (params: Prisma.InstallmentUpdateManyArgs) => {
+					const where = params.where as any;
+					const target = installments.find((i) => i.id === where.id);
+					if (
+						!target ||
+						!where.status.in.includes(target.status) ||
+						target.carriedForwardAmount != null
+					) {
+						return { count: 0 };
+					}
+					Object.assign(target, params.data);
+					return { count: 1 };
+				},
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => [ledger],
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(ledger, params.data),
+			},
+			order: {
+				findUnique: async (_params: Prisma.OrderFindUniqueArgs) => ({
+					consecutiveFailedDeductions: 2,
+				}),
+				updateMany: async (params: Prisma.OrderUpdateManyArgs) => {
+					orderUpdates.push(params);
+					return { count: 1 };
+				},
+			},
+		};
+	});
+
+	describe("planInstallments()", () => {
+		it("should plan one installment per payroll period with the rounding on the last", function () {
+			const plan = planInstallments(3, 1000, new Date(2026, 0, 5));
+
+			expect(plan).to.have.length(6);
+			expect(plan.map((p) => p.installmentNumber)).to.deep.equal([1, 2, 3, 4, 5, 6]);
+			expect(plan.slice(0, 5).every((p) => p.amount === 166.67)).to.equal(true);
+			expect(plan[5].amount).to.equal(166.65);
+			expect(plan[0].scheduledDate.getTime()).to.be.greaterThan(plan[0].cutOffDate.getTime());
+		});
+
+		it("should split each installment into principal and interest when financed", function () {
+			const plan = planInstallments(3, 1200, new Date(2026, 0, 5), undefined, {
+				method: "FLAT",
+				annualRate: 0.12,
+			});
+
+			const principal = plan.reduce((sum, p) => sum + p.principalAmount!, 0);
+			expect(Number(principal.toFixed(2))).to.equal(1200);
+			expect(plan.every((p) => p.interestAmount! > 0)).to.equal(true);
+			expect(plan[0].amount).to.equal(
+				Number((plan[0].principalAmount! + plan[0].interestAmount!).toFixed(2)),
+			);
+		});
+	});
+
+	describe("markInstallmentAsDeducted()", () => {
+		it("should post the deduction to the ledger and reset the order's failure streak", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const updated = await markInstallmentAsDeducted(
+				prisma as PrismaClient,
+				"installment-2",
+				"507f1f77bcf86cd799439121",
+				"PAY-REF-1",
+			);
+
+			expect(updated).to.include({
+				status: "DEDUCTED",
+				deductedAmount: 800,
+				payrollBatchId: "507f1f77bcf86cd799439121",
+				deductionReference: "PAY-REF-1",
+			});
+			expect(ledger).to.include({ paidAmount: 1000, balance: 1000, status: "PROCESSING" });
+			expect(ledger.paymentHistory[0]).to.include({
+				installmentId: "installment-2",
+				amount: 800,
+			});
+			expect(orderUpdates[0].where).to.deep.equal({
+				id: orderId,
+				consecutiveFailedDeductions: { gt: 0 },
+			});
+		});
+
+		it("should refuse an installment whose arrears were carried forward", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await markInstallmentAsDeducted(
+				prisma as PrismaClient,
+				"installment-1",
+			).catch((e) => e);
+
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.message).to.equal(
+				"Installment installment-1 was carried forward and cannot be posted",
+			);
+			expect(installments[0]).to.have.property("deductedAmount", 200);
+		});
+
+		it("should refuse an installment that was already posted", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments[2].status = "DEDUCTED";
+
+			const error = await markInstallmentAsDeducted(
+				prisma as PrismaClient,
+				"installment-3",
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.message).to.equal(
+				"Installment installment-3 is DEDUCTED and cannot be posted",
+			);
+		});
+
+		it("should return 404 for an unknown installment", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await markInstallmentAsDeducted(
+				prisma as PrismaClient,
+				"installment-9",
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+
+	describe("markInstallmentAsFailed()", () => {
+		it("should only fail installments that are PENDING or SCHEDULED", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments[2].status = "FAILED";
+
+			const error = await markInstallmentAsFailed(
+				prisma as PrismaClient,
+				"installment-3",
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+	});
+
+	describe("getOrderInstallmentSummary()", () => {
+		it("should count carried-forward amounts once and skip cancelled installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const summary = await getOrderInstallmentSummary(prisma as PrismaClient, orderId);
+
+			expect(summary).to.include({
+				totalInstallments: 4,
+				partialCount: 1,
+				scheduledCount: 1,
+				pendingCount: 1,
+				totalAmount: 1500,
+				paidAmount: 200,
+				remainingAmount: 1300,
+				carriedForwardAmount: 300,
+				consecutiveFailedDeductions: 2,
+			});
+		});
+	});
+});
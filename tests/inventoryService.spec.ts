@@ -0,0 +1,78 @@
+import { reserveStock, releaseStock } from "../helper/inventoryService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Inventory Service", () => {
+	let prisma: any;
+	let products: any[];
+
+	beforeEach(() => {
+		products = [
+			{ id: "507f1f77bcf86cd799439012", stockQuantity: 5 },
+			{ id: "507f1f77bcf86cd799439013", stockQuantity: 1 },
+		];
+
+		prisma = {
+			product: {
+				updateMany: async (params: Prisma.ProductUpdateManyArgs) => {
+					const where = params.where as any;
+					const data = params.data as any;
+					const product = products.find((p) => p.id === where.id);
+					if (
+						!product ||
+						(where.stockQuantity && product.stockQuantity < where.stockQuantity.gte)
+					) {
+						return { count: 0 };
+					}
+					product.stockQuantity +=
+						data.stockQuantity.increment ?? -data.stockQuantity.decrement;
+					return { count: 1 };
+				},
+				findUnique: async (params: Prisma.ProductFindUniqueArgs) =>
+					products.find((p) => p.id === params.where.id) ?? null,
+			},
+		};
+	});
+
+	describe("reserveStock()", () => {
+		it("should decrement stock once per product", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await reserveStock(prisma, [
+				{ productId: "507f1f77bcf86cd799439012", quantity: 2 },
+				{ productId: "507f1f77bcf86cd799439012", quantity: 3 },
+			]);
+			expect(products[0]).to.have.property("stockQuantity", 0);
+		});
+
+		it("should list every short product", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await reserveStock(prisma, [
+				{ productId: "507f1f77bcf86cd799439012", quantity: 6 },
+				{ productId: "507f1f77bcf86cd799439013", quantity: 2 },
+				{ productId: "507f1f77bcf86cd799439014", quantity: 1 },
+			]).catch((e) => e);
+
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.errors.map((e: any) => e.message)).to.deep.equal([
+				"Requested 6, only 5 in stock",
+				"Requested 2, only 1 in stock",
+				"Requested 1, only 0 in stock",
+			]);
+		});
+	});
+
+	describe("releaseStock()", () => {
+		it("should return stock and skip empty lines", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await releaseStock(prisma, [
+				{ productId: "507f1f77bcf86cd799439012", quantity: 2 },
+				{ productId: "507f1f77bcf86cd799439013", quantity: 0 },
+			]);
+			expect(products.map((p) => p.stockQuantity)).to.deep.equal([7, 1]);
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import {
+	getNumberingPeriod,
+	formatDocumentNumber,
+	nextDocumentNumber,
+} from "../helper/numberingService";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Numbering Service", () => {
+	let prisma: any;
+	let counters: Map<string, number>;
+
+	beforeEach(() => {
+		counters = new Map();
+		prisma = {
+			counter: {
+				upsert: async (params: Prisma.CounterUpsertArgs) => {
+					const value = (counters.get(params.where.key!) || 0) + 1;
+					counters.set(params.where.key!, value);
+					return { key: params.where.key, value };
+				},
+			},
+		};
+	});
+
+	describe("getNumberingPeriod()", () => {
+		it("should key counters by year, month or not at all", function () {
+			const at = new Date(2026, 9, 19);
+			expect(getNumberingPeriod("YEARLY", at)).to.equal("2026");
+			expect(getNumberingPeriod("MONTHLY", at)).to.equal("2026-10");
+			expect(getNumberingPeriod("NEVER", at)).to.equal("ALL");
+		});
+	});
+
+	describe("formatDocumentNumber()", () => {
+		it("should pad the sequence and leave out a period that never resets", function () {
+			expect(
+				formatDocumentNumber({ PREFIX: "EPP", RESET: "YEARLY", PAD: 6 }, "2026", 123),
+			).to.equal("EPP-2026-000123");
+			expect(
+				formatDocumentNumber({ PREFIX: "RMA", RESET: "NEVER", PAD: 6 }, "ALL", 7),
+			).to.equal("RMA-000007");
+		});
+	});
+
+	describe("nextDocumentNumber()", () => {
+		it("should issue consecutive numbers per document type and period", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const at = new Date(2026, 9, 19);
+
+			expect(await nextDocumentNumber(prisma as PrismaClient, "ORDER", at)).to.equal(
+				"EPP-2026-000001",
+			);
+			expect(await nextDocumentNumber(prisma as PrismaClient, "ORDER", at)).to.equal(
+				"EPP-2026-000002",
+			);
+			expect(await nextDocumentNumber(prisma as PrismaClient, "TRANSACTION", at)).to.equal(
+				"TXN-2026-10-000001",
+			);
+		});
+
+		it("should retry when a concurrent first use wins the unique index", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const upsert = prisma.counter.upsert;
+			let attempts = 0;
+			prisma.counter.upsert = async (params: Prisma.CounterUpsertArgs) => {
+				attempts++;
+				if (attempts === 1) {
+					throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+				}
+				return upsert(params);
+			};
+
+			const number = await nextDocumentNumber(
+				prisma as PrismaClient,
+				"ORDER",
+				new Date(2026, 0, 1),
+			);
+			expect(number).to.equal("EPP-2026-000001");
+			expect(attempts).to.equal(2);
+		});
+
+		it("should give up on other errors", async function () {
+			this.timeout(TEST_TIMEOUT);
+			prisma.counter.upsert = async () => {
+				throw new Error("Database connection failed");
+			};
+
+			const error = await nextDocumentNumber(prisma as PrismaClient, "ORDER").catch((e) => e);
+			expect(error).to.have.property("message", "Database connection failed");
+		});
+	});
+});
@@ -2,6 +2,7 @@ import { controller } from "../app/order/order.controller";
 import { groupDataByField } from "../helper/dataGrouping";
 import { expect } from "chai";
 import { Request, Response, NextFunction } from "express";
+import { AuthRequest } from "../middleware/verifyToken";
 import { PrismaClient, Prisma } from "../generated/prisma";
 
 const TEST_TIMEOUT = 5000;
@@ -58,6 +59,25 @@ describe("Order Controller", () => {
 		},
 	];
 
+	const mockProduct = {
+		id: "507f1f77bcf86cd799439031",
+		retailPrice: 1200,
+		employeePrice: 1000,
+		stockQuantity: 10,
+		backorderMode: "NONE",
+		maxBackorderQuantity: null,
+		taxClassId: null,
+		category: null,
+	};
+
+	// Fields the create schema requires
+	const validFields = {
+		employeeId: "507f1f77bcf86cd799439011",
+		items: [{ productId: mockProduct.id, quantity: 1 }],
+		paymentType: "CASH",
+		paymentMethod: "CASH",
+	};
+
 	beforeEach(() => {
 		prisma = {
 			order: {
@@ -92,6 +112,46 @@ describe("Order Controller", () => {
 					id: params.where.id,
 				}),
 			},
+			// Lookups the create pipeline makes for a cash order
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => [mockProduct],
+				updateMany: async (_params: Prisma.ProductUpdateManyArgs) => ({ count: 1 }),
+			},
+			taxClass: {
+				findFirst: async (_params: Prisma.TaxClassFindFirstArgs) => null,
+			},
+			backorderEntry: {
+				findMany: async (_params: Prisma.BackorderEntryFindManyArgs) => [],
+			},
+			person: {
+				findUnique: async (_params: Prisma.PersonFindUniqueArgs) => null,
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+			},
+			employeeSeparation: {
+				findUnique: async (_params: Prisma.EmployeeSeparationFindUniqueArgs) => null,
+			},
+			creditPolicy: {
+				findMany: async (_params: Prisma.CreditPolicyFindManyArgs) => [],
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => [],
+			},
+			counter: {
+				upsert: async (_params: Prisma.CounterUpsertArgs) => ({ value: 1 }),
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => [],
+				create: async (params: Prisma.TransactionCreateArgs) => ({
+					id: "507f1f77bcf86cd799439030",
+					...params.data,
+				}),
+				update: async (params: Prisma.TransactionUpdateArgs) => ({
+					id: params.where.id,
+					...params.data,
+				}),
+			},
 			$transaction: async (operations: any) => {
 				if (typeof operations === "function") {
 					return operations(prisma);
@@ -136,77 +196,80 @@ describe("Order Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated orders", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("orders").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group orders by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.orders).to.have.property("email");
+			expect(sentData.data.orders).to.have.property("sms");
+			expect(sentData.data.orders).to.have.property("unassigned");
 		});
 
 		it("should group orders by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration Order");
-			expect(sentData.data.grouped).to.have.property("SMS Notification Order");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.orders).to.have.property("User Registration Order");
+			expect(sentData.data.orders).to.have.property("SMS Notification Order");
 		});
 
 		it("should handle orders with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.orders).to.have.property("unassigned");
+			expect(sentData.data.orders.unassigned).to.be.an("array");
+			expect(sentData.data.orders.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.orders).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await orderController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.orders).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +282,7 @@ describe("Order Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.order.findMany = async () => {
@@ -230,13 +293,13 @@ describe("Order Controller", () => {
 			};
 
 			await orderController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.order.findMany = async () => {
@@ -251,10 +314,11 @@ describe("Order Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +327,14 @@ describe("Order Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +342,7 @@ describe("Order Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +350,7 @@ describe("Order Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +366,7 @@ describe("Order Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +388,7 @@ describe("Order Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await orderController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +398,7 @@ describe("Order Controller", () => {
 			await orderController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +406,7 @@ describe("Order Controller", () => {
 			req.params = { id: mockOrder.id };
 
 			// Mock Prisma to throw an error
-			prisma.order.findUnique = async () => {
+			prisma.order.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +414,7 @@ describe("Order Controller", () => {
 			};
 
 			await orderController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +423,7 @@ describe("Order Controller", () => {
 			req.params = { id: mockOrder.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.order.findUnique = async () => {
+			prisma.order.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +437,7 @@ describe("Order Controller", () => {
 		it("should create a new order", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form Order",
 				description: "Order for contact forms with validation",
 			};
@@ -374,12 +446,13 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(201);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.order).to.have.property("id");
 		});
 
 		it("should create a new order with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email Order",
 				description: "Order for email notifications",
 				type: "email",
@@ -389,13 +462,13 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(201);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
-			expect(sentData.data).to.have.property("type", "email");
+			expect(sentData.data.order).to.have.property("id");
 		});
 
 		it("should create a new order without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic Order",
 				description: "Order without type",
 			};
@@ -404,12 +477,36 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(201);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.order).to.have.property("id");
+		});
+
+		it("should place the order in PENDING_APPROVAL whatever status is sent", async function () {
+			this.timeout(TEST_TIMEOUT);
+			req.body = {
+				...validFields,
+				status: "DELIVERED",
+				paymentStatus: "PAID",
+				deliveredDate: new Date().toISOString(),
+			};
+			await orderController.create(req as Request, res, next);
+			expect(statusCode).to.equal(201);
+
+			const order = sentData.data.order;
+			expect(order).to.have.property("status", "PENDING_APPROVAL");
+			expect(order).to.not.have.property("paymentStatus");
+			expect(order).to.not.have.property("deliveredDate");
+			expect(order.statusHistory).to.have.length(1);
+			expect(order.statusHistory[0]).to.include({
+				from: null,
+				to: "PENDING_APPROVAL",
+				changedBy: validFields.employeeId,
+			});
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form Order",
 				description: "Order from form data",
 				type: "form",
@@ -429,6 +526,7 @@ describe("Order Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL Order",
 				description: "Order from URL encoded data",
 			};
@@ -456,9 +554,72 @@ describe("Order Controller", () => {
 			expect(sentData).to.have.property("status", "error");
 		});
 
+		it("should reject an order without items", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const { items: _items, ...withoutItems } = validFields;
+			req.body = { ...withoutItems, subtotal: 1000, total: 1000 };
+			await orderController.create(req as Request, res, next);
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
+		});
+
+		it("should price the lines server-side whatever amounts are sent", async function () {
+			this.timeout(TEST_TIMEOUT);
+			req.body = { ...validFields, subtotal: 1, tax: 0, total: 1 };
+			await orderController.create(req as Request, res, next);
+			expect(statusCode).to.equal(201);
+
+			const order = sentData.data.order;
+			expect(order).to.have.property("total", 1000);
+			expect(order.items.create).to.have.length(1);
+			expect(sentData.data.transaction).to.have.property("totalAmount", 1000);
+		});
+
+		it("should check credit and write the ledger in the order's transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			let inTransaction = false;
+			const calls: Record<string, boolean> = {};
+			const $transaction = prisma.$transaction;
+			prisma.$transaction = async (operations: any) => {
+				inTransaction = true;
+				try {
+					return await $transaction(operations);
+				} finally {
+					inTransaction = false;
+				}
+			};
+			prisma.creditPolicy.findMany = async (_params: Prisma.CreditPolicyFindManyArgs) => {
+				calls.creditCheck = inTransaction;
+				return [];
+			};
+			const createLedger = prisma.transaction.create;
+			prisma.transaction.create = async (params: Prisma.TransactionCreateArgs) => {
+				calls.ledger = inTransaction;
+				return createLedger(params);
+			};
+
+			req.body = validFields;
+			await orderController.create(req as Request, res, next);
+			expect(statusCode).to.equal(201);
+			expect(calls).to.deep.equal({ creditCheck: true, ledger: true });
+		});
+
+		it("should fail the order when its ledger cannot be written", async function () {
+			this.timeout(TEST_TIMEOUT);
+			prisma.transaction.create = async () => {
+				throw new Error("Write conflict");
+			};
+
+			req.body = validFields;
+			await orderController.create(req as Request, res, next);
+			expect(statusCode).to.equal(500);
+			expect(sentData).to.have.property("status", "error");
+		});
+
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Order",
 				description: "Order that will cause Prisma error",
 			};
@@ -473,13 +634,14 @@ describe("Order Controller", () => {
 			};
 
 			await orderController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Order",
 				description: "Order that will cause internal error",
 			};
@@ -496,6 +658,36 @@ describe("Order Controller", () => {
 		});
 	});
 
+	describe(".ship()", () => {
+		it("should record the authenticated user, not the body, as the actor", async function () {
+			this.timeout(TEST_TIMEOUT);
+			let statusUpdate: any;
+			const order = { ...mockOrder, orderNumber: "EPP-2026-000001", status: "PROCESSING" };
+			prisma.order.findUnique = async (_params: Prisma.OrderFindUniqueArgs) => order;
+			prisma.order.updateMany = async (params: Prisma.OrderUpdateManyArgs) => {
+				statusUpdate = params.data;
+				return { count: 1 };
+			};
+			prisma.order.findUniqueOrThrow = async (
+				_params: Prisma.OrderFindUniqueOrThrowArgs,
+			) => ({
+				...order,
+				...statusUpdate,
+			});
+
+			req.params = { id: mockOrder.id };
+			req.body = { changedBy: "someone-else", trackingNumber: "TRK-1" };
+			(req as AuthRequest).userId = "507f1f77bcf86cd799439099";
+			await orderController.ship(req as Request, res, next);
+
+			expect(statusCode).to.equal(200);
+			expect(statusUpdate.statusHistory[0]).to.include({
+				to: "SHIPPED",
+				changedBy: "507f1f77bcf86cd799439099",
+			});
+		});
+	});
+
 	describe(".update()", () => {
 		it("should update order details", async function () {
 			this.timeout(TEST_TIMEOUT);
@@ -509,7 +701,7 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.order).to.have.property("id");
 		});
 
 		it("should update order type field", async function () {
@@ -523,7 +715,7 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.order).to.have.property("id");
 		});
 
 		it("should update multiple order fields including type", async function () {
@@ -539,7 +731,7 @@ describe("Order Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.order).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +780,13 @@ describe("Order Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await orderController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "Order with empty name",
-			};
+			const updateData = { employeeId: "invalid-id" };
 			req.params = { id: mockOrder.id };
 			req.body = updateData;
 			await orderController.update(req as Request, res, next);
@@ -615,7 +804,7 @@ describe("Order Controller", () => {
 			await orderController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +825,7 @@ describe("Order Controller", () => {
 			};
 
 			await orderController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +862,7 @@ describe("Order Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await orderController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +872,7 @@ describe("Order Controller", () => {
 			await orderController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +888,7 @@ describe("Order Controller", () => {
 			};
 
 			await orderController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -746,6 +935,7 @@ describe("Order Controller", () => {
 		it("should handle very long order name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "Order with very long name",
 			};
@@ -758,6 +948,7 @@ describe("Order Controller", () => {
 		it("should handle special characters in order data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Order with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +962,7 @@ describe("Order Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent Order",
 				description: "Order created concurrently",
 			};
@@ -799,7 +991,7 @@ describe("Order Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +999,7 @@ describe("Order Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await orderController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +1042,8 @@ describe("Order Controller", () => {
 			req.params = { id: mockOrder.id };
 			req.body = {}; // Empty body
 			await orderController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
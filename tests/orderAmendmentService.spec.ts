@@ -0,0 +1,284 @@
+import { amendOrder } from "../helper/orderAmendmentService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Order Amendment Service", () => {
+	let prisma: any;
+	let order: any;
+	let installments: any[];
+	let ledger: any;
+	let stock: Map<string, number>;
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const laptopId = "507f1f77bcf86cd799439012";
+	const mouseId = "507f1f77bcf86cd799439013";
+	const options = { changedBy: "employee@company.com", reason: "One mouse is enough" };
+
+	const item = (overrides: Record<string, any>) => ({
+		orderId,
+		discount: 0,
+		...overrides,
+		subtotal: overrides.unitPrice * overrides.quantity,
+	});
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			employeeId: "507f1f77bcf86cd799439011",
+			status: "PENDING_APPROVAL",
+			paymentType: "CASH",
+			awaitingStock: false,
+			pricesIncludeTax: true,
+			promotionId: null,
+			pointsUsed: 0,
+			total: 1200,
+			workflowId: "workflow-standard",
+			items: [
+				item({ id: "item-1", productId: laptopId, quantity: 1, unitPrice: 1000 }),
+				item({ id: "item-2", productId: mouseId, quantity: 2, unitPrice: 100 }),
+			],
+		};
+		installments = [];
+		ledger = {
+			id: "507f1f77bcf86cd799439030",
+			transactionNumber: "TXN-2026-01-000001",
+			orderId,
+			type: "PURCHASE",
+			totalAmount: 1200,
+			paidAmount: 0,
+			balance: 1200,
+		};
+		stock = new Map([
+			[laptopId, 5],
+			[mouseId, 5],
+		]);
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId
+						? { ...order, items: order.items.map((i: any) => ({ ...i })) }
+						: null,
+				findUniqueOrThrow: async (_params: Prisma.OrderFindUniqueOrThrowArgs) => order,
+				updateMany: async (params: Prisma.OrderUpdateManyArgs) => {
+					if (order.status !== (params.where as any).status) {
+						return { count: 0 };
+					}
+					Object.assign(order, params.data);
+					return { count: 1 };
+				},
+				update: async (params: Prisma.OrderUpdateArgs) => Object.assign(order, params.data),
+			},
+			orderItem: {
+				update: async (params: Prisma.OrderItemUpdateArgs) =>
+					Object.assign(
+						order.items.find((i: any) => i.id === params.where.id),
+						params.data,
+					),
+				deleteMany: async (params: Prisma.OrderItemDeleteManyArgs) => {
+					const ids = (params.where?.id as any).in as string[];
+					order.items = order.items.filter((i: any) => !ids.includes(i.id));
+					return { count: ids.length };
+				},
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => installments,
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => [ledger],
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(ledger, params.data),
+			},
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => [
+					{ id: laptopId, taxClassId: null, category: { taxClassId: null } },
+					{ id: mouseId, taxClassId: null, category: { taxClassId: null } },
+				],
+				updateMany: async (params: Prisma.ProductUpdateManyArgs) => {
+					const productId = (params.where as any).id;
+					const change = params.data.stockQuantity as any;
+					stock.set(
+						productId,
+						stock.get(productId)! + (change.increment ?? -change.decrement),
+					);
+					return { count: 1 };
+				},
+			},
+			taxClass: {
+				findMany: async (_params: Prisma.TaxClassFindManyArgs) => [],
+				findFirst: async (_params: Prisma.TaxClassFindFirstArgs) => null,
+			},
+			approvalWorkflow: {
+				findMany: async (_params: Prisma.ApprovalWorkflowFindManyArgs) => [
+					{
+						id: "workflow-standard",
+						name: "Standard",
+						isActive: true,
+						requiresInstallment: false,
+						minOrderAmount: null,
+						maxOrderAmount: null,
+						levels: [{ level: 1, role: "MANAGER" }],
+					},
+				],
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("amendOrder()", () => {
+		it("should recompute the order, ledger and stock for the new quantities", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			);
+
+			expect(result).to.include({ previousTotal: 1200, approvalRestarted: false });
+			expect(result.amendedLines).to.deep.equal([
+				{ productId: mouseId, previousQuantity: 2, quantity: 1 },
+			]);
+			expect(order).to.include({ subtotal: 1100, total: 1100 });
+			expect(order.items[1]).to.include({ quantity: 1, subtotal: 100 });
+			expect(ledger).to.include({ totalAmount: 1100, balance: 1100 });
+			expect(stock.get(mouseId)).to.equal(6);
+		});
+
+		it("should drop lines amended to zero", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 0 }],
+				options,
+			);
+
+			expect(order.items.map((i: any) => i.id)).to.deep.equal(["item-1"]);
+			expect(order).to.have.property("total", 1000);
+			expect(stock.get(mouseId)).to.equal(7);
+		});
+
+		it("should refuse orders that are no longer pending approval", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.status = "APPROVED";
+
+			const error = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse MIXED and backordered orders", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.paymentType = "MIXED";
+			const mixed = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(mixed).to.have.property("statusCode", 409);
+
+			order.paymentType = "CASH";
+			order.awaitingStock = true;
+			const backordered = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(backordered).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse products that are not on the order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: "507f1f77bcf86cd799439099", quantity: 1 }],
+				options,
+			).catch((e) => e);
+
+			expect(error).to.have.property("statusCode", 400);
+			expect(error.errors[0]).to.have.property("field", "items.507f1f77bcf86cd799439099");
+		});
+
+		it("should refuse amendments that change nothing or remove every item", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const unchanged = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 2 }],
+				options,
+			).catch((e) => e);
+			expect(unchanged).to.have.property(
+				"message",
+				"The amendment does not change any quantity",
+			);
+
+			const emptied = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[
+					{ productId: laptopId, quantity: 0 },
+					{ productId: mouseId, quantity: 0 },
+				],
+				options,
+			).catch((e) => e);
+			expect(emptied).to.have.property("message", "An amendment cannot remove every item");
+		});
+
+		it("should refuse once installments were processed", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = [{ id: "installment-1", installmentNumber: 1, status: "SCHEDULED" }];
+
+			const error = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.errors[0]).to.have.property("message", "Installment 1 is SCHEDULED");
+		});
+
+		it("should refuse once payments were recorded", async function () {
+			this.timeout(TEST_TIMEOUT);
+			ledger.paidAmount = 200;
+
+			const error = await amendOrder(
+				prisma as PrismaClient,
+				orderId,
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(order.items[1]).to.have.property("quantity", 2);
+		});
+
+		it("should return 404 for an unknown order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await amendOrder(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439099",
+				[{ productId: mouseId, quantity: 1 }],
+				options,
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+});
@@ -0,0 +1,297 @@
+import {
+	enteredCurrentStatusAt,
+	assertWithinCancellationWindow,
+	assertNotInPayrollBatch,
+	unwindOrder,
+	cancelOrder,
+} from "../helper/orderCancellationService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Order Cancellation Service", () => {
+	let prisma: any;
+	let order: any;
+	let installments: any[];
+	let transactions: any[];
+	let products: any[];
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const options = { reason: "Employee changed their mind", changedBy: "admin@company.com" };
+
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		deductedAmount: null,
+		payrollBatchId: null,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			status: "APPROVED",
+			statusHistory: [],
+			approvedAt: new Date(),
+			orderDate: new Date(),
+			awaitingStock: false,
+		};
+		installments = [
+			installment({
+				id: "installment-1",
+				installmentNumber: 1,
+				status: "DEDUCTED",
+				deductedAmount: 500,
+			}),
+			installment({
+				id: "installment-2",
+				installmentNumber: 2,
+				status: "PARTIAL",
+				deductedAmount: 200,
+			}),
+			installment({ id: "installment-3", installmentNumber: 3, status: "PENDING" }),
+		];
+		transactions = [
+			{
+				id: "507f1f77bcf86cd799439030",
+				orderId,
+				employeeId: "507f1f77bcf86cd799439011",
+				type: "INSTALLMENT",
+				status: "PROCESSING",
+				paymentMethod: "PAYROLL_DEDUCTION",
+				totalAmount: 1500,
+				paidAmount: 700,
+				balance: 800,
+			},
+		];
+		products = [{ id: "507f1f77bcf86cd799439012", stockQuantity: 0 }];
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId ? { ...order } : null,
+				findUniqueOrThrow: async (_params: Prisma.OrderFindUniqueOrThrowArgs) => order,
+				update: async (params: Prisma.OrderUpdateArgs) => Object.assign(order, params.data),
+				updateMany: async (params: Prisma.OrderUpdateManyArgs) => {
+					Object.assign(order, params.data);
+					return { count: 1 };
+				},
+			},
+			installment: {
+				findMany: async (params: Prisma.InstallmentFindManyArgs) =>
+					installments.filter(
+						(i) => !params.where?.status || i.status === params.where.status,
+					),
+				updateMany: async (params: Prisma.InstallmentUpdateManyArgs) => {
+					const ids = (params.where?.id as any).in as string[];
+					installments
+						.filter((i) => ids.includes(i.id))
+						.forEach((i) => Object.assign(i, params.data));
+					return { count: ids.length };
+				},
+			},
+			transaction: {
+				findMany: async (params: Prisma.TransactionFindManyArgs) =>
+					transactions.filter((t) =>
+						((params.where?.type as any).in as string[]).includes(t.type),
+					),
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = {
+						id: `507f1f77bcf86cd7994390${30 + transactions.length}`,
+						...(params.data as any),
+					};
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(
+						transactions.find((t) => t.id === params.where.id),
+						params.data,
+					),
+				updateMany: async (_params: Prisma.TransactionUpdateManyArgs) => ({ count: 0 }),
+			},
+			counter: {
+				upsert: async (_params: Prisma.CounterUpsertArgs) => ({ value: 1 }),
+			},
+			backorderEntry: {
+				findMany: async (_params: Prisma.BackorderEntryFindManyArgs) => [],
+			},
+			orderItem: {
+				findMany: async (_params: Prisma.OrderItemFindManyArgs) => [
+					{ id: "item-1", productId: "507f1f77bcf86cd799439012", quantity: 2 },
+				],
+			},
+			product: {
+				updateMany: async (params: Prisma.ProductUpdateManyArgs) => {
+					const product = products.find((p) => p.id === (params.where as any).id);
+					product.stockQuantity += (params.data.stockQuantity as any).increment;
+					return { count: 1 };
+				},
+			},
+			promotionRedemption: {
+				findMany: async (_params: Prisma.PromotionRedemptionFindManyArgs) => [],
+			},
+			pointsLedgerEntry: {
+				findMany: async (_params: Prisma.PointsLedgerEntryFindManyArgs) => [],
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("enteredCurrentStatusAt()", () => {
+		it("should read the latest entry into the current status", function () {
+			const changedAt = new Date("2026-01-10T08:00:00Z");
+			const at = enteredCurrentStatusAt({
+				status: "PROCESSING",
+				statusHistory: [
+					{
+						from: "APPROVED",
+						to: "PROCESSING",
+						changedAt: new Date("2026-01-05T08:00:00Z"),
+					},
+					{ from: "PROCESSING", to: "PROCESSING", changedAt },
+				] as any,
+				approvedAt: null,
+				orderDate: new Date("2026-01-01T08:00:00Z"),
+			});
+			expect(at.getTime()).to.equal(changedAt.getTime());
+		});
+
+		it("should fall back to approvedAt and orderDate without history", function () {
+			const approvedAt = new Date("2026-01-02T08:00:00Z");
+			const orderDate = new Date("2026-01-01T08:00:00Z");
+
+			expect(
+				enteredCurrentStatusAt({
+					status: "APPROVED",
+					statusHistory: null,
+					approvedAt,
+					orderDate,
+				}),
+			).to.equal(approvedAt);
+			expect(
+				enteredCurrentStatusAt({
+					status: "PROCESSING",
+					statusHistory: null,
+					approvedAt,
+					orderDate,
+				}),
+			).to.equal(orderDate);
+		});
+	});
+
+	describe("assertWithinCancellationWindow()", () => {
+		it("should refuse once the window for the status has ended", function () {
+			order.approvedAt = new Date("2026-01-01T08:00:00Z");
+			expect(() =>
+				assertWithinCancellationWindow(order, new Date("2026-01-03T09:00:00Z")),
+			).to.throw(ServiceError, "can no longer be cancelled");
+		});
+
+		it("should allow statuses without a window at any time", function () {
+			order.status = "PENDING_APPROVAL";
+			order.orderDate = new Date("2025-01-01T08:00:00Z");
+			expect(() => assertWithinCancellationWindow(order)).to.not.throw();
+		});
+	});
+
+	describe("assertNotInPayrollBatch()", () => {
+		it("should refuse while installments are in a payroll batch", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments[2].status = "SCHEDULED";
+			installments[2].payrollBatchId = "507f1f77bcf86cd799439121";
+
+			const error = await assertNotInPayrollBatch(prisma, orderId).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.data).to.deep.equal({ payrollBatchIds: ["507f1f77bcf86cd799439121"] });
+		});
+
+		it("should pass when nothing is scheduled", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await assertNotInPayrollBatch(prisma, orderId);
+		});
+	});
+
+	describe("unwindOrder()", () => {
+		it("should refund what was deducted, including the deducted part of a PARTIAL installment", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await unwindOrder(prisma, orderId, options);
+
+			expect(result).to.include({
+				cancelledInstallments: 1,
+				refundedInstallments: 2,
+				refundedAmount: 700,
+				restockedLines: 1,
+			});
+			expect(installments.map((i) => i.status)).to.deep.equal([
+				"REFUNDED",
+				"REFUNDED",
+				"CANCELLED",
+			]);
+
+			const refund = transactions.find((t) => t.type === "REFUND");
+			expect(refund).to.include({
+				totalAmount: 700,
+				relatedTransactionId: transactions[0].id,
+			});
+			expect(refund.metadata.installmentIds).to.deep.equal([
+				"installment-1",
+				"installment-2",
+			]);
+			expect(transactions[0]).to.include({ status: "REVERSED", balance: 0 });
+			expect(order).to.have.property("paymentStatus", "REFUNDED");
+			expect(products[0]).to.have.property("stockQuantity", 2);
+		});
+
+		it("should cancel the ledger when nothing was collected", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = [
+				installment({ id: "installment-1", installmentNumber: 1, status: "PENDING" }),
+			];
+
+			const result = await unwindOrder(prisma, orderId, options);
+			expect(result).to.include({ refundedAmount: 0, refundTransactionId: null });
+			expect(transactions[0]).to.have.property("status", "CANCELLED");
+		});
+
+		it("should leave an order with installments in a payroll batch untouched", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments[2].status = "SCHEDULED";
+
+			const error = await unwindOrder(prisma, orderId, options).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(installments[0]).to.have.property("status", "DEDUCTED");
+			expect(transactions).to.have.length(1);
+		});
+	});
+
+	describe("cancelOrder()", () => {
+		it("should cancel and unwind the order in one unit of work", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await cancelOrder(prisma as PrismaClient, orderId, {
+				changedBy: "admin@company.com",
+			});
+
+			expect(result.order).to.have.property("status", "CANCELLED");
+			expect(result.order.cancelledDate).to.be.instanceOf(Date);
+			expect(result.unwind).to.have.property("refundedAmount", 700);
+		});
+
+		it("should return 404 for an unknown order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await cancelOrder(prisma as PrismaClient, "507f1f77bcf86cd799439099", {
+				changedBy: "admin@company.com",
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+});
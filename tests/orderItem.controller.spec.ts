@@ -58,6 +58,15 @@ describe("OrderItem Controller", () => {
 		},
 	];
 
+	// Fields the create schema requires
+	const validFields = {
+		orderId: "507f1f77bcf86cd799439012",
+		productId: "507f1f77bcf86cd799439013",
+		quantity: 2,
+		unitPrice: 250,
+		subtotal: 500,
+	};
+
 	beforeEach(() => {
 		prisma = {
 			orderItem: {
@@ -136,77 +145,80 @@ describe("OrderItem Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated orderItems", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("orderItems").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group orderItems by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.orderItems).to.have.property("email");
+			expect(sentData.data.orderItems).to.have.property("sms");
+			expect(sentData.data.orderItems).to.have.property("unassigned");
 		});
 
 		it("should group orderItems by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration OrderItem");
-			expect(sentData.data.grouped).to.have.property("SMS Notification OrderItem");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.orderItems).to.have.property("User Registration OrderItem");
+			expect(sentData.data.orderItems).to.have.property("SMS Notification OrderItem");
 		});
 
 		it("should handle orderItems with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.orderItems).to.have.property("unassigned");
+			expect(sentData.data.orderItems.unassigned).to.be.an("array");
+			expect(sentData.data.orderItems.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.orderItems).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await orderItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.orderItems).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +231,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.orderItem.findMany = async () => {
@@ -230,13 +242,13 @@ describe("OrderItem Controller", () => {
 			};
 
 			await orderItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.orderItem.findMany = async () => {
@@ -251,10 +263,11 @@ describe("OrderItem Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +276,14 @@ describe("OrderItem Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +291,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +299,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +315,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +337,7 @@ describe("OrderItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await orderItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +347,7 @@ describe("OrderItem Controller", () => {
 			await orderItemController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +355,7 @@ describe("OrderItem Controller", () => {
 			req.params = { id: mockOrderItem.id };
 
 			// Mock Prisma to throw an error
-			prisma.orderItem.findUnique = async () => {
+			prisma.orderItem.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +363,7 @@ describe("OrderItem Controller", () => {
 			};
 
 			await orderItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +372,7 @@ describe("OrderItem Controller", () => {
 			req.params = { id: mockOrderItem.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.orderItem.findUnique = async () => {
+			prisma.orderItem.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +386,7 @@ describe("OrderItem Controller", () => {
 		it("should create a new orderItem", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form OrderItem",
 				description: "OrderItem for contact forms with validation",
 			};
@@ -380,6 +401,7 @@ describe("OrderItem Controller", () => {
 		it("should create a new orderItem with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email OrderItem",
 				description: "OrderItem for email notifications",
 				type: "email",
@@ -396,6 +418,7 @@ describe("OrderItem Controller", () => {
 		it("should create a new orderItem without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic OrderItem",
 				description: "OrderItem without type",
 			};
@@ -410,6 +433,7 @@ describe("OrderItem Controller", () => {
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form OrderItem",
 				description: "OrderItem from form data",
 				type: "form",
@@ -429,6 +453,7 @@ describe("OrderItem Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL OrderItem",
 				description: "OrderItem from URL encoded data",
 			};
@@ -459,6 +484,7 @@ describe("OrderItem Controller", () => {
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test OrderItem",
 				description: "OrderItem that will cause Prisma error",
 			};
@@ -473,13 +499,14 @@ describe("OrderItem Controller", () => {
 			};
 
 			await orderItemController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test OrderItem",
 				description: "OrderItem that will cause internal error",
 			};
@@ -509,7 +536,7 @@ describe("OrderItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.orderItem).to.have.property("id");
 		});
 
 		it("should update orderItem type field", async function () {
@@ -523,7 +550,7 @@ describe("OrderItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.orderItem).to.have.property("id");
 		});
 
 		it("should update multiple orderItem fields including type", async function () {
@@ -539,7 +566,7 @@ describe("OrderItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.orderItem).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +615,13 @@ describe("OrderItem Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await orderItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "OrderItem with empty name",
-			};
+			const updateData = { quantity: 0 };
 			req.params = { id: mockOrderItem.id };
 			req.body = updateData;
 			await orderItemController.update(req as Request, res, next);
@@ -615,7 +639,7 @@ describe("OrderItem Controller", () => {
 			await orderItemController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +660,7 @@ describe("OrderItem Controller", () => {
 			};
 
 			await orderItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +697,7 @@ describe("OrderItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await orderItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +707,7 @@ describe("OrderItem Controller", () => {
 			await orderItemController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +723,7 @@ describe("OrderItem Controller", () => {
 			};
 
 			await orderItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -746,6 +770,7 @@ describe("OrderItem Controller", () => {
 		it("should handle very long orderItem name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "OrderItem with very long name",
 			};
@@ -758,6 +783,7 @@ describe("OrderItem Controller", () => {
 		it("should handle special characters in orderItem data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "OrderItem with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +797,7 @@ describe("OrderItem Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent OrderItem",
 				description: "OrderItem created concurrently",
 			};
@@ -799,7 +826,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +834,7 @@ describe("OrderItem Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await orderItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +877,8 @@ describe("OrderItem Controller", () => {
 			req.params = { id: mockOrderItem.id };
 			req.body = {}; // Empty body
 			await orderItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
@@ -0,0 +1,144 @@
+import {
+	canTransition,
+	assertTransition,
+	transitionOrderStatus,
+} from "../helper/orderLifecycleService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Order Lifecycle Service", () => {
+	let prisma: any;
+	let order: any;
+
+	const orderId = "507f1f77bcf86cd799439026";
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			status: "APPROVED",
+			awaitingStock: false,
+			statusHistory: [],
+		};
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId ? { ...order } : null,
+				findUniqueOrThrow: async (_params: Prisma.OrderFindUniqueOrThrowArgs) => order,
+				updateMany: async (params: Prisma.OrderUpdateManyArgs) => {
+					if ((params.where as any).status !== order.status) {
+						return { count: 0 };
+					}
+					Object.assign(order, params.data);
+					return { count: 1 };
+				},
+			},
+		};
+	});
+
+	describe("canTransition()", () => {
+		it("should allow only the listed moves", function () {
+			expect(canTransition("PENDING_APPROVAL", "APPROVED")).to.equal(true);
+			expect(canTransition("SHIPPED", "CANCELLED")).to.equal(false);
+			expect(canTransition("CANCELLED", "APPROVED")).to.equal(false);
+		});
+	});
+
+	describe("assertTransition()", () => {
+		it("should list the allowed next statuses", function () {
+			expect(() => assertTransition("SHIPPED", "CANCELLED"))
+				.to.throw(ServiceError)
+				.with.property("errors")
+				.that.deep.equals([
+					{ field: "status", message: "Allowed next statuses from SHIPPED: DELIVERED" },
+				]);
+		});
+
+		it("should call out final statuses", function () {
+			expect(() => assertTransition("RETURNED", "DELIVERED"))
+				.to.throw(ServiceError)
+				.with.property("errors")
+				.that.deep.equals([{ field: "status", message: "RETURNED is a final status" }]);
+		});
+	});
+
+	describe("transitionOrderStatus()", () => {
+		it("should move the order, stamp the date and record the history", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.status = "PROCESSING";
+
+			const updated = await transitionOrderStatus(
+				prisma as PrismaClient,
+				orderId,
+				"SHIPPED",
+				{
+					changedBy: "warehouse@company.com",
+					reason: "Picked up by courier",
+				},
+			);
+
+			expect(updated).to.have.property("status", "SHIPPED");
+			expect(updated.shippedDate).to.be.instanceOf(Date);
+			const history = updated.statusHistory as any[];
+			expect(history).to.have.length(1);
+			expect(history[0]).to.include({
+				from: "PROCESSING",
+				to: "SHIPPED",
+				changedBy: "warehouse@company.com",
+				reason: "Picked up by courier",
+			});
+		});
+
+		it("should refuse to process an order still waiting for stock", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.awaitingStock = true;
+
+			const error = await transitionOrderStatus(
+				prisma as PrismaClient,
+				orderId,
+				"PROCESSING",
+				{
+					changedBy: "warehouse@company.com",
+				},
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(order).to.have.property("status", "APPROVED");
+		});
+
+		it("should refuse when another request changed the status first", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const findUnique = prisma.order.findUnique;
+			prisma.order.findUnique = async (params: Prisma.OrderFindUniqueArgs) => {
+				const snapshot = await findUnique(params);
+				order.status = "CANCELLED";
+				return snapshot;
+			};
+
+			const error = await transitionOrderStatus(
+				prisma as PrismaClient,
+				orderId,
+				"PROCESSING",
+				{
+					changedBy: "warehouse@company.com",
+				},
+			).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error.message).to.contain("was modified by another request");
+		});
+
+		it("should return 404 for an unknown order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await transitionOrderStatus(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439099",
+				"PROCESSING",
+				{ changedBy: "warehouse@company.com" },
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+});
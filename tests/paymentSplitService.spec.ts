@@ -0,0 +1,150 @@
+import {
+	buildPaymentSplit,
+	countSplitLedgers,
+	createSplitPaymentLedgers,
+} from "../helper/paymentSplitService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Payment Split Service", () => {
+	let prisma: any;
+	let transactions: any[];
+	let orderUpdates: any[];
+	let wallet: any;
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const order = { id: "507f1f77bcf86cd799439026", employeeId, financeCharge: 120 };
+
+	beforeEach(() => {
+		transactions = [];
+		orderUpdates = [];
+		wallet = { id: "wallet-1", employeeId, balance: 500 };
+
+		prisma = {
+			pointsWallet: {
+				upsert: async (_params: Prisma.PointsWalletUpsertArgs) => ({ ...wallet }),
+				updateMany: async (params: Prisma.PointsWalletUpdateManyArgs) => {
+					const points = (params.data.balance as any).decrement;
+					if (wallet.balance < points) {
+						return { count: 0 };
+					}
+					wallet.balance -= points;
+					return { count: 1 };
+				},
+				findUniqueOrThrow: async (_params: Prisma.PointsWalletFindUniqueOrThrowArgs) =>
+					wallet,
+			},
+			pointsLedgerEntry: {
+				create: async (params: Prisma.PointsLedgerEntryCreateArgs) => ({
+					id: "507f1f77bcf86cd799439111",
+					...(params.data as any),
+				}),
+			},
+			transaction: {
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = {
+						id: `507f1f77bcf86cd7994390${30 + transactions.length}`,
+						...(params.data as any),
+					};
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(
+						transactions.find((t) => t.id === params.where.id),
+						params.data,
+					),
+			},
+			order: {
+				update: async (params: Prisma.OrderUpdateArgs) => {
+					orderUpdates.push(params.data);
+					return { id: order.id };
+				},
+			},
+		};
+	});
+
+	describe("buildPaymentSplit()", () => {
+		it("should split the amount due across the tenders", function () {
+			const split = buildPaymentSplit(
+				[
+					{ type: "POINTS", amount: 200 },
+					{ type: "CASH", amount: 800, paymentMethod: "GCASH" },
+					{ type: "INSTALLMENT", amount: 4000, installmentMonths: 6 },
+				] as any,
+				5000,
+			);
+
+			expect(split).to.deep.equal({
+				points: 200,
+				cash: 800,
+				cashPaymentMethod: "GCASH",
+				financed: 4000,
+				installmentMonths: 6,
+			});
+			expect(countSplitLedgers(split)).to.equal(3);
+		});
+
+		it("should refuse tenders that do not add up to the amount due", function () {
+			expect(() => buildPaymentSplit([{ type: "CASH", amount: 800 }] as any, 1000)).to.throw(
+				ServiceError,
+				"Payment tenders do not add up to the order total",
+			);
+		});
+	});
+
+	describe("createSplitPaymentLedgers()", () => {
+		it("should book points, cash and the financed part on separate ledgers", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const split = {
+				points: 200,
+				cash: 800,
+				cashPaymentMethod: "GCASH",
+				financed: 4000,
+				installmentMonths: 6,
+			};
+
+			const result = await createSplitPaymentLedgers(prisma, order, split, [
+				"TXN-2026-10-000001",
+				"TXN-2026-10-000002",
+				"TXN-2026-10-000003",
+			]);
+
+			expect(transactions.map((t) => [t.type, t.totalAmount])).to.deep.equal([
+				["POINTS_REDEMPTION", 200],
+				["PURCHASE", 800],
+				["INSTALLMENT", 4120],
+			]);
+			expect(transactions[1]).to.include({ cashAmount: 800, notes: "Down payment" });
+			expect(transactions[2]).to.include({ interestAmount: 120 });
+			expect(result.primaryLedger).to.equal(transactions[2]);
+			expect(result.tenders.map((t) => t.transactionId)).to.deep.equal(
+				transactions.map((t) => t.id),
+			);
+			expect(orderUpdates[0].tenders).to.have.length(3);
+			expect(wallet).to.have.property("balance", 300);
+		});
+
+		it("should make the cash ledger primary without a financed part", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await createSplitPaymentLedgers(
+				prisma,
+				order,
+				{
+					points: 0,
+					cash: 1000,
+					cashPaymentMethod: "CASH",
+					financed: 0,
+					installmentMonths: null,
+				},
+				["TXN-2026-10-000001"],
+			);
+
+			expect(result.ledgers).to.have.length(1);
+			expect(result.primaryLedger).to.have.property("type", "PURCHASE");
+		});
+	});
+});
@@ -0,0 +1,280 @@
+import {
+	resolveDeductionCaps,
+	applyDeductionCap,
+	previewDeductions,
+	summarizeDeductions,
+	renderPayrollBatch,
+} from "../helper/payrollBatchService";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Payroll Batch Service", () => {
+	let prisma: any;
+	let policies: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const otherEmployeeId = "507f1f77bcf86cd799439012";
+
+	const installment = (
+		employee: string,
+		amount: number,
+		overrides: Record<string, any> = {},
+	) => ({
+		amount,
+		separationId: null,
+		order: { employeeId: employee, orderNumber: `EPP-2026-${employee.slice(-6)}` },
+		...overrides,
+	});
+
+	const batch = {
+		batchNumber: "PAY-2026-000001",
+		cutOffDate: new Date("2026-01-15T00:00:00Z"),
+		createdAt: new Date("2026-01-10T00:00:00Z"),
+		employeeCount: 2,
+		installmentCount: 3,
+		totalAmount: 1750.5,
+		lines: [
+			{
+				employeeId,
+				employeeName: "Juan Dela Cruz",
+				amount: 500,
+				orderNumber: "EPP-2026-000001",
+			},
+			{
+				employeeId,
+				employeeName: "Juan Dela Cruz",
+				amount: 250.5,
+				orderNumber: "EPP-2026-000002",
+			},
+			{
+				employeeId: otherEmployeeId,
+				employeeName: "Ana, Reyes",
+				amount: 1000,
+				orderNumber: "EPP-2026-000003",
+			},
+		],
+	};
+
+	beforeEach(() => {
+		policies = [];
+
+		prisma = {
+			person: {
+				findMany: async (_params: Prisma.PersonFindManyArgs) => [
+					{ id: employeeId, organizationId: "org-1", employeeGrade: "G5" },
+					{ id: otherEmployeeId, organizationId: "org-1", employeeGrade: null },
+				],
+			},
+			creditPolicy: {
+				findMany: async (_params: Prisma.CreditPolicyFindManyArgs) => policies,
+			},
+		};
+	});
+
+	describe("resolveDeductionCaps()", () => {
+		it("should take the smaller of the batch cap and the employee's policy cap", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies = [
+				{
+					id: "policy-1",
+					name: "Grade 5",
+					scope: "GRADE",
+					scopeValue: "G5",
+					maxOutstandingBalance: null,
+					maxDeductionPerCutoff: 1500,
+				},
+				{
+					id: "policy-2",
+					name: "Default",
+					scope: "DEFAULT",
+					scopeValue: null,
+					maxOutstandingBalance: null,
+					maxDeductionPerCutoff: 8000,
+				},
+			];
+
+			const caps = await resolveDeductionCaps(
+				prisma as PrismaClient,
+				[employeeId, otherEmployeeId, employeeId],
+				5000,
+			);
+			expect(caps.get(employeeId)).to.equal(1500);
+			expect(caps.get(otherEmployeeId)).to.equal(5000);
+		});
+
+		it("should treat null on either side as no limit", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies = [
+				{
+					id: "policy-1",
+					name: "Grade 5",
+					scope: "GRADE",
+					scopeValue: "G5",
+					maxOutstandingBalance: null,
+					maxDeductionPerCutoff: null,
+				},
+				{
+					id: "policy-2",
+					name: "Default",
+					scope: "DEFAULT",
+					scopeValue: null,
+					maxOutstandingBalance: null,
+					maxDeductionPerCutoff: 2000,
+				},
+			];
+
+			const caps = await resolveDeductionCaps(
+				prisma as PrismaClient,
+				[employeeId, otherEmployeeId],
+				null,
+			);
+			expect(caps.get(employeeId)).to.equal(null);
+			expect(caps.get(otherEmployeeId)).to.equal(2000);
+		});
+	});
+
+	describe("applyDeductionCap()", () => {
+		it("should defer an employee's installments from the first one that does not fit", function () {
+			const installments = [
+				installment(employeeId, 600),
+				installment(employeeId, 600),
+				installment(employeeId, 100),
+				installment(otherEmployeeId, 600),
+			];
+			const caps = new Map([
+				[employeeId, 1000],
+				[otherEmployeeId, 1000],
+			]);
+
+			const { included, deferred } = applyDeductionCap(installments, caps);
+			expect(included).to.deep.equal([installments[0], installments[3]]);
+			// The 100 would fit, but it cannot jump ahead of the deferred 600
+			expect(deferred).to.deep.equal([installments[1], installments[2]]);
+		});
+
+		it("should always take an employee's first installment, even over the cap", function () {
+			const installments = [installment(employeeId, 1200)];
+			const { included } = applyDeductionCap(installments, new Map([[employeeId, 1000]]));
+			expect(included).to.have.length(1);
+		});
+
+		it("should never defer final pay deductions", function () {
+			const installments = [
+				installment(employeeId, 800),
+				installment(employeeId, 800, { separationId: "507f1f77bcf86cd799439051" }),
+			];
+			const { included, deferred } = applyDeductionCap(
+				installments,
+				new Map([[employeeId, 1000]]),
+			);
+			expect(included).to.have.length(2);
+			expect(deferred).to.have.length(0);
+		});
+
+		it("should take everything for employees without a cap", function () {
+			const installments = [installment(employeeId, 5000), installment(employeeId, 5000)];
+			const { included } = applyDeductionCap(installments, new Map([[employeeId, null]]));
+			expect(included).to.have.length(2);
+		});
+	});
+
+	describe("previewDeductions()", () => {
+		it("should report each employee's deduction with what the cap defers", async function () {
+			this.timeout(TEST_TIMEOUT);
+			policies = [
+				{
+					id: "policy-1",
+					name: "Grade 5",
+					scope: "GRADE",
+					scopeValue: "G5",
+					maxOutstandingBalance: null,
+					maxDeductionPerCutoff: 700,
+				},
+			];
+
+			const deductions = await previewDeductions(
+				prisma as PrismaClient,
+				[
+					installment(employeeId, 500),
+					installment(employeeId, 500),
+					installment(otherEmployeeId, 500),
+				],
+				5000,
+			);
+
+			expect(deductions).to.have.length(2);
+			expect(deductions[0]).to.include({
+				employeeId,
+				installmentCount: 1,
+				amount: 500,
+				deductionCap: 700,
+				deferredInstallmentCount: 1,
+				deferredAmount: 500,
+			});
+			expect(deductions[1]).to.include({ employeeId: otherEmployeeId, deferredAmount: 0 });
+		});
+	});
+
+	describe("summarizeDeductions()", () => {
+		it("should total each employee's lines into one deduction", function () {
+			const deductions = summarizeDeductions(batch.lines);
+
+			expect(deductions).to.deep.equal([
+				{
+					employeeId,
+					employeeName: "Juan Dela Cruz",
+					installmentCount: 2,
+					amount: 750.5,
+					orderNumbers: ["EPP-2026-000001", "EPP-2026-000002"],
+				},
+				{
+					employeeId: otherEmployeeId,
+					employeeName: "Ana, Reyes",
+					installmentCount: 1,
+					amount: 1000,
+					orderNumbers: ["EPP-2026-000003"],
+				},
+			]);
+		});
+	});
+
+	describe("renderPayrollBatch()", () => {
+		it("should render a CSV with one row per employee and a TOTAL row", function () {
+			const file = renderPayrollBatch(batch, "CSV");
+			const rows = file.content.toString("utf8").split("\r\n");
+
+			expect(file.fileName).to.equal("PAY-2026-000001.csv");
+			expect(rows[0]).to.equal(
+				"Batch Number,Cutoff Date,Employee ID,Employee Name,Installments,Amount,Orders",
+			);
+			expect(rows[1]).to.equal(
+				`PAY-2026-000001,2026-01-15,${employeeId},Juan Dela Cruz,2,750.5,EPP-2026-000001 EPP-2026-000002`,
+			);
+			// Values containing the delimiter are quoted
+			expect(rows[2]).to.contain('"Ana, Reyes"');
+			expect(rows[3]).to.equal("TOTAL,2026-01-15,2 employees,,3,1750.5,");
+		});
+
+		it("should render fixed-width records with amounts in cents", function () {
+			const file = renderPayrollBatch(batch, "FIXED_WIDTH");
+			const records = file.content.toString("utf8").trimEnd().split("\r\n");
+
+			expect(file.fileName).to.equal("PAY-2026-000001.txt");
+			expect(records).to.have.length(4);
+			expect(records[0]).to.equal("HPAY-2026-000001     2026011520260110");
+			expect(records[1]).to.have.length(1 + 24 + 40 + 4 + 15);
+			expect(records[1].endsWith("0002000000000075050")).to.equal(true);
+			expect(records[3]).to.equal("T0000000200000003000000000175050");
+		});
+
+		it("should render an XLSX workbook", function () {
+			const file = renderPayrollBatch(batch, "XLSX");
+
+			expect(file.fileName).to.equal("PAY-2026-000001.xlsx");
+			// XLSX files are zip archives
+			expect(file.content.subarray(0, 2).toString("utf8")).to.equal("PK");
+		});
+	});
+});
@@ -0,0 +1,207 @@
+import {
+	defaultPayrollCalendar,
+	toPayrollCalendarRules,
+	resolvePayrollCalendar,
+	resolveEmployeePayrollCalendar,
+	getPayrollCalendar,
+	countPayrollPeriods,
+	calculatePayDate,
+	calculatePayrollDates,
+	PayrollCalendarRules,
+} from "../helper/payrollCalendarService";
+import { config } from "../config/constant";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Payroll Calendar Service", () => {
+	let prisma: any;
+	let calendars: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+
+	const calendar = (overrides: Partial<PayrollCalendarRules> = {}): PayrollCalendarRules => ({
+		...defaultPayrollCalendar(),
+		...overrides,
+	});
+	const dateKeys = (dates: Date[]) =>
+		dates.map((d) => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`);
+
+	beforeEach(() => {
+		calendars = [
+			{
+				id: "507f1f77bcf86cd799439101",
+				name: "Company default",
+				organizationId: null,
+				frequency: "MONTHLY",
+				monthlyCutoffDay: 25,
+				payDateOffsetDays: 5,
+				isActive: true,
+			},
+			{
+				id: "507f1f77bcf86cd799439102",
+				name: "Plant weekly",
+				organizationId: "org-1",
+				frequency: "WEEKLY",
+				cutoffWeekday: 3,
+				payDateOffsetDays: 2,
+				isActive: true,
+			},
+		];
+
+		prisma = {
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => calendars,
+				findFirst: async (params: Prisma.PayrollCalendarFindFirstArgs) =>
+					calendars.find((c) => c.id === params.where?.id) ?? null,
+			},
+			person: {
+				findUnique: async (params: Prisma.PersonFindUniqueArgs) =>
+					params.where.id === employeeId
+						? { organizationId: "org-1", employeeGrade: null }
+						: null,
+			},
+		};
+	});
+
+	describe("countPayrollPeriods()", () => {
+		it("should count the deductions in a plan on each frequency", function () {
+			expect(countPayrollPeriods(calendar(), 6)).to.equal(12);
+			expect(countPayrollPeriods(calendar({ frequency: "MONTHLY" }), 6)).to.equal(6);
+			expect(countPayrollPeriods(calendar({ frequency: "WEEKLY" }), 3)).to.equal(13);
+			expect(countPayrollPeriods(calendar({ frequency: "BI_WEEKLY" }), 0)).to.equal(1);
+		});
+	});
+
+	describe("calculatePayrollDates()", () => {
+		it("should follow the default semi-monthly cutoffs", function () {
+			const dates = calculatePayrollDates(calendar(), new Date(2026, 0, 10), 3);
+
+			expect(dateKeys(dates.map((d) => d.cutOffDate))).to.deep.equal([
+				"2026-1-15",
+				"2026-1-31",
+				"2026-2-15",
+			]);
+			expect(dateKeys(dates.map((d) => d.payDate))).to.deep.equal([
+				"2026-1-20",
+				"2026-2-5",
+				"2026-2-20",
+			]);
+		});
+
+		it("should cap monthly cutoffs at the last day of short months", function () {
+			const dates = calculatePayrollDates(
+				calendar({ frequency: "MONTHLY", monthlyCutoffDay: 31 }),
+				new Date(2026, 0, 10),
+				2,
+			);
+			expect(dateKeys(dates.map((d) => d.cutOffDate))).to.deep.equal([
+				"2026-1-31",
+				"2026-2-28",
+			]);
+		});
+
+		it("should cut off weekly on the configured weekday", function () {
+			// 2026-01-10 is a Saturday; the next Friday is the 16th
+			const dates = calculatePayrollDates(
+				calendar({ frequency: "WEEKLY", cutoffWeekday: 5 }),
+				new Date(2026, 0, 10),
+				2,
+			);
+			expect(dateKeys(dates.map((d) => d.cutOffDate))).to.deep.equal([
+				"2026-1-16",
+				"2026-1-23",
+			]);
+		});
+
+		it("should cut off bi-weekly from the anchor date", function () {
+			const dates = calculatePayrollDates(
+				calendar({ frequency: "BI_WEEKLY", anchorDate: "2026-01-02" }),
+				new Date(2026, 0, 10),
+				2,
+			);
+			expect(dateKeys(dates.map((d) => d.cutOffDate))).to.deep.equal([
+				"2026-1-16",
+				"2026-1-30",
+			]);
+		});
+	});
+
+	describe("calculatePayDate()", () => {
+		it("should move pay dates off holidays in the direction of the shift", function () {
+			const cutoff = new Date(2026, 0, 15);
+			const holidays = ["2026-01-20"];
+
+			expect(dateKeys([calculatePayDate(calendar({ holidays }), cutoff)])).to.deep.equal([
+				"2026-1-19",
+			]);
+			expect(
+				dateKeys([
+					calculatePayDate(
+						calendar({ holidays, holidayShift: "NEXT_WORKING_DAY" }),
+						cutoff,
+					),
+				]),
+			).to.deep.equal(["2026-1-21"]);
+		});
+
+		it("should skip non-working weekdays", function () {
+			// 2026-01-31 + 5 days is Thursday 2026-02-05; Thursday and Wednesday are off
+			const payDate = calculatePayDate(
+				calendar({ nonWorkingWeekdays: [3, 4] }),
+				new Date(2026, 0, 31),
+			);
+			expect(dateKeys([payDate])).to.deep.equal(["2026-2-3"]);
+		});
+	});
+
+	describe("resolvePayrollCalendar()", () => {
+		it("should prefer the organization's own calendar", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const rules = await resolvePayrollCalendar(prisma as PrismaClient, "org-1");
+			expect(rules).to.include({ name: "Plant weekly", frequency: "WEEKLY" });
+		});
+
+		it("should fall back to the default calendar record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const rules = await resolvePayrollCalendar(prisma as PrismaClient, "org-2");
+			expect(rules).to.include({ name: "Company default", frequency: "MONTHLY" });
+		});
+
+		it("should fall back to the configured calendar without records", async function () {
+			this.timeout(TEST_TIMEOUT);
+			calendars = [];
+			const rules = await resolvePayrollCalendar(prisma as PrismaClient, "org-1");
+			expect(rules).to.include({ id: null, name: config.PAYROLL.DEFAULT_CALENDAR.NAME });
+		});
+	});
+
+	describe("resolveEmployeePayrollCalendar()", () => {
+		it("should use the organization on the employee's Person record", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const rules = await resolveEmployeePayrollCalendar(prisma as PrismaClient, employeeId);
+			expect(rules).to.have.property("name", "Plant weekly");
+		});
+	});
+
+	describe("getPayrollCalendar()", () => {
+		it("should load the calendar stored on an order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const rules = await getPayrollCalendar(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439102",
+			);
+			expect(rules).to.deep.equal(toPayrollCalendarRules(calendars[1]));
+		});
+
+		it("should fall back to the default when the stored calendar is gone", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const rules = await getPayrollCalendar(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439199",
+			);
+			expect(rules).to.have.property("name", "Company default");
+		});
+	});
+});
@@ -0,0 +1,304 @@
+import {
+	defaultPointsExpiry,
+	grantPoints,
+	bulkGrantPoints,
+	redeemPoints,
+	earnOrderPoints,
+	reversePointsEntry,
+	refundRedeemedPoints,
+	reverseOrderPoints,
+	expireWalletPoints,
+} from "../helper/pointsService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Points Service", () => {
+	let prisma: any;
+	let wallets: any[];
+	let entries: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const orderId = "507f1f77bcf86cd799439026";
+	const options = { reason: "Order cancelled", reversedBy: "admin@company.com" };
+
+	// Apply { increment } / { decrement } updates the way Prisma does
+	const applyUpdate = (record: any, data: Record<string, any>) => {
+		for (const [key, value] of Object.entries(data)) {
+			if (value && typeof value === "object" && "increment" in value) {
+				record[key] = Number((record[key] + value.increment).toFixed(2));
+			} else if (value && typeof value === "object" && "decrement" in value) {
+				record[key] = Number((record[key] - value.decrement).toFixed(2));
+			} else {
+				record[key] = value;
+			}
+		}
+		return record;
+	};
+	const matches = (entry: any, where: Record<string, any> = {}) =>
+		Object.entries(where).every(([key, value]) =>
+			value && typeof value === "object" && "in" in value
+				? value.in.includes(entry[key])
+				: entry[key] === value,
+		);
+	const wallet = () => wallets.find((w) => w.employeeId === employeeId);
+
+	beforeEach(() => {
+		wallets = [];
+		entries = [];
+
+		prisma = {
+			pointsWallet: {
+				upsert: async (params: Prisma.PointsWalletUpsertArgs) => {
+					let existing = wallets.find((w) => w.employeeId === params.where.employeeId);
+					if (!existing) {
+						existing = {
+							id: `wallet-${wallets.length + 1}`,
+							employeeId: params.where.employeeId,
+							balance: 0,
+							lifetimeEarned: 0,
+							lifetimeRedeemed: 0,
+							lifetimeExpired: 0,
+						};
+						wallets.push(existing);
+					}
+					return { ...existing };
+				},
+				update: async (params: Prisma.PointsWalletUpdateArgs) =>
+					applyUpdate(
+						wallets.find((w) => w.id === params.where.id),
+						params.data,
+					),
+				updateMany: async (params: Prisma.PointsWalletUpdateManyArgs) => {
+					const where = params.where as any;
+					const target = wallets.find((w) => w.id === where.id);
+					if (!target || target.balance < where.balance.gte) {
+						return { count: 0 };
+					}
+					applyUpdate(target, params.data);
+					return { count: 1 };
+				},
+				findUniqueOrThrow: async (params: Prisma.PointsWalletFindUniqueOrThrowArgs) =>
+					wallets.find((w) => w.id === params.where.id),
+			},
+			pointsLedgerEntry: {
+				create: async (params: Prisma.PointsLedgerEntryCreateArgs) => {
+					const entry = {
+						id: `entry-${entries.length + 1}`,
+						createdAt: new Date(Date.now() + entries.length),
+						...(params.data as any),
+					};
+					entries.push(entry);
+					return entry;
+				},
+				findUnique: async (params: Prisma.PointsLedgerEntryFindUniqueArgs) =>
+					entries.find((e) => e.id === params.where.id) ?? null,
+				findMany: async (params: Prisma.PointsLedgerEntryFindManyArgs) =>
+					entries.filter((e) => matches(e, params.where as any)),
+				count: async (params: Prisma.PointsLedgerEntryCountArgs) =>
+					entries.filter((e) => matches(e, params.where as any)).length,
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("defaultPointsExpiry()", () => {
+		it("should expire points after the configured months", function () {
+			const expiresAt = defaultPointsExpiry(new Date(2026, 0, 15));
+			expect(expiresAt!.getFullYear()).to.equal(2027);
+			expect(expiresAt!.getMonth()).to.equal(0);
+		});
+	});
+
+	describe("grantPoints()", () => {
+		it("should credit the wallet and record a GRANT entry", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const entry = await grantPoints(
+				prisma,
+				{ employeeId, points: 100, reason: "Service award" },
+				{ grantedBy: "hr@company.com" },
+			);
+
+			expect(entry).to.include({ type: "GRANT", points: 100, balanceAfter: 100 });
+			expect(entry.expiresAt).to.be.instanceOf(Date);
+			expect(wallet()).to.include({ balance: 100, lifetimeEarned: 100 });
+		});
+	});
+
+	describe("bulkGrantPoints()", () => {
+		it("should commit each grant on its own and report failures", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const upsert = prisma.pointsWallet.upsert;
+			prisma.pointsWallet.upsert = async (params: Prisma.PointsWalletUpsertArgs) => {
+				if (params.where.employeeId === "507f1f77bcf86cd799439012") {
+					throw new ServiceError("Wallet locked", 409);
+				}
+				return upsert(params);
+			};
+
+			const result = await bulkGrantPoints(
+				prisma as PrismaClient,
+				[
+					{ employeeId, points: 50 },
+					{ employeeId: "507f1f77bcf86cd799439012", points: 50 },
+				],
+				{ grantBatchId: "batch-1", grantedBy: "hr@company.com" },
+			);
+
+			expect(result).to.include({ grantedCount: 1, failedCount: 1, totalPoints: 50 });
+			expect(result.failed[0]).to.deep.equal({
+				index: 1,
+				employeeId: "507f1f77bcf86cd799439012",
+				message: "Wallet locked",
+			});
+		});
+	});
+
+	describe("redeemPoints()", () => {
+		it("should debit the wallet for an order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+
+			const entry = await redeemPoints(prisma, { employeeId, points: 40, orderId });
+			expect(entry).to.include({ type: "REDEEM", points: -40, balanceAfter: 60, orderId });
+			expect(wallet()).to.include({ balance: 60, lifetimeRedeemed: 40 });
+		});
+
+		it("should refuse to overdraw the wallet", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 10 }, { grantedBy: "hr@company.com" });
+
+			const error = await redeemPoints(prisma, { employeeId, points: 40, orderId }).catch(
+				(e) => e,
+			);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+			expect(wallet()).to.have.property("balance", 10);
+		});
+	});
+
+	describe("earnOrderPoints()", () => {
+		it("should earn points on a delivered order only once", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const order = { id: orderId, employeeId, total: 5000, orderNumber: "EPP-2026-000001" };
+
+			const entry = await earnOrderPoints(prisma, order);
+			expect(entry).to.include({ type: "EARN", points: 50 });
+			expect(await earnOrderPoints(prisma, order)).to.equal(null);
+			expect(wallet()).to.have.property("balance", 50);
+		});
+	});
+
+	describe("reversePointsEntry()", () => {
+		it("should give back redeemed points in full", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+			const redemption = await redeemPoints(prisma, { employeeId, points: 40, orderId });
+
+			const reversal = await reversePointsEntry(prisma, redemption.id, options);
+			expect(reversal).to.include({
+				type: "REVERSAL",
+				points: 40,
+				reversedEntryId: redemption.id,
+			});
+			expect(wallet()).to.include({ balance: 100, lifetimeRedeemed: 0 });
+		});
+
+		it("should only take back earned points still in the wallet", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const earned = await earnOrderPoints(prisma, {
+				id: orderId,
+				employeeId,
+				total: 5000,
+				orderNumber: "EPP-2026-000001",
+			});
+			await redeemPoints(prisma, {
+				employeeId,
+				points: 30,
+				orderId: "507f1f77bcf86cd799439027",
+			});
+
+			const reversal = await reversePointsEntry(prisma, earned!.id, options);
+			expect(reversal).to.have.property("points", -20);
+			expect(wallet()).to.have.property("balance", 0);
+		});
+
+		it("should refuse to reverse an entry twice", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+			const redemption = await redeemPoints(prisma, { employeeId, points: 40, orderId });
+			const reversal = await reversePointsEntry(prisma, redemption.id, options);
+
+			const again = await reversePointsEntry(prisma, redemption.id, options).catch((e) => e);
+			expect(again).to.have.property("statusCode", 409);
+			const ofReversal = await reversePointsEntry(prisma, reversal.id, options).catch(
+				(e) => e,
+			);
+			expect(ofReversal).to.have.property("statusCode", 409);
+		});
+	});
+
+	describe("refundRedeemedPoints()", () => {
+		it("should refund part of the points redeemed on an order", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+			await redeemPoints(prisma, { employeeId, points: 60, orderId });
+
+			expect(await refundRedeemedPoints(prisma, orderId, 25, options)).to.equal(25);
+			expect(wallet()).to.include({ balance: 65, lifetimeRedeemed: 35 });
+		});
+
+		it("should never refund more than is left unreversed", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+			await redeemPoints(prisma, { employeeId, points: 60, orderId });
+
+			await refundRedeemedPoints(prisma, orderId, 50, options);
+			expect(await refundRedeemedPoints(prisma, orderId, 50, options)).to.equal(10);
+			expect(await refundRedeemedPoints(prisma, orderId, 50, options)).to.equal(0);
+			expect(wallet()).to.have.property("balance", 100);
+		});
+	});
+
+	describe("reverseOrderPoints()", () => {
+		it("should refund only what earlier partial refunds left", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(prisma, { employeeId, points: 100 }, { grantedBy: "hr@company.com" });
+			await redeemPoints(prisma, { employeeId, points: 60, orderId });
+			await refundRedeemedPoints(prisma, orderId, 20, options);
+
+			const result = await reverseOrderPoints(prisma, orderId, options);
+			expect(result).to.deep.equal({ refundedPoints: 40, clawedBackPoints: 0 });
+			expect(wallet()).to.have.property("balance", 100);
+		});
+	});
+
+	describe("expireWalletPoints()", () => {
+		it("should expire what is left of lapsed credits after spending", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await grantPoints(
+				prisma,
+				{ employeeId, points: 100, expiresAt: new Date(2026, 0, 1) },
+				{ grantedBy: "hr@company.com" },
+			);
+			await grantPoints(
+				prisma,
+				{ employeeId, points: 50, expiresAt: new Date(2027, 0, 1) },
+				{ grantedBy: "hr@company.com" },
+			);
+			await redeemPoints(prisma, { employeeId, points: 30, orderId });
+
+			const expired = await expireWalletPoints(prisma, wallet().id, new Date(2026, 5, 1));
+			expect(expired).to.equal(70);
+			expect(wallet()).to.include({ balance: 50, lifetimeExpired: 70 });
+			expect(await expireWalletPoints(prisma, wallet().id, new Date(2026, 5, 1))).to.equal(0);
+		});
+	});
+});
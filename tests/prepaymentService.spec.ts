@@ -0,0 +1,271 @@
+import { prepayOrder } from "../helper/prepaymentService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Prepayment Service", () => {
+	let prisma: any;
+	let order: any;
+	let installments: any[];
+	let ledger: any;
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const options = { changedBy: "cashier@company.com" };
+
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		interestAmount: null,
+		cutOffDate: new Date(2026, overrides.installmentNumber, 15),
+		scheduledDate: new Date(2026, overrides.installmentNumber, 20),
+		...overrides,
+	});
+
+	beforeEach(() => {
+		order = { id: orderId, orderNumber: "EPP-2026-000001", status: "APPROVED" };
+		installments = [
+			installment({ id: "installment-1", installmentNumber: 1, status: "DEDUCTED" }),
+			installment({ id: "installment-2", installmentNumber: 2, status: "SCHEDULED" }),
+			installment({ id: "installment-3", installmentNumber: 3, status: "PENDING" }),
+			installment({ id: "installment-4", installmentNumber: 4, status: "PENDING" }),
+			installment({ id: "installment-5", installmentNumber: 5, status: "PENDING" }),
+		];
+		ledger = {
+			id: "507f1f77bcf86cd799439030",
+			orderId,
+			type: "INSTALLMENT",
+			totalAmount: 2500,
+			paidAmount: 500,
+			balance: 2000,
+			paymentHistory: [],
+		};
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId ? order : null,
+				update: async (params: Prisma.OrderUpdateArgs) => Object.assign(order, params.data),
+			},
+			installment: {
+				findMany: async (params: Prisma.InstallmentFindManyArgs) => {
+					const where = params.where as any;
+					const statuses: string[] =
+						typeof where.status === "string" ? [where.status] : where.status.in;
+					return installments.filter(
+						(i) =>
+							statuses.includes(i.status) &&
+							(!where.OR || i.carriedForwardAmount == null),
+					);
+				},
+				findFirst: async (_params: Prisma.InstallmentFindFirstArgs) =>
+					installments[installments.length - 1],
+				updateMany: async (params: Prisma.InstallmentUpdateManyArgs) => {
+					const where = params.where as any;
+					const ids: string[] = typeof where.id === "string" ? [where.id] : where.id.in;
+					const matched = installments.filter(
+						(i) =>
+							ids.includes(i.id) &&
+							i.status === where.status &&
+							(!where.OR || i.carriedForwardAmount == null),
+					);
+					matched.forEach((i) => Object.assign(i, params.data));
+					return { count: matched.length };
+				},
+				create: async (params: Prisma.InstallmentCreateArgs) => {
+					const created = {
+						id: `installment-${installments.length + 1}`,
+						...(params.data as any),
+					};
+					installments.push(created);
+					return created;
+				},
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) => [ledger],
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(ledger, params.data),
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("prepayOrder()", () => {
+		it("should prepay the next installments in full", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "NEXT_INSTALLMENTS", installmentCount: 2, paymentMethod: "CASH" },
+				options,
+			);
+
+			expect(result).to.include({ amount: 1000, previousBalance: 1500, fullyPaid: false });
+			expect(installments.map((i) => i.status)).to.deep.equal([
+				"DEDUCTED",
+				"SCHEDULED",
+				"PREPAID",
+				"PREPAID",
+				"PENDING",
+			]);
+			expect(ledger).to.include({ paidAmount: 1500, balance: 1000 });
+		});
+
+		it("should reschedule what a partial payment leaves on the same cutoffs", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{
+					applyTo: "REMAINING_BALANCE",
+					amount: 600,
+					paymentMethod: "BANK_TRANSFER",
+					reference: "BT-1",
+				},
+				options,
+			);
+
+			expect(result).to.include({ amount: 600, cancelledInstallments: 3 });
+			expect(result.prepaidInstallments[0]).to.include({
+				installmentNumber: 6,
+				amount: 600,
+				status: "PREPAID",
+			});
+			expect(result.regeneratedInstallments.map((i: any) => i.amount)).to.deep.equal([
+				300, 300, 300,
+			]);
+			expect(result.regeneratedInstallments[0].cutOffDate).to.equal(
+				installments[2].cutOffDate,
+			);
+			expect(installments[2]).to.have.property("status", "CANCELLED");
+			expect(order).to.have.property("installmentAmount", 300);
+		});
+
+		it("should reschedule a small remainder on fewer cutoffs", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", amount: 1499.98, paymentMethod: "CASH" },
+				options,
+			);
+
+			expect(result.regeneratedInstallments.map((i: any) => i.amount)).to.deep.equal([
+				0.01, 0.01,
+			]);
+			expect(result.regeneratedInstallments.map((i: any) => i.cutOffDate)).to.deep.equal([
+				installments[2].cutOffDate,
+				installments[3].cutOffDate,
+			]);
+			expect(order).to.have.property("installmentAmount", 0.01);
+		});
+
+		it("should include arrears not carried forward in the remaining balance", async function () {
+			this.timeout(TEST_TIMEOUT);
+			// Payroll missed installment 2; installment 1's shortfall already moved to installment 3
+			Object.assign(installments[0], {
+				status: "PARTIAL",
+				deductedAmount: 300,
+				carriedForwardAmount: 200,
+			});
+			Object.assign(installments[1], { status: "FAILED", deductedAmount: 0 });
+			Object.assign(installments[2], { amount: 700, arrearsAmount: 200 });
+			ledger.balance = 2200;
+
+			const result = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", paymentMethod: "CASH" },
+				options,
+			);
+
+			expect(result).to.include({ amount: 2200, previousBalance: 2200, fullyPaid: true });
+			expect(result.settledArrears).to.deep.equal([
+				{ installmentId: "installment-2", installmentNumber: 2, unpaidAmount: 500 },
+			]);
+			expect(installments[1]).to.have.property("carriedForwardAmount", 500);
+			expect(installments[0]).to.have.property("carriedForwardAmount", 200);
+		});
+
+		it("should mark the order paid once the whole balance is prepaid", async function () {
+			this.timeout(TEST_TIMEOUT);
+			ledger.balance = 1500;
+			ledger.paidAmount = 1000;
+
+			const result = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", paymentMethod: "CASH" },
+				options,
+			);
+
+			expect(result).to.include({ amount: 1500, fullyPaid: true });
+			expect(result.regeneratedInstallments).to.have.length(0);
+			expect(order).to.have.property("paymentStatus", "COMPLETED");
+		});
+
+		it("should refuse more than the remaining balance", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", amount: 2000, paymentMethod: "CASH" },
+				options,
+			).catch((e) => e);
+
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+			expect(error.data).to.deep.equal({ remainingBalance: 1500 });
+		});
+
+		it("should refuse an amount that does not match the next installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{
+					applyTo: "NEXT_INSTALLMENTS",
+					installmentCount: 1,
+					amount: 400,
+					paymentMethod: "CASH",
+				},
+				options,
+			).catch((e) => e);
+
+			expect(error).to.have.property("statusCode", 422);
+			expect(error.data).to.deep.equal({ amountDue: 500 });
+		});
+
+		it("should refuse orders without pending installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = installments.slice(0, 2);
+
+			const error = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", paymentMethod: "CASH" },
+				options,
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse closed orders", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.status = "CANCELLED";
+
+			const error = await prepayOrder(
+				prisma as PrismaClient,
+				orderId,
+				{ applyTo: "REMAINING_BALANCE", paymentMethod: "CASH" },
+				options,
+			).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+	});
+});
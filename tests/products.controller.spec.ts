@@ -58,36 +58,45 @@ describe("Products Controller", () => {
 		},
 	];
 
+	// Fields the create schema requires
+	const validFields = {
+		sku: "SKU-001",
+		categoryId: "507f1f77bcf86cd799439012",
+		vendorId: "507f1f77bcf86cd799439013",
+		retailPrice: 1200,
+		employeePrice: 1000,
+	};
+
 	beforeEach(() => {
 		prisma = {
-			products: {
-				findMany: async (_params: Prisma.ProductsFindManyArgs) => {
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => {
 					// Return multiple productss for grouping tests
 					if (req.query?.groupBy) {
 						return mockProductss;
 					}
 					return [mockProducts];
 				},
-				count: async (_params: Prisma.ProductsCountArgs) => {
+				count: async (_params: Prisma.ProductCountArgs) => {
 					// Return count based on whether grouping is requested
 					if (req.query?.groupBy) {
 						return mockProductss.length;
 					}
 					return 1;
 				},
-				findFirst: async (params: Prisma.ProductsFindFirstArgs) =>
+				findFirst: async (params: Prisma.ProductFindFirstArgs) =>
 					params.where?.id === mockProducts.id ? mockProducts : null,
-				findUnique: async (params: Prisma.ProductsFindUniqueArgs) =>
+				findUnique: async (params: Prisma.ProductFindUniqueArgs) =>
 					params.where?.id === mockProducts.id ? mockProducts : null,
-				create: async (params: Prisma.ProductsCreateArgs) => ({
+				create: async (params: Prisma.ProductCreateArgs) => ({
 					...mockProducts,
 					...params.data,
 				}),
-				update: async (params: Prisma.ProductsUpdateArgs) => ({
+				update: async (params: Prisma.ProductUpdateArgs) => ({
 					...mockProducts,
 					...params.data,
 				}),
-				delete: async (params: Prisma.ProductsDeleteArgs) => ({
+				delete: async (params: Prisma.ProductDeleteArgs) => ({
 					...mockProducts,
 					id: params.where.id,
 				}),
@@ -136,77 +145,80 @@ describe("Products Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated productss", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("products").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group productss by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.products).to.have.property("email");
+			expect(sentData.data.products).to.have.property("sms");
+			expect(sentData.data.products).to.have.property("unassigned");
 		});
 
 		it("should group productss by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration Products");
-			expect(sentData.data.grouped).to.have.property("SMS Notification Products");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.products).to.have.property("User Registration Products");
+			expect(sentData.data.products).to.have.property("SMS Notification Products");
 		});
 
 		it("should handle productss with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.products).to.have.property("unassigned");
+			expect(sentData.data.products.unassigned).to.be.an("array");
+			expect(sentData.data.products.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.products).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await productsController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.products).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,10 +231,10 @@ describe("Products Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
-			prisma.products.findMany = async () => {
+			prisma.product.findMany = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -230,16 +242,16 @@ describe("Products Controller", () => {
 			};
 
 			await productsController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.products.findMany = async () => {
+			prisma.product.findMany = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -251,10 +263,11 @@ describe("Products Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +276,14 @@ describe("Products Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +291,7 @@ describe("Products Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +299,7 @@ describe("Products Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +315,7 @@ describe("Products Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +337,7 @@ describe("Products Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await productsController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +347,7 @@ describe("Products Controller", () => {
 			await productsController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +355,7 @@ describe("Products Controller", () => {
 			req.params = { id: mockProducts.id };
 
 			// Mock Prisma to throw an error
-			prisma.products.findUnique = async () => {
+			prisma.product.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +363,7 @@ describe("Products Controller", () => {
 			};
 
 			await productsController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +372,7 @@ describe("Products Controller", () => {
 			req.params = { id: mockProducts.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.products.findUnique = async () => {
+			prisma.product.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +386,7 @@ describe("Products Controller", () => {
 		it("should create a new products", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form Products",
 				description: "Products for contact forms with validation",
 			};
@@ -380,6 +401,7 @@ describe("Products Controller", () => {
 		it("should create a new products with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email Products",
 				description: "Products for email notifications",
 				type: "email",
@@ -396,6 +418,7 @@ describe("Products Controller", () => {
 		it("should create a new products without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic Products",
 				description: "Products without type",
 			};
@@ -410,6 +433,7 @@ describe("Products Controller", () => {
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form Products",
 				description: "Products from form data",
 				type: "form",
@@ -429,6 +453,7 @@ describe("Products Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL Products",
 				description: "Products from URL encoded data",
 			};
@@ -459,13 +484,14 @@ describe("Products Controller", () => {
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Products",
 				description: "Products that will cause Prisma error",
 			};
 			req.body = createData;
 
 			// Mock Prisma to throw an error
-			prisma.products.create = async () => {
+			prisma.product.create = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -473,20 +499,21 @@ describe("Products Controller", () => {
 			};
 
 			await productsController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test Products",
 				description: "Products that will cause internal error",
 			};
 			req.body = createData;
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.products.create = async () => {
+			prisma.product.create = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -509,7 +536,7 @@ describe("Products Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.product).to.have.property("id");
 		});
 
 		it("should update products type field", async function () {
@@ -523,7 +550,7 @@ describe("Products Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.product).to.have.property("id");
 		});
 
 		it("should update multiple products fields including type", async function () {
@@ -539,7 +566,7 @@ describe("Products Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.product).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +615,13 @@ describe("Products Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await productsController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "Products with empty name",
-			};
+			const updateData = { categoryId: "invalid-id" };
 			req.params = { id: mockProducts.id };
 			req.body = updateData;
 			await productsController.update(req as Request, res, next);
@@ -615,7 +639,7 @@ describe("Products Controller", () => {
 			await productsController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -628,7 +652,7 @@ describe("Products Controller", () => {
 			req.body = updateData;
 
 			// Mock Prisma to throw an error
-			prisma.products.update = async () => {
+			prisma.product.update = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -636,7 +660,7 @@ describe("Products Controller", () => {
 			};
 
 			await productsController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -650,7 +674,7 @@ describe("Products Controller", () => {
 			req.body = updateData;
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.products.update = async () => {
+			prisma.product.update = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -673,7 +697,7 @@ describe("Products Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await productsController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +707,7 @@ describe("Products Controller", () => {
 			await productsController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -691,7 +715,7 @@ describe("Products Controller", () => {
 			req.params = { id: mockProducts.id };
 
 			// Mock Prisma to throw an error
-			prisma.products.delete = async () => {
+			prisma.product.delete = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -699,7 +723,7 @@ describe("Products Controller", () => {
 			};
 
 			await productsController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -708,7 +732,7 @@ describe("Products Controller", () => {
 			req.params = { id: mockProducts.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.products.delete = async () => {
+			prisma.product.delete = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -746,6 +770,7 @@ describe("Products Controller", () => {
 		it("should handle very long products name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "Products with very long name",
 			};
@@ -758,6 +783,7 @@ describe("Products Controller", () => {
 		it("should handle special characters in products data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Products with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +797,7 @@ describe("Products Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent Products",
 				description: "Products created concurrently",
 			};
@@ -799,7 +826,7 @@ describe("Products Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +834,7 @@ describe("Products Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await productsController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +877,8 @@ describe("Products Controller", () => {
 			req.params = { id: mockProducts.id };
 			req.body = {}; // Empty body
 			await productsController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
@@ -0,0 +1,278 @@
+import {
+	evaluatePromotion,
+	redeemPromotion,
+	releasePromotionUsage,
+	repriceOrderPromotion,
+} from "../helper/promotionService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Promotion Service", () => {
+	let prisma: any;
+	let promotions: any[];
+	let redemptions: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const orderId = "507f1f77bcf86cd799439026";
+	const laptopId = "507f1f77bcf86cd799439012";
+	const mouseId = "507f1f77bcf86cd799439013";
+
+	const lines = [
+		{ productId: laptopId, quantity: 1, unitPrice: 1000 },
+		{ productId: mouseId, quantity: 2, unitPrice: 100 },
+	];
+
+	const promotion = (overrides: Record<string, any>) => ({
+		id: "promotion-1",
+		code: "SAVE10",
+		name: "Save 10%",
+		isActive: true,
+		scope: "ORDER",
+		scopeIds: [],
+		discountType: "PERCENTAGE",
+		discountValue: 0.1,
+		maxDiscountAmount: null,
+		minSpend: null,
+		startsAt: null,
+		endsAt: null,
+		usageLimit: null,
+		usageLimitPerEmployee: null,
+		usageCount: 0,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		promotions = [promotion({})];
+		redemptions = [];
+
+		prisma = {
+			promotion: {
+				findUnique: async (params: Prisma.PromotionFindUniqueArgs) =>
+					promotions.find(
+						(p) => p.code === params.where.code || p.id === params.where.id,
+					) ?? null,
+				updateMany: async (params: Prisma.PromotionUpdateManyArgs) => {
+					const where = params.where as any;
+					const data = params.data as any;
+					const target = promotions.find((p) => p.id === where.id);
+					if (
+						!target ||
+						(where.usageCount?.lt !== undefined &&
+							target.usageCount >= where.usageCount.lt) ||
+						(where.usageCount?.gt !== undefined &&
+							target.usageCount <= where.usageCount.gt)
+					) {
+						return { count: 0 };
+					}
+					target.usageCount += data.usageCount.increment ?? -data.usageCount.decrement;
+					return { count: 1 };
+				},
+			},
+			promotionRedemption: {
+				count: async (params: Prisma.PromotionRedemptionCountArgs) =>
+					redemptions.filter(
+						(r) => r.employeeId === params.where?.employeeId && r.status === "APPLIED",
+					).length,
+				findMany: async (params: Prisma.PromotionRedemptionFindManyArgs) =>
+					redemptions.filter(
+						(r) => r.orderId === params.where?.orderId && r.status === "APPLIED",
+					),
+				create: async (params: Prisma.PromotionRedemptionCreateArgs) => {
+					const redemption = {
+						id: `redemption-${redemptions.length + 1}`,
+						status: "APPLIED",
+						...(params.data as any),
+					};
+					redemptions.push(redemption);
+					return redemption;
+				},
+				update: async (params: Prisma.PromotionRedemptionUpdateArgs) =>
+					Object.assign(
+						redemptions.find((r) => r.id === params.where.id),
+						params.data,
+					),
+				updateMany: async (params: Prisma.PromotionRedemptionUpdateManyArgs) => {
+					const matched = redemptions.filter((r) => r.orderId === params.where?.orderId);
+					matched.forEach((r) => Object.assign(r, params.data));
+					return { count: matched.length };
+				},
+			},
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => [
+					{ id: laptopId, categoryId: "category-laptops", vendorId: "vendor-1" },
+					{ id: mouseId, categoryId: "category-accessories", vendorId: "vendor-2" },
+				],
+			},
+		};
+	});
+
+	describe("evaluatePromotion()", () => {
+		it("should spread an order discount over the lines by amount", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const applied = await evaluatePromotion(prisma as PrismaClient, {
+				code: " save10 ",
+				employeeId,
+				lines,
+			});
+
+			expect(applied).to.include({
+				code: "SAVE10",
+				eligibleSubtotal: 1200,
+				discountAmount: 120,
+			});
+			expect(applied.lineDiscounts).to.deep.equal([100, 20]);
+		});
+
+		it("should only discount lines in the promotion's category", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions = [
+				promotion({
+					scope: "CATEGORY",
+					scopeIds: ["category-accessories"],
+					discountType: "FIXED",
+					discountValue: 50,
+				}),
+			];
+
+			const applied = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+			});
+			expect(applied).to.include({ eligibleSubtotal: 200, discountAmount: 50 });
+			expect(applied.lineDiscounts).to.deep.equal([0, 50]);
+		});
+
+		it("should cap a percentage discount at its maximum", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions = [promotion({ maxDiscountAmount: 75 })];
+
+			const applied = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+			});
+			expect(applied).to.have.property("discountAmount", 75);
+		});
+
+		it("should refuse an order under the minimum spend", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions = [promotion({ minSpend: 5000 })];
+
+			const error = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+			}).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+			expect(error.errors[0]).to.have.property("field", "couponCode");
+		});
+
+		it("should refuse unknown and expired codes", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const unknown = await evaluatePromotion(prisma as PrismaClient, {
+				code: "NOPE",
+				employeeId,
+				lines,
+			}).catch((e) => e);
+			expect(unknown).to.have.property("statusCode", 404);
+
+			promotions = [promotion({ endsAt: new Date("2026-01-01") })];
+			const expired = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+				at: new Date("2026-02-01"),
+			}).catch((e) => e);
+			expect(expired).to.have.property("statusCode", 422);
+		});
+
+		it("should refuse an employee who used up their uses", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions = [promotion({ usageLimitPerEmployee: 1 })];
+			redemptions.push({
+				id: "redemption-1",
+				employeeId,
+				orderId: "order-0",
+				status: "APPLIED",
+			});
+
+			const error = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+	});
+
+	describe("redeemPromotion()", () => {
+		it("should claim a use only while the limit allows", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions = [promotion({ usageLimit: 1 })];
+			const applied = await evaluatePromotion(prisma as PrismaClient, {
+				code: "SAVE10",
+				employeeId,
+				lines,
+			});
+
+			const redemption = await redeemPromotion(prisma, applied, { orderId, employeeId });
+			expect(redemption).to.include({ code: "SAVE10", orderId, discountAmount: 120 });
+			expect(promotions[0]).to.have.property("usageCount", 1);
+
+			const error = await redeemPromotion(prisma, applied, {
+				orderId: "507f1f77bcf86cd799439027",
+				employeeId,
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(redemptions).to.have.length(1);
+		});
+	});
+
+	describe("releasePromotionUsage()", () => {
+		it("should give back the order's coupon uses", async function () {
+			this.timeout(TEST_TIMEOUT);
+			promotions[0].usageCount = 3;
+			redemptions.push({
+				id: "redemption-1",
+				promotionId: "promotion-1",
+				orderId,
+				status: "APPLIED",
+			});
+
+			expect(await releasePromotionUsage(prisma, orderId)).to.equal(1);
+			expect(redemptions[0]).to.have.property("status", "RELEASED");
+			expect(promotions[0]).to.have.property("usageCount", 2);
+			expect(await releasePromotionUsage(prisma, orderId)).to.equal(0);
+		});
+	});
+
+	describe("repriceOrderPromotion()", () => {
+		it("should recompute the discount for the order's new lines", async function () {
+			this.timeout(TEST_TIMEOUT);
+			redemptions.push({
+				id: "redemption-1",
+				promotionId: "promotion-1",
+				orderId,
+				status: "APPLIED",
+				discountAmount: 120,
+			});
+
+			const repriced = await repriceOrderPromotion(
+				prisma,
+				{ id: orderId, promotionId: "promotion-1" },
+				[lines[0]],
+			);
+			expect(repriced).to.deep.equal({
+				code: "SAVE10",
+				discountAmount: 100,
+				lineDiscounts: [100],
+			});
+			expect(redemptions[0]).to.have.property("discountAmount", 100);
+		});
+	});
+});
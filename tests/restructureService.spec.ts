@@ -0,0 +1,171 @@
+import { previewRestructure } from "../helper/restructureService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Restructure Service", () => {
+	let prisma: any;
+	let order: any;
+	let installments: any[];
+
+	const orderId = "507f1f77bcf86cd799439026";
+
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		interestAmount: null,
+		...overrides,
+		scheduledDate: new Date(overrides.cutOffDate.getTime() + 5 * 24 * 60 * 60 * 1000),
+	});
+
+	const sum = (lines: { amount: number }[]) =>
+		Number(lines.reduce((total, line) => total + line.amount, 0).toFixed(2));
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			status: "APPROVED",
+			installmentMonths: 2,
+			payrollCalendarId: null,
+		};
+		installments = [
+			installment({
+				id: "installment-1",
+				installmentNumber: 1,
+				status: "DEDUCTED",
+				cutOffDate: new Date(2027, 0, 15),
+			}),
+			installment({
+				id: "installment-2",
+				installmentNumber: 2,
+				status: "PENDING",
+				cutOffDate: new Date(2027, 0, 31),
+			}),
+			installment({
+				id: "installment-3",
+				installmentNumber: 3,
+				status: "PENDING",
+				cutOffDate: new Date(2027, 1, 15),
+			}),
+			installment({
+				id: "installment-4",
+				installmentNumber: 4,
+				status: "PENDING",
+				cutOffDate: new Date(2027, 1, 28),
+			}),
+		];
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId ? order : null,
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) =>
+					installments.filter((i) => i.status === "PENDING"),
+				findFirst: async (params: Prisma.InstallmentFindFirstArgs) =>
+					params.orderBy && "installmentNumber" in params.orderBy
+						? installments[installments.length - 1]
+						: installments[0],
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+				findFirst: async (_params: Prisma.PayrollCalendarFindFirstArgs) => null,
+			},
+		};
+	});
+
+	describe("previewRestructure()", () => {
+		it("should push the remaining installments back by the paused cutoffs", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const preview = await previewRestructure(prisma as PrismaClient, orderId, {
+				pauseCutoffs: 2,
+			});
+
+			expect(preview).to.include({ balance: 1500, pauseCutoffs: 2, installmentAmount: 500 });
+			expect(preview.originalPlan.map((line) => line.installmentId)).to.deep.equal([
+				"installment-2",
+				"installment-3",
+				"installment-4",
+			]);
+			expect(preview.proposedPlan.map((line) => line.installmentNumber)).to.deep.equal([
+				5, 6, 7,
+			]);
+			expect(preview.proposedPlan[0].cutOffDate.getTime()).to.be.greaterThan(
+				preview.originalPlan[0].cutOffDate.getTime(),
+			);
+		});
+
+		it("should spread the balance over the cutoffs left in a longer term", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const preview = await previewRestructure(prisma as PrismaClient, orderId, {
+				installmentMonths: 6,
+			});
+
+			expect(preview).to.include({ previousInstallmentMonths: 2, installmentMonths: 6 });
+			expect(preview.proposedPlan.length).to.be.greaterThan(3);
+			expect(sum(preview.proposedPlan)).to.equal(1500);
+			// The plan ends six months after its first installment
+			const last = preview.proposedPlan[preview.proposedPlan.length - 1];
+			expect(last.cutOffDate.getTime()).to.be.lessThan(new Date(2027, 6, 15).getTime());
+		});
+
+		it("should spread interest already charged with the balance", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments.slice(1).forEach((i) => (i.interestAmount = 20));
+
+			const preview = await previewRestructure(prisma as PrismaClient, orderId, {
+				installmentMonths: 6,
+			});
+			const interest = preview.proposedPlan.reduce(
+				(total, line) => total + line.interestAmount!,
+				0,
+			);
+			expect(Number(interest.toFixed(2))).to.equal(60);
+		});
+
+		it("should refuse a schedule that does not change anything", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await previewRestructure(prisma as PrismaClient, orderId, {}).catch(
+				(e) => e,
+			);
+
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 422);
+		});
+
+		it("should refuse a term that leaves no cutoffs", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await previewRestructure(prisma as PrismaClient, orderId, {
+				installmentMonths: 1,
+				pauseCutoffs: 4,
+			}).catch((e) => e);
+
+			expect(error).to.have.property("statusCode", 422);
+			expect(error.errors[0]).to.have.property("field", "installmentMonths");
+		});
+
+		it("should refuse orders without pending installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = installments.slice(0, 1);
+
+			const error = await previewRestructure(prisma as PrismaClient, orderId, {
+				pauseCutoffs: 1,
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse closed orders", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.status = "RETURNED";
+
+			const error = await previewRestructure(prisma as PrismaClient, orderId, {
+				pauseCutoffs: 1,
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+	});
+});
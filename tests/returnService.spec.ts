@@ -0,0 +1,325 @@
+import {
+	requestReturn,
+	approveReturn,
+	calculateLineRefunds,
+	applyOrderRefund,
+} from "../helper/returnService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Return Service", () => {
+	let prisma: any;
+	let order: any;
+	let returnRequests: any[];
+	let installments: any[];
+	let transactions: any[];
+
+	const orderId = "507f1f77bcf86cd799439026";
+	const laptopItemId = "507f1f77bcf86cd799439061";
+	const mouseItemId = "507f1f77bcf86cd799439062";
+	const details = {
+		reason: "Return RMA-2026-000001: Damaged",
+		processedBy: "warehouse@company.com",
+	};
+
+	beforeEach(() => {
+		order = {
+			id: orderId,
+			orderNumber: "EPP-2026-000001",
+			employeeId: "507f1f77bcf86cd799439011",
+			status: "DELIVERED",
+			deliveredDate: new Date(),
+			updatedAt: new Date(),
+			items: [
+				{
+					id: laptopItemId,
+					productId: "507f1f77bcf86cd799439012",
+					quantity: 1,
+					returnedQuantity: 0,
+					unitPrice: 1000,
+				},
+				{
+					id: mouseItemId,
+					productId: "507f1f77bcf86cd799439013",
+					quantity: 3,
+					returnedQuantity: 1,
+					unitPrice: 100,
+				},
+			],
+		};
+		returnRequests = [];
+		installments = [
+			{ id: "installment-1", orderId, installmentNumber: 1, amount: 400, status: "DEDUCTED" },
+			{
+				id: "installment-2",
+				orderId,
+				installmentNumber: 2,
+				amount: 400,
+				status: "SCHEDULED",
+			},
+			{ id: "installment-3", orderId, installmentNumber: 3, amount: 400, status: "PENDING" },
+			{ id: "installment-4", orderId, installmentNumber: 4, amount: 400, status: "PENDING" },
+		];
+		transactions = [
+			{
+				id: "507f1f77bcf86cd799439030",
+				orderId,
+				employeeId: "507f1f77bcf86cd799439011",
+				type: "INSTALLMENT",
+				status: "PROCESSING",
+				paymentMethod: "PAYROLL_DEDUCTION",
+				totalAmount: 1600,
+				balance: 1200,
+			},
+		];
+
+		prisma = {
+			order: {
+				findUnique: async (params: Prisma.OrderFindUniqueArgs) =>
+					params.where.id === orderId ? order : null,
+			},
+			returnRequest: {
+				findMany: async (_params: Prisma.ReturnRequestFindManyArgs) =>
+					returnRequests.filter((r) => ["REQUESTED", "APPROVED"].includes(r.status)),
+				findUnique: async (params: Prisma.ReturnRequestFindUniqueArgs) =>
+					returnRequests.find((r) => r.id === params.where.id) ?? null,
+				findUniqueOrThrow: async (params: Prisma.ReturnRequestFindUniqueOrThrowArgs) =>
+					returnRequests.find((r) => r.id === params.where.id),
+				create: async (params: Prisma.ReturnRequestCreateArgs) => {
+					const created = {
+						id: `507f1f77bcf86cd7994390${70 + returnRequests.length}`,
+						status: "REQUESTED",
+						...(params.data as any),
+					};
+					returnRequests.push(created);
+					return created;
+				},
+				updateMany: async (params: Prisma.ReturnRequestUpdateManyArgs) => {
+					const target = returnRequests.find(
+						(r) => r.id === params.where?.id && r.status === params.where?.status,
+					);
+					if (!target) {
+						return { count: 0 };
+					}
+					Object.assign(target, params.data);
+					return { count: 1 };
+				},
+			},
+			installment: {
+				findMany: async (params: Prisma.InstallmentFindManyArgs) =>
+					installments
+						.filter((i) =>
+							((params.where?.status as any).in as string[]).includes(i.status),
+						)
+						.sort((a, b) => b.installmentNumber - a.installmentNumber),
+				update: async (params: Prisma.InstallmentUpdateArgs) =>
+					Object.assign(
+						installments.find((i) => i.id === params.where.id),
+						params.data,
+					),
+			},
+			transaction: {
+				findMany: async (_params: Prisma.TransactionFindManyArgs) =>
+					transactions.filter((t) => t.type !== "REFUND"),
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = { id: "507f1f77bcf86cd799439031", ...(params.data as any) };
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(
+						transactions.find((t) => t.id === params.where.id),
+						params.data,
+					),
+			},
+			counter: {
+				upsert: async (_params: Prisma.CounterUpsertArgs) => ({ value: 1 }),
+			},
+		};
+	});
+
+	describe("calculateLineRefunds()", () => {
+		it("should spread the order discount and tax over the returned lines", function () {
+			const refunds = calculateLineRefunds(
+				{ subtotal: 1300, total: 1170 },
+				[
+					{ id: laptopItemId, quantity: 1, subtotal: 1000 },
+					{ id: mouseItemId, quantity: 3, subtotal: 300 },
+				],
+				[{ orderItemId: mouseItemId, quantity: 2 }],
+			);
+
+			expect(refunds).to.deep.equal([
+				{ orderItemId: mouseItemId, refundAmount: 180, pointsRefund: 0 },
+			]);
+		});
+
+		it("should give back the returned lines' share of redeemed points", function () {
+			// 200 points were redeemed, so the order total is 200 under the item subtotals
+			const refunds = calculateLineRefunds(
+				{ subtotal: 1300, total: 1100, pointsUsed: 200 },
+				[
+					{ id: laptopItemId, quantity: 1, subtotal: 1000 },
+					{ id: mouseItemId, quantity: 3, subtotal: 300 },
+				],
+				[
+					{ orderItemId: laptopItemId, quantity: 1 },
+					{ orderItemId: mouseItemId, quantity: 3 },
+				],
+			);
+
+			expect(refunds.map((r) => r.refundAmount)).to.deep.equal([846.15, 253.85]);
+			expect(refunds.map((r) => r.pointsRefund)).to.deep.equal([153.85, 46.15]);
+		});
+	});
+
+	describe("requestReturn()", () => {
+		it("should create a return for the returnable quantity", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await requestReturn(prisma as PrismaClient, {
+				orderId,
+				items: [{ orderItemId: mouseItemId, quantity: 2 }],
+				reason: "Damaged",
+				requestedBy: "employee@company.com",
+			});
+
+			expect(created).to.include({ orderId, status: "REQUESTED", reason: "Damaged" });
+			expect(created.items).to.deep.equal([
+				{
+					orderItemId: mouseItemId,
+					productId: "507f1f77bcf86cd799439013",
+					quantity: 2,
+					unitPrice: 100,
+				},
+			]);
+		});
+
+		it("should count quantities held by open returns", async function () {
+			this.timeout(TEST_TIMEOUT);
+			returnRequests.push({
+				id: "507f1f77bcf86cd799439070",
+				status: "APPROVED",
+				items: [{ orderItemId: mouseItemId, quantity: 1 }],
+			});
+
+			const error = await requestReturn(prisma as PrismaClient, {
+				orderId,
+				items: [{ orderItemId: mouseItemId, quantity: 2 }],
+				reason: "Damaged",
+				requestedBy: "employee@company.com",
+			}).catch((e) => e);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 400);
+			expect(error.errors[0].message).to.equal("Requested 2, only 1 can still be returned");
+		});
+
+		it("should refuse orders that were not delivered", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.status = "SHIPPED";
+
+			const error = await requestReturn(prisma as PrismaClient, {
+				orderId,
+				items: [{ orderItemId: laptopItemId, quantity: 1 }],
+				reason: "Damaged",
+				requestedBy: "employee@company.com",
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should refuse once the return window has ended", async function () {
+			this.timeout(TEST_TIMEOUT);
+			order.deliveredDate = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+
+			const error = await requestReturn(prisma as PrismaClient, {
+				orderId,
+				items: [{ orderItemId: laptopItemId, quantity: 1 }],
+				reason: "Damaged",
+				requestedBy: "employee@company.com",
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.message).to.contain("30-day return window");
+		});
+	});
+
+	describe("approveReturn()", () => {
+		it("should approve a requested return only once", async function () {
+			this.timeout(TEST_TIMEOUT);
+			returnRequests.push({
+				id: "507f1f77bcf86cd799439070",
+				returnNumber: "RMA-2026-000001",
+				status: "REQUESTED",
+				items: [],
+			});
+
+			const approved = await approveReturn(
+				prisma as PrismaClient,
+				"507f1f77bcf86cd799439070",
+				{
+					approvedBy: "admin@company.com",
+				},
+			);
+			expect(approved).to.include({ status: "APPROVED", approvedBy: "admin@company.com" });
+
+			const error = await approveReturn(prisma as PrismaClient, "507f1f77bcf86cd799439070", {
+				approvedBy: "admin@company.com",
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+		});
+
+		it("should return 404 for an unknown return", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const error = await approveReturn(prisma as PrismaClient, "507f1f77bcf86cd799439099", {
+				approvedBy: "admin@company.com",
+			}).catch((e) => e);
+			expect(error).to.have.property("statusCode", 404);
+		});
+	});
+
+	describe("applyOrderRefund()", () => {
+		it("should shorten the schedule from the end before paying anything back", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await applyOrderRefund(prisma, orderId, 600, details);
+
+			expect(result).to.deep.equal({
+				refundAmount: 600,
+				installmentReduction: 600,
+				refundedAmount: 0,
+				refundTransactionId: null,
+				adjustedInstallments: 1,
+				cancelledInstallments: 1,
+			});
+			expect(installments[3]).to.have.property("status", "CANCELLED");
+			expect(installments[2]).to.include({ status: "PENDING", amount: 200 });
+			expect(transactions[0]).to.include({ totalAmount: 1000, balance: 600 });
+		});
+
+		it("should pay back what the pending installments cannot absorb", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await applyOrderRefund(prisma, orderId, 1000, details);
+
+			// The SCHEDULED installment is left to payroll, so its share is paid back
+			expect(result).to.include({ installmentReduction: 800, refundedAmount: 200 });
+			expect(installments[1]).to.have.property("status", "SCHEDULED");
+			expect(transactions[1]).to.include({ type: "REFUND", totalAmount: 200 });
+			expect(result.refundTransactionId).to.equal(transactions[1].id);
+		});
+
+		it("should reduce the open balance of an order without installments", async function () {
+			this.timeout(TEST_TIMEOUT);
+			installments = [];
+			transactions[0] = {
+				...transactions[0],
+				type: "PURCHASE",
+				totalAmount: 1000,
+				balance: 300,
+			};
+
+			const result = await applyOrderRefund(prisma, orderId, 500, details);
+			expect(result).to.include({ installmentReduction: 300, refundedAmount: 200 });
+			expect(transactions[0]).to.include({ totalAmount: 500, balance: 0 });
+		});
+	});
+});
@@ -0,0 +1,232 @@
+import { assertNotSeparated, separateEmployee } from "../helper/separationService";
+import { ServiceError } from "../helper/error-handler";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Separation Service", () => {
+	let prisma: any;
+	let separation: any;
+	let pendingApproval: any[];
+	let installments: any[];
+	let transactions: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const orderId = "507f1f77bcf86cd799439026";
+	const lastWorkingDay = new Date("2026-03-31T00:00:00Z");
+
+	const installment = (overrides: Record<string, any>) => ({
+		orderId,
+		amount: 500,
+		interestAmount: null,
+		separationId: null,
+		...overrides,
+	});
+
+	beforeEach(() => {
+		separation = null;
+		pendingApproval = [];
+		installments = [
+			installment({ id: "installment-1", installmentNumber: 1, status: "SCHEDULED" }),
+			installment({ id: "installment-2", installmentNumber: 2, status: "PENDING" }),
+			installment({ id: "installment-3", installmentNumber: 3, status: "PENDING" }),
+		];
+		transactions = [
+			{
+				id: "507f1f77bcf86cd799439030",
+				transactionNumber: "TXN-2026-01-000001",
+				orderId,
+				employeeId,
+				type: "INSTALLMENT",
+				status: "PROCESSING",
+				paymentMethod: "PAYROLL_DEDUCTION",
+				totalAmount: 2000,
+				balance: 1500,
+				interestAmount: 0,
+				interestPaid: 0,
+				metadata: null,
+			},
+		];
+
+		prisma = {
+			employeeSeparation: {
+				findUnique: async (_params: Prisma.EmployeeSeparationFindUniqueArgs) => separation,
+				create: async (params: Prisma.EmployeeSeparationCreateArgs) => {
+					separation = { id: "507f1f77bcf86cd799439051", ...(params.data as any) };
+					return separation;
+				},
+				update: async (params: Prisma.EmployeeSeparationUpdateArgs) =>
+					Object.assign(separation, params.data),
+			},
+			order: {
+				findMany: async (params: Prisma.OrderFindManyArgs) =>
+					params.where?.status === "PENDING_APPROVAL"
+						? pendingApproval
+						: [
+								{
+									id: orderId,
+									orderNumber: "EPP-2026-000001",
+									payrollCalendarId: null,
+								},
+							],
+				update: async (params: Prisma.OrderUpdateArgs) => ({ id: params.where.id }),
+			},
+			transaction: {
+				findMany: async (params: Prisma.TransactionFindManyArgs) =>
+					transactions.filter(
+						(t) => !params.where?.orderId || t.orderId === params.where.orderId,
+					),
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = { id: "507f1f77bcf86cd799439031", ...(params.data as any) };
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) =>
+					Object.assign(
+						transactions.find((t) => t.id === params.where.id),
+						params.data,
+					),
+			},
+			installment: {
+				findMany: async (_params: Prisma.InstallmentFindManyArgs) => [...installments],
+				findFirst: async (_params: Prisma.InstallmentFindFirstArgs) =>
+					installments[installments.length - 1],
+				updateMany: async (params: Prisma.InstallmentUpdateManyArgs) => {
+					const ids = (params.where?.id as any).in as string[];
+					const matched = installments.filter(
+						(i) => ids.includes(i.id) && i.status === params.where?.status,
+					);
+					matched.forEach((i) => Object.assign(i, params.data));
+					return { count: matched.length };
+				},
+				create: async (params: Prisma.InstallmentCreateArgs) => {
+					const created = {
+						id: `installment-${installments.length + 1}`,
+						...(params.data as any),
+					};
+					installments.push(created);
+					return created;
+				},
+			},
+			payrollCalendar: {
+				findMany: async (_params: Prisma.PayrollCalendarFindManyArgs) => [],
+				findFirst: async (_params: Prisma.PayrollCalendarFindFirstArgs) => null,
+			},
+			counter: {
+				upsert: async (_params: Prisma.CounterUpsertArgs) => ({ value: 1 }),
+			},
+			$transaction: async (operations: any) => {
+				if (typeof operations === "function") {
+					return operations(prisma);
+				}
+				return await Promise.all(operations);
+			},
+		};
+	});
+
+	describe("assertNotSeparated()", () => {
+		it("should pass for an employee who was not separated", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await assertNotSeparated(prisma as PrismaClient, employeeId);
+		});
+
+		it("should refuse a separated employee", async function () {
+			this.timeout(TEST_TIMEOUT);
+			separation = {
+				id: "507f1f77bcf86cd799439051",
+				separationNumber: "SEP-2026-000001",
+				lastWorkingDay,
+			};
+
+			const error = await assertNotSeparated(prisma as PrismaClient, employeeId).catch(
+				(e) => e,
+			);
+			expect(error).to.be.instanceOf(ServiceError);
+			expect(error).to.have.property("statusCode", 403);
+			expect(error.message).to.contain("last working day of 2026-03-31");
+			expect(error.data).to.deep.equal({
+				separationId: "507f1f77bcf86cd799439051",
+				separationNumber: "SEP-2026-000001",
+			});
+		});
+	});
+
+	describe("separateEmployee()", () => {
+		const input = {
+			employeeId,
+			lastWorkingDay,
+			finalPayAmount: 600,
+			processedBy: "hr@company.com",
+		};
+
+		it("should deduct from final pay and leave the rest as a receivable", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await separateEmployee(prisma as PrismaClient, input);
+
+			expect(result).to.include({
+				totalOutstanding: 1500,
+				scheduledAmount: 500,
+				finalPayDeduction: 600,
+				receivableAmount: 400,
+				clearanceStatus: "RECEIVABLE",
+			});
+			// The scheduled installment is left to payroll, the pending ones are settled
+			expect(installments.map((i) => i.status)).to.deep.equal([
+				"SCHEDULED",
+				"CANCELLED",
+				"CANCELLED",
+				"PENDING",
+			]);
+			expect(installments[3]).to.include({
+				installmentNumber: 4,
+				amount: 600,
+				separationId: "507f1f77bcf86cd799439051",
+			});
+
+			const receivable = transactions.find((t) => t.type === "ADJUSTMENT");
+			expect(receivable).to.include({
+				totalAmount: 400,
+				relatedTransactionId: transactions[0].id,
+			});
+			expect(result.lines[0]).to.include({
+				finalPayInstallmentId: "installment-4",
+				receivableTransactionId: receivable.id,
+			});
+		});
+
+		it("should clear the employee when final pay covers the balance", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await separateEmployee(prisma as PrismaClient, {
+				...input,
+				finalPayAmount: 5000,
+			});
+
+			expect(result).to.include({
+				finalPayDeduction: 1000,
+				receivableAmount: 0,
+				clearanceStatus: "CLEARED",
+			});
+			expect(transactions).to.have.length(1);
+		});
+
+		it("should refuse to separate an employee twice", async function () {
+			this.timeout(TEST_TIMEOUT);
+			separation = { id: "507f1f77bcf86cd799439051", separationNumber: "SEP-2026-000001" };
+
+			const error = await separateEmployee(prisma as PrismaClient, input).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.data).to.deep.equal({ separationId: "507f1f77bcf86cd799439051" });
+		});
+
+		it("should refuse while orders are awaiting approval", async function () {
+			this.timeout(TEST_TIMEOUT);
+			pendingApproval = [{ id: "507f1f77bcf86cd799439027", orderNumber: "EPP-2026-000002" }];
+
+			const error = await separateEmployee(prisma as PrismaClient, input).catch((e) => e);
+			expect(error).to.have.property("statusCode", 409);
+			expect(error.errors[0]).to.have.property("field", "EPP-2026-000002");
+			expect(installments[1]).to.have.property("status", "PENDING");
+		});
+	});
+});
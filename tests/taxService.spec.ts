@@ -0,0 +1,255 @@
+import { resolveTaxClasses, computeOrderTax, getTaxSummary } from "../helper/taxService";
+import { config } from "../config/constant";
+import { expect } from "chai";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
+
+describe("Tax Service", () => {
+	let prisma: any;
+	let products: any[];
+	let taxClasses: any[];
+
+	beforeEach(() => {
+		taxClasses = [
+			{
+				id: "507f1f77bcf86cd799439091",
+				code: "ZERO",
+				name: "Zero-rated",
+				rate: 0,
+				isExempt: false,
+			},
+			{
+				id: "507f1f77bcf86cd799439092",
+				code: "EXEMPT",
+				name: "Exempt",
+				rate: 0.12,
+				isExempt: true,
+			},
+		];
+		products = [
+			{ id: "product-default", taxClassId: null, category: { taxClassId: null } },
+			{
+				id: "product-category",
+				taxClassId: null,
+				category: { taxClassId: "507f1f77bcf86cd799439091" },
+			},
+			{
+				id: "product-own",
+				taxClassId: "507f1f77bcf86cd799439092",
+				category: { taxClassId: "507f1f77bcf86cd799439091" },
+			},
+		];
+
+		prisma = {
+			product: {
+				findMany: async (_params: Prisma.ProductFindManyArgs) => products,
+			},
+			taxClass: {
+				findMany: async (params: Prisma.TaxClassFindManyArgs) =>
+					taxClasses.filter((c) =>
+						((params.where?.id as any).in as string[]).includes(c.id),
+					),
+				findFirst: async (_params: Prisma.TaxClassFindFirstArgs) => null,
+			},
+		};
+	});
+
+	describe("resolveTaxClasses()", () => {
+		it("should use the product class, then the category class, then the default", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const resolved = await resolveTaxClasses(prisma as PrismaClient, [
+				"product-default",
+				"product-category",
+				"product-own",
+			]);
+
+			expect(resolved.get("product-default")).to.have.property(
+				"code",
+				config.TAX.DEFAULT_CLASS.CODE,
+			);
+			expect(resolved.get("product-category")).to.have.property("code", "ZERO");
+			expect(resolved.get("product-own")).to.have.property("code", "EXEMPT");
+		});
+	});
+
+	describe("computeOrderTax()", () => {
+		it("should extract VAT from inclusive prices", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await computeOrderTax(
+				prisma as PrismaClient,
+				[{ productId: "product-default", quantity: 1, unitPrice: 1120 }],
+				{ pricesIncludeTax: true },
+			);
+
+			expect(result).to.include({ subtotal: 1120, tax: 120, total: 1120 });
+			expect(result.lines[0]).to.include({ taxableAmount: 1000, taxAmount: 120 });
+		});
+
+		it("should add VAT on top of exclusive prices", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await computeOrderTax(
+				prisma as PrismaClient,
+				[{ productId: "product-default", quantity: 2, unitPrice: 500 }],
+				{ pricesIncludeTax: false },
+			);
+
+			expect(result).to.include({ subtotal: 1000, tax: 120, total: 1120 });
+		});
+
+		it("should spread an order discount over the lines by amount", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await computeOrderTax(
+				prisma as PrismaClient,
+				[
+					{ productId: "product-default", quantity: 1, unitPrice: 600 },
+					{ productId: "product-category", quantity: 1, unitPrice: 400 },
+				],
+				{ orderDiscount: 100, pricesIncludeTax: false },
+			);
+
+			expect(result.lines.map((line) => line.discount)).to.deep.equal([60, 40]);
+			expect(result).to.include({ discount: 100, tax: 64.8, total: 964.8 });
+		});
+
+		it("should not tax exempt lines", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const result = await computeOrderTax(
+				prisma as PrismaClient,
+				[{ productId: "product-own", quantity: 1, unitPrice: 1000 }],
+				{ pricesIncludeTax: false },
+			);
+
+			expect(result).to.include({ tax: 0, total: 1000 });
+			expect(result.taxBreakdown[0]).to.include({ taxClassCode: "EXEMPT", isExempt: true });
+		});
+	});
+
+	describe("getTaxSummary()", () => {
+		let orders: any[];
+
+		const breakdown = (taxableAmount: number, taxAmount: number) => [
+			{
+				taxClassCode: "VAT12",
+				taxClassName: "VAT 12%",
+				rate: 0.12,
+				isExempt: false,
+				taxableAmount,
+				taxAmount,
+			},
+		];
+		const line = (taxableAmount: number, taxAmount: number, overrides = {}) => ({
+			quantity: 1,
+			returnedQuantity: 0,
+			taxClassCode: "VAT12",
+			taxRate: 0.12,
+			taxableAmount,
+			taxAmount,
+			...overrides,
+		});
+
+		beforeEach(() => {
+			orders = [];
+			prisma.order = {
+				findMany: async (params: Prisma.OrderFindManyArgs) => {
+					const excluded = (params.where?.status as any).notIn as string[];
+					return orders.filter((order) => !excluded.includes(order.status));
+				},
+			};
+		});
+
+		it("should total tax per period and tax class", async function () {
+			this.timeout(TEST_TIMEOUT);
+			orders = [
+				{
+					orderDate: new Date(2026, 0, 5),
+					status: "DELIVERED",
+					taxBreakdown: breakdown(1000, 120),
+					items: [line(1000, 120)],
+				},
+				{
+					orderDate: new Date(2026, 0, 20),
+					status: "APPROVED",
+					taxBreakdown: breakdown(500, 60),
+					items: [line(500, 60)],
+				},
+				{
+					orderDate: new Date(2026, 1, 2),
+					status: "PENDING_APPROVAL",
+					taxBreakdown: breakdown(100, 12),
+					items: [line(100, 12)],
+				},
+			];
+
+			const summary = await getTaxSummary(prisma as PrismaClient, {
+				from: new Date(2026, 0, 1),
+				to: new Date(2026, 1, 28),
+			});
+
+			expect(summary.periods.map((p) => p.period)).to.deep.equal(["2026-01", "2026-02"]);
+			expect(summary.periods[0]).to.include({
+				orderCount: 2,
+				grossSales: 1680,
+				taxAmount: 180,
+			});
+			expect(summary.periods[0].byTaxClass[0]).to.include({
+				taxClassName: "VAT 12%",
+				taxableAmount: 1500,
+				taxAmount: 180,
+			});
+			expect(summary.totals).to.deep.equal({
+				orderCount: 3,
+				grossSales: 1792,
+				taxAmount: 192,
+			});
+		});
+
+		it("should report from the lines, before points and without returns", async function () {
+			this.timeout(TEST_TIMEOUT);
+			orders = [
+				{
+					// 100 paid in points leaves a total of 1020; tax is still on 1000
+					orderDate: new Date(2026, 0, 5),
+					status: "DELIVERED",
+					total: 1020,
+					tax: 120,
+					taxBreakdown: breakdown(1000, 120),
+					items: [line(600, 72, { quantity: 3, returnedQuantity: 1 }), line(400, 48)],
+				},
+				{
+					orderDate: new Date(2026, 0, 8),
+					status: "RETURNED",
+					taxBreakdown: breakdown(500, 60),
+					items: [line(500, 60)],
+				},
+				{
+					orderDate: new Date(2026, 0, 9),
+					status: "CANCELLED",
+					taxBreakdown: breakdown(200, 24),
+					items: [line(200, 24)],
+				},
+			];
+
+			const summary = await getTaxSummary(prisma as PrismaClient, {
+				from: new Date(2026, 0, 1),
+				to: new Date(2026, 0, 31),
+			});
+
+			expect(summary.totals).to.deep.equal({
+				orderCount: 1,
+				grossSales: 896,
+				taxAmount: 96,
+			});
+			expect(summary.periods[0].byTaxClass).to.deep.equal([
+				{
+					taxClassCode: "VAT12",
+					taxClassName: "VAT 12%",
+					rate: 0.12,
+					isExempt: false,
+					taxableAmount: 800,
+					taxAmount: 96,
+				},
+			]);
+		});
+	});
+});
@@ -1,266 +1,284 @@
-import { describe, it } from "mocha";
+import { controller } from "../app/transaction/transaction.controller";
 import { expect } from "chai";
-import supertest from "supertest";
+import { Request, Response, NextFunction } from "express";
+import { PrismaClient, Prisma } from "../generated/prisma";
+
+const TEST_TIMEOUT = 5000;
 
 describe("Transaction Controller", () => {
-	const baseUrl = process.env.BASE_URL || "http://localhost:3000";
-	const request = supertest(baseUrl);
+	let transactionController: any;
+	let req: Partial<Request>;
+	let res: Response;
+	let next: NextFunction;
+	let prisma: any;
+	let sentData: any;
+	let statusCode: number;
+	let transactions: any[];
+
+	const employeeId = "507f1f77bcf86cd799439011";
+	const orderId = "507f1f77bcf86cd799439012";
+
+	const newTransaction = (overrides: Record<string, any> = {}) => ({
+		transactionNumber: `TXN-TEST-${Date.now()}`,
+		employeeId,
+		orderId,
+		type: "INSTALLMENT",
+		totalAmount: 1000.0,
+		balance: 1000.0,
+		paymentMethod: "PAYROLL_DEDUCTION",
+		notes: "Test transaction",
+		...overrides,
+	});
 
-	describe("POST /api/transaction", () => {
-		it("should create a new transaction", async () => {
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "INSTALLMENT",
-				amount: 1000.00,
-				paymentMethod: "INSTALLMENT",
-				notes: "Test transaction",
-			};
+	const matches = (transaction: any, where: Prisma.TransactionWhereInput = {}) =>
+		Object.entries(where).every(([key, value]) =>
+			typeof value === "object" && value !== null ? true : transaction[key] === value,
+		);
+
+	beforeEach(() => {
+		transactions = [];
+		prisma = {
+			transaction: {
+				findMany: async (params: Prisma.TransactionFindManyArgs = {}) =>
+					transactions.filter((t) => matches(t, params.where)),
+				count: async (params: Prisma.TransactionCountArgs = {}) =>
+					transactions.filter((t) => matches(t, params.where)).length,
+				findFirst: async (params: Prisma.TransactionFindFirstArgs) =>
+					transactions.find((t) => t.id === params.where?.id) ?? null,
+				create: async (params: Prisma.TransactionCreateArgs) => {
+					const transaction = {
+						id: `507f1f77bcf86cd7994390${(30 + transactions.length).toString()}`,
+						status: "PENDING",
+						paidAmount: 0,
+						isReconciled: false,
+						createdAt: new Date(),
+						updatedAt: new Date(),
+						...(params.data as any),
+					};
+					transactions.push(transaction);
+					return transaction;
+				},
+				update: async (params: Prisma.TransactionUpdateArgs) => {
+					const transaction = transactions.find((t) => t.id === params.where.id);
+					Object.assign(transaction, params.data, { updatedAt: new Date() });
+					return transaction;
+				},
+				delete: async (params: Prisma.TransactionDeleteArgs) => {
+					const index = transactions.findIndex((t) => t.id === params.where.id);
+					return transactions.splice(index, 1)[0];
+				},
+			},
+		};
+
+		transactionController = controller(prisma as PrismaClient);
+		sentData = undefined;
+		statusCode = 200;
+		req = {
+			query: {},
+			params: {},
+			body: {},
+			get: (header: string) => {
+				if (header === "Content-Type") {
+					return "application/json";
+				}
+				return undefined;
+			},
+			originalUrl: "/api/transaction",
+		} as Request;
+		res = {
+			send: (data: any) => {
+				sentData = data;
+				return res;
+			},
+			status: (code: number) => {
+				statusCode = code;
+				return res;
+			},
+			json: (data: any) => {
+				sentData = data;
+				return res;
+			},
+			end: () => res,
+		} as Response;
+		next = () => {};
+	});
+
+	const createTransaction = async (overrides: Record<string, any> = {}) => {
+		req.body = newTransaction(overrides);
+		await transactionController.create(req as Request, res, next);
+		expect(statusCode).to.equal(201);
+		return sentData.data;
+	};
 
-			const response = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
+	describe("POST /api/transaction", () => {
+		it("should create a new transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const data = newTransaction();
+			req.body = data;
+			await transactionController.create(req as Request, res, next);
+			expect(statusCode).to.equal(201);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("transactionNumber", data.transactionNumber);
+		});
 
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("transactionNumber", newTransaction.transactionNumber);
+		it("should reject an unknown payment method", async function () {
+			this.timeout(TEST_TIMEOUT);
+			req.body = newTransaction({ paymentMethod: "INSTALLMENT" });
+			await transactionController.create(req as Request, res, next);
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 	});
 
 	describe("GET /api/transaction", () => {
-		it("should retrieve all transactions", async () => {
-			const response = await request
-				.get("/api/transaction?document=true&count=true")
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("transactions");
-			expect(response.body.data).to.have.property("count");
+		it("should retrieve all transactions", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await createTransaction();
+			req.query = { document: "true", count: "true" };
+			await transactionController.getAll(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("transactions");
+			expect(sentData.data).to.have.property("count", 1);
 		});
 
-		it("should filter transactions by status", async () => {
-			const response = await request
-				.get('/api/transaction?document=true&filter=[{"status":"COMPLETED"}]')
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data.transactions).to.be.an("array");
+		it("should filter transactions by status", async function () {
+			this.timeout(TEST_TIMEOUT);
+			req.query = { document: "true", filter: "status:COMPLETED" };
+			await transactionController.getAll(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data.transactions).to.be.an("array");
 		});
 	});
 
 	describe("GET /api/transaction/:id", () => {
-		it("should retrieve a transaction by ID", async () => {
-			// First, create a transaction
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "CASH",
-				amount: 500.00,
-				paymentMethod: "CASH",
-			};
-
-			const createResponse = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
-
-			const transactionId = createResponse.body.data.id;
-
-			// Then retrieve it
-			const response = await request
-				.get(`/api/transaction/${transactionId}`)
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("id", transactionId);
+		it("should retrieve a transaction by ID", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction({ type: "PURCHASE", paymentMethod: "CASH" });
+
+			req.params = { id: created.id };
+			await transactionController.getById(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("id", created.id);
 		});
 	});
 
 	describe("PATCH /api/transaction/:id", () => {
-		it("should update a transaction", async () => {
-			// First, create a transaction
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "INSTALLMENT",
-				amount: 1000.00,
-				paymentMethod: "INSTALLMENT",
-			};
-
-			const createResponse = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
-
-			const transactionId = createResponse.body.data.id;
-
-			// Then update it
-			const updateData = {
-				status: "PROCESSING",
-				notes: "Transaction being processed",
-			};
-
-			const response = await request
-				.patch(`/api/transaction/${transactionId}`)
-				.send(updateData)
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data.transaction).to.have.property("status", "PROCESSING");
+		it("should update a transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction();
+
+			req.params = { id: created.id };
+			req.body = { status: "PROCESSING", notes: "Transaction being processed" };
+			await transactionController.update(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data.transaction).to.have.property("status", "PROCESSING");
 		});
-	});
-
-	describe("POST /api/transaction/:id/process", () => {
-		it("should process a transaction", async () => {
-			// First, create a pending transaction
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "INSTALLMENT",
-				amount: 1000.00,
-				paymentMethod: "INSTALLMENT",
-				status: "PENDING",
-			};
-
-			const createResponse = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
-
-			const transactionId = createResponse.body.data.id;
-
-			// Then process it
-			const processData = {
-				processedBy: "test@company.com",
-				payrollBatchId: "BATCH-TEST-001",
-				notes: "Processed in test",
-			};
 
-			const response = await request
-				.post(`/api/transaction/${transactionId}/process`)
-				.send(processData)
-				.expect(200);
+		it("should complete a transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction({ status: "PENDING" });
 
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data.transaction).to.have.property("status", "COMPLETED");
-			expect(response.body.data.transaction).to.have.property("processedAt");
+			req.params = { id: created.id };
+			req.body = { status: "COMPLETED", paidAmount: 1000, balance: 0 };
+			await transactionController.update(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData.data.transaction).to.have.property("status", "COMPLETED");
+			expect(sentData.data.transaction).to.have.property("balance", 0);
 		});
 	});
 
 	describe("POST /api/transaction/:id/reconcile", () => {
-		it("should reconcile a transaction", async () => {
-			// First, create a completed transaction
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "CASH",
-				amount: 500.00,
+		it("should reconcile a transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction({
+				type: "PURCHASE",
 				paymentMethod: "CASH",
 				status: "COMPLETED",
-			};
-
-			const createResponse = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
-
-			const transactionId = createResponse.body.data.id;
-
-			// Then reconcile it
-			const reconcileData = {
-				reconciledBy: "admin@company.com",
-				notes: "Reconciled in test",
-			};
+			});
+
+			req.params = { id: created.id };
+			req.body = { reconciledBy: "admin@company.com", notes: "Reconciled in test" };
+			await transactionController.reconcileTransaction(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data.transaction).to.have.property("isReconciled", true);
+			expect(sentData.data.transaction).to.have.property("reconciledAt");
+		});
 
-			const response = await request
-				.post(`/api/transaction/${transactionId}/reconcile`)
-				.send(reconcileData)
-				.expect(200);
+		it("should refuse to reconcile a transaction twice", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction({ status: "COMPLETED" });
 
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data.transaction).to.have.property("isReconciled", true);
-			expect(response.body.data.transaction).to.have.property("reconciledAt");
+			req.params = { id: created.id };
+			req.body = { reconciledBy: "admin@company.com" };
+			await transactionController.reconcileTransaction(req as Request, res, next);
+			await transactionController.reconcileTransaction(req as Request, res, next);
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 	});
 
 	describe("GET /api/transaction/order/:orderId", () => {
-		it("should retrieve transactions by order ID", async () => {
-			const orderId = "507f1f77bcf86cd799439012";
-
-			const response = await request
-				.get(`/api/transaction/order/${orderId}`)
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("orderId", orderId);
-			expect(response.body.data).to.have.property("transactions");
-			expect(response.body.data.transactions).to.be.an("array");
+		it("should retrieve transactions by order ID", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await createTransaction();
+
+			req.params = { orderId };
+			await transactionController.getByOrder(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("orderId", orderId);
+			expect(sentData.data.transactions).to.be.an("array").with.length(1);
+			expect(sentData.data).to.have.property("balance", 1000);
 		});
 	});
 
 	describe("GET /api/transaction/employee/:employeeId", () => {
-		it("should retrieve transactions by employee ID", async () => {
-			const employeeId = "507f1f77bcf86cd799439011";
-
-			const response = await request
-				.get(`/api/transaction/employee/${employeeId}`)
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("employeeId", employeeId);
-			expect(response.body.data).to.have.property("transactions");
-			expect(response.body.data).to.have.property("byType");
+		it("should retrieve transactions by employee ID", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await createTransaction();
+
+			req.params = { employeeId };
+			await transactionController.getByEmployee(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("employeeId", employeeId);
+			expect(sentData.data).to.have.property("transactions");
+			expect(sentData.data.byType).to.have.property("INSTALLMENT", 1);
 		});
 	});
 
 	describe("GET /api/transaction/unreconciled", () => {
-		it("should retrieve unreconciled transactions", async () => {
-			const response = await request
-				.get("/api/transaction/unreconciled")
-				.expect(200);
-
-			expect(response.body).to.have.property("success", true);
-			expect(response.body.data).to.have.property("totalUnreconciled");
-			expect(response.body.data).to.have.property("transactions");
-			expect(response.body.data).to.have.property("byPaymentMethod");
+		it("should retrieve unreconciled transactions", async function () {
+			this.timeout(TEST_TIMEOUT);
+			await createTransaction({ status: "COMPLETED" });
+			await createTransaction({ status: "PENDING" });
+
+			await transactionController.getUnreconciled(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
+			expect(sentData.data).to.have.property("totalUnreconciled", 1);
+			expect(sentData.data).to.have.property("transactions");
+			expect(sentData.data.byPaymentMethod).to.have.property("PAYROLL_DEDUCTION", 1);
 		});
 	});
 
 	describe("DELETE /api/transaction/:id", () => {
-		it("should delete a transaction", async () => {
-			// First, create a transaction
-			const newTransaction = {
-				transactionNumber: `TXN-TEST-DELETE-${Date.now()}`,
-				employeeId: "507f1f77bcf86cd799439011",
-				orderId: "507f1f77bcf86cd799439012",
-				type: "ADJUSTMENT",
-				amount: 100.00,
-				paymentMethod: "CASH",
-			};
-
-			const createResponse = await request
-				.post("/api/transaction")
-				.send(newTransaction)
-				.expect(201);
-
-			const transactionId = createResponse.body.data.id;
-
-			// Then delete it
-			const response = await request
-				.delete(`/api/transaction/${transactionId}`)
-				.expect(200);
+		it("should delete a transaction", async function () {
+			this.timeout(TEST_TIMEOUT);
+			const created = await createTransaction({ type: "ADJUSTMENT", paymentMethod: "CASH" });
 
-			expect(response.body).to.have.property("success", true);
+			req.params = { id: created.id };
+			await transactionController.remove(req as Request, res, next);
+			expect(statusCode).to.equal(200);
+			expect(sentData).to.have.property("status", "success");
 
-			// Verify it's deleted
-			await request
-				.get(`/api/transaction/${transactionId}`)
-				.expect(404);
+			await transactionController.getById(req as Request, res, next);
+			expect(statusCode).to.equal(404);
 		});
 	});
 });
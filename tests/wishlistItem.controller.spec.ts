@@ -58,6 +58,12 @@ describe("WishlistItem Controller", () => {
 		},
 	];
 
+	// Fields the create schema requires
+	const validFields = {
+		employeeId: "507f1f77bcf86cd799439011",
+		productId: "507f1f77bcf86cd799439013",
+	};
+
 	beforeEach(() => {
 		prisma = {
 			wishlistItem: {
@@ -136,77 +142,80 @@ describe("WishlistItem Controller", () => {
 	describe(".getAll()", () => {
 		it("should return paginated wishlistItems", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				count: "true",
+				page: "1",
+				limit: "10",
+			};
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData).to.have.property("data");
+			expect(sentData.data).to.have.property("wishlistItems").that.is.an("array");
+			expect(sentData.data).to.have.property("count");
+			expect(sentData.data).to.have.property("pagination");
 		});
 
 		it("should group wishlistItems by type field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
-			expect(sentData.data).to.have.property("totalGroups");
-			expect(sentData.data).to.have.property("totalItems");
-			expect(sentData.data.grouped).to.have.property("email");
-			expect(sentData.data.grouped).to.have.property("sms");
-			expect(sentData.data.grouped).to.have.property("unassigned");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.wishlistItems).to.have.property("email");
+			expect(sentData.data.wishlistItems).to.have.property("sms");
+			expect(sentData.data.wishlistItems).to.have.property("unassigned");
 		});
 
 		it("should group wishlistItems by name field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "name" };
+			req.query = { document: "true", groupBy: "name" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "name");
-			expect(sentData.data.grouped).to.have.property("User Registration WishlistItem");
-			expect(sentData.data.grouped).to.have.property("SMS Notification WishlistItem");
+			expect(sentData.data).to.have.property("groupedBy", "name");
+			expect(sentData.data.wishlistItems).to.have.property("User Registration WishlistItem");
+			expect(sentData.data.wishlistItems).to.have.property("SMS Notification WishlistItem");
 		});
 
 		it("should handle wishlistItems with null values in grouping field", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type" };
+			req.query = { document: "true", groupBy: "type" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
-			expect(sentData.data.grouped).to.have.property("unassigned");
-			expect(sentData.data.grouped.unassigned).to.be.an("array");
-			expect(sentData.data.grouped.unassigned.length).to.be.greaterThan(0);
+			expect(sentData.data.wishlistItems).to.have.property("unassigned");
+			expect(sentData.data.wishlistItems.unassigned).to.be.an("array");
+			expect(sentData.data.wishlistItems.unassigned.length).to.be.greaterThan(0);
 		});
 
 		it("should return normal response when groupBy is not provided", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
-			expect(sentData.data).to.not.have.property("grouped");
+			expect(sentData.data.wishlistItems).to.be.an("array");
+			expect(sentData.data).to.not.have.property("groupedBy");
 		});
 
 		it("should handle empty groupBy parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "" };
+			req.query = { document: "true", groupBy: "" };
 			await wishlistItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.be.an("array");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should combine grouping with other query parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { groupBy: "type", page: "1", limit: "10", sort: "name" };
+			req.query = { document: "true", groupBy: "type", page: "1", limit: "10", sort: "name" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
-			expect(sentData.data).to.have.property("grouped");
-			expect(sentData.data).to.have.property("groupBy", "type");
+			expect(sentData.data).to.have.property("groupedBy", "type");
+			expect(sentData.data.wishlistItems).to.have.property("email");
 		});
 
 		it("should handle query validation failure", async function () {
@@ -219,7 +228,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw an error
 			prisma.wishlistItem.findMany = async () => {
@@ -230,13 +239,13 @@ describe("WishlistItem Controller", () => {
 			};
 
 			await wishlistItemController.getAll(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "10" };
+			req.query = { document: "true", page: "1", limit: "10" };
 
 			// Mock Prisma to throw a non-Prisma error
 			prisma.wishlistItem.findMany = async () => {
@@ -251,10 +260,11 @@ describe("WishlistItem Controller", () => {
 		it("should handle advanced filtering", async function () {
 			this.timeout(TEST_TIMEOUT);
 			req.query = {
+				document: "true",
 				page: "1",
 				limit: "10",
 				query: "email",
-				filter: JSON.stringify([{ field: "type", operator: "equals", value: "email" }]),
+				filter: "type:email",
 			};
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
@@ -263,7 +273,14 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle pagination parameters", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "2", limit: "5", sort: "name", order: "asc" };
+			req.query = {
+				document: "true",
+				pagination: "true",
+				page: "2",
+				limit: "5",
+				sort: "name",
+				order: "asc",
+			};
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -271,7 +288,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle field selection", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { fields: "name,type" };
+			req.query = { document: "true", fields: "name,type" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -279,7 +296,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle documents parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { documents: "true" };
+			req.query = { document: "true" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -295,7 +312,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle pagination parameter", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { pagination: "true" };
+			req.query = { document: "true", pagination: "true" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -317,7 +334,7 @@ describe("WishlistItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await wishlistItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -327,7 +344,7 @@ describe("WishlistItem Controller", () => {
 			await wishlistItemController.getById(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -335,7 +352,7 @@ describe("WishlistItem Controller", () => {
 			req.params = { id: mockWishlistItem.id };
 
 			// Mock Prisma to throw an error
-			prisma.wishlistItem.findUnique = async () => {
+			prisma.wishlistItem.findFirst = async () => {
 				const error = new Error("Database connection failed") as any;
 				error.name = "PrismaClientKnownRequestError";
 				error.code = "P1001";
@@ -343,7 +360,7 @@ describe("WishlistItem Controller", () => {
 			};
 
 			await wishlistItemController.getById(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -352,7 +369,7 @@ describe("WishlistItem Controller", () => {
 			req.params = { id: mockWishlistItem.id };
 
 			// Mock Prisma to throw a non-Prisma error
-			prisma.wishlistItem.findUnique = async () => {
+			prisma.wishlistItem.findFirst = async () => {
 				throw new Error("Internal server error");
 			};
 
@@ -366,6 +383,7 @@ describe("WishlistItem Controller", () => {
 		it("should create a new wishlistItem", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Contact Form WishlistItem",
 				description: "WishlistItem for contact forms with validation",
 			};
@@ -380,6 +398,7 @@ describe("WishlistItem Controller", () => {
 		it("should create a new wishlistItem with type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Email WishlistItem",
 				description: "WishlistItem for email notifications",
 				type: "email",
@@ -396,6 +415,7 @@ describe("WishlistItem Controller", () => {
 		it("should create a new wishlistItem without type field", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Generic WishlistItem",
 				description: "WishlistItem without type",
 			};
@@ -410,6 +430,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle form data (multipart/form-data)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Form WishlistItem",
 				description: "WishlistItem from form data",
 				type: "form",
@@ -429,6 +450,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle form data (application/x-www-form-urlencoded)", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "URL WishlistItem",
 				description: "WishlistItem from URL encoded data",
 			};
@@ -459,6 +481,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle Prisma errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test WishlistItem",
 				description: "WishlistItem that will cause Prisma error",
 			};
@@ -473,13 +496,14 @@ describe("WishlistItem Controller", () => {
 			};
 
 			await wishlistItemController.create(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle internal errors", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Test WishlistItem",
 				description: "WishlistItem that will cause internal error",
 			};
@@ -509,7 +533,7 @@ describe("WishlistItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.wishlistItem).to.have.property("id");
 		});
 
 		it("should update wishlistItem type field", async function () {
@@ -523,7 +547,7 @@ describe("WishlistItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.wishlistItem).to.have.property("id");
 		});
 
 		it("should update multiple wishlistItem fields including type", async function () {
@@ -539,7 +563,7 @@ describe("WishlistItem Controller", () => {
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
 			expect(sentData).to.have.property("data");
-			expect(sentData.data).to.have.property("id");
+			expect(sentData.data.wishlistItem).to.have.property("id");
 		});
 
 		it("should handle form data (multipart/form-data)", async function () {
@@ -588,16 +612,13 @@ describe("WishlistItem Controller", () => {
 			req.params = { id: "invalid-id" };
 			req.body = updateData;
 			await wishlistItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle validation errors", async function () {
 			this.timeout(TEST_TIMEOUT);
-			const updateData = {
-				name: "",
-				description: "WishlistItem with empty name",
-			};
+			const updateData = { productId: "invalid-id" };
 			req.params = { id: mockWishlistItem.id };
 			req.body = updateData;
 			await wishlistItemController.update(req as Request, res, next);
@@ -615,7 +636,7 @@ describe("WishlistItem Controller", () => {
 			await wishlistItemController.update(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -636,7 +657,7 @@ describe("WishlistItem Controller", () => {
 			};
 
 			await wishlistItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -673,7 +694,7 @@ describe("WishlistItem Controller", () => {
 			this.timeout(TEST_TIMEOUT);
 			req.params = { id: "invalid-id" };
 			await wishlistItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -683,7 +704,7 @@ describe("WishlistItem Controller", () => {
 			await wishlistItemController.remove(req as Request, res, next);
 			expect(statusCode).to.equal(404);
 			expect(sentData).to.have.property("status", "error");
-			expect(sentData).to.have.property("code", "NOT_FOUND");
+			expect(sentData).to.have.property("code", 404);
 		});
 
 		it("should handle Prisma errors", async function () {
@@ -699,7 +720,7 @@ describe("WishlistItem Controller", () => {
 			};
 
 			await wishlistItemController.remove(req as Request, res, next);
-			expect(statusCode).to.equal(400);
+			expect(statusCode).to.equal(500);
 			expect(sentData).to.have.property("status", "error");
 		});
 
@@ -746,6 +767,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle very long wishlistItem name", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "A".repeat(1000), // Very long name
 				description: "WishlistItem with very long name",
 			};
@@ -758,6 +780,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle special characters in wishlistItem data", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "WishlistItem with special chars: !@#$%^&*()",
 				description: "Description with émojis 🚀 and unicode",
 				type: "special-type",
@@ -771,6 +794,7 @@ describe("WishlistItem Controller", () => {
 		it("should handle concurrent requests", async function () {
 			this.timeout(TEST_TIMEOUT);
 			const createData = {
+				...validFields,
 				name: "Concurrent WishlistItem",
 				description: "WishlistItem created concurrently",
 			};
@@ -799,7 +823,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle very large page numbers", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "999999", limit: "10" };
+			req.query = { document: "true", page: "999999", limit: "10" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -807,7 +831,7 @@ describe("WishlistItem Controller", () => {
 
 		it("should handle very large limit values", async function () {
 			this.timeout(TEST_TIMEOUT);
-			req.query = { page: "1", limit: "999999" };
+			req.query = { document: "true", page: "1", limit: "999999" };
 			await wishlistItemController.getAll(req as Request, res, next);
 			expect(statusCode).to.equal(200);
 			expect(sentData).to.have.property("status", "success");
@@ -850,8 +874,8 @@ describe("WishlistItem Controller", () => {
 			req.params = { id: mockWishlistItem.id };
 			req.body = {}; // Empty body
 			await wishlistItemController.update(req as Request, res, next);
-			expect(statusCode).to.equal(200);
-			expect(sentData).to.have.property("status", "success");
+			expect(statusCode).to.equal(400);
+			expect(sentData).to.have.property("status", "error");
 		});
 
 		it("should handle partial updates correctly", async function () {
@@ -0,0 +1,72 @@
+import { inflateRawSync } from "zlib";
+import { buildXlsx } from "../helper/xlsx.helper";
+import { expect } from "chai";
+
+describe("XLSX Helper", () => {
+	// Read the entries of the zip archive back through its local file headers
+	const unzip = (archive: Buffer) => {
+		const entries = new Map<string, string>();
+		let offset = 0;
+		while (archive.readUInt32LE(offset) === 0x04034b50) {
+			const compressedSize = archive.readUInt32LE(offset + 18);
+			const nameLength = archive.readUInt16LE(offset + 26);
+			const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+			const start = offset + 30 + nameLength;
+			entries.set(
+				name,
+				inflateRawSync(archive.subarray(start, start + compressedSize)).toString("utf8"),
+			);
+			offset = start + compressedSize;
+		}
+		return entries;
+	};
+
+	describe("buildXlsx()", () => {
+		it("should package a single worksheet workbook", function () {
+			const entries = unzip(buildXlsx("Deductions", [["Employee ID", "Amount"]]));
+
+			expect([...entries.keys()]).to.deep.equal([
+				"[Content_Types].xml",
+				"_rels/.rels",
+				"xl/workbook.xml",
+				"xl/_rels/workbook.xml.rels",
+				"xl/worksheets/sheet1.xml",
+			]);
+			expect(entries.get("xl/workbook.xml")).to.contain('<sheet name="Deductions"');
+		});
+
+		it("should write strings inline, numbers as values and skip empty cells", function () {
+			const sheet = unzip(
+				buildXlsx("Deductions", [
+					["Juan & Ana", 750.5, null, "", "<b>"],
+					[1, undefined, 2],
+				]),
+			).get("xl/worksheets/sheet1.xml")!;
+
+			expect(sheet).to.contain(
+				'<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">Juan &amp; Ana</t></is></c>' +
+					'<c r="B1"><v>750.5</v></c>' +
+					'<c r="E1" t="inlineStr"><is><t xml:space="preserve">&lt;b&gt;</t></is></c></row>',
+			);
+			expect(sheet).to.contain(
+				'<row r="2"><c r="A2"><v>1</v></c><c r="C2"><v>2</v></c></row>',
+			);
+		});
+
+		it("should name columns past Z with two letters", function () {
+			const row = Array.from({ length: 28 }, (_, i) => i);
+			const sheet = unzip(buildXlsx("Wide", [row])).get("xl/worksheets/sheet1.xml")!;
+
+			expect(sheet).to.contain('<c r="Z1"><v>25</v></c>');
+			expect(sheet).to.contain('<c r="AB1"><v>27</v></c>');
+		});
+
+		it("should strip characters Excel does not allow in sheet names", function () {
+			const workbook = unzip(buildXlsx("Batch [PAY/2026]: a very long sheet name", [])).get(
+				"xl/workbook.xml",
+			)!;
+			// 31 characters at most
+			expect(workbook).to.contain('<sheet name="Batch  PAY 2026   a very long s"');
+		});
+	});
+});
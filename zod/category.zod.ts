@@ -18,6 +18,7 @@ export const CategorySchema = z.object({
 	description: z.string().optional().nullable(),
 	parentId: z.string().optional().nullable(),
 	isActive: z.boolean().default(true),
+	taxClassId: z.string().optional().nullable(),
 	createdAt: z.coerce.date(),
 	updatedAt: z.coerce.date(),
 });
@@ -34,6 +35,7 @@ export const CreateCategorySchema = CategorySchema.omit({
 		description: true,
 		parentId: true,
 		isActive: true,
+		taxClassId: true,
 		slug: true, // Slug is optional, will be auto-generated from name if not provided
 	})
 	.refine(
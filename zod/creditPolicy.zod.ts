@@ -0,0 +1,74 @@
+import { z } from "zod";
+
+// Enums
+export const CreditPolicyScopeEnum = z.enum(["EMPLOYEE", "GRADE", "ORGANIZATION", "DEFAULT"]);
+
+export type CreditPolicyScope = z.infer<typeof CreditPolicyScopeEnum>;
+
+// Number schema helper
+const numberSchema = z
+	.union([z.string().regex(/^\d+\.?\d*$/, "Invalid number format"), z.number()])
+	.transform((val) => {
+		if (typeof val === "string") {
+			return parseFloat(val);
+		}
+		return val;
+	});
+
+// CreditPolicy Schema (full, including ID)
+export const CreditPolicySchema = z.object({
+	id: z.string(),
+	name: z.string().min(1, "Policy name is required"),
+	description: z.string().optional().nullable(),
+	isActive: z.boolean().default(true),
+	scope: CreditPolicyScopeEnum,
+	scopeValue: z.string().min(1).optional().nullable(),
+	maxOutstandingBalance: numberSchema.optional().nullable(),
+	maxDeductionPerCutoff: numberSchema.optional().nullable(),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type CreditPolicy = z.infer<typeof CreditPolicySchema>;
+
+// Every scope except DEFAULT needs the employee, grade or organization it applies to
+const requireScopeValue = (
+	data: { scope?: CreditPolicyScope; scopeValue?: string | null },
+	ctx: z.RefinementCtx,
+) => {
+	if (data.scope && data.scope !== "DEFAULT" && !data.scopeValue) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["scopeValue"],
+			message: `scopeValue is required for ${data.scope} policies`,
+		});
+	}
+};
+
+// Create CreditPolicy Schema (excluding ID, createdAt, updatedAt)
+export const CreateCreditPolicySchema = CreditPolicySchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial({
+		description: true,
+		isActive: true,
+		scopeValue: true,
+		maxOutstandingBalance: true,
+		maxDeductionPerCutoff: true,
+	})
+	.superRefine(requireScopeValue);
+
+export type CreateCreditPolicy = z.infer<typeof CreateCreditPolicySchema>;
+
+// Update CreditPolicy Schema (partial, excluding immutable fields)
+export const UpdateCreditPolicySchema = CreditPolicySchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial()
+	.superRefine(requireScopeValue);
+
+export type UpdateCreditPolicy = z.infer<typeof UpdateCreditPolicySchema>;
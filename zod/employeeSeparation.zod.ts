@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { isValidObjectId } from "mongoose";
+
+// Enums
+export const SeparationClearanceEnum = z.enum(["CLEARED", "RECEIVABLE"]);
+
+export type SeparationClearance = z.infer<typeof SeparationClearanceEnum>;
+
+// Separate an employee and settle their open balances from final pay
+export const CreateEmployeeSeparationSchema = z.object({
+	employeeId: z.string().refine((val) => isValidObjectId(val), {
+		message: "Invalid employeeId ObjectId format",
+	}),
+	lastWorkingDay: z.coerce.date({ message: "lastWorkingDay must be a valid date" }),
+	finalPayAmount: z.coerce.number().min(0, "finalPayAmount cannot be negative"),
+	reason: z.string().optional(),
+	processedBy: z.string().optional(),
+});
+
+export type CreateEmployeeSeparation = z.infer<typeof CreateEmployeeSeparationSchema>;
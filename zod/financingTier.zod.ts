@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { isValidObjectId } from "mongoose";
+
+// Enums
+export const FinancingMethodEnum = z.enum(["FLAT", "DIMINISHING"]);
+
+export type FinancingMethod = z.infer<typeof FinancingMethodEnum>;
+
+// Number schema helper
+const numberSchema = z
+	.union([z.string().regex(/^\d+\.?\d*$/, "Invalid number format"), z.number()])
+	.transform((val) => {
+		if (typeof val === "string") {
+			return parseFloat(val);
+		}
+		return val;
+	});
+
+// FinancingTier Schema (full, including ID)
+export const FinancingTierSchema = z.object({
+	id: z.string(),
+	name: z.string().min(1, "Tier name is required"),
+	description: z.string().optional().nullable(),
+	isActive: z.boolean().default(true),
+	minMonths: z.coerce.number().int().min(1, "minMonths must be at least 1"),
+	maxMonths: z.coerce.number().int().min(1, "maxMonths must be at least 1").optional().nullable(),
+	categoryId: z
+		.string()
+		.refine((val) => isValidObjectId(val), {
+			message: "Invalid categoryId ObjectId format",
+		})
+		.optional()
+		.nullable(),
+	annualRate: numberSchema.pipe(
+		z.number().min(0, "annualRate cannot be negative").max(1, "annualRate is a fraction of 1"),
+	),
+	method: FinancingMethodEnum.default("DIMINISHING"),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type FinancingTier = z.infer<typeof FinancingTierSchema>;
+
+// A term range cannot end before it starts
+const requireTermRange = (
+	data: { minMonths?: number; maxMonths?: number | null },
+	ctx: z.RefinementCtx,
+) => {
+	if (data.minMonths !== undefined && data.maxMonths != null && data.maxMonths < data.minMonths) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["maxMonths"],
+			message: "maxMonths cannot be less than minMonths",
+		});
+	}
+};
+
+// Create FinancingTier Schema (excluding ID, createdAt, updatedAt)
+export const CreateFinancingTierSchema = FinancingTierSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial({
+		description: true,
+		isActive: true,
+		maxMonths: true,
+		categoryId: true,
+		method: true,
+	})
+	.superRefine(requireTermRange);
+
+export type CreateFinancingTier = z.infer<typeof CreateFinancingTierSchema>;
+
+// Update FinancingTier Schema (partial, excluding immutable fields)
+export const UpdateFinancingTierSchema = FinancingTierSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial()
+	.superRefine(requireTermRange);
+
+export type UpdateFinancingTier = z.infer<typeof UpdateFinancingTierSchema>;
@@ -5,6 +5,8 @@ export const InstallmentStatusEnum = z.enum([
 	"PENDING",
 	"SCHEDULED",
 	"DEDUCTED",
+	"PARTIAL",
+	"PREPAID",
 	"FAILED",
 	"CANCELLED",
 	"REFUNDED",
@@ -25,12 +27,21 @@ export const InstallmentSchema = z.object({
 	}),
 	installmentNumber: z.number().int().min(1, "installmentNumber must be at least 1"),
 	amount: decimalSchema,
+	principalAmount: decimalSchema.optional().nullable(),
+	interestAmount: decimalSchema.optional().nullable(),
 	status: InstallmentStatusEnum.default("PENDING"),
 	cutOffDate: z.coerce.date(),
 	scheduledDate: z.coerce.date(),
 	deductedDate: z.coerce.date().optional().nullable(),
 	payrollBatchId: z.string().optional().nullable(),
 	deductionReference: z.string().optional().nullable(),
+	deductedAmount: decimalSchema.optional().nullable(),
+	failureReason: z.string().optional().nullable(),
+	carriedForwardAmount: decimalSchema.optional().nullable(),
+	arrearsAmount: decimalSchema.optional().nullable(),
+	lateFeeAmount: decimalSchema.optional().nullable(),
+	restructureId: z.string().optional().nullable(),
+	separationId: z.string().optional().nullable(),
 	notes: z.string().optional().nullable(),
 	createdAt: z.coerce.date(),
 	updatedAt: z.coerce.date(),
@@ -44,9 +55,18 @@ export const CreateInstallmentSchema = InstallmentSchema.omit({
 	createdAt: true,
 	updatedAt: true,
 }).partial({
+	principalAmount: true,
+	interestAmount: true,
 	deductedDate: true,
 	payrollBatchId: true,
 	deductionReference: true,
+	deductedAmount: true,
+	failureReason: true,
+	carriedForwardAmount: true,
+	arrearsAmount: true,
+	lateFeeAmount: true,
+	restructureId: true,
+	separationId: true,
 	notes: true,
 	status: true,
 });
@@ -61,3 +81,43 @@ export const UpdateInstallmentSchema = InstallmentSchema.omit({
 }).partial();
 
 export type UpdateInstallment = z.infer<typeof UpdateInstallmentSchema>;
+
+// Carry the unpaid part of a FAILED or PARTIAL installment forward (defaults to the configured policy)
+export const CarryForwardArrearsSchema = z.object({
+	policy: z.enum(["CARRY_FORWARD", "SPREAD"]).optional(),
+});
+
+export type CarryForwardArrears = z.infer<typeof CarryForwardArrearsSchema>;
+
+// Quote one or more installment terms for a cart or a list of products, without ordering
+const quoteMonthsSchema = z.coerce.number().int().min(1, "installmentMonths must be at least 1");
+
+export const InstallmentQuoteSchema = z
+	.object({
+		employeeId: z.string().min(1).optional().nullable(),
+		items: z
+			.array(
+				z.object({
+					productId: z.string().refine((val) => isValidObjectId(val), {
+						message: "Invalid productId ObjectId format",
+					}),
+					quantity: z.coerce.number().int().min(1, "quantity must be at least 1"),
+				}),
+			)
+			.min(1, "items cannot be empty")
+			.optional()
+			.nullable(),
+		// One term, or several to compare side by side
+		installmentMonths: z
+			.union([quoteMonthsSchema, z.array(quoteMonthsSchema).min(1).max(12)])
+			.transform((val) => (Array.isArray(val) ? val : [val])),
+		couponCode: z.string().trim().min(1).optional().nullable(),
+		pointsUsed: z.number().min(0).optional().nullable(),
+		organizationId: z.string().min(1).optional().nullable(),
+	})
+	.refine((data) => Boolean(data.items?.length || data.employeeId), {
+		message: "Provide items or the employeeId whose cart to quote",
+		path: ["items"],
+	});
+
+export type InstallmentQuote = z.infer<typeof InstallmentQuoteSchema>;
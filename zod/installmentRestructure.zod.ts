@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { isValidObjectId } from "mongoose";
+import { config } from "../config/constant";
+
+// Enums
+export const InstallmentRestructureStatusEnum = z.enum([
+	"PENDING_APPROVAL",
+	"APPROVED",
+	"REJECTED",
+]);
+
+export type InstallmentRestructureStatus = z.infer<typeof InstallmentRestructureStatusEnum>;
+
+const { MAX_INSTALLMENT_MONTHS, MAX_PAUSE_CUTOFFS } = config.INSTALLMENTS.RESTRUCTURE;
+
+// New terms for the remaining balance: a new plan length, a pause, or both
+const RestructureTermsSchema = z.object({
+	orderId: z.string().refine((val) => isValidObjectId(val), {
+		message: "Invalid orderId ObjectId format",
+	}),
+	installmentMonths: z.coerce
+		.number()
+		.int()
+		.min(1, "installmentMonths must be at least 1")
+		.max(MAX_INSTALLMENT_MONTHS, `installmentMonths must be at most ${MAX_INSTALLMENT_MONTHS}`)
+		.optional(),
+	pauseCutoffs: z.coerce
+		.number()
+		.int()
+		.min(0, "pauseCutoffs cannot be negative")
+		.max(MAX_PAUSE_CUTOFFS, `pauseCutoffs must be at most ${MAX_PAUSE_CUTOFFS}`)
+		.optional(),
+});
+
+const requestsAChange = (terms: { installmentMonths?: number; pauseCutoffs?: number }) =>
+	terms.installmentMonths !== undefined || (terms.pauseCutoffs ?? 0) > 0;
+
+const CHANGE_REQUIRED = {
+	message: "Provide installmentMonths or pauseCutoffs",
+	path: ["installmentMonths"],
+};
+
+// Preview the schedule a restructure would produce
+export const PreviewInstallmentRestructureSchema = RestructureTermsSchema.refine(
+	requestsAChange,
+	CHANGE_REQUIRED,
+);
+
+export type PreviewInstallmentRestructure = z.infer<typeof PreviewInstallmentRestructureSchema>;
+
+// Request a restructure (sent for approval)
+export const CreateInstallmentRestructureSchema = RestructureTermsSchema.extend({
+	reason: z.string().min(1, "Restructure reason is required"),
+	requestedBy: z.string().optional(),
+}).refine(requestsAChange, CHANGE_REQUIRED);
+
+export type CreateInstallmentRestructure = z.infer<typeof CreateInstallmentRestructureSchema>;
+
+// Approve a restructure at its current level
+export const ApproveInstallmentRestructureSchema = z.object({
+	decidedBy: z.string().optional(),
+	comments: z.string().optional(),
+});
+
+export type ApproveInstallmentRestructure = z.infer<typeof ApproveInstallmentRestructureSchema>;
+
+// Reject a restructure
+export const RejectInstallmentRestructureSchema = z.object({
+	decidedBy: z.string().optional(),
+	comments: z.string().min(1, "Rejection reason is required"),
+});
+
+export type RejectInstallmentRestructure = z.infer<typeof RejectInstallmentRestructureSchema>;
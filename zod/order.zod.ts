@@ -81,29 +81,85 @@ export const OrderSchema = z.object({
 
 export type Order = z.infer<typeof OrderSchema>;
 
-// Create Order Schema (excluding ID, createdAt, updatedAt)
+// Line item for creating an order; price and tax come from the product
+export const OrderLineInputSchema = z.object({
+	productId: z.string().refine((val) => isValidObjectId(val), {
+		message: "Invalid productId ObjectId format",
+	}),
+	quantity: z.number().int().positive("Quantity must be positive"),
+	discount: decimalSchema.optional(),
+});
+
+export type OrderLineInput = z.infer<typeof OrderLineInputSchema>;
+
+// One part of a MIXED payment. Points are spent from the wallet, cash is collected with the
+// given method and the installment part is financed through payroll deduction.
+export const TenderInputSchema = z.object({
+	type: z.enum(["POINTS", "CASH", "INSTALLMENT"]),
+	amount: z.number().positive("Tender amount must be positive"),
+	paymentMethod: z
+		.enum(["CASH", "CREDIT_CARD", "DEBIT_CARD", "BANK_TRANSFER", "OTHER"])
+		.optional(),
+	installmentMonths: z.number().int().min(1).optional(),
+});
+
+export type TenderInput = z.infer<typeof TenderInputSchema>;
+
+export const TendersSchema = z
+	.array(TenderInputSchema)
+	.min(2, "A MIXED payment needs at least two tenders")
+	.superRefine((tenders, ctx) => {
+		tenders.forEach((tender, index) => {
+			if (tenders.findIndex((t) => t.type === tender.type) !== index) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [index, "type"],
+					message: `Only one ${tender.type} tender is allowed`,
+				});
+			}
+			if (tender.type === "INSTALLMENT" && !tender.installmentMonths) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [index, "installmentMonths"],
+					message: "installmentMonths is required for the INSTALLMENT tender",
+				});
+			}
+		});
+	});
+
+// Create Order Schema (excluding ID, createdAt, updatedAt, the lifecycle fields and the amounts).
+// Every order starts PENDING_APPROVAL; status and its dates only change through the lifecycle
+// endpoints. Orders are placed with their lines, from which subtotal, tax and total are
+// computed server-side.
 export const CreateOrderSchema = OrderSchema.omit({
 	id: true,
 	createdAt: true,
 	updatedAt: true,
-}).partial({
 	status: true,
-	discount: true,
-	tax: true,
-	paymentType: true,
-	installmentMonths: true,
-	installmentCount: true,
-	installmentAmount: true,
-	pointsUsed: true,
-	trackingNumber: true,
-	paymentMethod: true,
 	paymentStatus: true,
-	orderDate: true,
 	shippedDate: true,
 	deliveredDate: true,
 	cancelledDate: true,
-	notes: true,
-});
+	subtotal: true,
+	tax: true,
+	total: true,
+})
+	.extend({
+		items: z.array(OrderLineInputSchema).min(1),
+	})
+	.partial({
+		orderNumber: true,
+		discount: true,
+		paymentType: true,
+		installmentMonths: true,
+		installmentCount: true,
+		installmentAmount: true,
+		pointsUsed: true,
+		trackingNumber: true,
+		paymentMethod: true,
+		orderDate: true,
+		notes: true,
+	});
 
 export type CreateOrder = z.infer<typeof CreateOrderSchema>;
 
@@ -115,3 +171,51 @@ export const UpdateOrderSchema = OrderSchema.omit({
 }).partial();
 
 export type UpdateOrder = z.infer<typeof UpdateOrderSchema>;
+
+// Order status transition request (process, ship, deliver, cancel); the authenticated user is
+// recorded as the actor
+export const OrderTransitionSchema = z.object({
+	reason: z.string().optional(),
+	trackingNumber: z.string().optional(),
+});
+
+export type OrderTransition = z.infer<typeof OrderTransitionSchema>;
+
+// Amendment of a PENDING_APPROVAL order: the new quantity for each line to change.
+// A quantity of 0 drops the line; lines not listed are left as they are.
+export const AmendOrderSchema = z.object({
+	items: z
+		.array(
+			z.object({
+				productId: z.string().refine((val) => isValidObjectId(val), {
+					message: "Invalid productId ObjectId format",
+				}),
+				quantity: z.number().int().min(0),
+			}),
+		)
+		.min(1)
+		.refine((items) => new Set(items.map((item) => item.productId)).size === items.length, {
+			message: "Each product can only be listed once",
+		}),
+	reason: z.string().optional(),
+});
+
+export type AmendOrder = z.infer<typeof AmendOrderSchema>;
+
+// Early payment of an installment order, either towards the remaining balance (the whole
+// balance when amount is left out) or covering the next installmentCount installments
+export const PrepayOrderSchema = z
+	.object({
+		applyTo: z.enum(["REMAINING_BALANCE", "NEXT_INSTALLMENTS"]),
+		amount: z.number().positive().optional(),
+		installmentCount: z.number().int().min(1).optional(),
+		paymentMethod: z.enum(["CASH", "BANK_TRANSFER"]),
+		reference: z.string().min(1).optional(),
+		notes: z.string().optional(),
+	})
+	.refine((data) => data.applyTo !== "NEXT_INSTALLMENTS" || data.installmentCount !== undefined, {
+		message: "installmentCount is required when applying to the next installments",
+		path: ["installmentCount"],
+	});
+
+export type PrepayOrder = z.infer<typeof PrepayOrderSchema>;
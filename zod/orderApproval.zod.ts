@@ -16,6 +16,7 @@ export const ApprovalStatusEnum = z.enum([
 	"REJECTED",
 	"EXPIRED",
 	"SKIPPED",
+	"SUPERSEDED",
 ]);
 
 export type ApproverRole = z.infer<typeof ApproverRoleEnum>;
@@ -27,6 +28,7 @@ export const OrderApprovalSchema = z.object({
 	orderId: z.string().refine((val) => isValidObjectId(val), {
 		message: "Invalid orderId ObjectId format",
 	}),
+	approvalRound: z.number().int().positive("Approval round must be positive").default(1),
 	approvalLevel: z.number().int().positive("Approval level must be positive"),
 	approverRole: ApproverRoleEnum,
 	approverId: z.string().min(1, "Approver ID is required"),
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+// Enums
+export const PayrollBatchStatusEnum = z.enum(["DRAFT", "EXPORTED", "RECONCILED"]);
+
+export type PayrollBatchStatus = z.infer<typeof PayrollBatchStatusEnum>;
+
+export const PayrollExportFormatEnum = z.enum(["CSV", "XLSX", "FIXED_WIDTH"]);
+
+export type PayrollExportFormat = z.infer<typeof PayrollExportFormatEnum>;
+
+// Create PayrollBatch Schema: the batch content is taken from the installments due by the cutoff
+export const CreatePayrollBatchSchema = z.object({
+	cutOffDate: z.coerce.date(),
+	payrollCalendarId: z.string().min(1).optional().nullable(),
+	// Largest deduction per employee; left out = the configured cap, null = no cap
+	deductionCap: z.number().positive("deductionCap must be positive").optional().nullable(),
+	notes: z.string().optional().nullable(),
+	createdBy: z.string().optional().nullable(),
+});
+
+export type CreatePayrollBatch = z.infer<typeof CreatePayrollBatchSchema>;
+
+// Export a PayrollBatch as a deduction file
+export const ExportPayrollBatchSchema = z.object({
+	format: z
+		.string()
+		.transform((value) => value.toUpperCase().replace(/-/g, "_"))
+		.pipe(PayrollExportFormatEnum)
+		.default("CSV"),
+	exportedBy: z.string().optional(),
+});
+
+export type ExportPayrollBatch = z.infer<typeof ExportPayrollBatchSchema>;
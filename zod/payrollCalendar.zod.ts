@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+// Enums
+export const PayrollFrequencyEnum = z.enum(["WEEKLY", "BI_WEEKLY", "SEMI_MONTHLY", "MONTHLY"]);
+
+export type PayrollFrequency = z.infer<typeof PayrollFrequencyEnum>;
+
+export const HolidayShiftEnum = z.enum(["PREVIOUS_WORKING_DAY", "NEXT_WORKING_DAY"]);
+
+export type HolidayShift = z.infer<typeof HolidayShiftEnum>;
+
+// Calendar dates are kept as YYYY-MM-DD so they do not move with the server timezone
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the YYYY-MM-DD format");
+
+const weekdaySchema = z.number().int().min(0).max(6);
+
+const dayOfMonthSchema = z.number().int().min(1).max(31);
+
+// PayrollCalendar Schema (full, including ID)
+export const PayrollCalendarSchema = z.object({
+	id: z.string(),
+	name: z.string().min(1, "Calendar name is required"),
+	description: z.string().optional().nullable(),
+	isActive: z.boolean().default(true),
+	organizationId: z.string().min(1).optional().nullable(),
+	frequency: PayrollFrequencyEnum,
+	cutoffWeekday: weekdaySchema.optional().nullable(),
+	anchorDate: calendarDateSchema.optional().nullable(),
+	firstCutoffDay: dayOfMonthSchema.optional().nullable(),
+	secondCutoffDay: dayOfMonthSchema.optional().nullable(),
+	monthlyCutoffDay: dayOfMonthSchema.optional().nullable(),
+	payDateOffsetDays: z.number().int().min(0).max(31).default(5),
+	nonWorkingWeekdays: z.array(weekdaySchema).max(6, "At least one day must be a working day"),
+	holidays: z.array(calendarDateSchema),
+	holidayShift: HolidayShiftEnum.default("PREVIOUS_WORKING_DAY"),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type PayrollCalendar = z.infer<typeof PayrollCalendarSchema>;
+
+// Cutoff rules each frequency depends on
+const checkCutoffRules = (
+	data: {
+		frequency?: PayrollFrequency;
+		anchorDate?: string | null;
+		firstCutoffDay?: number | null;
+		secondCutoffDay?: number | null;
+		nonWorkingWeekdays?: number[];
+	},
+	ctx: z.RefinementCtx,
+) => {
+	if (data.frequency === "BI_WEEKLY" && !data.anchorDate) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["anchorDate"],
+			message: "anchorDate is required for BI_WEEKLY calendars",
+		});
+	}
+
+	if (
+		data.firstCutoffDay &&
+		data.secondCutoffDay &&
+		data.firstCutoffDay >= data.secondCutoffDay
+	) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["secondCutoffDay"],
+			message: "secondCutoffDay must come after firstCutoffDay",
+		});
+	}
+
+	if (data.nonWorkingWeekdays && new Set(data.nonWorkingWeekdays).size >= 7) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["nonWorkingWeekdays"],
+			message: "At least one day must be a working day",
+		});
+	}
+};
+
+// Create PayrollCalendar Schema (excluding ID, createdAt, updatedAt)
+export const CreatePayrollCalendarSchema = PayrollCalendarSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial({
+		description: true,
+		isActive: true,
+		organizationId: true,
+		cutoffWeekday: true,
+		anchorDate: true,
+		firstCutoffDay: true,
+		secondCutoffDay: true,
+		monthlyCutoffDay: true,
+		payDateOffsetDays: true,
+		nonWorkingWeekdays: true,
+		holidays: true,
+		holidayShift: true,
+	})
+	.superRefine(checkCutoffRules);
+
+export type CreatePayrollCalendar = z.infer<typeof CreatePayrollCalendarSchema>;
+
+// Update PayrollCalendar Schema (partial, excluding immutable fields)
+export const UpdatePayrollCalendarSchema = PayrollCalendarSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial()
+	.superRefine(checkCutoffRules);
+
+export type UpdatePayrollCalendar = z.infer<typeof UpdatePayrollCalendarSchema>;
+
+// Upcoming cutoffs and pay dates of a calendar
+export const PayrollCalendarPreviewSchema = z.object({
+	startDate: z.coerce.date().optional(),
+	months: z.coerce.number().int().min(1).max(60).default(3),
+});
+
+export type PayrollCalendarPreview = z.infer<typeof PayrollCalendarPreviewSchema>;
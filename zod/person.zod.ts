@@ -97,6 +97,7 @@ export type Metadata = z.infer<typeof MetadataSchema>;
 export const PersonSchema = z.object({
 	id: z.string().refine((val) => isValidObjectId(val)),
 	organizationId: z.string().refine((val) => isValidObjectId(val)).optional(),
+	employeeGrade: z.string().min(1).optional().nullable(),
 	personalInfo: PersonalInfoSchema.optional(),
 	contactInfo: ContactInfoSchema,
 	identification: IdentificationSchema.optional(),
@@ -115,6 +116,7 @@ export const CreatePersonSchema = PersonSchema.omit({
 	updatedAt: true,
 }).partial({
 	organizationId: true,
+	employeeGrade: true,
 	personalInfo: true,
 	identification: true,
 	metadata: true,
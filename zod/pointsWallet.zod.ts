@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// Enums
+export const PointsEntryTypeEnum = z.enum(["GRANT", "EARN", "REDEEM", "EXPIRE", "REVERSAL"]);
+
+export type PointsEntryType = z.infer<typeof PointsEntryTypeEnum>;
+
+// PointsWallet Schema (full, including ID)
+export const PointsWalletSchema = z.object({
+	id: z.string(),
+	employeeId: z.string(),
+	balance: z.number(),
+	lifetimeEarned: z.number(),
+	lifetimeRedeemed: z.number(),
+	lifetimeExpired: z.number(),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type PointsWallet = z.infer<typeof PointsWalletSchema>;
+
+// PointsLedgerEntry Schema (entries are never updated)
+export const PointsLedgerEntrySchema = z.object({
+	id: z.string(),
+	walletId: z.string(),
+	employeeId: z.string(),
+	type: PointsEntryTypeEnum,
+	points: z.number(),
+	balanceAfter: z.number(),
+	orderId: z.string().optional().nullable(),
+	reversedEntryId: z.string().optional().nullable(),
+	grantBatchId: z.string().optional().nullable(),
+	expiresAt: z.coerce.date().optional().nullable(),
+	reason: z.string().optional().nullable(),
+	createdBy: z.string().optional().nullable(),
+	createdAt: z.coerce.date(),
+});
+
+export type PointsLedgerEntry = z.infer<typeof PointsLedgerEntrySchema>;
+
+// One row of an HR grant
+export const PointsGrantSchema = z.object({
+	employeeId: z.string().min(1, "Employee ID is required"),
+	points: z.number().positive("Points must be positive"),
+	reason: z.string().optional().nullable(),
+	// null = never expires; omitted = configured expiry
+	expiresAt: z.coerce.date().optional().nullable(),
+});
+
+export type PointsGrant = z.infer<typeof PointsGrantSchema>;
+
+// Bulk grant; the batch reason and expiry apply to rows that do not set their own
+export const BulkPointsGrantSchema = z.object({
+	grants: z.array(PointsGrantSchema).min(1, "At least one grant is required"),
+	reason: z.string().min(1, "Reason is required"),
+	expiresAt: z.coerce.date().optional().nullable(),
+	grantedBy: z.string().optional(),
+});
+
+export type BulkPointsGrant = z.infer<typeof BulkPointsGrantSchema>;
+
+export const ReversePointsEntrySchema = z.object({
+	reason: z.string().min(1, "Reason is required"),
+	reversedBy: z.string().optional(),
+});
+
+export type ReversePointsEntry = z.infer<typeof ReversePointsEntrySchema>;
+
+export const ExpirePointsSchema = z.object({
+	asOf: z.coerce.date().optional(),
+});
+
+export type ExpirePoints = z.infer<typeof ExpirePointsSchema>;
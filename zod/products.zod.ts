@@ -17,6 +17,10 @@ export const ProductImageTypeEnum = z.enum([
 
 export type ProductImageType = z.infer<typeof ProductImageTypeEnum>;
 
+export const BackorderModeEnum = z.enum(["NONE", "BACKORDER", "PREORDER"]);
+
+export type BackorderMode = z.infer<typeof BackorderModeEnum>;
+
 // ProductImage schema - Keep same format (url, type, name)
 export const ProductImageSchema = z.object({
 	name: z.string().optional().nullable(),
@@ -51,6 +55,13 @@ export const ProductSchema = z.object({
 	vendorId: z.string().refine((val) => isValidObjectId(val), {
 		message: "Invalid vendorId ObjectId format",
 	}),
+	taxClassId: z
+		.string()
+		.refine((val) => isValidObjectId(val), {
+			message: "Invalid taxClassId ObjectId format",
+		})
+		.optional()
+		.nullable(),
 
 	// Pricing
 	retailPrice: decimalSchema,
@@ -60,6 +71,9 @@ export const ProductSchema = z.object({
 	// Inventory
 	stockQuantity: z.number().int().min(0).default(0),
 	lowStockThreshold: z.number().int().min(0).default(10),
+	backorderMode: BackorderModeEnum.default("NONE"),
+	maxBackorderQuantity: z.number().int().min(1).optional().nullable(),
+	availableFrom: z.coerce.date().optional().nullable(),
 
 	// Product details
 	imageUrl: z.string().url().optional().nullable(),
@@ -85,12 +99,14 @@ export const CreateProductSchema = ProductSchema.omit({
 	updatedAt: true,
 }).partial({
 	description: true,
+	taxClassId: true,
 	costPrice: true,
 	imageUrl: true,
 	images: true,
 	specifications: true,
 	stockQuantity: true,
 	lowStockThreshold: true,
+	backorderMode: true,
 	isActive: true,
 	isFeatured: true,
 	isAvailable: true,
@@ -106,3 +122,12 @@ export const UpdateProductSchema = ProductSchema.omit({
 }).partial();
 
 export type UpdateProduct = z.infer<typeof UpdateProductSchema>;
+
+// Incoming stock for a product; it is allocated to the backorder queue first
+export const ReceiveStockSchema = z.object({
+	quantity: z.number().int().min(1),
+	reference: z.string().min(1).optional(), // Delivery note or purchase order number
+	receivedBy: z.string().min(1).optional(),
+});
+
+export type ReceiveStock = z.infer<typeof ReceiveStockSchema>;
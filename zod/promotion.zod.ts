@@ -0,0 +1,129 @@
+import { z } from "zod";
+
+// Enums
+export const PromotionDiscountTypeEnum = z.enum(["PERCENTAGE", "FIXED"]);
+export const PromotionScopeEnum = z.enum(["ORDER", "CATEGORY", "VENDOR", "PRODUCT"]);
+export const PromotionRedemptionStatusEnum = z.enum(["APPLIED", "RELEASED"]);
+
+export type PromotionDiscountType = z.infer<typeof PromotionDiscountTypeEnum>;
+export type PromotionScope = z.infer<typeof PromotionScopeEnum>;
+export type PromotionRedemptionStatus = z.infer<typeof PromotionRedemptionStatusEnum>;
+
+// Number schema helper
+const numberSchema = z
+	.union([z.string().regex(/^\d+\.?\d*$/, "Invalid number format"), z.number()])
+	.transform((val) => {
+		if (typeof val === "string") {
+			return parseFloat(val);
+		}
+		return val;
+	});
+
+// Coupon codes are matched case-insensitively and stored uppercase
+export const CouponCodeSchema = z
+	.string()
+	.trim()
+	.min(1, "Coupon code is required")
+	.transform((val) => val.toUpperCase());
+
+// Promotion Schema (full, including ID)
+export const PromotionSchema = z.object({
+	id: z.string(),
+	code: CouponCodeSchema,
+	name: z.string().min(1, "Promotion name is required"),
+	description: z.string().optional().nullable(),
+	isActive: z.boolean().default(true),
+	discountType: PromotionDiscountTypeEnum,
+	discountValue: numberSchema.pipe(z.number().positive("Discount value must be positive")),
+	maxDiscountAmount: numberSchema.optional().nullable(),
+	scope: PromotionScopeEnum.default("ORDER"),
+	scopeIds: z.array(z.string()).default([]),
+	minSpend: numberSchema.optional().nullable(),
+	usageLimit: z.number().int().min(1).optional().nullable(),
+	usageLimitPerEmployee: z.number().int().min(1).optional().nullable(),
+	usageCount: z.number().int().min(0).default(0),
+	startsAt: z.coerce.date().optional().nullable(),
+	endsAt: z.coerce.date().optional().nullable(),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type Promotion = z.infer<typeof PromotionSchema>;
+
+// Percentages are fractions, scoped promotions name what they apply to and windows run forwards
+const validatePromotionRules = (
+	data: {
+		discountType?: PromotionDiscountType;
+		discountValue?: number;
+		scope?: PromotionScope;
+		scopeIds?: string[];
+		startsAt?: Date | null;
+		endsAt?: Date | null;
+	},
+	ctx: z.RefinementCtx,
+) => {
+	if (data.discountType === "PERCENTAGE" && data.discountValue && data.discountValue > 1) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["discountValue"],
+			message: "Percentage discounts are fractions, e.g. 0.1 for 10%",
+		});
+	}
+	if (data.scope && data.scope !== "ORDER" && (!data.scopeIds || data.scopeIds.length === 0)) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["scopeIds"],
+			message: `scopeIds is required for ${data.scope} promotions`,
+		});
+	}
+	if (data.startsAt && data.endsAt && data.endsAt <= data.startsAt) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["endsAt"],
+			message: "endsAt must be after startsAt",
+		});
+	}
+};
+
+// Create Promotion Schema (excluding ID, usage counter, createdAt, updatedAt)
+export const CreatePromotionSchema = PromotionSchema.omit({
+	id: true,
+	usageCount: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial({
+		description: true,
+		isActive: true,
+		maxDiscountAmount: true,
+		scope: true,
+		scopeIds: true,
+		minSpend: true,
+		usageLimit: true,
+		usageLimitPerEmployee: true,
+		startsAt: true,
+		endsAt: true,
+	})
+	.superRefine(validatePromotionRules);
+
+export type CreatePromotion = z.infer<typeof CreatePromotionSchema>;
+
+// Update Promotion Schema (partial, excluding immutable fields)
+export const UpdatePromotionSchema = PromotionSchema.omit({
+	id: true,
+	usageCount: true,
+	createdAt: true,
+	updatedAt: true,
+})
+	.partial()
+	.superRefine(validatePromotionRules);
+
+export type UpdatePromotion = z.infer<typeof UpdatePromotionSchema>;
+
+// Check a coupon against an employee's current cart
+export const ValidateCouponSchema = z.object({
+	code: CouponCodeSchema,
+	employeeId: z.string().min(1, "Employee ID is required"),
+});
+
+export type ValidateCoupon = z.infer<typeof ValidateCouponSchema>;
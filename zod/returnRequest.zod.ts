@@ -0,0 +1,46 @@
+import { z } from "zod";
+import { isValidObjectId } from "mongoose";
+
+// Enums
+export const ReturnStatusEnum = z.enum(["REQUESTED", "APPROVED", "REJECTED", "RECEIVED"]);
+
+export type ReturnStatus = z.infer<typeof ReturnStatusEnum>;
+
+// Line requested for return
+export const ReturnLineInputSchema = z.object({
+	orderItemId: z.string().refine((val) => isValidObjectId(val), {
+		message: "Invalid orderItemId ObjectId format",
+	}),
+	quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+});
+
+export type ReturnLineInput = z.infer<typeof ReturnLineInputSchema>;
+
+// Create ReturnRequest Schema (employee request)
+export const CreateReturnRequestSchema = z.object({
+	orderId: z.string().refine((val) => isValidObjectId(val), {
+		message: "Invalid orderId ObjectId format",
+	}),
+	items: z.array(ReturnLineInputSchema).min(1, "At least one item is required"),
+	reason: z.string().min(1, "Return reason is required"),
+	requestedBy: z.string().optional(),
+	notes: z.string().optional(),
+});
+
+export type CreateReturnRequest = z.infer<typeof CreateReturnRequestSchema>;
+
+// Approve / receive a return (admin)
+export const ProcessReturnRequestSchema = z.object({
+	processedBy: z.string().optional(),
+	notes: z.string().optional(),
+});
+
+export type ProcessReturnRequest = z.infer<typeof ProcessReturnRequestSchema>;
+
+// Reject a return (admin)
+export const RejectReturnRequestSchema = z.object({
+	processedBy: z.string().optional(),
+	reason: z.string().min(1, "Rejection reason is required"),
+});
+
+export type RejectReturnRequest = z.infer<typeof RejectReturnRequestSchema>;
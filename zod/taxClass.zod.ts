@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// Number schema helper
+const numberSchema = z
+	.union([z.string().regex(/^\d+\.?\d*$/, "Invalid number format"), z.number()])
+	.transform((val) => {
+		if (typeof val === "string") {
+			return parseFloat(val);
+		}
+		return val;
+	});
+
+// TaxClass Schema (full, including ID)
+export const TaxClassSchema = z.object({
+	id: z.string(),
+	code: z
+		.string()
+		.min(1, "Tax class code is required")
+		.transform((val) => val.trim().toUpperCase()),
+	name: z.string().min(1, "Tax class name is required"),
+	description: z.string().optional().nullable(),
+	rate: numberSchema.pipe(z.number().min(0).max(1, "Rate is a fraction, e.g. 0.12 for 12%")),
+	isExempt: z.boolean().default(false),
+	isActive: z.boolean().default(true),
+	createdAt: z.coerce.date(),
+	updatedAt: z.coerce.date(),
+});
+
+export type TaxClass = z.infer<typeof TaxClassSchema>;
+
+// Create TaxClass Schema (excluding ID, createdAt, updatedAt)
+export const CreateTaxClassSchema = TaxClassSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+}).partial({
+	description: true,
+	isExempt: true,
+	isActive: true,
+});
+
+export type CreateTaxClass = z.infer<typeof CreateTaxClassSchema>;
+
+// Update TaxClass Schema (partial, excluding immutable fields)
+export const UpdateTaxClassSchema = TaxClassSchema.omit({
+	id: true,
+	createdAt: true,
+	updatedAt: true,
+}).partial();
+
+export type UpdateTaxClass = z.infer<typeof UpdateTaxClassSchema>;
+
+// Tax summary report query
+export const TaxSummaryQuerySchema = z.object({
+	from: z.coerce.date(),
+	to: z.coerce.date(),
+	period: z.enum(["DAY", "MONTH", "YEAR"]).default("MONTH"),
+});
+
+export type TaxSummaryQuery = z.infer<typeof TaxSummaryQuerySchema>;
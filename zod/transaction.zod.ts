@@ -62,6 +62,8 @@ export const TransactionSchema = z.object({
 	totalAmount: decimalSchema,
 	paidAmount: decimalSchema.default(0),
 	balance: decimalSchema,
+	interestAmount: decimalSchema.optional().nullable(),
+	interestPaid: decimalSchema.optional().nullable(),
 	paymentMethod: PaymentMethodEnum,
 	paymentHistory: z.array(z.record(z.any())).optional().nullable(),
 	pointsUsed: decimalSchema.optional().nullable(),
@@ -87,6 +89,8 @@ export const CreateTransactionSchema = TransactionSchema.omit({
 }).partial({
 	status: true,
 	paidAmount: true,
+	interestAmount: true,
+	interestPaid: true,
 	paymentHistory: true,
 	pointsUsed: true,
 	pointsTransactionId: true,